@@ -46,6 +46,7 @@ import PatientAccess from "@/pages/patient-access";
 import AssessmentHistory from "@/pages/assessment-history";
 import DashAssessmentPage from "@/pages/dash-assessment-page";
 import DashResults from "@/pages/dash-results";
+import QuestionnairePage from "@/pages/questionnaire-page";
 import ClinicalLayout from "@/components/clinical-layout";
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
@@ -74,6 +75,7 @@ function LegacyRoutes() {
       <Route path="/assessment/:id/video/:code" component={VideoInstruction} />
       <Route path="/assessment/:id/record" component={Recording} />
       <Route path="/assessment/:id/record/:code" component={Recording} />
+      <Route path="/assessment/:id/reference/:code" component={Recording} />
       <Route path="/assessment-results/:code/:userAssessmentId" component={AssessmentResults} />
       <Route path="/wrist-results/:userCode/:userAssessmentId" component={WristResults} />
       <Route path="/wrist-deviation-results/:userCode/:userAssessmentId" component={WristDeviationResults} />
@@ -109,6 +111,7 @@ function Router() {
       <Route path="/patient/:code/progress" component={() => <ProgressCharts />} />
       <Route path="/patient/:code/dash-assessment" component={() => <DashAssessmentPage />} />
       <Route path="/patient/:userCode/dash-results/:assessmentId" component={() => <DashResults />} />
+      <Route path="/patient/:code/questionnaires/:questionnaireId" component={() => <QuestionnairePage />} />
       <Route path="/patient/:code" component={() => <PatientDailyDashboard />} />
       <Route path="/assessment-list/:userCode" component={() => <PatientDailyDashboard />} />
       <Route path="/assessment-history/:userCode" component={() => <AssessmentHistory />} />
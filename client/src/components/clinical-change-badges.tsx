@@ -0,0 +1,65 @@
+import { Badge } from "@/components/ui/badge";
+import { TrendingDown, TrendingUp, Minus } from "lucide-react";
+import {
+  CHANGE_CLASSIFICATION_LABELS,
+  CLINICAL_CHANGE_METRIC_SPECS,
+  type ChangeClassification,
+  type ClinicalChange,
+  type ClinicalChangeMetric
+} from "@shared/clinical-change";
+
+interface ClinicalChangeBadgesProps {
+  change: ClinicalChange | null | undefined;
+  // The first assessment of the same type, or the session just before this one
+  compareTo: 'baseline' | 'previous';
+  // Limit to the metrics one view is about; every classified metric otherwise
+  metrics?: readonly ClinicalChangeMetric[];
+  label?: string;
+  className?: string;
+}
+
+const classificationColors: Record<ChangeClassification, string> = {
+  improved: 'bg-green-100 text-green-800 border-green-200',
+  no_change: 'bg-gray-100 text-gray-700 border-gray-200',
+  worsened: 'bg-red-100 text-red-800 border-red-200',
+};
+
+const classificationIcons = {
+  improved: <TrendingUp className="h-3 w-3 mr-1" />,
+  no_change: <Minus className="h-3 w-3 mr-1" />,
+  worsened: <TrendingDown className="h-3 w-3 mr-1" />,
+};
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${Number.isInteger(value) ? value : value.toFixed(1)}`;
+
+// Improved / no change / worsened per metric, judged against the clinic's MCID and MDC
+export default function ClinicalChangeBadges({ change, compareTo, metrics, label, className }: ClinicalChangeBadgesProps) {
+  const entries = (change ?? []).filter(entry =>
+    (compareTo === 'baseline' ? entry.vsBaseline : entry.vsPrevious) !== null &&
+    (!metrics || metrics.includes(entry.metric))
+  );
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className ?? ''}`}>
+      {label && <span className="text-xs text-muted-foreground">{label}</span>}
+      {entries.map(entry => {
+        const classification = (compareTo === 'baseline' ? entry.vsBaseline : entry.vsPrevious)!;
+        const delta = (compareTo === 'baseline' ? entry.changeFromBaseline : entry.changeFromPrevious)!;
+        const spec = CLINICAL_CHANGE_METRIC_SPECS[entry.metric];
+        return (
+          <Badge
+            key={entry.metric}
+            variant="outline"
+            className={classificationColors[classification]}
+            title={`${signed(delta)}${spec.unit} since the ${compareTo === 'baseline' ? 'first' : 'previous'} assessment`}
+          >
+            {classificationIcons[classification]}
+            {spec.label}: {CHANGE_CLASSIFICATION_LABELS[classification]} ({signed(delta)}{spec.unit})
+          </Badge>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { normalRomRangesSchema, type NormalRomRange, type NormalRomRanges } from "@shared/schema";
+import {
+  DEFAULT_NORMATIVE_REFERENCE,
+  NORMATIVE_JOINTS,
+  NORMATIVE_JOINT_LABELS,
+  type NormativeJoint
+} from "@shared/normative-ranges";
+
+interface CohortNormalRomEditorProps {
+  cohortId: number;
+  normalRomRanges: NormalRomRanges | null | undefined;
+  onSaved?: () => void;
+}
+
+const AGE_GROUPS = ['18-25', '26-35', '36-45', '46-55', '56-65', '66-75'];
+const SEXES = [{ value: 'M', label: 'Male' }, { value: 'F', label: 'Female' }, { value: 'Other', label: 'Other' }];
+
+// Select items cannot be empty, so "applies to everyone" is stored as undefined and shown as this
+const ANY = 'any';
+
+// Numbers are edited as text so a half-typed value is not coerced to 0
+interface RangeRow {
+  joint: NormativeJoint;
+  ageGroup: string;
+  sex: string;
+  normal: string;
+  functional: string;
+  minimum: string;
+}
+
+const toRow = (range: NormalRomRange): RangeRow => ({
+  joint: range.joint,
+  ageGroup: range.ageGroup ?? ANY,
+  sex: range.sex ?? ANY,
+  normal: String(range.normal),
+  functional: String(range.functional),
+  minimum: String(range.minimum),
+});
+
+const fromRow = (row: RangeRow) => ({
+  joint: row.joint,
+  ...(row.ageGroup !== ANY ? { ageGroup: row.ageGroup } : {}),
+  ...(row.sex !== ANY ? { sex: row.sex } : {}),
+  normal: Number(row.normal),
+  functional: Number(row.functional),
+  minimum: Number(row.minimum),
+});
+
+// A cohort's normal ROM per joint, optionally for one age group and/or sex. Joints without a
+// range use the population defaults shown as placeholders.
+export default function CohortNormalRomEditor({ cohortId, normalRomRanges, onSaved }: CohortNormalRomEditorProps) {
+  const queryClient = useQueryClient();
+  const [rows, setRows] = useState<RangeRow[]>(() => (normalRomRanges?.ranges ?? []).map(toRow));
+  const [error, setError] = useState("");
+
+  const updateRow = (index: number, updates: Partial<RangeRow>) =>
+    setRows(current => current.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+
+  // A new range starts from the default for its joint, to be adjusted
+  const addRow = () => setRows(current => [...current, toRow({ joint: 'tam', ...DEFAULT_NORMATIVE_REFERENCE.tam })]);
+
+  const save = useMutation({
+    mutationFn: (ranges: NormalRomRanges) => apiRequest('PUT', `/api/cohorts/${cohortId}/normal-rom-ranges`, ranges),
+    onSuccess: () => {
+      setError("");
+      queryClient.invalidateQueries({ queryKey: ['/api/cohorts'] });
+      onSaved?.();
+    },
+    onError: (err) => {
+      const message = err instanceof ApiError ? err.body?.errors?.[0]?.message ?? err.body?.message : null;
+      setError(message || 'Could not save the normal ROM ranges');
+    },
+  });
+
+  const handleSave = () => {
+    const parsed = normalRomRangesSchema.safeParse({ ranges: rows.map(fromRow) });
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      const rowNumber = typeof issue.path[1] === 'number' ? issue.path[1] + 1 : null;
+      setError(rowNumber ? `Range ${rowNumber}: ${issue.message}` : issue.message);
+      return;
+    }
+    save.mutate(parsed.data);
+  };
+
+  return (
+    <div className="space-y-4">
+      {rows.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          This cohort uses the population defaults for every joint.
+        </p>
+      )}
+
+      {rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b">
+                <th className="py-2 pr-2">Joint</th>
+                <th className="py-2 pr-2">Age group</th>
+                <th className="py-2 pr-2">Sex</th>
+                <th className="py-2 pr-2">Normal (°)</th>
+                <th className="py-2 pr-2">Functional (°)</th>
+                <th className="py-2 pr-2">Minimum (°)</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, index) => {
+                const defaults = DEFAULT_NORMATIVE_REFERENCE[row.joint];
+                return (
+                  <tr key={index} className="border-b last:border-0">
+                    <td className="py-2 pr-2 min-w-[180px]">
+                      <Select value={row.joint} onValueChange={(joint) => updateRow(index, { joint: joint as NormativeJoint })}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {NORMATIVE_JOINTS.map(joint => (
+                            <SelectItem key={joint} value={joint}>{NORMATIVE_JOINT_LABELS[joint]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="py-2 pr-2 min-w-[120px]">
+                      <Select value={row.ageGroup} onValueChange={(ageGroup) => updateRow(index, { ageGroup })}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ANY}>Any age</SelectItem>
+                          {AGE_GROUPS.map(ageGroup => (
+                            <SelectItem key={ageGroup} value={ageGroup}>{ageGroup}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="py-2 pr-2 min-w-[110px]">
+                      <Select value={row.sex} onValueChange={(sex) => updateRow(index, { sex })}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ANY}>Any sex</SelectItem>
+                          {SEXES.map(sex => (
+                            <SelectItem key={sex.value} value={sex.value}>{sex.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    {(['normal', 'functional', 'minimum'] as const).map(field => (
+                      <td key={field} className="py-2 pr-2 min-w-[90px]">
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder={String(defaults[field])}
+                          value={row[field]}
+                          onChange={(e) => updateRow(index, { [field]: e.target.value })}
+                        />
+                      </td>
+                    ))}
+                    <td className="py-2 text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setRows(current => current.filter((_, i) => i !== index))}
+                        title="Remove range"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-between">
+        <Button variant="outline" size="sm" onClick={addRow}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Range
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={save.isPending}>
+          {save.isPending ? 'Saving...' : 'Save Ranges'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Hand } from "lucide-react";
+import type { ContralateralComparisonResult } from "@shared/contralateral-comparison";
+
+interface ContralateralComparisonCardProps {
+  userAssessmentId: number | string;
+  assessmentId: number;
+  userCode: string;
+  className?: string;
+}
+
+const handLabel = (hand: string | null | undefined) =>
+  hand === 'LEFT' ? 'Left' : hand === 'RIGHT' ? 'Right' : null;
+
+const percentColor = (percent: number) =>
+  percent >= 90 ? 'text-green-700' : percent >= 70 ? 'text-yellow-700' : 'text-red-700';
+
+// Side-by-side results for the injured hand and the patient's own uninjured hand
+export default function ContralateralComparisonCard({ userAssessmentId, assessmentId, userCode, className }: ContralateralComparisonCardProps) {
+  const { data } = useQuery<ContralateralComparisonResult>({
+    queryKey: [`/api/user-assessments/${userAssessmentId}/contralateral-comparison`],
+  });
+
+  if (!data) return null;
+
+  const injured = handLabel(data.injuredHand);
+  const recordLink = `/assessment/${assessmentId}/reference/${userCode}`;
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hand className="w-5 h-5 text-blue-600" />
+          Compared With Your Uninjured Hand
+        </CardTitle>
+        <CardDescription>
+          {data.comparisons.length > 0
+            ? 'Each result as a percentage of the same movement on your other hand'
+            : data.unavailableReason}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {data.comparisons.length > 0 && (
+          <div className="overflow-x-auto mb-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-4">Measurement</th>
+                  <th className="py-2 pr-4">{injured ? `${injured} (injured)` : 'Injured hand'}</th>
+                  <th className="py-2 pr-4">{handLabel(data.baseline?.handType) ?? 'Uninjured hand'} (reference)</th>
+                  <th className="py-2">% of uninjured</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.comparisons.map(comparison => (
+                  <tr key={comparison.metric} className="border-b last:border-0">
+                    <td className="py-2 pr-4 font-medium text-gray-900">{comparison.label}</td>
+                    <td className="py-2 pr-4">{comparison.injured.toFixed(1)}{comparison.unit}</td>
+                    <td className="py-2 pr-4">{comparison.contralateral.toFixed(1)}{comparison.unit}</td>
+                    <td className="py-2 font-semibold">
+                      {comparison.percentOfContralateral === null
+                        ? 'N/A'
+                        : <span className={percentColor(comparison.percentOfContralateral)}>{comparison.percentOfContralateral.toFixed(0)}%</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {data.canRecordBaseline && (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs text-gray-600">
+              {data.baseline?.recordedAt
+                ? `Reference recorded ${new Date(data.baseline.recordedAt).toLocaleDateString()}`
+                : 'Record the same movement once with your uninjured hand to use it as your normal.'}
+            </p>
+            <Link href={recordLink}>
+              <Button variant="outline" size="sm">
+                {data.baseline ? 'Re-record Reference' : 'Record Uninjured Hand'}
+              </Button>
+            </Link>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
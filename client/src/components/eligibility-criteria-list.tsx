@@ -0,0 +1,41 @@
+import { CheckCircle, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { EligibilityResult } from '@shared/eligibility-criteria';
+
+interface EligibilityCriteriaListProps {
+  result: EligibilityResult;
+}
+
+export function EligibilityCriteriaList({ result }: EligibilityCriteriaListProps) {
+  // Only the not-found response comes back without criteria
+  if (result.criteria.length === 0) {
+    return (
+      <ul className="space-y-1">
+        {result.reasons.map((reason, index) => (
+          <li key={index} className="text-sm">• {reason}</li>
+        ))}
+      </ul>
+    );
+  }
+
+  return (
+    <ul className="space-y-2">
+      {result.criteria.map((criterion, index) => (
+        <li key={index} className="flex items-start space-x-2 text-sm">
+          {criterion.passed
+            ? <CheckCircle className="h-4 w-4 mt-0.5 text-green-600 flex-shrink-0" />
+            : <XCircle className="h-4 w-4 mt-0.5 text-red-600 flex-shrink-0" />}
+          <div className="flex-1">
+            <div className="flex items-center space-x-2">
+              <span className="font-medium">{criterion.criterion}</span>
+              {criterion.type !== 'status' && (
+                <Badge variant="outline" className="text-xs capitalize">{criterion.type}</Badge>
+              )}
+            </div>
+            <p className={criterion.passed ? 'text-gray-600' : 'text-red-700'}>{criterion.reason}</p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { ClipboardList, KeyRound } from 'lucide-react';
+import type { EnrollmentEvent, EnrollmentStatus } from '@shared/schema';
+
+interface EnrollmentHistory {
+  status: EnrollmentStatus;
+  allowedTransitions: EnrollmentStatus[];
+  accessCodeDeactivatedAt: string | null;
+  events: (Omit<EnrollmentEvent, 'createdAt'> & { createdAt: string; performedByName: string | null })[];
+}
+
+interface EnrollmentTimelineProps {
+  patientId: number;
+  cohortId?: number;
+}
+
+const STATUS_LABELS: Record<EnrollmentStatus, string> = {
+  screening: 'Screening',
+  enrolled: 'Enrolled',
+  excluded: 'Excluded',
+  withdrawn: 'Withdrawn',
+};
+
+const STATUS_COLORS: Record<EnrollmentStatus, string> = {
+  screening: 'bg-blue-100 text-blue-800',
+  enrolled: 'bg-green-100 text-green-800',
+  excluded: 'bg-gray-100 text-gray-800',
+  withdrawn: 'bg-red-100 text-red-800',
+};
+
+const TRANSITION_LABELS: Record<EnrollmentStatus, string> = {
+  screening: 'Re-screen',
+  enrolled: 'Enroll',
+  excluded: 'Exclude',
+  withdrawn: 'Withdraw',
+};
+
+const REASON_REQUIRED: EnrollmentStatus[] = ['excluded', 'withdrawn'];
+
+export function EnrollmentTimeline({ patientId, cohortId }: EnrollmentTimelineProps) {
+  const [transition, setTransition] = useState<EnrollmentStatus | null>(null);
+  const [reason, setReason] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const historyKey = `/api/patients/${patientId}/enrollment-events`;
+  const { data: history, isLoading } = useQuery<EnrollmentHistory>({
+    queryKey: [historyKey],
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: async (enrollmentStatus: EnrollmentStatus) => {
+      return apiRequest('POST', `/api/patients/${patientId}/enroll`, {
+        cohortId,
+        enrollmentStatus,
+        reason: reason.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [historyKey] });
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}`] });
+      setTransition(null);
+      setReason('');
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Status Change Failed",
+        description: error.message || "Failed to update enrollment status.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reasonMissing = transition !== null && REASON_REQUIRED.includes(transition) && !reason.trim();
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardList className="h-5 w-5" />
+              Enrollment History
+            </CardTitle>
+            <CardDescription>
+              Screening, enrollment, exclusion and withdrawal events
+            </CardDescription>
+          </div>
+          {history && (
+            <Badge className={STATUS_COLORS[history.status]}>{STATUS_LABELS[history.status]}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !history ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <>
+            {history.accessCodeDeactivatedAt && (
+              <div className="flex items-center gap-2 text-sm text-red-700">
+                <KeyRound className="h-4 w-4" />
+                Access code deactivated {format(new Date(history.accessCodeDeactivatedAt), 'MMM d, yyyy')}
+              </div>
+            )}
+
+            {history.events.length > 0 ? (
+              <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+                {history.events.map((event) => (
+                  <li key={event.id} className="ml-4">
+                    <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-primary" />
+                    <p className="text-sm font-medium">
+                      {event.fromStatus
+                        ? `${STATUS_LABELS[event.fromStatus as EnrollmentStatus] ?? event.fromStatus} → ${STATUS_LABELS[event.toStatus as EnrollmentStatus] ?? event.toStatus}`
+                        : `Registered as ${STATUS_LABELS[event.toStatus as EnrollmentStatus] ?? event.toStatus}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(event.createdAt), 'MMM d, yyyy h:mm a')}
+                      {event.performedByName && ` · ${event.performedByName}`}
+                    </p>
+                    {event.reason && <p className="text-sm mt-1">{event.reason}</p>}
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="text-sm text-muted-foreground">No enrollment events recorded yet.</p>
+            )}
+
+            {transition ? (
+              <div className="space-y-2 border rounded-lg p-3">
+                <p className="text-sm font-medium">
+                  {TRANSITION_LABELS[transition]} patient
+                </p>
+                <Textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={REASON_REQUIRED.includes(transition) ? 'Reason (required)' : 'Reason (optional)'}
+                  rows={2}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => transitionMutation.mutate(transition)}
+                    disabled={reasonMissing || transitionMutation.isPending}
+                  >
+                    {transitionMutation.isPending ? 'Saving...' : 'Confirm'}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => { setTransition(null); setReason(''); }}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : cohortId && history.allowedTransitions.length > 0 && (
+              <div className="flex gap-2">
+                {history.allowedTransitions.map((status) => (
+                  <Button
+                    key={status}
+                    size="sm"
+                    variant={status === 'withdrawn' || status === 'excluded' ? 'outline' : 'default'}
+                    onClick={() => setTransition(status)}
+                  >
+                    {TRANSITION_LABELS[status]}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
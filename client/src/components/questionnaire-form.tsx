@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ClipboardList, CheckCircle2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { itemOptions, type QuestionnaireDefinition } from '@shared/questionnaires';
+
+interface QuestionnaireFormProps {
+  definition: QuestionnaireDefinition;
+  onSubmit: (answers: Record<string, number>) => void;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+}
+
+// Renders any questionnaire definition one section at a time; scoring happens on the server
+export default function QuestionnaireForm({ definition, onSubmit, onCancel, isSubmitting }: QuestionnaireFormProps) {
+  const [answers, setAnswers] = useState<Record<string, number>>({});
+  const [sectionIndex, setSectionIndex] = useState(0);
+  const { toast } = useToast();
+
+  const section = definition.sections[sectionIndex];
+  const isLastSection = sectionIndex === definition.sections.length - 1;
+  const totalItems = definition.sections.reduce((sum, s) => sum + s.items.length, 0);
+  const answeredItems = Object.keys(answers).length;
+  const unanswered = section.items.filter(item => answers[item.key] === undefined).length;
+
+  const handleNext = () => {
+    if (unanswered > section.maxMissing) {
+      toast({
+        title: "More Answers Needed",
+        description: `Please answer all but at most ${section.maxMissing} question in ${section.label}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (isLastSection) {
+      onSubmit(answers);
+    } else {
+      setSectionIndex(sectionIndex + 1);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5 text-blue-600" />
+          {definition.shortName} - {section.label}
+        </CardTitle>
+        <CardDescription>{definition.name}</CardDescription>
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm text-gray-600">
+            <span>Section {sectionIndex + 1} of {definition.sections.length}</span>
+            <span>{answeredItems}/{totalItems} questions answered</span>
+          </div>
+          <Progress value={(answeredItems / totalItems) * 100} className="w-full" />
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <div className="bg-blue-50 p-4 rounded-lg text-sm text-blue-900">
+          {section.prompt}
+        </div>
+
+        {section.items.map((item, index) => {
+          const options = itemOptions(section, item);
+          const compact = options.length > 5;
+
+          return (
+            <div key={item.key} className="space-y-3 border-b pb-4 last:border-b-0">
+              <p className="font-medium text-gray-900">{index + 1}. {item.text}</p>
+              <RadioGroup
+                value={answers[item.key]?.toString() ?? ""}
+                onValueChange={(value) => setAnswers(prev => ({ ...prev, [item.key]: parseInt(value) }))}
+                className={compact ? "flex flex-wrap gap-2" : "space-y-2"}
+              >
+                {options.map((option) => {
+                  const id = `${item.key}-${option.value}`;
+                  return (
+                    <div
+                      key={option.value}
+                      className={compact
+                        ? "flex flex-col items-center gap-1 min-w-[2.5rem]"
+                        : "flex items-center space-x-3 p-2 rounded-lg border hover:bg-gray-50"}
+                    >
+                      <RadioGroupItem value={String(option.value)} id={id} />
+                      <Label htmlFor={id} className={compact ? "text-xs text-center cursor-pointer" : "flex-1 cursor-pointer"}>
+                        {option.label}
+                      </Label>
+                    </div>
+                  );
+                })}
+              </RadioGroup>
+            </div>
+          );
+        })}
+
+        <div className="flex justify-between items-center pt-4 border-t">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setSectionIndex(sectionIndex - 1)}
+              disabled={sectionIndex === 0}
+            >
+              Previous
+            </Button>
+          </div>
+          <Button
+            onClick={handleNext}
+            disabled={isSubmitting}
+            className={isLastSection ? "bg-green-600 hover:bg-green-700" : undefined}
+          >
+            {isLastSection ? (
+              <>
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+                {isSubmitting ? 'Submitting...' : 'Submit'}
+              </>
+            ) : 'Next Section'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
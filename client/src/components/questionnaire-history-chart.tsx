@@ -0,0 +1,60 @@
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { format } from 'date-fns';
+import type { QuestionnaireDefinition } from '@shared/questionnaires';
+import type { QuestionnaireResponse } from '@shared/schema';
+
+type SerializedResponse = Omit<QuestionnaireResponse, 'completedAt'> & { completedAt: string | null };
+
+interface QuestionnaireHistoryChartProps {
+  definition: QuestionnaireDefinition;
+  responses: SerializedResponse[];
+}
+
+const LINE_COLORS = ['#3b82f6', '#f97316', '#059669'];
+
+// One line per section score, plus the total for instruments that report one
+export function QuestionnaireHistoryChart({ definition, responses }: QuestionnaireHistoryChartProps) {
+  if (responses.length === 0) {
+    return <p className="text-sm text-muted-foreground">No {definition.shortName} responses yet.</p>;
+  }
+
+  const lines = [
+    ...definition.sections.map(section => ({ key: section.key, label: section.label })),
+    ...(definition.total ? [{ key: 'total', label: definition.total.label }] : [])
+  ];
+  const maxScore = Math.max(...definition.sections.map(section => section.range[1]), definition.total?.range[1] ?? 0);
+
+  const data = responses.map(response => ({
+    date: response.completedAt ? format(new Date(response.completedAt), 'MMM d') : '',
+    ...(response.scores as Record<string, number>),
+    ...(response.totalScore !== null && { total: Number(response.totalScore) })
+  }));
+
+  return (
+    <div className="space-y-2">
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="date" />
+            <YAxis domain={[0, maxScore]} />
+            <Tooltip />
+            <Legend />
+            {lines.map((line, index) => (
+              <Line
+                key={line.key}
+                type="monotone"
+                dataKey={line.key}
+                name={line.label}
+                stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                strokeWidth={2}
+                dot={{ r: 4 }}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-xs text-muted-foreground">Lower scores indicate fewer symptoms and better function.</p>
+    </div>
+  );
+}
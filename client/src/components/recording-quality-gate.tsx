@@ -0,0 +1,87 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, RotateCcw, Eye, Activity, Timer } from "lucide-react";
+import type { RecordingQualityReason, RecordingQualityReport } from "@shared/recording-quality";
+
+interface RecordingQualityGateProps {
+  report: RecordingQualityReport;
+  retakeCount: number;
+  onRetake: () => void;
+  onAccept: () => void;
+}
+
+const RETAKE_GUIDANCE: Record<RecordingQualityReason, { icon: typeof Eye; title: string; tip: string }> = {
+  too_few_frames: {
+    icon: Timer,
+    title: "Keep your hand in view",
+    tip: "Hold your whole hand inside the camera frame from the start of the countdown until the timer ends."
+  },
+  visibility: {
+    icon: Eye,
+    title: "Show every finger clearly",
+    tip: "Turn your palm towards the camera, spread your fingers slightly and move to a brighter spot without backlight."
+  },
+  temporal_consistency: {
+    icon: Activity,
+    title: "Move slowly and steadily",
+    tip: "Open and close your hand at an even pace and keep the camera still; quick jerks are hard to track."
+  }
+};
+
+// Shown when a recording fails the quality check; explains what went wrong and how to retake it
+export default function RecordingQualityGate({ report, retakeCount, onRetake, onAccept }: RecordingQualityGateProps) {
+  const reasons = Array.from(new Set(report.issues.map(issue => issue.reason)));
+
+  return (
+    <Card className="max-w-2xl mx-auto border-amber-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-amber-800">
+          <AlertTriangle className="h-5 w-5" />
+          This recording may not be accurate
+        </CardTitle>
+        <CardDescription>
+          Some of your movement could not be measured reliably. A retake usually takes under a minute.
+          {retakeCount > 0 && <Badge variant="outline" className="ml-2">Retakes so far: {retakeCount}</Badge>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <h4 className="font-medium text-gray-900">What we found</h4>
+          <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+            {report.issues.map((issue, index) => (
+              <li key={index}>{issue.message}</li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="font-medium text-gray-900">Before you retake</h4>
+          {reasons.map(reason => {
+            const guidance = RETAKE_GUIDANCE[reason];
+            const Icon = guidance.icon;
+            return (
+              <div key={reason} className="flex items-start gap-3 p-3 bg-blue-50 rounded-lg">
+                <Icon className="h-5 w-5 text-blue-600 mt-0.5" />
+                <div>
+                  <div className="font-medium text-blue-900">{guidance.title}</div>
+                  <div className="text-sm text-blue-800">{guidance.tip}</div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-between gap-4 pt-4 border-t">
+          <Button variant="outline" onClick={onAccept}>
+            Save Anyway
+          </Button>
+          <Button onClick={onRetake}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Retake Recording
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
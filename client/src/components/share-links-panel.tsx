@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Share } from "lucide-react";
+import { ApiError, apiRequest, userCodeHeaders } from "@/lib/queryClient";
+import type { ShareLinkStatus, ShareScope } from "@shared/schema";
+
+interface ShareLinksPanelProps {
+  userAssessmentId: number | string;
+  userCode: string;
+  className?: string;
+}
+
+// As returned by describeShareLink on the server
+interface ShareLinkSummary {
+  id: number;
+  scope: ShareScope;
+  status: ShareLinkStatus;
+  hasPin: boolean;
+  expiresAt: string;
+  maxViews: number | null;
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+}
+
+const EXPIRY_OPTIONS = [1, 7, 30, 90];
+
+const statusColors: Record<ShareLinkStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  expired: 'bg-gray-100 text-gray-700',
+  exhausted: 'bg-yellow-100 text-yellow-800',
+  revoked: 'bg-red-100 text-red-800',
+};
+
+// The result owner's share links: create one with its scope, expiry, PIN and view limit,
+// see who has opened existing links and revoke them
+export default function ShareLinksPanel({ userAssessmentId, userCode, className }: ShareLinksPanelProps) {
+  const queryClient = useQueryClient();
+  const listKey = `/api/user-assessments/${userAssessmentId}/share-links`;
+  const headers = userCodeHeaders(userCode);
+
+  const [includeReplay, setIncludeReplay] = useState(false);
+  const [expiresInDays, setExpiresInDays] = useState("7");
+  const [pin, setPin] = useState("");
+  const [maxViews, setMaxViews] = useState("");
+  const [shareUrl, setShareUrl] = useState("");
+  const [error, setError] = useState("");
+
+  const { data } = useQuery<{ shareLinks: ShareLinkSummary[] }>({
+    queryKey: [listKey, userCode],
+    queryFn: () => apiRequest('GET', listKey, undefined, headers),
+  });
+
+  const create = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/user-assessments/${userAssessmentId}/share`, {
+      scope: includeReplay ? 'replay' : 'summary',
+      expiresInDays: parseInt(expiresInDays),
+      ...(pin ? { pin } : {}),
+      ...(maxViews ? { maxViews: parseInt(maxViews) } : {}),
+    }, headers),
+    onSuccess: (created: { shareUrl: string }) => {
+      const url = `${window.location.origin}${created.shareUrl}`;
+      setShareUrl(url);
+      setError("");
+      setPin("");
+      navigator.clipboard?.writeText(url);
+      queryClient.invalidateQueries({ queryKey: [listKey] });
+    },
+    onError: (err) => {
+      const message = err instanceof ApiError ? err.body?.errors?.[0]?.message ?? err.body?.error : null;
+      setError(message || 'Could not create the share link');
+    },
+  });
+
+  const revoke = useMutation({
+    mutationFn: (id: number) => apiRequest('POST', `/api/share-links/${id}/revoke`, undefined, headers),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [listKey] }),
+  });
+
+  const shareLinks = data?.shareLinks ?? [];
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Share className="w-5 h-5 text-blue-600" />
+          Share Results
+        </CardTitle>
+        <CardDescription>
+          Links open a read-only copy of this result and stop working when they expire or are revoked
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-2">
+            <Label>Expires after</Label>
+            <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map(days => (
+                  <SelectItem key={days} value={String(days)}>{days === 1 ? '1 day' : `${days} days`}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="share-pin">PIN (optional)</Label>
+            <Input
+              id="share-pin"
+              inputMode="numeric"
+              placeholder="4-8 digits"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="share-max-views">View limit (optional)</Label>
+            <Input
+              id="share-max-views"
+              type="number"
+              min={1}
+              max={1000}
+              placeholder="Unlimited"
+              value={maxViews}
+              onChange={(e) => setMaxViews(e.target.value)}
+            />
+          </div>
+          <Button onClick={() => create.mutate()} disabled={create.isPending}>
+            {create.isPending ? 'Creating...' : 'Create Link'}
+          </Button>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input type="checkbox" checked={includeReplay} onChange={(e) => setIncludeReplay(e.target.checked)} />
+          Include motion replay
+        </label>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {shareUrl && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+            <div className="text-sm text-green-800"><strong>Share link created and copied to clipboard:</strong></div>
+            <div className="text-xs text-green-700 mt-1 break-all">{shareUrl}</div>
+          </div>
+        )}
+
+        {shareLinks.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-4">Created</th>
+                  <th className="py-2 pr-4">Shows</th>
+                  <th className="py-2 pr-4">Expires</th>
+                  <th className="py-2 pr-4">Views</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {shareLinks.map(link => (
+                  <tr key={link.id} className="border-b last:border-0">
+                    <td className="py-2 pr-4">{new Date(link.createdAt).toLocaleDateString()}</td>
+                    <td className="py-2 pr-4">
+                      {link.scope === 'replay' ? 'Summary and replay' : 'Summary'}{link.hasPin ? ' · PIN' : ''}
+                    </td>
+                    <td className="py-2 pr-4">{new Date(link.expiresAt).toLocaleDateString()}</td>
+                    <td className="py-2 pr-4">{link.viewCount}{link.maxViews !== null ? ` / ${link.maxViews}` : ''}</td>
+                    <td className="py-2 pr-4">
+                      <Badge variant="outline" className={statusColors[link.status]}>{link.status}</Badge>
+                    </td>
+                    <td className="py-2 text-right">
+                      {link.status === 'active' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => revoke.mutate(link.id)}
+                          disabled={revoke.isPending}
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_NORMATIVE_REFERENCE, type NormativeReference } from "@shared/normative-ranges";
+
+// Normal ROM for the user's cohort, age group and sex; population defaults until it loads
+export function useNormativeReference(userId: number | undefined): NormativeReference {
+  const { data } = useQuery<NormativeReference>({
+    queryKey: [`/api/users/${userId}/normative-reference`],
+    enabled: !!userId,
+  });
+
+  return data ?? DEFAULT_NORMATIVE_REFERENCE;
+}
@@ -1,5 +1,3 @@
-import { apiRequest } from './queryClient';
-
 export interface AuthUser {
   id: number;
   username: string;
@@ -16,16 +14,24 @@ export interface LoginRequest {
 
 export interface AuthResponse {
   token: string;
+  expiresAt: string;
+  refreshToken: string;
+  refreshExpiresAt: string;
   user: AuthUser;
 }
 
+export type RefreshResponse = Omit<AuthResponse, 'user'>;
+
 class AuthService {
   private token: string | null = null;
+  private refreshToken: string | null = null;
   private user: AuthUser | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
 
   constructor() {
     // Load from localStorage on initialization
     this.token = localStorage.getItem('auth_token');
+    this.refreshToken = localStorage.getItem('auth_refresh_token');
     const savedUser = localStorage.getItem('auth_user');
     if (savedUser) {
       try {
@@ -39,16 +45,94 @@ class AuthService {
   async login(credentials: LoginRequest): Promise<AuthResponse> {
     console.log('Attempting login with credentials:', { username: credentials.username });
     
-    const data: AuthResponse = await apiRequest('POST', '/api/auth/login', credentials);
+    const response = await fetch(`${this.baseUrl()}/api/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(credentials),
+    });
+    
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`HTTP error! status: ${response.status} - ${errorText}`);
+    }
     
-    console.log('Login successful:', data);
-    this.setAuth(data.token, data.user);
+    const data: AuthResponse = await response.json();
+    this.setAuth(data.token, data.refreshToken, data.user);
     return data;
   }
 
-  logout() {
-    this.clearAuth();
-    window.location.href = '/clinical/login';
+  async logout() {
+    try {
+      if (this.token) {
+        await fetch(`${this.baseUrl()}/api/auth/logout`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...this.getAuthHeaders() },
+        });
+      }
+    } catch (error) {
+      console.error('Logout request failed:', error);
+    } finally {
+      this.clearAuth();
+      window.location.href = '/clinical/login';
+    }
+  }
+
+  // Exchange the refresh token for a new access token. Concurrent callers share one request.
+  refreshSession(): Promise<boolean> {
+    if (!this.refreshToken) {
+      return Promise.resolve(false);
+    }
+    
+    if (!this.refreshPromise) {
+      this.refreshPromise = (async () => {
+        try {
+          const response = await fetch(`${this.baseUrl()}/api/auth/refresh`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refreshToken: this.refreshToken }),
+          });
+          
+          if (!response.ok) {
+            this.clearAuth();
+            return false;
+          }
+          
+          const data: RefreshResponse = await response.json();
+          if (this.user) {
+            this.setAuth(data.token, data.refreshToken, this.user);
+          }
+          return true;
+        } catch (error) {
+          console.error('Session refresh failed:', error);
+          return false;
+        } finally {
+          this.refreshPromise = null;
+        }
+      })();
+    }
+    
+    return this.refreshPromise;
+  }
+
+  // fetch() with the bearer token attached, retrying once after a transparent refresh on 401
+  async fetchWithAuth(url: string, options: RequestInit = {}): Promise<Response> {
+    const send = () => fetch(url, {
+      ...options,
+      headers: { ...this.getAuthHeaders(), ...options.headers },
+    });
+    
+    let response = await send();
+    if (response.status === 401 && this.refreshToken) {
+      const refreshed = await this.refreshSession();
+      if (refreshed) {
+        response = await send();
+      }
+    }
+    
+    if (response.status === 401) {
+      this.clearAuth();
+    }
+    return response;
   }
 
   getToken(): string | null {
@@ -67,17 +151,25 @@ class AuthService {
     return this.user ? roles.includes(this.user.role) : false;
   }
 
-  private setAuth(token: string, user: AuthUser) {
+  private baseUrl(): string {
+    return import.meta.env.VITE_API_URL || '';
+  }
+
+  private setAuth(token: string, refreshToken: string, user: AuthUser) {
     this.token = token;
+    this.refreshToken = refreshToken;
     this.user = user;
     localStorage.setItem('auth_token', token);
+    localStorage.setItem('auth_refresh_token', refreshToken);
     localStorage.setItem('auth_user', JSON.stringify(user));
   }
 
   private clearAuth() {
     this.token = null;
+    this.refreshToken = null;
     this.user = null;
     localStorage.removeItem('auth_token');
+    localStorage.removeItem('auth_refresh_token');
     localStorage.removeItem('auth_user');
   }
 
@@ -0,0 +1,54 @@
+import { authService } from './auth';
+
+export type ExportType = 'patient_data' | 'cohort_data';
+
+export interface ExportFilters {
+  cohortId?: number | null;
+  patientId?: number | null;
+  dateFrom?: string | null;
+  dateTo?: string | null;
+  format?: 'csv' | 'ndjson';
+  deidentify?: boolean;
+  includeRawData?: boolean;
+}
+
+export interface ExportResponse {
+  exportId: number;
+  downloadUrl: string;
+  expiresAt: string;
+  format: 'csv' | 'ndjson';
+  rowCount: number;
+}
+
+// Request an export and download the generated file. The download route requires
+// the bearer token, so the file is fetched and saved via an object URL rather than window.open.
+export async function requestExport(exportType: ExportType, filters: ExportFilters = {}): Promise<ExportResponse> {
+  const response = await authService.fetchWithAuth('/api/export', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ exportType, filters }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Export request failed: ${response.status}`);
+  }
+
+  const result: ExportResponse = await response.json();
+
+  const download = await authService.fetchWithAuth(result.downloadUrl);
+  if (!download.ok) {
+    throw new Error(`Export download failed: ${download.status}`);
+  }
+
+  const blob = await download.blob();
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${exportType}-${result.exportId}.${result.format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+
+  return result;
+}
@@ -1,26 +1,22 @@
 import { QueryClient } from "@tanstack/react-query";
+import { authService } from "./auth";
 
 const makeRequest = async (url: string, options: RequestInit = {}) => {
   const baseUrl = import.meta.env.VITE_API_URL || '';
   
-  // Get auth token from localStorage
-  const token = localStorage.getItem('auth_token');
-  
   const config: RequestInit = {
     ...options,
     headers: {
       'Content-Type': 'application/json',
-      ...(token && { 'Authorization': `Bearer ${token}` }),
       ...options.headers,
     },
   };
   
-  const response = await fetch(`${baseUrl}${url}`, config);
+  // Attaches the bearer token and transparently refreshes an expired session
+  const response = await authService.fetchWithAuth(`${baseUrl}${url}`, config);
   
-  // Handle 401 responses by clearing auth and redirecting
+  // Refresh failed - session is gone, send clinicians back to login
   if (response.status === 401) {
-    localStorage.removeItem('auth_token');
-    localStorage.removeItem('auth_user');
     if (window.location.pathname.startsWith('/clinical')) {
       window.location.href = '/clinical/login';
     }
@@ -56,16 +52,27 @@ export const queryClient = new QueryClient({
   },
 });
 
+// Failed apiRequest call; body holds the parsed JSON error response when there is one,
+// e.g. { message, errors } from a validation failure
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public body: any) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Portal routes acting on a user's own data identify the user by their access code
+export const userCodeHeaders = (userCode: string): Record<string, string> => ({ 'X-User-Code': userCode });
+
 // Export a compatible apiRequest function for landing page
-export async function apiRequest(method: string, endpoint: string, data?: any) {
+export async function apiRequest(method: string, endpoint: string, data?: any, headers: Record<string, string> = {}) {
   const baseUrl = import.meta.env.VITE_API_URL || '';
-  const token = localStorage.getItem('auth_token');
   
   const config: RequestInit = {
     method,
     headers: {
       'Content-Type': 'application/json',
-      ...(token && { 'Authorization': `Bearer ${token}` }),
+      ...headers,
     },
   };
 
@@ -75,14 +82,20 @@ export async function apiRequest(method: string, endpoint: string, data?: any) {
 
   console.log('Making API request:', { method, url: `${baseUrl}${endpoint}`, data });
 
-  const response = await fetch(`${baseUrl}${endpoint}`, config);
+  const response = await authService.fetchWithAuth(`${baseUrl}${endpoint}`, config);
   
   console.log('API response status:', response.status);
   
   if (!response.ok) {
     const errorText = await response.text();
     console.error('API error response:', errorText);
-    throw new Error(`HTTP error! status: ${response.status} - ${errorText}`);
+    let body: any = null;
+    try {
+      body = JSON.parse(errorText);
+    } catch {
+      // Not a JSON error response
+    }
+    throw new ApiError(`HTTP error! status: ${response.status} - ${errorText}`, response.status, body);
   }
   
   return response.json();
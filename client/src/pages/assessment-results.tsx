@@ -2,17 +2,21 @@ import { useQuery } from "@tanstack/react-query";
 import { useRoute } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Share, Play } from "lucide-react";
+import { ArrowLeft, Play } from "lucide-react";
 import { Link } from "wouter";
 import { useState } from "react";
 import AssessmentReplay from "@/components/assessment-replay";
+import ContralateralComparisonCard from "@/components/contralateral-comparison-card";
+import ShareLinksPanel from "@/components/share-links-panel";
 import { calculateWristResults, getWristClinicalInterpretation, getWristPercentages } from "@shared/wrist-results-calculator";
+import { getValidationProfile } from "@shared/rom-calculator";
 import { PatientHeader } from "@/components/patient-header";
+import { useNormativeReference } from "@/hooks/use-normative-reference";
+import { percentOfNormal, romStatus } from "@shared/normative-ranges";
 
 export default function AssessmentResults() {
   const [, params] = useRoute("/assessment-results/:code/:userAssessmentId");
   const [showReplay, setShowReplay] = useState(false);
-  const [shareUrl, setShareUrl] = useState("");
 
   // Fetch user assessment data
   const { data: assessmentData, isLoading } = useQuery({
@@ -29,22 +33,7 @@ export default function AssessmentResults() {
   });
 
   const user = (userData as any)?.user || (assessmentData as any)?.user;
-
-  const generateShareLink = async () => {
-    try {
-      const response = await fetch(`/api/user-assessments/${params?.userAssessmentId}/share`, {
-        method: 'POST'
-      });
-      const data = await response.json();
-      if (data.shareToken) {
-        const url = `${window.location.origin}/shared-assessment/${data.shareToken}`;
-        setShareUrl(url);
-        navigator.clipboard.writeText(url);
-      }
-    } catch (error) {
-      console.error('Error generating share link:', error);
-    }
-  };
+  const normativeReference = useNormativeReference(user?.id ?? userAssessment?.userId);
 
   if (isLoading) {
     return (
@@ -104,7 +93,7 @@ export default function AssessmentResults() {
                 </Button>
               </Link>
               
-              <div className="flex gap-3">
+              <div className="flex items-center gap-3">
                 <Button 
                   variant="outline" 
                   onClick={() => setShowReplay(true)}
@@ -113,15 +102,6 @@ export default function AssessmentResults() {
                   <Play className="w-4 h-4" />
                   Replay Motion
                 </Button>
-                
-                <Button 
-                  variant="outline" 
-                  onClick={generateShareLink}
-                  className="flex items-center gap-2"
-                >
-                  <Share className="w-4 h-4" />
-                  Share Results
-                </Button>
               </div>
             </div>
 
@@ -138,16 +118,6 @@ export default function AssessmentResults() {
             </div>
           </div>
 
-          {/* Share URL Display */}
-          {shareUrl && (
-            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
-              <div className="text-sm text-green-800">
-                <strong>Share link generated and copied to clipboard:</strong>
-              </div>
-              <div className="text-xs text-green-700 mt-1 break-all">{shareUrl}</div>
-            </div>
-          )}
-
           {/* Results Content */}
           <Card className="mb-8">
             <CardHeader>
@@ -265,9 +235,9 @@ export default function AssessmentResults() {
                       <div className="bg-gray-50 p-4 rounded border">
                         <h5 className="font-medium mb-2 text-gray-900">Clinical Interpretation</h5>
                         <p className="text-sm text-gray-700">
-                          {parseInt(userAssessment.totalActiveRom || '0') >= 8 ? 
+                          {parseInt(userAssessment.totalActiveRom || '0') >= normativeReference.kapandji.functional ? 
                             'Excellent thumb opposition - functional range achieved' : 
-                            parseInt(userAssessment.totalActiveRom || '0') >= 5 ? 
+                            parseInt(userAssessment.totalActiveRom || '0') >= normativeReference.kapandji.minimum ? 
                               'Good thumb opposition - adequate for most activities' : 
                               'Limited thumb opposition - may benefit from therapy'}
                         </p>
@@ -290,7 +260,7 @@ export default function AssessmentResults() {
                           })()}
                         </div>
                         <div className="text-lg text-gray-700">Maximum Flexion</div>
-                        <div className="text-sm text-gray-500 mt-1">Normal: 0-80°</div>
+                        <div className="text-sm text-gray-500 mt-1">Normal: 0-{normativeReference.wristFlexion.normal}°</div>
                       </div>
                       
                       <div className="text-center">
@@ -302,7 +272,7 @@ export default function AssessmentResults() {
                           })()}
                         </div>
                         <div className="text-lg text-gray-700">Maximum Extension</div>
-                        <div className="text-sm text-gray-500 mt-1">Normal: 0-70°</div>
+                        <div className="text-sm text-gray-500 mt-1">Normal: 0-{normativeReference.wristExtension.normal}°</div>
                       </div>
                     </div>
                     
@@ -342,7 +312,7 @@ export default function AssessmentResults() {
                         })()}°
                       </div>
                       <div className="text-lg text-gray-700">Total Wrist ROM</div>
-                      <div className="text-sm text-gray-500 mt-1">Normal: 150°</div>
+                      <div className="text-sm text-gray-500 mt-1">Normal: {normativeReference.wristTotal.normal}°</div>
                     </div>
 
                     <div className="mt-6 p-4 bg-white rounded border">
@@ -350,7 +320,7 @@ export default function AssessmentResults() {
                       <p className="text-sm text-gray-700">
                         {(() => {
                           const wristResults = calculateWristResults(userAssessment);
-                          const interpretation = getWristClinicalInterpretation(wristResults);
+                          const interpretation = getWristClinicalInterpretation(wristResults, normativeReference);
                           
                           console.log(`📊 ASSESSMENT RESULTS - CLINICAL: ${interpretation.status}, Total ROM: ${wristResults.totalROM.toFixed(1)}°`);
                           
@@ -416,6 +386,8 @@ export default function AssessmentResults() {
                           const mcpAngle = finger.mcpAngle ? parseFloat(finger.mcpAngle) : 0;
                           const pipAngle = finger.pipAngle ? parseFloat(finger.pipAngle) : 0;
                           const dipAngle = finger.dipAngle ? parseFloat(finger.dipAngle) : 0;
+                          const { mcp, pip, dip, tam } = normativeReference;
+                          const fingerTam = finger.romValue ? parseFloat(finger.romValue) : null;
 
                           return (
                             <div key={finger.key} className={`bg-white p-4 rounded border ${
@@ -423,44 +395,51 @@ export default function AssessmentResults() {
                             }`}>
                               <div className="flex justify-between items-center mb-3">
                                 <span className="font-medium text-gray-900">{finger.name}</span>
-                                <span className="font-bold text-lg text-gray-900">
-                                  {finger.romValue ? `${Math.round(parseFloat(finger.romValue))}° TAM` : 'N/A'}
-                                </span>
+                                <div className="text-right">
+                                  <span className="font-bold text-lg text-gray-900">
+                                    {fingerTam !== null ? `${Math.round(fingerTam)}° TAM` : 'N/A'}
+                                  </span>
+                                  {fingerTam !== null && (
+                                    <div className={`text-xs ${fingerTam < tam.functional ? 'text-red-600' : 'text-gray-500'}`}>
+                                      {percentOfNormal(fingerTam, tam).toFixed(0)}% of normal ({tam.normal}°) · {romStatus(fingerTam, tam)}
+                                    </div>
+                                  )}
+                                </div>
                               </div>
                               
                               <div className="grid grid-cols-3 gap-3 text-sm">
                                 <div className={`p-2 rounded ${
-                                  mcpAngle < 70 ? 'bg-red-50 border border-red-200' : 'bg-gray-100'
+                                  mcpAngle < mcp.functional ? 'bg-red-50 border border-red-200' : 'bg-gray-100'
                                 }`}>
                                   <div className="text-xs text-gray-800">MCP Joint</div>
                                   <div className={`font-medium ${
-                                    mcpAngle < 70 ? 'text-red-600' : 'text-blue-600'
+                                    mcpAngle < mcp.functional ? 'text-red-600' : 'text-blue-600'
                                   }`}>
                                     {Math.round(mcpAngle)}°
                                   </div>
-                                  <div className="text-xs text-gray-500">Normal: 70-90°</div>
+                                  <div className="text-xs text-gray-500">Normal: {mcp.functional}-{mcp.normal}°</div>
                                 </div>
                                 <div className={`p-2 rounded ${
-                                  pipAngle < 90 ? 'bg-red-50 border border-red-200' : 'bg-gray-100'
+                                  pipAngle < pip.functional ? 'bg-red-50 border border-red-200' : 'bg-gray-100'
                                 }`}>
                                   <div className="text-xs text-gray-800">PIP Joint</div>
                                   <div className={`font-medium ${
-                                    pipAngle < 90 ? 'text-red-600' : 'text-green-600'
+                                    pipAngle < pip.functional ? 'text-red-600' : 'text-green-600'
                                   }`}>
                                     {Math.round(pipAngle)}°
                                   </div>
-                                  <div className="text-xs text-gray-500">Normal: 90-110°</div>
+                                  <div className="text-xs text-gray-500">Normal: {pip.functional}-{pip.normal}°</div>
                                 </div>
                                 <div className={`p-2 rounded ${
-                                  dipAngle < 70 ? 'bg-red-50 border border-red-200' : 'bg-gray-100'
+                                  dipAngle < dip.functional ? 'bg-red-50 border border-red-200' : 'bg-gray-100'
                                 }`}>
                                   <div className="text-xs text-gray-800">DIP Joint</div>
                                   <div className={`font-medium ${
-                                    dipAngle < 70 ? 'text-red-600' : 'text-purple-600'
+                                    dipAngle < dip.functional ? 'text-red-600' : 'text-purple-600'
                                   }`}>
                                     {Math.round(dipAngle)}°
                                   </div>
-                                  <div className="text-xs text-gray-500">Normal: 70-90°</div>
+                                  <div className="text-xs text-gray-500">Normal: {dip.functional}-{dip.normal}°</div>
                                 </div>
                               </div>
                             </div>
@@ -475,6 +454,19 @@ export default function AssessmentResults() {
             </CardContent>
           </Card>
 
+          <ContralateralComparisonCard
+            className="mb-8"
+            userAssessmentId={params!.userAssessmentId}
+            assessmentId={userAssessment.assessmentId}
+            userCode={params!.code}
+          />
+
+          <ShareLinksPanel
+            className="mb-8"
+            userAssessmentId={params!.userAssessmentId}
+            userCode={params!.code}
+          />
+
           {/* Motion Quality and Technical Details */}
           <Card>
             <CardHeader>
@@ -489,6 +481,9 @@ export default function AssessmentResults() {
                     <p><strong>Session Number:</strong> {userAssessment.sessionNumber || 1}</p>
                     <p><strong>Duration:</strong> {userAssessment.duration ? `${userAssessment.duration}s` : 'N/A'}</p>
                     <p><strong>Quality Score:</strong> {userAssessment.qualityScore || 'N/A'}</p>
+                    {userAssessment.validationProfile && (
+                      <p><strong>Validation Rules:</strong> {getValidationProfile(userAssessment.validationProfile).label}</p>
+                    )}
                   </div>
                 </div>
                 
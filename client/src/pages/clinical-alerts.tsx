@@ -49,22 +49,18 @@ export default function ClinicalAlerts() {
   const queryClient = useQueryClient();
   const [filter, setFilter] = useState<'all' | 'critical' | 'warning'>('all');
 
+  // Include resolved alerts so the "Resolved Today" and "Recently Resolved" sections are populated
   const { data: alerts, isLoading, error } = useQuery<OutlierAlert[]>({
-    queryKey: ['/api/alerts'],
+    queryKey: ['/api/alerts?includeResolved=true'],
     enabled: hasRole(['clinician', 'admin']),
   });
 
   const resolveAlertMutation = useMutation({
     mutationFn: async (alertId: number) => {
-      const response = await apiRequest(`/api/alerts/${alertId}/resolve`, {
-        method: 'PUT',
-      });
-      if (!response.ok) {
-        throw new Error('Failed to resolve alert');
-      }
-      return response.json();
+      return apiRequest('PUT', `/api/alerts/${alertId}/resolve`);
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/alerts?includeResolved=true'] });
       queryClient.invalidateQueries({ queryKey: ['/api/alerts'] });
       toast({
         title: "Alert resolved",
@@ -238,7 +234,9 @@ export default function ClinicalAlerts() {
                           </Badge>
                         </div>
                         <p className="text-sm text-muted-foreground mb-2">
-                          <strong>{alert.metric}</strong> shows {alert.deviationValue} point deviation from cohort mean
+                          {alert.alertType === 'pain_spike'
+                            ? <><strong>{alert.metric}</strong> spiked to {Number(alert.deviationValue)}/10</>
+                            : <><strong>{alert.metric}</strong> shows {alert.deviationValue} point deviation from cohort mean</>}
                         </p>
                         <div className="flex items-center space-x-4 text-xs text-muted-foreground">
                           <div className="flex items-center space-x-1">
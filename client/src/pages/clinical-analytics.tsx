@@ -22,6 +22,8 @@ import {
   Download,
 } from 'lucide-react';
 import { useAuth } from '@/lib/auth';
+import { requestExport, type ExportType } from '@/lib/export';
+import { useToast } from '@/hooks/use-toast';
 
 interface CohortAnalytics {
   cohortId: number;
@@ -31,10 +33,14 @@ interface CohortAnalytics {
   avgKapandjiScore: number;
   avgWristFlexion: number;
   avgWristExtension: number;
+  avgRadialDeviation: number;
+  avgUlnarDeviation: number;
   stdDevTamScore: number;
   stdDevKapandjiScore: number;
   stdDevWristFlexion: number;
   stdDevWristExtension: number;
+  stdDevRadialDeviation: number;
+  stdDevUlnarDeviation: number;
 }
 
 interface PatientAssessment {
@@ -52,6 +58,8 @@ interface PatientAssessment {
 export default function ClinicalAnalytics() {
   const { hasRole } = useAuth();
   const [selectedCohort, setSelectedCohort] = useState<string>('all');
+  const [exporting, setExporting] = useState<ExportType | null>(null);
+  const { toast } = useToast();
 
   const { data: cohorts } = useQuery({
     queryKey: ['/api/cohorts'],
@@ -136,26 +144,26 @@ export default function ClinicalAnalytics() {
     return (a.dayRange || 0) - (b.dayRange || 0);
   });
 
-  const handleExportData = async () => {
+  const handleExportData = async (exportType: ExportType) => {
+    setExporting(exportType);
     try {
-      const response = await fetch('/api/export', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`,
-        },
-        body: JSON.stringify({
-          exportType: 'cohort_data',
-          filters: { cohortId: selectedCohort !== 'all' ? selectedCohort : null },
-        }),
+      // Format, de-identification and raw data inclusion come from clinic export settings
+      const result = await requestExport(exportType, {
+        cohortId: selectedCohort !== 'all' ? parseInt(selectedCohort) : null,
+      });
+      toast({
+        title: "Export ready",
+        description: `Downloaded ${result.rowCount} rows as ${result.format.toUpperCase()}.`,
       });
-
-      if (response.ok) {
-        const { downloadUrl } = await response.json();
-        window.open(downloadUrl, '_blank');
-      }
     } catch (error) {
       console.error('Export failed:', error);
+      toast({
+        title: "Export failed",
+        description: "Unable to generate the export. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(null);
     }
   };
 
@@ -170,9 +178,13 @@ export default function ClinicalAnalytics() {
           </p>
         </div>
         <div className="flex items-center space-x-2">
-          <Button onClick={handleExportData} variant="outline">
+          <Button onClick={() => handleExportData('patient_data')} variant="outline" disabled={exporting !== null}>
             <Download className="mr-2 h-4 w-4" />
-            Export Data
+            {exporting === 'patient_data' ? 'Exporting...' : 'Export Patient Data'}
+          </Button>
+          <Button onClick={() => handleExportData('cohort_data')} variant="outline" disabled={exporting !== null}>
+            <Download className="mr-2 h-4 w-4" />
+            {exporting === 'cohort_data' ? 'Exporting...' : 'Export Cohort Data'}
           </Button>
         </div>
       </div>
@@ -276,6 +288,32 @@ export default function ClinicalAnalytics() {
                   </p>
                 </CardContent>
               </Card>
+
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">Avg Radial Deviation</CardTitle>
+                  <BarChart3 className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{analytics.avgRadialDeviation ? Number(analytics.avgRadialDeviation).toFixed(1) : 'N/A'}°</div>
+                  <p className="text-xs text-muted-foreground">
+                    ±{analytics.stdDevRadialDeviation ? Number(analytics.stdDevRadialDeviation).toFixed(1) : 'N/A'}° std dev
+                  </p>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">Avg Ulnar Deviation</CardTitle>
+                  <BarChart3 className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{analytics.avgUlnarDeviation ? Number(analytics.avgUlnarDeviation).toFixed(1) : 'N/A'}°</div>
+                  <p className="text-xs text-muted-foreground">
+                    ±{analytics.stdDevUlnarDeviation ? Number(analytics.stdDevUlnarDeviation).toFixed(1) : 'N/A'}° std dev
+                  </p>
+                </CardContent>
+              </Card>
             </div>
           ) : (
             <Alert>
@@ -271,7 +271,9 @@ export default function ClinicalDashboard() {
                               Patient needs attention
                             </p>
                             <p className="text-xs text-red-600 dark:text-red-300">
-                              {alert.metric} deviation: {alert.deviationValue}
+                              {alert.alertType === 'pain_spike'
+                                ? `${alert.metric} spike: ${Number(alert.deviationValue)}/10`
+                                : `${alert.metric} deviation: ${alert.deviationValue}`}
                             </p>
                           </div>
                         </div>
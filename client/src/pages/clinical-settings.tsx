@@ -1,4 +1,5 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/lib/auth';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -23,14 +24,20 @@ import {
   AlertTriangle
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { requestExport } from '@/lib/export';
+import type { ClinicalSettings as ClinicalSettingsValues } from '@shared/schema';
+import { CLINICAL_CHANGE_METRICS, CLINICAL_CHANGE_METRIC_SPECS, type ClinicalChangeMetric, type ChangeThreshold } from '@shared/clinical-change';
 
 export default function ClinicalSettings() {
   const { user, hasRole } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [saving, setSaving] = useState(false);
+  const [exporting, setExporting] = useState(false);
 
   // Settings state
-  const [settings, setSettings] = useState({
+  const [settings, setSettings] = useState<ClinicalSettingsValues>({
     // System Settings
     sessionTimeout: '120',
     autoLogout: true,
@@ -42,6 +49,7 @@ export default function ClinicalSettings() {
     completionNotifications: true,
     outlierAlerts: true,
     criticalThreshold: '15',
+    clinicalChangeThresholds: {},
     
     // Export Settings
     exportFormat: 'csv',
@@ -54,11 +62,32 @@ export default function ClinicalSettings() {
     alertFrequency: 'immediate'
   });
 
+  const { data: savedSettings } = useQuery<ClinicalSettingsValues>({
+    queryKey: ['/api/settings'],
+    enabled: hasRole(['admin']),
+  });
+
+  useEffect(() => {
+    if (savedSettings) {
+      setSettings(savedSettings);
+    }
+  }, [savedSettings]);
+
+  // Blank inputs fall back to the metric's default threshold
+  const setChangeThreshold = (metric: ClinicalChangeMetric, field: keyof ChangeThreshold, input: string) => {
+    setSettings(prev => {
+      const current = { ...prev.clinicalChangeThresholds[metric] };
+      if (input === '') delete current[field];
+      else current[field] = Number(input);
+      return { ...prev, clinicalChangeThresholds: { ...prev.clinicalChangeThresholds, [metric]: current } };
+    });
+  };
+
   const handleSaveSettings = async () => {
     setSaving(true);
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await apiRequest('PUT', '/api/settings', settings);
+      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
       toast({
         title: "Settings saved",
         description: "Your configuration has been updated successfully."
@@ -74,6 +103,29 @@ export default function ClinicalSettings() {
     }
   };
 
+  const handleExportStudyData = async () => {
+    setExporting(true);
+    try {
+      const result = await requestExport('patient_data', {
+        format: settings.exportFormat,
+        deidentify: settings.deidentifyExports,
+        includeRawData: settings.includeRawData
+      });
+      toast({
+        title: "Export ready",
+        description: `Downloaded ${result.rowCount} rows as ${result.format.toUpperCase()}.`
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to export study data. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
   if (!hasRole(['admin'])) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -239,6 +291,45 @@ export default function ClinicalSettings() {
                   Scores below this percentage will trigger critical alerts
                 </p>
               </div>
+
+              <Separator />
+
+              <div className="space-y-3">
+                <div className="space-y-0.5">
+                  <Label>Clinically Important Change</Label>
+                  <p className="text-sm text-muted-foreground">
+                    A change from baseline or the previous session counts as improved or worsened only when it reaches both the MCID and the MDC. Leave blank to use the default.
+                  </p>
+                </div>
+                <div className="grid grid-cols-[1fr_6rem_6rem] gap-2 items-center text-sm">
+                  <span className="font-medium text-muted-foreground">Metric</span>
+                  <span className="font-medium text-muted-foreground">MCID</span>
+                  <span className="font-medium text-muted-foreground">MDC</span>
+                  {CLINICAL_CHANGE_METRICS.map(metric => {
+                    const spec = CLINICAL_CHANGE_METRIC_SPECS[metric];
+                    const override = settings.clinicalChangeThresholds[metric];
+                    return (
+                      <div key={metric} className="contents">
+                        <span>{spec.label}{spec.unit ? ` (${spec.unit})` : ''}</span>
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder={String(spec.defaults.mcid)}
+                          value={override?.mcid ?? ''}
+                          onChange={(e) => setChangeThreshold(metric, 'mcid', e.target.value)}
+                        />
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder={String(spec.defaults.mdc)}
+                          value={override?.mdc ?? ''}
+                          onChange={(e) => setChangeThreshold(metric, 'mdc', e.target.value)}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
             </CardContent>
           </Card>
         </TabsContent>
@@ -307,14 +398,13 @@ export default function ClinicalSettings() {
               <div className="space-y-4">
                 <div className="space-y-2">
                   <Label htmlFor="exportFormat">Default Export Format</Label>
-                  <Select value={settings.exportFormat} onValueChange={(value) => setSettings(prev => ({ ...prev, exportFormat: value }))}>
+                  <Select value={settings.exportFormat} onValueChange={(value) => setSettings(prev => ({ ...prev, exportFormat: value as ClinicalSettingsValues['exportFormat'] }))}>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="csv">CSV</SelectItem>
-                      <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
-                      <SelectItem value="json">JSON</SelectItem>
+                      <SelectItem value="ndjson">NDJSON</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -349,9 +439,9 @@ export default function ClinicalSettings() {
               <Separator />
               
               <div className="space-y-4">
-                <Button className="w-full">
+                <Button className="w-full" onClick={handleExportStudyData} disabled={exporting}>
                   <Download className="h-4 w-4 mr-2" />
-                  Export Study Data
+                  {exporting ? 'Exporting...' : 'Export Study Data'}
                 </Button>
                 <Button variant="outline" className="w-full">
                   <Database className="h-4 w-4 mr-2" />
@@ -1,18 +1,21 @@
 import { useState, useEffect } from 'react';
 import { useLocation } from 'wouter';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import DashAssessment from '@/components/dash-assessment';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { CheckCircle2, ArrowLeft, FileText } from 'lucide-react';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, ApiError } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { PatientHeader } from '@/components/patient-header';
+import { QUICKDASH_MODULES, type QuickDashAnswers, type QuickDashModule, type QuickDashModuleScores } from '@shared/quickdash';
+import { formatSubmissionIssues, type AssessmentSubmissionPayload } from '@shared/assessment-submission';
 
 export default function DashAssessmentPage() {
   const [, setLocation] = useLocation();
   const [isCompleted, setIsCompleted] = useState(false);
   const [dashScore, setDashScore] = useState<number | null>(null);
+  const [moduleScores, setModuleScores] = useState<QuickDashModuleScores>({});
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -21,42 +24,52 @@ export default function DashAssessmentPage() {
   const userCode = storedUser.code || localStorage.getItem('currentUserCode') || 'DEMO01';
   const userId = storedUser.id || 1;
 
+  // Work and sports/performing-arts modules are assigned from the patient's occupation
+  const { data: moduleData } = useQuery<{ modules: QuickDashModule[] }>({
+    queryKey: [`/api/users/${userId}/quickdash-modules`],
+  });
+  const modules = moduleData?.modules ?? [];
+
   const completeDashMutation = useMutation({
-    mutationFn: async (data: { responses: Record<number, number>; dashScore: number }) => {
-      return fetch(`/api/users/${userId}/assessments/6/complete`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          responses: data.responses,
-          dashScore: data.dashScore,
-          qualityScore: 100, // DASH assessments always have perfect quality
-          completedAt: new Date().toISOString()
-        })
-      }).then(res => res.json());
+    mutationFn: async (responses: QuickDashAnswers) => {
+      const submission: AssessmentSubmissionPayload<'dash'> = {
+        responses,
+        qualityScore: 100 // DASH assessments always have perfect quality
+      };
+      return apiRequest('POST', `/api/users/${userId}/assessments/6/complete`, submission);
     },
-    onSuccess: () => {
+    onSuccess: (data: { userAssessment: { dashScore: string | null; workModuleScore: string | null; sportsArtsModuleScore: string | null } }) => {
+      const { userAssessment } = data;
+      const score = userAssessment.dashScore !== null ? Number(userAssessment.dashScore) : null;
+      setDashScore(score);
+      setModuleScores({
+        ...(userAssessment.workModuleScore !== null && { work: Number(userAssessment.workModuleScore) }),
+        ...(userAssessment.sportsArtsModuleScore !== null && { sportsArts: Number(userAssessment.sportsArtsModuleScore) })
+      });
+      setIsCompleted(true);
       queryClient.invalidateQueries({ queryKey: [`/api/users/${userId}/history`] });
       queryClient.invalidateQueries({ queryKey: [`/api/users/${userId}/progress`] });
       queryClient.invalidateQueries({ queryKey: [`/api/patients/${userCode}/daily-assessments`] });
       toast({
         title: "DASH Assessment Completed!",
-        description: `Your disability score is ${dashScore?.toFixed(1)} points. Lower scores indicate better function.`,
+        description: `Your disability score is ${score?.toFixed(1)} points. Lower scores indicate better function.`,
       });
     },
     onError: (error) => {
+      const issues = error instanceof ApiError ? error.body?.errors : undefined;
       toast({
         title: "Error",
-        description: "Failed to save DASH assessment. Please try again.",
+        description: Array.isArray(issues) && issues.length > 0
+          ? formatSubmissionIssues(issues)
+          : "Failed to save DASH assessment. Please try again.",
         variant: "destructive"
       });
       console.error('DASH completion error:', error);
     }
   });
 
-  const handleComplete = (responses: Record<number, number>, score: number) => {
-    setDashScore(score);
-    completeDashMutation.mutate({ responses, dashScore: score });
-    setIsCompleted(true);
+  const handleComplete = (responses: QuickDashAnswers) => {
+    completeDashMutation.mutate(responses);
   };
 
   const handleCancel = () => {
@@ -111,6 +124,17 @@ export default function DashAssessmentPage() {
                 </div>
               </div>
 
+              {Object.keys(moduleScores).length > 0 && (
+                <div className="grid gap-4 md:grid-cols-2">
+                  {(Object.keys(moduleScores) as QuickDashModule[]).map((module) => (
+                    <div key={module} className="bg-white p-4 rounded-lg border text-center">
+                      <div className="text-2xl font-bold text-gray-900">{moduleScores[module]!.toFixed(1)} / 100</div>
+                      <div className="text-sm text-gray-600">{QUICKDASH_MODULES[module].label}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               <div className="bg-white p-4 rounded-lg border">
                 <h3 className="font-semibold mb-2">Understanding Your Score:</h3>
                 <ul className="text-sm space-y-1 text-gray-600">
@@ -172,10 +196,13 @@ export default function DashAssessmentPage() {
                 <div>
                   <h4 className="font-semibold mb-2">What to Expect:</h4>
                   <ul className="space-y-1 text-gray-600">
-                    <li>• 30 questions about daily activities</li>
+                    <li>• 11 questions about daily activities and symptoms</li>
+                    {modules.map((module) => (
+                      <li key={module}>• Optional {QUICKDASH_MODULES[module].label}, scored separately</li>
+                    ))}
                     <li>• Each question rated from 1-5</li>
-                    <li>• Takes about 5-10 minutes to complete</li>
-                    <li>• Answer at least 27 questions to get a valid score</li>
+                    <li>• Takes about 2-3 minutes to complete</li>
+                    <li>• At most one question can be left unanswered</li>
                   </ul>
                 </div>
                 <div>
@@ -193,6 +220,7 @@ export default function DashAssessmentPage() {
         </div>
 
         <DashAssessment 
+          modules={modules}
           onComplete={handleComplete}
           onCancel={handleCancel}
         />
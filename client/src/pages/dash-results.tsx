@@ -16,47 +16,30 @@ import {
   Target
 } from 'lucide-react';
 import { PatientHeader } from '@/components/patient-header';
+import {
+  QUICKDASH_ITEMS,
+  QUICKDASH_MODULES,
+  QUICKDASH_SCALE_LABELS,
+  type QuickDashAnswers,
+  type QuickDashModule,
+  type QuickDashScale
+} from '@shared/quickdash';
 
-const DASH_QUESTIONS = [
-  { id: 1, question: "Open a tight or new jar", category: "Physical Function" },
-  { id: 2, question: "Write", category: "Physical Function" },
-  { id: 3, question: "Turn a key", category: "Physical Function" },
-  { id: 4, question: "Prepare a meal", category: "Physical Function" },
-  { id: 5, question: "Push open a heavy door", category: "Physical Function" },
-  { id: 6, question: "Place an object on a shelf above your head", category: "Physical Function" },
-  { id: 7, question: "Do heavy household chores (e.g., wash walls, wash floors)", category: "Physical Function" },
-  { id: 8, question: "Garden or do yard work", category: "Physical Function" },
-  { id: 9, question: "Make a bed", category: "Physical Function" },
-  { id: 10, question: "Carry a shopping bag or briefcase", category: "Physical Function" },
-  { id: 11, question: "Carry a heavy object (over 10 lbs)", category: "Physical Function" },
-  { id: 12, question: "Change a lightbulb overhead", category: "Physical Function" },
-  { id: 13, question: "Wash or blow dry your hair", category: "Physical Function" },
-  { id: 14, question: "Wash your back", category: "Physical Function" },
-  { id: 15, question: "Put on a pullover sweater", category: "Physical Function" },
-  { id: 16, question: "Use a knife to cut food", category: "Physical Function" },
-  { id: 17, question: "Recreational activities which require little effort (e.g., cardplaying, knitting, etc.)", category: "Physical Function" },
-  { id: 18, question: "Recreational activities in which you take some force or impact through your arm, shoulder or hand (e.g., golf, hammering, tennis, etc.)", category: "Physical Function" },
-  { id: 19, question: "Recreational activities in which you move your arm freely (e.g., playing frisbee, badminton, etc.)", category: "Physical Function" },
-  { id: 20, question: "Manage transportation needs (getting from one place to another)", category: "Physical Function" },
-  { id: 21, question: "Sexual activities", category: "Physical Function" },
-  { id: 22, question: "During the past week, to what extent has your arm, shoulder or hand problem interfered with your normal social activities with family, friends, neighbors or groups?", category: "Social Function" },
-  { id: 23, question: "During the past week, were you limited in your work or other regular daily activities as a result of your arm, shoulder or hand problem?", category: "Role Function" },
-  { id: 24, question: "Arm, shoulder or hand pain", category: "Symptoms" },
-  { id: 25, question: "Arm, shoulder or hand pain when you performed any specific activity", category: "Symptoms" },
-  { id: 26, question: "Tingling (pins and needles) in your arm, shoulder or hand", category: "Symptoms" },
-  { id: 27, question: "Weakness in your arm, shoulder or hand", category: "Symptoms" },
-  { id: 28, question: "Stiffness in your arm, shoulder or hand", category: "Symptoms" },
-  { id: 29, question: "During the past week, how much difficulty have you had sleeping as a result of the pain in your arm, shoulder or hand?", category: "Symptoms" },
-  { id: 30, question: "I feel less capable, less confident or less useful because of my arm, shoulder or hand problem", category: "Social Function" }
+const RESPONSE_COLORS = [
+  "bg-green-100 text-green-800",
+  "bg-yellow-100 text-yellow-800",
+  "bg-orange-100 text-orange-800",
+  "bg-red-100 text-red-800",
+  "bg-red-200 text-red-900"
 ];
 
-const RESPONSE_OPTIONS = [
-  { value: 1, label: "No difficulty", description: "Not limited at all", color: "bg-green-100 text-green-800" },
-  { value: 2, label: "Mild difficulty", description: "Slightly limited", color: "bg-yellow-100 text-yellow-800" },
-  { value: 3, label: "Moderate difficulty", description: "Moderately limited", color: "bg-orange-100 text-orange-800" },
-  { value: 4, label: "Severe difficulty", description: "Very limited", color: "bg-red-100 text-red-800" },
-  { value: 5, label: "Unable", description: "Cannot perform", color: "bg-red-200 text-red-900" }
-];
+interface ResultSection {
+  name: string;
+  description: string;
+  items: { key: keyof QuickDashAnswers; text: string; scale: QuickDashScale }[];
+  // Module sections carry their own stored score; core sections are summarised from the answers
+  score?: number | null;
+}
 
 const getDashScoreInterpretation = (score: number) => {
   if (score <= 15) return { level: "Minimal", color: "text-green-600", description: "Little to no disability", bgColor: "bg-green-50" };
@@ -66,22 +49,21 @@ const getDashScoreInterpretation = (score: number) => {
   return { level: "Extreme", color: "text-red-800", description: "Extreme disability", bgColor: "bg-red-100" };
 };
 
-const getCategoryStats = (responses: Record<number, number>, category: string) => {
-  const categoryQuestions = DASH_QUESTIONS.filter(q => q.category === category);
-  const categoryResponses = categoryQuestions
-    .filter(q => responses[q.id])
-    .map(q => responses[q.id]);
+const getSectionStats = (responses: QuickDashAnswers, section: ResultSection) => {
+  const sectionResponses = section.items
+    .map(item => responses[item.key])
+    .filter((value): value is number => value !== undefined);
   
-  if (categoryResponses.length === 0) return null;
+  if (sectionResponses.length === 0) return null;
   
-  const average = categoryResponses.reduce((sum, val) => sum + val, 0) / categoryResponses.length;
-  const categoryScore = ((average - 1) / 4) * 100;
+  const average = sectionResponses.reduce((sum, val) => sum + val, 0) / sectionResponses.length;
+  const sectionScore = section.score ?? ((average - 1) / 4) * 100;
   
   return {
-    score: Math.round(categoryScore * 10) / 10,
-    answered: categoryResponses.length,
-    total: categoryQuestions.length,
-    responses: categoryResponses
+    score: Math.round(sectionScore * 10) / 10,
+    answered: sectionResponses.length,
+    total: section.items.length,
+    responses: sectionResponses
   };
 };
 
@@ -126,17 +108,34 @@ export default function DashResults() {
 
   const { userAssessment } = assessmentData as any;
   const responses = userAssessment.responses || "{}";
-  const dashScore = userAssessment.dashScore || 0;
+  const dashScore = Number(userAssessment.dashScore) || 0;
   const interpretation = getDashScoreInterpretation(dashScore);
   
   // Parse responses if they're stored as JSON string
-  const parsedResponses = typeof responses === 'string' ? JSON.parse(responses) : responses;
+  const parsedResponses: QuickDashAnswers = typeof responses === 'string' ? JSON.parse(responses) : responses;
 
-  const categories = ['Physical Function', 'Social Function', 'Role Function', 'Symptoms'];
-  const categoryStats = categories.map(cat => ({
-    name: cat,
-    stats: getCategoryStats(parsedResponses, cat)
-  })).filter(cat => cat.stats);
+  const moduleScores: Record<QuickDashModule, string | null> = {
+    work: userAssessment.workModuleScore ?? null,
+    sportsArts: userAssessment.sportsArtsModuleScore ?? null
+  };
+  const sections: ResultSection[] = [
+    { name: 'Daily Activities', description: 'Difficulty with everyday tasks', items: QUICKDASH_ITEMS.filter(item => item.scale === 'difficulty') },
+    { name: 'Symptoms', description: 'Severity of arm, shoulder and hand symptoms', items: QUICKDASH_ITEMS.filter(item => item.scale === 'severity') },
+    ...(Object.keys(QUICKDASH_MODULES) as QuickDashModule[])
+      .filter(module => moduleScores[module] !== null)
+      .map(module => ({
+        name: QUICKDASH_MODULES[module].label,
+        description: 'Optional module, scored separately from the QuickDASH score',
+        items: QUICKDASH_MODULES[module].items.map(item => ({ ...item, scale: 'difficulty' as const })),
+        score: Number(moduleScores[module])
+      }))
+  ];
+  const sectionStats = sections.map(section => ({
+    name: section.name,
+    description: section.description,
+    stats: getSectionStats(parsedResponses, section)
+  })).filter(section => section.stats);
+  const coreAnswered = QUICKDASH_ITEMS.filter(item => parsedResponses[item.key] !== undefined).length;
 
   const completedAt = new Date(userAssessment.completedAt);
   const sessionNumber = userAssessment.sessionNumber || 1;
@@ -167,7 +166,7 @@ export default function DashResults() {
               <div>
                 <CardTitle className="flex items-center gap-2">
                   <Target className="h-6 w-6 text-blue-600" />
-                  Overall DASH Score
+                  Overall QuickDASH Score
                 </CardTitle>
                 <CardDescription>
                   Disabilities of the Arm, Shoulder and Hand questionnaire results
@@ -201,7 +200,7 @@ export default function DashResults() {
               <div className="text-center">
                 <div className="flex items-center justify-center gap-2 mb-2">
                   <CheckCircle2 className="h-5 w-5 text-green-600" />
-                  <span className="font-semibold">{Object.keys(parsedResponses).length}/30</span>
+                  <span className="font-semibold">{coreAnswered}/{QUICKDASH_ITEMS.length}</span>
                 </div>
                 <p className="text-sm text-gray-600">Questions answered</p>
               </div>
@@ -219,7 +218,7 @@ export default function DashResults() {
           {/* Category Summary Tab */}
           <TabsContent value="summary" className="space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {categoryStats.map((category) => (
+              {sectionStats.map((category) => (
                 <Card key={category.name}>
                   <CardHeader>
                     <CardTitle className="text-lg">{category.name}</CardTitle>
@@ -237,7 +236,7 @@ export default function DashResults() {
                       </div>
                       <Progress value={category.stats?.score || 0} className="h-2" />
                       <p className="text-sm text-gray-600">
-                        Average difficulty level in {category.name.toLowerCase()} activities
+                        {category.description}
                       </p>
                     </div>
                   </CardContent>
@@ -248,42 +247,36 @@ export default function DashResults() {
 
           {/* Detailed Responses Tab */}
           <TabsContent value="responses" className="space-y-6">
-            {categories.map((categoryName) => {
-              const categoryQuestions = DASH_QUESTIONS.filter(q => q.category === categoryName);
-              const hasResponses = categoryQuestions.some(q => parsedResponses[q.id]);
+            {sections.map((section) => {
+              const hasResponses = section.items.some(item => parsedResponses[item.key]);
               
               if (!hasResponses) return null;
 
               return (
-                <Card key={categoryName}>
+                <Card key={section.name}>
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <BarChart3 className="h-5 w-5" />
-                      {categoryName}
+                      {section.name}
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
-                      {categoryQuestions.map((question) => {
-                        const response = parsedResponses[question.id];
+                      {section.items.map((question, index) => {
+                        const response = parsedResponses[question.key];
                         if (!response) return null;
                         
-                        const responseOption = RESPONSE_OPTIONS.find(opt => opt.value === response);
-                        
                         return (
-                          <div key={question.id} className="border rounded-lg p-4 bg-gray-50">
+                          <div key={question.key} className="border rounded-lg p-4 bg-gray-50">
                             <div className="flex items-start justify-between gap-4">
                               <div className="flex-1">
                                 <p className="font-medium text-gray-900 mb-2">
-                                  {question.id}. {question.question}
+                                  {index + 1}. {question.text}
                                 </p>
                                 <div className="flex items-center gap-2">
-                                  <Badge className={responseOption?.color}>
-                                    {responseOption?.label}
+                                  <Badge className={RESPONSE_COLORS[response - 1]}>
+                                    {QUICKDASH_SCALE_LABELS[question.scale][response - 1]}
                                   </Badge>
-                                  <span className="text-sm text-gray-600">
-                                    {responseOption?.description}
-                                  </span>
                                 </div>
                               </div>
                               <div className="text-right">
@@ -361,17 +354,18 @@ export default function DashResults() {
                 </div>
 
                 <div className="border-t pt-6">
-                  <h3 className="font-semibold text-gray-900 mb-3">About the DASH Assessment</h3>
+                  <h3 className="font-semibold text-gray-900 mb-3">About the QuickDASH Assessment</h3>
                   <div className="prose text-sm text-gray-600 max-w-none">
                     <p>
-                      The Disabilities of the Arm, Shoulder and Hand (DASH) questionnaire is a standardized assessment 
+                      The QuickDASH is the 11-item short form of the Disabilities of the Arm, Shoulder and Hand (DASH) questionnaire, a standardized assessment 
                       that measures physical function and symptoms in people with upper limb conditions. Lower scores 
                       indicate better function and fewer symptoms.
                     </p>
                     <p className="mt-3">
-                      The DASH score is calculated from your responses to 30 questions about daily activities and symptoms. 
-                      Each question is scored from 1 (no difficulty) to 5 (unable to perform), and the final score is 
-                      converted to a 0-100 scale.
+                      The score is calculated from your responses to 11 questions about daily activities and symptoms; 
+                      one question may be left unanswered. Each question is scored from 1 (no difficulty) to 5 (unable to perform), 
+                      and the final score is converted to a 0-100 scale. The optional work and sports/performing arts modules 
+                      are scored the same way but reported separately.
                     </p>
                   </div>
                 </div>
@@ -7,6 +7,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ScatterChart, Scatter, BarChart, Bar } from 'recharts';
 import { TrendingUp, Users, Calendar, Activity, Target, ArrowUpRight, ArrowDownRight } from 'lucide-react';
+import type { PaginatedResult } from '@shared/schema';
+import {
+  CHANGE_CLASSIFICATION_LABELS,
+  CLINICAL_CHANGE_METRICS,
+  CLINICAL_CHANGE_METRIC_SPECS,
+  type ChangeClassification,
+  type ClinicalChange
+} from '@shared/clinical-change';
 
 interface Patient {
   id: number;
@@ -36,6 +44,7 @@ interface Assessment {
   wristFlexionAngle: number;
   percentOfNormalRom: number;
   changeFromBaseline: number;
+  clinicalChange: ClinicalChange | null;
 }
 
 interface Cohort {
@@ -54,9 +63,10 @@ export default function LongitudinalAnalytics() {
     queryKey: ['/api/patients']
   });
 
-  const { data: assessments } = useQuery<Assessment[]>({
-    queryKey: ['/api/patient-assessments/all']
+  const { data: assessmentPage } = useQuery<PaginatedResult<Assessment>>({
+    queryKey: ['/api/patient-assessments/all?pageSize=1000']
   });
+  const assessments = assessmentPage?.data;
 
   const { data: cohorts } = useQuery<Cohort[]>({
     queryKey: ['/api/cohorts']
@@ -129,6 +139,29 @@ export default function LongitudinalAnalytics() {
     return trajectories;
   }, [filteredData, studyPatients]);
 
+  // Each patient's latest classification against their own baseline, counted per metric
+  const clinicalChangeSummary = useMemo(() => {
+    const latest: { [metric: string]: { [patientId: number]: { date: number; classification: ChangeClassification } } } = {};
+
+    filteredData.forEach(assessment => {
+      const date = new Date(assessment.assessmentDate).getTime();
+      (assessment.clinicalChange || []).forEach(change => {
+        if (!change.vsBaseline) return;
+        if (!latest[change.metric]) latest[change.metric] = {};
+        const current = latest[change.metric][assessment.patientId];
+        if (!current || current.date <= date) {
+          latest[change.metric][assessment.patientId] = { date, classification: change.vsBaseline };
+        }
+      });
+    });
+
+    return CLINICAL_CHANGE_METRICS.filter(metric => latest[metric]).map(metric => {
+      const counts: Record<ChangeClassification, number> = { improved: 0, no_change: 0, worsened: 0 };
+      Object.values(latest[metric]).forEach(({ classification }) => counts[classification]++);
+      return { metric, label: CLINICAL_CHANGE_METRIC_SPECS[metric].label, counts };
+    });
+  }, [filteredData]);
+
   // Outcome predictors analysis
   const outcomePredictors = useMemo(() => {
     const baselineData = filteredData.filter(a => a.studyWeek === 0);
@@ -376,6 +409,33 @@ export default function LongitudinalAnalytics() {
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Clinically Important Change</CardTitle>
+              <CardDescription>
+                Patients whose latest assessment changed beyond the MCID and MDC since their baseline
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {clinicalChangeSummary.length > 0 ? (
+                <div className="space-y-3">
+                  {clinicalChangeSummary.map(({ metric, label, counts }) => (
+                    <div key={metric} className="flex items-center justify-between p-2 border rounded">
+                      <div className="font-medium">{label}</div>
+                      <div className="flex gap-2">
+                        <Badge className="bg-green-100 text-green-800">{CHANGE_CLASSIFICATION_LABELS.improved}: {counts.improved}</Badge>
+                        <Badge variant="secondary">{CHANGE_CLASSIFICATION_LABELS.no_change}: {counts.no_change}</Badge>
+                        <Badge className="bg-red-100 text-red-800">{CHANGE_CLASSIFICATION_LABELS.worsened}: {counts.worsened}</Badge>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No follow-up assessments to compare with a baseline yet.</p>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="outcome-predictors" className="space-y-4">
@@ -20,7 +20,8 @@ import {
   TrendingUp,
   PlayCircle,
   AlertCircle,
-  FileText
+  FileText,
+  ClipboardList
 } from 'lucide-react';
 import { format, startOfDay, isSameDay, differenceInDays } from 'date-fns';
 import { apiRequest } from '@/lib/queryClient';
@@ -47,6 +48,16 @@ interface DashReminderData {
   lastDashDate?: string;
 }
 
+interface AssignedQuestionnaire {
+  questionnaireId: string;
+  name: string;
+  shortName: string;
+  description: string;
+  frequency: string;
+  lastCompletedAt: string | null;
+  isDue: boolean;
+}
+
 interface StreakData {
   currentStreak: number;
   longestStreak: number;
@@ -92,6 +103,14 @@ export default function PatientDailyDashboard() {
 
   const dailyAssessments: DailyAssessment[] = todayAssessmentsResponse?.assessments || [];
 
+  // PRWE / BCTQ questionnaires assigned to the patient's injury type
+  const { data: questionnairesResponse } = useQuery<{ questionnaires: AssignedQuestionnaire[] }>({
+    queryKey: [`/api/users/${patient?.id}/questionnaires`],
+    enabled: !!patient?.id,
+  });
+
+  const dueQuestionnaires = questionnairesResponse?.questionnaires.filter(q => q.isDue) || [];
+
   const { data: streakData } = useQuery<StreakData>({
     queryKey: [`/api/patients/${userCode}/streak`],
     enabled: !!userCode,
@@ -123,6 +142,7 @@ export default function PatientDailyDashboard() {
     const handleFocus = () => {
       console.log('Dashboard focus event - refreshing data');
       queryClient.invalidateQueries({ queryKey: [`/api/users/${patient?.id}/assessments/today`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${patient?.id}/questionnaires`] });
       queryClient.invalidateQueries({ queryKey: [`/api/patients/${userCode}/streak`] });
       queryClient.invalidateQueries({ queryKey: [`/api/patients/${userCode}/calendar`] });
       queryClient.invalidateQueries({ queryKey: [`/api/patients/by-code/${userCode}`] });
@@ -459,7 +479,34 @@ export default function PatientDailyDashboard() {
                     </Card>
                   ))}
                   
-                  {totalToday === 0 && (
+                  {dueQuestionnaires.map((questionnaire) => (
+                    <Card key={questionnaire.questionnaireId} className="hover:shadow-md transition-shadow">
+                      <CardContent className="pt-6">
+                        <div className="flex items-center justify-between">
+                          <div className="space-y-1">
+                            <div className="flex items-center space-x-2">
+                              <ClipboardList className="h-5 w-5 text-purple-600" />
+                              <h4 className="font-medium">{questionnaire.name} ({questionnaire.shortName})</h4>
+                              <Badge variant="outline" className="text-xs capitalize">{questionnaire.frequency}</Badge>
+                            </div>
+                            <p className="text-sm text-muted-foreground">{questionnaire.description}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {questionnaire.lastCompletedAt
+                                ? `Last completed ${format(new Date(questionnaire.lastCompletedAt), 'MMM d')}`
+                                : 'Not completed yet'}
+                            </p>
+                          </div>
+                          <Link href={`/patient/${userCode}/questionnaires/${questionnaire.questionnaireId}`}>
+                            <Button className="bg-purple-600 hover:bg-purple-700">
+                              Start Questionnaire
+                            </Button>
+                          </Link>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                  
+                  {totalToday === 0 && dueQuestionnaires.length === 0 && (
                     <Card>
                       <CardContent className="pt-6 text-center">
                         <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
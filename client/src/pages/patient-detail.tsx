@@ -20,6 +20,9 @@ import {
 import { format } from 'date-fns';
 import { Link } from 'wouter';
 import { useAuth } from '@/lib/auth';
+import { EnrollmentTimeline } from '@/components/enrollment-timeline';
+import ClinicalChangeBadges from '@/components/clinical-change-badges';
+import type { ClinicalChange } from '@shared/clinical-change';
 
 interface PatientAssessment {
   id: number;
@@ -30,6 +33,7 @@ interface PatientAssessment {
   wristExtensionAngle: number;
   percentOfNormalRom: number;
   changeFromBaseline: number;
+  clinicalChange: ClinicalChange | null;
   deviceConfidenceScore: number;
   isCompleted: boolean;
 }
@@ -308,6 +312,9 @@ export default function PatientDetail() {
         </Card>
       </div>
 
+      {/* Enrollment History */}
+      <EnrollmentTimeline patientId={patient.id} cohortId={patient.cohort?.id} />
+
       {/* Recent Assessments */}
       <Card>
         <CardHeader>
@@ -349,6 +356,8 @@ export default function PatientDetail() {
                     <div className="text-xs text-muted-foreground">
                       Confidence: {assessment.deviceConfidenceScore?.toFixed(1) || 'N/A'}%
                     </div>
+                    <ClinicalChangeBadges change={assessment.clinicalChange} compareTo="baseline" label="vs baseline:" className="justify-end" />
+                    <ClinicalChangeBadges change={assessment.clinicalChange} compareTo="previous" label="vs previous:" className="justify-end" />
                   </div>
                 </div>
               ))}
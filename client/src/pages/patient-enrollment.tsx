@@ -13,6 +13,9 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
+import { authService } from '@/lib/auth';
+import { EligibilityCriteriaList } from '@/components/eligibility-criteria-list';
+import type { EligibilityResult } from '@shared/eligibility-criteria';
 import { UserPlus, CheckCircle, AlertCircle, Calendar, Phone, User } from 'lucide-react';
 
 const patientFormSchema = z.object({
@@ -22,23 +25,33 @@ const patientFormSchema = z.object({
   dateOfBirth: z.string().optional(),
   gender: z.enum(['Male', 'Female', 'Other', '']).optional(),
   injuryDate: z.string().optional(),
+  // Screening details checked against the cohort's eligibility criteria
+  ageGroup: z.string().optional(),
+  handDominance: z.string().optional(),
+  injuryType: z.string().optional(),
+  laterality: z.string().optional(),
+  procedureCode: z.string().optional(),
+  surgeryDate: z.string().optional(),
   cohortId: z.number().min(1, 'Please select a cohort'),
   eligibilityNotes: z.string().optional(),
 });
 
 type PatientFormData = z.infer<typeof patientFormSchema>;
 
+const AGE_GROUPS = ['18-25', '26-35', '36-45', '46-55', '56-65', '66-75'];
+
+const INJURY_TYPES = [
+  'Trigger Finger', 'Carpal Tunnel', 'Distal Radius Fracture', 'CMC Arthroplasty',
+  'Metacarpal ORIF', 'Phalanx Fracture', 'Radial Head Replacement', 'Terrible Triad Injury',
+  "Dupuytren's Contracture", 'Flexor Tendon Injury', 'Extensor Tendon Injury'
+];
+
 interface Cohort {
   id: number;
   name: string;
   description: string;
 }
 
-interface EligibilityResult {
-  eligible: boolean;
-  reasons: string[];
-}
-
 export default function PatientEnrollment() {
   const [step, setStep] = useState<'create' | 'eligibility' | 'enroll'>('create');
   const [patientId, setPatientId] = useState<number | null>(null);
@@ -55,6 +68,8 @@ export default function PatientEnrollment() {
       dateOfBirth: '',
       gender: '',
       injuryDate: '',
+      procedureCode: '',
+      surgeryDate: '',
       eligibilityNotes: '',
     },
   });
@@ -66,12 +81,10 @@ export default function PatientEnrollment() {
 
   const createPatientMutation = useMutation({
     mutationFn: async (data: PatientFormData) => {
-      const token = localStorage.getItem('auth_token');
-      const response = await fetch('/api/patients', {
+      const response = await authService.fetchWithAuth('/api/patients', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
         },
         body: JSON.stringify({
           patientId: data.patientId,
@@ -80,6 +93,12 @@ export default function PatientEnrollment() {
           dateOfBirth: data.dateOfBirth || null,
           gender: data.gender || null,
           injuryDate: data.injuryDate || null,
+          ageGroup: data.ageGroup || null,
+          handDominance: data.handDominance || null,
+          injuryType: data.injuryType || null,
+          laterality: data.laterality || null,
+          procedureCode: data.procedureCode || null,
+          surgeryDate: data.surgeryDate || null,
           cohortId: data.cohortId,
           eligibilityNotes: data.eligibilityNotes || null,
         }),
@@ -110,12 +129,8 @@ export default function PatientEnrollment() {
 
   const checkEligibilityMutation = useMutation({
     mutationFn: async ({ patientId, cohortId }: { patientId: number; cohortId: number }) => {
-      const token = localStorage.getItem('auth_token');
-      const response = await fetch(`/api/patients/${patientId}/eligibility/${cohortId}`, {
+      const response = await authService.fetchWithAuth(`/api/patients/${patientId}/eligibility/${cohortId}`, {
         method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
       });
       
       if (!response.ok) {
@@ -133,22 +148,22 @@ export default function PatientEnrollment() {
   });
 
   const enrollPatientMutation = useMutation({
-    mutationFn: async ({ patientId, cohortId, enrollmentStatus, eligibilityNotes }: {
+    mutationFn: async ({ patientId, cohortId, enrollmentStatus, reason, eligibilityNotes }: {
       patientId: number;
       cohortId: number;
       enrollmentStatus: string;
+      reason?: string;
       eligibilityNotes?: string;
     }) => {
-      const token = localStorage.getItem('auth_token');
-      const response = await fetch(`/api/patients/${patientId}/enroll`, {
+      const response = await authService.fetchWithAuth(`/api/patients/${patientId}/enroll`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
         },
         body: JSON.stringify({
           cohortId,
           enrollmentStatus,
+          reason,
           eligibilityNotes,
         }),
       });
@@ -162,8 +177,10 @@ export default function PatientEnrollment() {
     onSuccess: (patient) => {
       queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
       toast({
-        title: "Enrollment Complete",
-        description: `Patient ${patient.alias} has been successfully enrolled in the study.`,
+        title: patient.enrollmentStatus === 'excluded' ? "Patient Excluded" : "Enrollment Complete",
+        description: patient.enrollmentStatus === 'excluded'
+          ? `Patient ${patient.alias} has been excluded from the study.`
+          : `Patient ${patient.alias} has been successfully enrolled in the study.`,
       });
       // Reset form
       form.reset();
@@ -208,12 +225,24 @@ export default function PatientEnrollment() {
   const handleExclude = () => {
     const cohortId = form.getValues('cohortId');
     const eligibilityNotes = form.getValues('eligibilityNotes');
+    // Exclusions need a reason: the clinician's note, else the failed criteria
+    const reason = eligibilityNotes?.trim() || eligibilityResult?.reasons.join('; ');
+    
+    if (!reason) {
+      toast({
+        title: "Reason Required",
+        description: "Add a note explaining why the patient is excluded.",
+        variant: "destructive",
+      });
+      return;
+    }
     
     if (patientId && cohortId) {
       enrollPatientMutation.mutate({
         patientId,
         cohortId,
         enrollmentStatus: 'excluded',
+        reason,
         eligibilityNotes,
       });
     }
@@ -337,6 +366,83 @@ export default function PatientEnrollment() {
                 </div>
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="ageGroup">Age Group</Label>
+                  <Select onValueChange={(value) => form.setValue('ageGroup', value)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select age group" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {AGE_GROUPS.map((ageGroup) => (
+                        <SelectItem key={ageGroup} value={ageGroup}>{ageGroup} years</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="handDominance">Hand Dominance</Label>
+                  <Select onValueChange={(value) => form.setValue('handDominance', value)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select dominance" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="Right">Right</SelectItem>
+                      <SelectItem value="Left">Left</SelectItem>
+                      <SelectItem value="Ambidextrous">Ambidextrous</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="injuryType">Injury Type</Label>
+                  <Select onValueChange={(value) => form.setValue('injuryType', value)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select injury type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INJURY_TYPES.map((injuryType) => (
+                        <SelectItem key={injuryType} value={injuryType}>{injuryType}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="laterality">Affected Side</Label>
+                  <Select onValueChange={(value) => form.setValue('laterality', value)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select side" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="Right">Right</SelectItem>
+                      <SelectItem value="Left">Left</SelectItem>
+                      <SelectItem value="Bilateral">Bilateral</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="procedureCode">Procedure Code</Label>
+                  <Input
+                    id="procedureCode"
+                    {...form.register('procedureCode')}
+                    placeholder="CPT-64721"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="surgeryDate">Surgery Date</Label>
+                  <Input
+                    id="surgeryDate"
+                    type="date"
+                    {...form.register('surgeryDate')}
+                  />
+                </div>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="cohortId">Study Cohort *</Label>
                 <Select onValueChange={(value) => form.setValue('cohortId', parseInt(value))}>
@@ -408,13 +514,9 @@ export default function PatientEnrollment() {
                         {eligibilityResult.eligible ? 'Eligible' : 'Not Eligible'}
                       </Badge>
                     </div>
-                    {eligibilityResult.reasons.length > 0 && (
-                      <ul className="mt-2 space-y-1">
-                        {eligibilityResult.reasons.map((reason, index) => (
-                          <li key={index} className="text-sm">• {reason}</li>
-                        ))}
-                      </ul>
-                    )}
+                    <div className="mt-3">
+                      <EligibilityCriteriaList result={eligibilityResult} />
+                    </div>
                   </AlertDescription>
                 </Alert>
 
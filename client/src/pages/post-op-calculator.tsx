@@ -1,7 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Calendar, Clock, TrendingUp } from 'lucide-react';
+import { calculateRecoveryTimeline } from '@shared/recovery-timeline';
 
 interface PostOpCalculatorProps {
   surgeryDate: string;
@@ -9,49 +10,14 @@ interface PostOpCalculatorProps {
 }
 
 export default function PostOpCalculator({ surgeryDate, currentDate = new Date() }: PostOpCalculatorProps) {
-  const [postOpInfo, setPostOpInfo] = useState({
-    days: 0,
-    weeks: 0,
-    phase: '',
-    milestone: '',
-  });
-
-  useEffect(() => {
-    const surgery = new Date(surgeryDate);
-    const current = currentDate;
-    const diffTime = current.getTime() - surgery.getTime();
-    const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-    const diffWeeks = Math.floor(diffDays / 7);
-
-    let phase = '';
-    let milestone = '';
-
-    if (diffDays < 0) {
-      phase = 'Pre-surgery';
-      milestone = 'Surgery scheduled';
-    } else if (diffDays <= 7) {
-      phase = 'Acute phase';
-      milestone = 'Initial healing';
-    } else if (diffDays <= 21) {
-      phase = 'Early recovery';
-      milestone = 'Wound healing';
-    } else if (diffDays <= 42) {
-      phase = 'Intermediate recovery';
-      milestone = 'Active rehabilitation';
-    } else if (diffDays <= 84) {
-      phase = 'Late recovery';
-      milestone = 'Return to activity';
-    } else {
-      phase = 'Long-term follow-up';
-      milestone = 'Maintenance phase';
-    }
-
-    setPostOpInfo({
-      days: diffDays,
-      weeks: diffWeeks,
-      phase,
-      milestone,
-    });
+  const postOpInfo = useMemo(() => {
+    const timeline = calculateRecoveryTimeline(new Date(surgeryDate), currentDate);
+    return {
+      days: timeline.postOpDay,
+      weeks: timeline.studyWeek,
+      phase: timeline.phase,
+      milestone: timeline.milestone,
+    };
   }, [surgeryDate, currentDate]);
 
   const getPhaseColor = (phase: string) => {
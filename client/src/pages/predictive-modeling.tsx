@@ -9,6 +9,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Brain, Target, TrendingUp, AlertCircle, CheckCircle, Calculator } from 'lucide-react';
+import type { PaginatedResult, PatientOutcome } from '@shared/schema';
 
 interface PredictionInput {
   ageGroup: string;
@@ -53,8 +54,8 @@ export default function PredictiveModeling() {
 
   const [activeModel, setActiveModel] = useState<string>('rom-prediction');
 
-  const { data: historicalData } = useQuery({
-    queryKey: ['/api/patient-assessments/outcomes']
+  const { data: outcomePage } = useQuery<PaginatedResult<PatientOutcome>>({
+    queryKey: ['/api/patient-assessments/outcomes?pageSize=1000']
   });
 
   // Machine learning model simulation
@@ -488,7 +489,7 @@ export default function PredictiveModeling() {
                 </div>
                 <div>
                   <div className="font-medium">Training Data</div>
-                  <div className="text-muted-foreground">{historicalData?.length || 'N/A'} patients</div>
+                  <div className="text-muted-foreground">{outcomePage?.total || 'N/A'} patients</div>
                 </div>
                 <div>
                   <div className="font-medium">Accuracy</div>
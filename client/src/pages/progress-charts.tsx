@@ -2,9 +2,11 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import React from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import ClinicalChangeBadges from "@/components/clinical-change-badges";
+import type { ClinicalChange, ClinicalChangeMetric } from "@shared/clinical-change";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { TrendingUp, Calendar, Target, ArrowLeft, Activity } from "lucide-react";
 import { Link } from "wouter";
 // Import deviation calculation utility - will implement inline for now
@@ -70,13 +72,43 @@ const dashTargets = {
   'Phalanx Fracture': 12    // Good recovery target
 };
 
+// QuickDASH optional modules are charted next to the core score on the same 0-100 scale
+const DASH_MODULE_FIELDS: Record<string, 'workModuleScore' | 'sportsArtsModuleScore'> = {
+  'QuickDASH Work Module': 'workModuleScore',
+  'QuickDASH Sports/Arts Module': 'sportsArtsModuleScore'
+};
+
+const isDashScore = (assessmentName: string) => assessmentName === 'DASH Score' || assessmentName in DASH_MODULE_FIELDS;
+
 interface ChartDataPoint {
   day: number;
   value: number;
   date: string;
   percentage: number;
+  painBefore?: number | null; // VAS 0-10 rated around the motion recording
+  painAfter?: number | null;
+  clinicalChange?: ClinicalChange | null;
 }
 
+// The clinically important change metrics each chart plots; pain is rated around every recording
+const CHART_CHANGE_METRICS: Record<string, ClinicalChangeMetric[]> = {
+  'TAM (Total Active Motion)': ['indexFingerTam', 'middleFingerTam', 'ringFingerTam', 'pinkyFingerTam', 'vasScore'],
+  'Index Finger TAM': ['indexFingerTam', 'vasScore'],
+  'Middle Finger TAM': ['middleFingerTam', 'vasScore'],
+  'Ring Finger TAM': ['ringFingerTam', 'vasScore'],
+  'Pinky Finger TAM': ['pinkyFingerTam', 'vasScore'],
+  'DASH Score': ['quickDashScore'],
+  'Wrist Flexion': ['wristFlexionExtensionArc', 'vasScore'],
+  'Wrist Extension': ['wristFlexionExtensionArc', 'vasScore'],
+};
+
+const chartChangeMetrics = (assessmentName: string): ClinicalChangeMetric[] | undefined => {
+  if (assessmentName in CHART_CHANGE_METRICS) return CHART_CHANGE_METRICS[assessmentName];
+  if (assessmentName.includes('Kapandji')) return ['kapandjiScore', 'vasScore'];
+  if (assessmentName.includes('Deviation') || assessmentName.includes('Radial/Ulnar')) return ['wristDeviationArc', 'vasScore'];
+  return undefined;
+};
+
 export default function ProgressCharts() {
   // Get user code from sessionStorage
   const storedUser = JSON.parse(sessionStorage.getItem('currentUser') || '{}');
@@ -120,6 +152,12 @@ export default function ProgressCharts() {
   const userHistory = history?.history || [];
   const userAssessments = assessments?.assessments || [];
   
+  const getTarget = (assessmentName: string): number => {
+    if (assessmentName.includes('Kapandji')) return 10;
+    if (assessmentName in DASH_MODULE_FIELDS) return targetROM[injuryType]?.['DASH Score'] || 100;
+    return targetROM[injuryType]?.[assessmentName] || 100;
+  };
+
   // Process data for charts
   const getChartData = (assessmentName: string): ChartDataPoint[] => {
     console.log(`Looking for assessment: ${assessmentName}`);
@@ -136,6 +174,8 @@ export default function ProgressCharts() {
         console.log('Filtering for DASH Score');
         console.log('DASH items found:', userHistory.filter(h => h.assessmentId === 6 || h.assessmentName?.includes('DASH')));
         return item.assessmentId === 6 || item.assessmentName?.includes('DASH');
+      } else if (assessmentName in DASH_MODULE_FIELDS) {
+        return item[DASH_MODULE_FIELDS[assessmentName]] != null;
       } else if (assessmentName === 'Wrist Flexion' || assessmentName === 'Wrist Extension') {
         return item.assessmentName.includes('Flexion/Extension') || 
                item.assessmentName.includes('Flexion') || 
@@ -151,7 +191,7 @@ export default function ProgressCharts() {
       return false;
     });
 
-    const target = assessmentName.includes('Kapandji') ? 10 : (targetROM[injuryType]?.[assessmentName] || 100);
+    const target = getTarget(assessmentName);
     const startDate = new Date(userCode === 'DEMO01' ? '2025-06-01' : user?.user?.createdAt || Date.now());
 
     console.log(`Processing ${relevantHistory.length} items for ${assessmentName}`);
@@ -185,6 +225,8 @@ export default function ProgressCharts() {
         // DASH scores come from DASH Survey assessments with dashScore field
         value = parseFloat(item.dashScore) || 0;
         console.log('DASH Score data for', item.assessmentName, ':', { dashScore: item.dashScore, finalValue: value, hasData: !!item.dashScore });
+      } else if (assessmentName in DASH_MODULE_FIELDS) {
+        value = parseFloat(item[DASH_MODULE_FIELDS[assessmentName]]) || 0;
       } else if (assessmentName === 'Wrist Flexion') {
         // Use stored wrist flexion values - calculator ensures accuracy during save
         value = parseFloat(item.maxWristFlexion || item.wristFlexionAngle) || 0;
@@ -224,7 +266,7 @@ export default function ProgressCharts() {
       
       // Calculate percentage based on assessment type
       let percentage;
-      if (assessmentName === 'DASH Score') {
+      if (isDashScore(assessmentName)) {
         // DASH Score: lower is better, so invert the percentage
         // 0 = 100% (perfect), target = 0% (poor)
         percentage = Math.max(0, Math.round(((target - value) / target) * 100));
@@ -237,19 +279,22 @@ export default function ProgressCharts() {
         day: Math.max(0, day),
         value,
         date: itemDate.toLocaleDateString(),
-        percentage
+        percentage,
+        painBefore: item.vasScoreBefore ?? null,
+        painAfter: item.vasScoreAfter ?? null,
+        clinicalChange: item.clinicalChange ?? null
       };
     }).sort((a, b) => a.day - b.day);
     
     // Ensure chart always starts at day 0 by adding a day 0 point if needed
     if (chartData.length > 0 && chartData[0].day > 0) {
       // Add day 0 with baseline value
-      const baselineValue = assessmentName === 'DASH Score' ? 100 : 0; // DASH starts high, others start low
+      const baselineValue = isDashScore(assessmentName) ? 100 : 0; // DASH starts high, others start low
       chartData.unshift({
         day: 0,
         value: baselineValue,
         date: startDate.toLocaleDateString(),
-        percentage: assessmentName === 'DASH Score' ? 0 : 0 // Poor starting performance
+        percentage: isDashScore(assessmentName) ? 0 : 0 // Poor starting performance
       });
     }
     
@@ -259,7 +304,7 @@ export default function ProgressCharts() {
   const CustomTooltip = ({ active, payload, label, assessmentName }: any) => {
     if (active && payload && payload.length) {
       const data = payload[0].payload;
-      const target = assessmentName.includes('Kapandji') ? 10 : (targetROM[injuryType]?.[assessmentName] || 100);
+      const target = getTarget(assessmentName);
       
       // Determine unit and scoring description based on assessment type
       let unit = '°';
@@ -269,7 +314,7 @@ export default function ProgressCharts() {
       if (assessmentName.includes('Kapandji')) {
         unit = '';
         scoringDescription = 'Higher is better (0-10 scale)';
-      } else if (assessmentName === 'DASH Score') {
+      } else if (isDashScore(assessmentName)) {
         unit = ' pts';
         scoringDescription = 'Lower is better (0-100 scale)';
         deltaLabel = 'Δ from target (lower is better)';
@@ -289,6 +334,11 @@ export default function ProgressCharts() {
           <p className="text-sm text-muted-foreground">
             {deltaLabel}: {data.value - target > 0 ? '+' : ''}{data.value - target}{unit}
           </p>
+          {(data.painBefore != null || data.painAfter != null) && (
+            <p className="text-sm text-red-600">
+              Pain: {data.painBefore ?? '-'} before, {data.painAfter ?? '-'} after (0-10)
+            </p>
+          )}
         </div>
       );
     }
@@ -345,9 +395,17 @@ export default function ProgressCharts() {
     return Array.from(new Set(result));
   };
   
-  const baseAssessments = showDigitBreakdown ? 
-    ['TAM (Total Active Motion)', 'Index Finger TAM', 'Middle Finger TAM', 'Ring Finger TAM', 'Pinky Finger TAM'] :
-    assessmentTypesWithData;
+  // Module charts only appear once the patient has answered a module
+  const dashModuleCharts = Object.keys(DASH_MODULE_FIELDS).filter(assessmentName =>
+    userHistory.some((h: any) => h[DASH_MODULE_FIELDS[assessmentName]] != null)
+  );
+  
+  const baseAssessments = [
+    ...(showDigitBreakdown ? 
+      ['TAM (Total Active Motion)', 'Index Finger TAM', 'Middle Finger TAM', 'Ring Finger TAM', 'Pinky Finger TAM'] :
+      assessmentTypesWithData),
+    ...dashModuleCharts
+  ];
     
   const displayAssessments = splitDeviationAssessments(baseAssessments);
 
@@ -427,10 +485,13 @@ export default function ProgressCharts() {
 
         {displayAssessments.map((assessmentName) => {
           const chartData = getChartData(assessmentName);
-          const target = assessmentName.includes('Kapandji') ? 10 : (targetROM[injuryType]?.[assessmentName] || 100);
-          const unit = (assessmentName.includes('Kapandji') || assessmentName === 'DASH Score') ? '' : '°';
+          const target = getTarget(assessmentName);
+          const unit = (assessmentName.includes('Kapandji') || isDashScore(assessmentName)) ? '' : '°';
           const latestValue = chartData[chartData.length - 1]?.value || 0;
           const percentageOfTarget = Math.round((latestValue / target) * 100);
+          const hasPain = chartData.some(point => point.painBefore != null || point.painAfter != null);
+          const latestChange = chartData[chartData.length - 1]?.clinicalChange;
+          const changeMetrics = chartChangeMetrics(assessmentName);
           
 
 
@@ -457,6 +518,8 @@ export default function ProgressCharts() {
                       </div>
                     </div>
                   </div>
+                  <ClinicalChangeBadges change={latestChange} compareTo="baseline" metrics={changeMetrics} label="Since first session:" className="pt-2" />
+                  <ClinicalChangeBadges change={latestChange} compareTo="previous" metrics={changeMetrics} label="Since last session:" />
                 </CardHeader>
                 <CardContent>
                   {chartData.length > 0 ? (
@@ -474,19 +537,28 @@ export default function ProgressCharts() {
                             />
                             <YAxis 
                               label={{ 
-                                value: assessmentName.includes('Kapandji') ? 'Score' : assessmentName === 'DASH Score' ? 'Disability Score' : `ROM (${unit})`, 
+                                value: assessmentName.includes('Kapandji') ? 'Score' : isDashScore(assessmentName) ? 'Disability Score' : `ROM (${unit})`, 
                                 angle: -90, 
                                 position: 'insideLeft' 
                               }}
                               domain={
                                 assessmentName.includes('Kapandji') ? [0, 12] : 
-                                assessmentName === 'DASH Score' ? [0, 100] :
+                                isDashScore(assessmentName) ? [0, 100] :
                                 assessmentName.includes('Radial Deviation') ? [0, Math.max(25, target + 10)] :
                                 assessmentName.includes('Ulnar Deviation') ? [0, Math.max(50, target + 15)] :
                                 [0, Math.max(300, target + 50)]
                               }
                             />
+                            {hasPain && (
+                              <YAxis
+                                yAxisId="pain"
+                                orientation="right"
+                                domain={[0, 10]}
+                                label={{ value: 'Pain (VAS)', angle: 90, position: 'insideRight' }}
+                              />
+                            )}
                             <Tooltip content={<CustomTooltip assessmentName={assessmentName} />} />
+                            {hasPain && <Legend />}
                             <ReferenceLine 
                               y={target} 
                               stroke="#059669" 
@@ -511,17 +583,42 @@ export default function ProgressCharts() {
                             <Line 
                               type="monotone" 
                               dataKey="value" 
+                              name={assessmentName}
                               stroke="#3b82f6" 
                               strokeWidth={2}
                               dot={{ fill: '#3b82f6', strokeWidth: 2, r: 4 }}
                               activeDot={{ r: 6 }}
                             />
+                            {hasPain && (
+                              <>
+                                <Line
+                                  yAxisId="pain"
+                                  type="monotone"
+                                  dataKey="painBefore"
+                                  name="Pain before"
+                                  stroke="#f97316"
+                                  strokeDasharray="4 4"
+                                  connectNulls
+                                  dot={{ r: 3 }}
+                                />
+                                <Line
+                                  yAxisId="pain"
+                                  type="monotone"
+                                  dataKey="painAfter"
+                                  name="Pain after"
+                                  stroke="#dc2626"
+                                  strokeDasharray="4 4"
+                                  connectNulls
+                                  dot={{ r: 3 }}
+                                />
+                              </>
+                            )}
                           </LineChart>
                         </ResponsiveContainer>
                       </div>
                       
                       {/* DASH Score Legend */}
-                      {assessmentName === 'DASH Score' && (
+                      {isDashScore(assessmentName) && (
                         <div className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
                           <h4 className="font-semibold text-blue-900 mb-3 flex items-center">
                             <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { useLocation, useParams } from 'wouter';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, CheckCircle2, TrendingDown } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { PatientHeader } from '@/components/patient-header';
+import QuestionnaireForm from '@/components/questionnaire-form';
+import { QuestionnaireHistoryChart } from '@/components/questionnaire-history-chart';
+import { QUESTIONNAIRES, isQuestionnaireId } from '@shared/questionnaires';
+import type { QuestionnaireResponse, User } from '@shared/schema';
+
+type SerializedResponse = Omit<QuestionnaireResponse, 'completedAt'> & { completedAt: string | null };
+
+export default function QuestionnairePage() {
+  const { code, questionnaireId } = useParams<{ code: string; questionnaireId: string }>();
+  const [, setLocation] = useLocation();
+  const [result, setResult] = useState<SerializedResponse | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const definition = questionnaireId && isQuestionnaireId(questionnaireId) ? QUESTIONNAIRES[questionnaireId] : null;
+
+  const { data: userData } = useQuery<{ user: User }>({
+    queryKey: [`/api/users/by-code/${code}`],
+    enabled: !!code,
+  });
+  const userId = userData?.user.id;
+
+  const historyKey = `/api/users/${userId}/questionnaires/${questionnaireId}/responses`;
+  const { data: history } = useQuery<{ responses: SerializedResponse[] }>({
+    queryKey: [historyKey],
+    enabled: !!userId && !!definition,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async (answers: Record<string, number>) => {
+      return apiRequest('POST', `/api/users/${userId}/questionnaires/${questionnaireId}/responses`, { answers });
+    },
+    onSuccess: (data: { response: SerializedResponse }) => {
+      setResult(data.response);
+      queryClient.invalidateQueries({ queryKey: [historyKey] });
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${userId}/questionnaires`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Submission Failed",
+        description: error.message || "Failed to save your answers. Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const returnToDashboard = () => setLocation(`/patient/${code}/dashboard`);
+
+  if (!definition) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <PatientHeader patientCode={code || ""} />
+        <div className="max-w-4xl mx-auto p-6">
+          <Card className="border-red-200 bg-red-50">
+            <CardContent className="p-6 text-center">
+              <p className="text-red-700 mb-4">This questionnaire could not be found.</p>
+              <Button onClick={returnToDashboard}>Return to Dashboard</Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <PatientHeader patientCode={code || ""} />
+
+      <div className="max-w-4xl mx-auto p-6 space-y-6">
+        <Button variant="outline" onClick={returnToDashboard}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Dashboard
+        </Button>
+
+        {result ? (
+          <Card className="border-green-200 bg-green-50">
+            <CardHeader className="text-center">
+              <CheckCircle2 className="h-12 w-12 text-green-600 mx-auto mb-2" />
+              <CardTitle className="text-green-800">{definition.shortName} Completed</CardTitle>
+              <CardDescription className="text-green-700">Thank you for completing the {definition.name}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-4 md:grid-cols-3">
+                {definition.sections.map((section) => (
+                  <div key={section.key} className="bg-white p-4 rounded-lg border text-center">
+                    <div className="text-2xl font-bold text-gray-900">
+                      {(result.scores as Record<string, number>)[section.key]}
+                    </div>
+                    <div className="text-sm text-gray-600">{section.label} ({section.range[0]}-{section.range[1]})</div>
+                  </div>
+                ))}
+                {definition.total && result.totalScore !== null && (
+                  <div className="bg-white p-4 rounded-lg border text-center">
+                    <div className="text-2xl font-bold text-gray-900">{Number(result.totalScore)}</div>
+                    <div className="text-sm text-gray-600">{definition.total.label} ({definition.total.range[0]}-{definition.total.range[1]})</div>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <QuestionnaireForm
+            definition={definition}
+            onSubmit={(answers) => submitMutation.mutate(answers)}
+            onCancel={returnToDashboard}
+            isSubmitting={submitMutation.isPending || !userId}
+          />
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingDown className="h-5 w-5" />
+              {definition.shortName} History
+            </CardTitle>
+            <CardDescription>{definition.description}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <QuestionnaireHistoryChart definition={definition} responses={history?.responses ?? []} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
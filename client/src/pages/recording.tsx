@@ -1,19 +1,27 @@
 import { useState, useEffect, useRef } from "react";
-import { useLocation, useParams } from "wouter";
+import { useLocation, useParams, useRoute } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { ArrowLeft, Hand, Lightbulb, Square, RotateCcw, Eye, EyeOff } from "lucide-react";
 import ProgressBar from "@/components/progress-bar";
 import HolisticTracker from "@/components/holistic-tracker";
-import { apiRequest } from "@/lib/queryClient";
+import VASPainQuestionnaire from "@/pages/vas-pain-questionnaire";
+import RecordingQualityGate from "@/components/recording-quality-gate";
+import { apiRequest, ApiError } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { calculateCurrentROM, calculateMaxROM, calculateFingerROM, type JointAngles } from "@/lib/rom-calculator";
 import { calculateWristAngles } from "@shared/wrist-calculator";
+import { getValidationProfile, type ValidationProfile } from "@shared/rom-calculator";
+import { evaluateRecordingQuality, type RecordingQualityReport } from "@shared/recording-quality";
+import { assessmentKindFor, formatSubmissionIssues, type MotionSubmissionPayload } from "@shared/assessment-submission";
+import type { HandSide } from "@shared/contralateral-comparison";
 import { calculateElbowReferencedWristAngle, calculateMaxElbowWristAngles, resetRecordingSession } from "@shared/elbow-wrist-calculator";
 
 export default function Recording() {
   const { id, code } = useParams();
+  // Reference mode records the uninjured hand as the contralateral baseline instead of a session
+  const [isReferenceRecording] = useRoute('/assessment/:id/reference/:code');
   const queryClient = useQueryClient();
   const [currentUser, setCurrentUser] = useState<any>(null);
   const [currentRepetition, setCurrentRepetition] = useState(1);
@@ -52,6 +60,13 @@ export default function Recording() {
   const [showSkeletonOverlay, setShowSkeletonOverlay] = useState(true);
   const [poseLandmarks, setPoseLandmarks] = useState<any[]>([]);
   const [sessionHandType, setSessionHandType] = useState<'LEFT' | 'RIGHT' | 'UNKNOWN'>('UNKNOWN');
+  // Pain is rated before the camera starts and again once the recording passes the quality check
+  const [step, setStep] = useState<'pain-before' | 'recording' | 'quality' | 'pain-after'>(isReferenceRecording ? 'recording' : 'pain-before');
+  const [vasScoreBefore, setVasScoreBefore] = useState<number | null>(null);
+  const [pendingCompletion, setPendingCompletion] = useState<MotionSubmissionPayload | null>(null);
+  const [qualityReport, setQualityReport] = useState<RecordingQualityReport | null>(null);
+  const [retakeReasons, setRetakeReasons] = useState<string[]>([]);
+  const [retakeCount, setRetakeCount] = useState(0);
   const [, setLocation] = useLocation();
   const { toast } = useToast();
 
@@ -84,12 +99,37 @@ export default function Recording() {
     enabled: !!id,
   });
 
+  const { data: profileData } = useQuery<{ profile: ValidationProfile }>({
+    queryKey: [`/api/users/${currentUser?.id}/assessments/${id}/validation-profile`],
+    enabled: !!currentUser?.id && !!id,
+  });
+
+  const { data: referenceData } = useQuery<{ referenceHand: HandSide | null }>({
+    queryKey: [`/api/users/${currentUser?.id}/assessments/${id}/contralateral-baseline`],
+    enabled: isReferenceRecording && !!currentUser?.id && !!id,
+  });
+
   const completeAssessmentMutation = useMutation({
-    mutationFn: async (data: any) => {
-      const response = await apiRequest("POST", `/api/users/${currentUser.id}/assessments/${id}/complete`, data);
+    mutationFn: async (data: MotionSubmissionPayload) => {
+      const endpoint = isReferenceRecording ? 'contralateral-baseline' : 'complete';
+      const response = await apiRequest("POST", `/api/users/${currentUser.id}/assessments/${id}/${endpoint}`, data);
       return response;
     },
     onSuccess: (data) => {
+      if (isReferenceRecording) {
+        queryClient.invalidateQueries({ queryKey: [`/api/users/${currentUser.id}/assessments/${id}/contralateral-baseline`] });
+        queryClient.invalidateQueries({
+          predicate: query => String(query.queryKey[0]).endsWith('/contralateral-comparison')
+        });
+        toast({
+          title: "Reference Recorded",
+          description: "Your results will now be compared with your uninjured hand.",
+        });
+        setLocation(`/assessment-list/${currentUser.code}`);
+        return;
+      }
+
+
       // Invalidate all relevant queries to refresh the UI completely
       queryClient.invalidateQueries({ queryKey: [`/api/users/${currentUser.id}/assessments`] });
       queryClient.invalidateQueries({ queryKey: [`/api/users/${currentUser.id}/progress`] });
@@ -126,10 +166,15 @@ export default function Recording() {
         setLocation(`/assessment-list/${currentUser.code}`);
       }
     },
-    onError: () => {
+    onError: (error) => {
+      const issues = error instanceof ApiError ? error.body?.errors : undefined;
       toast({
         title: "Error",
-        description: "Failed to save assessment data. Please try again.",
+        description: Array.isArray(issues) && issues.length > 0
+          ? formatSubmissionIssues(issues)
+          : error instanceof ApiError && error.status === 400 && error.body?.message
+            ? error.body.message
+            : "Failed to save assessment data. Please try again.",
         variant: "destructive",
       });
     },
@@ -269,11 +314,52 @@ export default function Recording() {
     const finalHandType = sessionHandType !== 'UNKNOWN' ? sessionHandType : detectedHandType;
     console.log(`Completing assessment with hand type: ${finalHandType} (session: ${sessionHandType}, detected: ${detectedHandType})`);
     
-    completeAssessmentMutation.mutate({
+    const completion: MotionSubmissionPayload = {
       romData,
       repetitionData: finalRecordedData,
       qualityScore: romData.averageQuality,
-      handType: finalHandType || 'UNKNOWN'
+      handType: finalHandType || 'UNKNOWN',
+      ...(assessmentKindFor(assessment?.name) === 'wrist-deviation' && {
+        maxRadialDeviation: sessionMaxDeviation.maxRadialDeviation,
+        maxUlnarDeviation: sessionMaxDeviation.maxUlnarDeviation
+      })
+    };
+    setPendingCompletion(completion);
+
+    // Check the frames under the profile the server will score them with before saving
+    const frames = finalRecordedData.flatMap(rep => rep.motionData || []);
+    const report = evaluateRecordingQuality(assessment?.name, frames, profileData?.profile ?? getValidationProfile());
+    setQualityReport(report);
+    if (report.passed) {
+      afterQualityCheck(completion);
+    } else {
+      setStep('quality');
+    }
+  };
+
+  // Pain is only rated around the injured hand, so a reference recording is saved straight away
+  const afterQualityCheck = (completion = pendingCompletion) => {
+    if (isReferenceRecording) {
+      submitWithPainScore(null, completion);
+    } else {
+      setStep('pain-after');
+    }
+  };
+
+  const retakeAfterQualityCheck = () => {
+    setRetakeCount(count => count + 1);
+    setRetakeReasons(reasons => [...reasons, ...(qualityReport?.issues.map(issue => issue.message) ?? [])]);
+    retakeRecording();
+  };
+
+  const submitWithPainScore = (vasScoreAfter: number | null, completion = pendingCompletion) => {
+    if (!completion) return;
+    completeAssessmentMutation.mutate({
+      ...completion,
+      vasScoreBefore,
+      vasScoreAfter,
+      retakeCount,
+      retakeReasons
     });
   };
 
@@ -282,6 +368,9 @@ export default function Recording() {
     setRecordedData([]);
     setRecordingTimer(0);
     setIsRecording(false);
+    setPendingCompletion(null);
+    setQualityReport(null);
+    setStep('recording');
   };
 
   const handleMediaPipeUpdate = (data: any) => {
@@ -464,6 +553,42 @@ export default function Recording() {
     );
   }
 
+  if (step === 'quality' && qualityReport) {
+    return (
+      <div className="max-w-4xl mx-auto py-8">
+        <RecordingQualityGate
+          report={qualityReport}
+          retakeCount={retakeCount}
+          onRetake={retakeAfterQualityCheck}
+          onAccept={() => afterQualityCheck()}
+        />
+      </div>
+    );
+  }
+
+  if (step !== 'recording') {
+    const isBefore = step === 'pain-before';
+    return (
+      <div className="max-w-4xl mx-auto py-8">
+        <VASPainQuestionnaire
+          description={isBefore
+            ? `Before starting ${assessment.name}, rate your current pain from 0 to 10`
+            : 'Now that you have finished the movement, rate your current pain from 0 to 10'}
+          onSubmit={(score) => {
+            if (isBefore) {
+              setVasScoreBefore(score);
+              setStep('recording');
+            } else {
+              submitWithPainScore(score);
+            }
+          }}
+          onSkip={() => isBefore ? setStep('recording') : submitWithPainScore(null)}
+          isLoading={completeAssessmentMutation.isPending}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-7xl mx-auto">
       <Card className="medical-card">
@@ -488,9 +613,13 @@ export default function Recording() {
                   <span>Back to Assessments</span>
                 </Button>
                 <div>
-                  <h2 className="text-2xl font-semibold text-gray-900 mb-2">Recording Assessment</h2>
+                  <h2 className="text-2xl font-semibold text-gray-900 mb-2">
+                    {isReferenceRecording ? 'Recording Uninjured Hand' : 'Recording Assessment'}
+                  </h2>
                   <p className="text-gray-800">
-                    Position your hand in the camera view and perform the {assessment.name.toLowerCase()} movement.
+                    {isReferenceRecording
+                      ? `Use your uninjured ${referenceData?.referenceHand ? referenceData.referenceHand.toLowerCase() + ' ' : ''}hand and perform the ${assessment.name.toLowerCase()} movement. It becomes the normal your results are compared with.`
+                      : `Position your hand in the camera view and perform the ${assessment.name.toLowerCase()} movement.`}
                   </p>
                 </div>
               </div>
@@ -7,6 +7,7 @@ import { Progress } from '@/components/ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Calendar, Download, FileText, BarChart3, Users, TrendingUp, Clock, CheckCircle } from 'lucide-react';
+import type { PaginatedResult } from '@shared/schema';
 
 interface StudyMetrics {
   totalEnrolled: number;
@@ -33,9 +34,10 @@ export default function ResearchDashboard() {
     queryKey: ['/api/patients']
   });
 
-  const { data: assessments } = useQuery({
-    queryKey: ['/api/patient-assessments/all']
+  const { data: assessmentPage } = useQuery<PaginatedResult<any>>({
+    queryKey: ['/api/patient-assessments/all?pageSize=1000']
   });
+  const assessments = assessmentPage?.data;
 
   const { data: cohorts } = useQuery({
     queryKey: ['/api/cohorts']
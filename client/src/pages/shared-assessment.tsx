@@ -1,15 +1,92 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useParams } from "wouter";
 import AssessmentReplay from "@/components/assessment-replay";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 
+type ShareStatus = 'not_found' | 'expired' | 'revoked' | 'exhausted' | 'pin_required' | 'pin_invalid';
+
+interface SharedAssessment {
+  scope: 'summary' | 'replay';
+  expiresAt: string;
+  assessment: { name: string; description: string };
+  result: Record<string, any>;
+  motionData?: any[];
+}
+
+class ShareLinkError extends Error {
+  constructor(public status: ShareStatus, message: string, public attemptsRemaining?: number) {
+    super(message);
+  }
+}
+
+const UNAVAILABLE_MESSAGES: Record<string, { title: string; description: string }> = {
+  expired: { title: "Link Expired", description: "This shared assessment link has expired. Ask the patient for a new link." },
+  revoked: { title: "Link Revoked", description: "This shared assessment link has been revoked and can no longer be viewed." },
+  exhausted: { title: "View Limit Reached", description: "This shared assessment link has been viewed the maximum number of times." },
+  not_found: { title: "Assessment Not Found", description: "This shared assessment link is invalid." }
+};
+
+const SUMMARY_METRICS: { key: string; label: string; unit?: string }[] = [
+  { key: 'totalActiveRom', label: 'Total Active Motion', unit: '°' },
+  { key: 'indexFingerRom', label: 'Index Finger', unit: '°' },
+  { key: 'middleFingerRom', label: 'Middle Finger', unit: '°' },
+  { key: 'ringFingerRom', label: 'Ring Finger', unit: '°' },
+  { key: 'pinkyFingerRom', label: 'Pinky Finger', unit: '°' },
+  { key: 'maxWristFlexion', label: 'Wrist Flexion', unit: '°' },
+  { key: 'maxWristExtension', label: 'Wrist Extension', unit: '°' },
+  { key: 'dashScore', label: 'DASH Score' },
+  { key: 'qualityScore', label: 'Quality Score', unit: '%' }
+];
+
+async function fetchSharedAssessment(token: string, pin: string): Promise<SharedAssessment> {
+  const response = await fetch(`/api/shared/${token}`, {
+    headers: pin ? { 'X-Share-Pin': pin } : {}
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ShareLinkError(data.status ?? 'not_found', data.error ?? 'Shared assessment not found', data.attemptsRemaining);
+  }
+  return data;
+}
+
+function StatusCard({ title, description, children }: { title: string; description: string; children?: React.ReactNode }) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className={children ? undefined : "text-red-600"}>{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {children}
+          <Button
+            variant={children ? "outline" : "default"}
+            onClick={() => window.location.href = '/'}
+            className="w-full"
+          >
+            Return to Home
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
 export default function SharedAssessment() {
   const { token } = useParams<{ token: string }>();
+  const [pinInput, setPinInput] = useState("");
+  const [pin, setPin] = useState("");
 
-  const { data, isLoading, error } = useQuery({
-    queryKey: [`/api/shared/${token}`],
-    enabled: !!token
+  // Each fetch counts as a view, so never refetch or retry on its own
+  const { data, isLoading, error } = useQuery<SharedAssessment, ShareLinkError>({
+    queryKey: ['shared-assessment', token, pin],
+    queryFn: () => fetchSharedAssessment(token!, pin),
+    enabled: !!token,
+    retry: false,
+    staleTime: Infinity
   });
 
   if (isLoading) {
@@ -23,43 +100,46 @@ export default function SharedAssessment() {
     );
   }
 
-  if (error || !data) {
+  if (error?.status === 'pin_required' || error?.status === 'pin_invalid') {
     return (
-      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
-        <Card className="w-full max-w-md">
-          <CardHeader>
-            <CardTitle className="text-red-600">Assessment Not Found</CardTitle>
-            <CardDescription>
-              This shared assessment link is invalid or has expired.
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Button 
-              onClick={() => window.location.href = '/'} 
-              className="w-full"
-            >
-              Return to Home
-            </Button>
-          </CardContent>
-        </Card>
-      </div>
+      <StatusCard title="PIN Required" description="Enter the PIN you were given to view this assessment.">
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setPin(pinInput);
+          }}
+        >
+          <Input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            placeholder="PIN"
+            value={pinInput}
+            onChange={(e) => setPinInput(e.target.value.replace(/\D/g, '').slice(0, 8))}
+          />
+          {error.status === 'pin_invalid' && (
+            <p className="text-sm text-red-600">
+              Incorrect PIN{error.attemptsRemaining !== undefined && ` - ${error.attemptsRemaining} attempt${error.attemptsRemaining === 1 ? '' : 's'} remaining`}
+            </p>
+          )}
+          <Button type="submit" className="w-full" disabled={pinInput.length < 4}>
+            View Assessment
+          </Button>
+        </form>
+      </StatusCard>
     );
   }
 
-  const { userAssessment, assessment } = data;
-  const motionData: any[] = [];
-  
-  // Extract motion data from repetition data
-  if (Array.isArray(userAssessment.repetitionData)) {
-    userAssessment.repetitionData.forEach((rep: any) => {
-      if (rep.motionData && Array.isArray(rep.motionData)) {
-        motionData.push(...rep.motionData);
-      }
-    });
+  if (error || !data) {
+    const message = UNAVAILABLE_MESSAGES[error?.status ?? 'not_found'] ?? UNAVAILABLE_MESSAGES.not_found;
+    return <StatusCard title={message.title} description={message.description} />;
   }
 
-  // Go directly to motion replay if motion data exists
-  if (motionData.length > 0) {
+  const { assessment, result, motionData } = data;
+
+  // Go directly to motion replay when the link includes it
+  if (motionData && motionData.length > 0) {
     return (
       <AssessmentReplay
         assessmentName={assessment?.name || 'Shared Assessment'}
@@ -69,19 +149,39 @@ export default function SharedAssessment() {
     );
   }
 
-  // Fallback if no motion data
+  const metrics = SUMMARY_METRICS.filter(metric => result[metric.key] !== null && result[metric.key] !== undefined);
+
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
-      <Card className="w-full max-w-md">
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg">
         <CardHeader>
-          <CardTitle>No Motion Data</CardTitle>
+          <CardTitle>{assessment.name}</CardTitle>
           <CardDescription>
-            This shared assessment does not contain motion replay data.
+            {result.completedAt ? `Completed ${new Date(result.completedAt).toLocaleDateString()}` : 'Shared assessment results'}
+            {result.handType && ` · ${result.handType} hand`}
           </CardDescription>
         </CardHeader>
-        <CardContent>
-          <Button 
-            onClick={() => window.location.href = '/'} 
+        <CardContent className="space-y-4">
+          {metrics.length > 0 ? (
+            <div className="grid grid-cols-2 gap-3">
+              {metrics.map(metric => (
+                <div key={metric.key} className="bg-gray-50 rounded-lg p-3">
+                  <div className="text-xs text-gray-600">{metric.label}</div>
+                  <div className="text-lg font-semibold text-gray-900">
+                    {Math.round(Number(result[metric.key]) * 10) / 10}{metric.unit}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">No summary metrics were recorded for this assessment.</p>
+          )}
+          <p className="text-xs text-gray-500">
+            This link expires {new Date(data.expiresAt).toLocaleDateString()}.
+          </p>
+          <Button
+            variant="outline"
+            onClick={() => window.location.href = '/'}
             className="w-full"
           >
             Return to Home
@@ -90,4 +190,4 @@ export default function SharedAssessment() {
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
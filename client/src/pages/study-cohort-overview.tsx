@@ -1,11 +1,16 @@
+import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Link } from 'wouter';
-import { Users, TrendingUp, Calendar, ArrowLeft } from 'lucide-react';
+import { Users, TrendingUp, Calendar, ArrowLeft, Ruler } from 'lucide-react';
 import { getInjuryIcon } from '@/components/medical-icons';
+import CohortNormalRomEditor from '@/components/cohort-normal-rom-editor';
+import { useAuth } from '@/lib/auth';
+import type { NormalRomRanges } from '@shared/schema';
 
 interface Cohort {
   id: number;
@@ -14,6 +19,7 @@ interface Cohort {
   injuryType: string;
   targetRomImprovement: number;
   baselinePeriodDays: number;
+  normalRomRanges: NormalRomRanges | null;
 }
 
 interface Patient {
@@ -27,6 +33,9 @@ interface Patient {
 }
 
 export default function StudyCohortOverview() {
+  const { hasRole } = useAuth();
+  const [editingRanges, setEditingRanges] = useState<Cohort | null>(null);
+
   const { data: cohorts } = useQuery<Cohort[]>({
     queryKey: ['/api/cohorts']
   });
@@ -189,18 +198,45 @@ export default function StudyCohortOverview() {
                   </div>
                 </div>
                 
-                {/* Action Button */}
+                {/* Action Buttons */}
                 <Link href={`/clinical/study/enroll?cohort=${cohort.id}`}>
                   <Button className="w-full" size="sm">
                     Enroll New Patient
                   </Button>
                 </Link>
+                {hasRole(['admin']) && (
+                  <Button className="w-full" size="sm" variant="outline" onClick={() => setEditingRanges(cohort)}>
+                    <Ruler className="h-4 w-4 mr-2" />
+                    Normal ROM Ranges
+                    {cohort.normalRomRanges?.ranges.length ? ` (${cohort.normalRomRanges.ranges.length})` : ''}
+                  </Button>
+                )}
               </CardContent>
             </Card>
           );
         })}
       </div>
 
+      <Dialog open={!!editingRanges} onOpenChange={(open) => !open && setEditingRanges(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Normal ROM Ranges: {editingRanges?.name}</DialogTitle>
+            <DialogDescription>
+              Results for this cohort's patients are compared with these ranges. A range for an age group
+              or sex applies only to matching patients; joints without a range use the population defaults.
+            </DialogDescription>
+          </DialogHeader>
+          {editingRanges && (
+            <CohortNormalRomEditor
+              key={editingRanges.id}
+              cohortId={editingRanges.id}
+              normalRomRanges={editingRanges.normalRomRanges}
+              onSaved={() => setEditingRanges(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* All Injury Types Coverage */}
       <Card>
         <CardHeader>
@@ -12,7 +12,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
-import { Calendar, User, Stethoscope, ArrowLeft } from 'lucide-react';
+import { EligibilityCriteriaList } from '@/components/eligibility-criteria-list';
+import type { EligibilityResult } from '@shared/eligibility-criteria';
+import { Calendar, User, Stethoscope, ArrowLeft, ClipboardCheck } from 'lucide-react';
 
 const studyEnrollmentSchema = z.object({
   patientId: z.string().min(1, "Patient ID is required"),
@@ -23,7 +25,7 @@ const studyEnrollmentSchema = z.object({
   ageGroup: z.enum(["18-25", "26-35", "36-45", "46-55", "56-65", "66-75"]),
   sex: z.enum(["M", "F", "Other"]),
   handDominance: z.enum(["Left", "Right", "Ambidextrous"]),
-  occupationCategory: z.enum(["Office Work", "Manual Labor", "Healthcare", "Education", "Retail", "Other"]),
+  occupationCategory: z.enum(["Office Work", "Manual Labor", "Healthcare", "Education", "Retail", "Performing Arts", "Sports", "Other"]),
   
   // Surgery details
   surgeryDate: z.string().min(1, "Surgery date is required"),
@@ -45,6 +47,7 @@ export default function StudyEnrollment() {
   const [location, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [eligibility, setEligibility] = useState<EligibilityResult | null>(null);
 
   const form = useForm<StudyEnrollmentData>({
     resolver: zodResolver(studyEnrollmentSchema),
@@ -66,13 +69,10 @@ export default function StudyEnrollment() {
 
   const enrollPatientMutation = useMutation({
     mutationFn: async (data: StudyEnrollmentData) => {
-      return apiRequest('/api/patients/enroll-study', {
-        method: 'POST',
-        body: JSON.stringify({
-          ...data,
-          enrolledInStudy: true,
-          studyEnrollmentDate: new Date().toISOString(),
-        }),
+      return apiRequest('POST', '/api/patients/enroll-study', {
+        ...data,
+        enrolledInStudy: true,
+        studyEnrollmentDate: new Date().toISOString(),
       });
     },
     onSuccess: (data) => {
@@ -92,12 +92,39 @@ export default function StudyEnrollment() {
     },
   });
 
+  // Screen against the cohort's eligibility criteria and enroll only when every criterion passes
+  const screeningMutation = useMutation({
+    mutationFn: async (data: StudyEnrollmentData): Promise<EligibilityResult> => {
+      return apiRequest('POST', `/api/cohorts/${data.cohortId}/eligibility-screening`, {
+        ageGroup: data.ageGroup,
+        injuryType: data.injuryType,
+        laterality: data.laterality,
+        handDominance: data.handDominance,
+        procedureCode: data.procedureCode,
+        surgeryDate: data.surgeryDate,
+      });
+    },
+    onSuccess: (result, data) => {
+      setEligibility(result);
+      if (result.eligible) {
+        enrollPatientMutation.mutate(data);
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Screening Failed",
+        description: error.message || "Failed to check eligibility.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: StudyEnrollmentData) => {
-    enrollPatientMutation.mutate(data);
+    screeningMutation.mutate(data);
   };
 
   // Fetch cohorts from API instead of hardcoding
-  const { data: cohortsData } = useQuery({
+  const { data: cohortsData } = useQuery<Cohort[]>({
     queryKey: ['/api/cohorts']
   });
 
@@ -287,6 +314,8 @@ export default function StudyEnrollment() {
                             <SelectItem value="Healthcare">Healthcare</SelectItem>
                             <SelectItem value="Education">Education</SelectItem>
                             <SelectItem value="Retail">Retail</SelectItem>
+                            <SelectItem value="Performing Arts">Performing Arts (musician, dancer)</SelectItem>
+                            <SelectItem value="Sports">Sports (athlete)</SelectItem>
                             <SelectItem value="Other">Other</SelectItem>
                           </SelectContent>
                         </Select>
@@ -400,16 +429,27 @@ export default function StudyEnrollment() {
                 </div>
               </div>
 
+              {/* Screening Result */}
+              {eligibility && (
+                <div className={`rounded-lg border p-4 space-y-3 ${eligibility.eligible ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
+                  <h3 className="font-medium flex items-center space-x-2">
+                    <ClipboardCheck className="h-5 w-5" />
+                    <span>{eligibility.eligible ? 'Eligible for this cohort' : 'Not eligible for this cohort'}</span>
+                  </h3>
+                  <EligibilityCriteriaList result={eligibility} />
+                </div>
+              )}
+
               {/* Submit Button */}
               <div className="flex space-x-4">
                 <Button 
                   type="submit" 
-                  disabled={enrollPatientMutation.isPending}
+                  disabled={screeningMutation.isPending || enrollPatientMutation.isPending}
                   className="flex items-center space-x-2"
                 >
                   <Calendar className="h-4 w-4" />
                   <span>
-                    {enrollPatientMutation.isPending ? 'Enrolling...' : 'Enroll in Study'}
+                    {screeningMutation.isPending ? 'Checking Eligibility...' : enrollPatientMutation.isPending ? 'Enrolling...' : 'Screen and Enroll'}
                   </span>
                 </Button>
                 <Button 
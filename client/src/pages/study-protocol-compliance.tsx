@@ -6,6 +6,7 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Calendar, AlertTriangle, CheckCircle, Clock, TrendingDown, Users } from 'lucide-react';
+import type { PaginatedResult } from '@shared/schema';
 
 interface ComplianceMetrics {
   patientId: string;
@@ -29,13 +30,15 @@ export default function StudyProtocolCompliance() {
     queryKey: ['/api/patients']
   });
 
-  const { data: studyVisits } = useQuery({
-    queryKey: ['/api/study-visits/all']
+  const { data: visitPage } = useQuery<PaginatedResult<any>>({
+    queryKey: ['/api/study-visits/all?pageSize=1000']
   });
+  const studyVisits = visitPage?.data;
 
-  const { data: assessments } = useQuery({
-    queryKey: ['/api/patient-assessments/all']
+  const { data: assessmentPage } = useQuery<PaginatedResult<any>>({
+    queryKey: ['/api/patient-assessments/all?pageSize=1000']
   });
+  const assessments = assessmentPage?.data;
 
   const studyPatients = patients?.filter((p: any) => p.enrolledInStudy) || [];
 
@@ -45,7 +48,8 @@ export default function StudyProtocolCompliance() {
       const patientVisits = studyVisits?.filter((v: any) => v.patientId === patient.id) || [];
       const completedVisits = patientVisits.filter((v: any) => v.visitStatus === 'completed').length;
       const missedVisits = patientVisits.filter((v: any) => v.visitStatus === 'missed').length;
-      const expectedVisits = 13; // 13 weeks total
+      // Visit count follows the cohort's protocol schedule
+      const expectedVisits = patientVisits.length || 13;
       
       const adherenceRate = (completedVisits / expectedVisits) * 100;
       
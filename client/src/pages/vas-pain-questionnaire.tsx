@@ -19,9 +19,10 @@ interface VASPainQuestionnaireProps {
   onSubmit: (score: number) => void;
   onSkip: () => void;
   isLoading?: boolean;
+  description?: string;
 }
 
-export default function VASPainQuestionnaire({ onSubmit, onSkip, isLoading }: VASPainQuestionnaireProps) {
+export default function VASPainQuestionnaire({ onSubmit, onSkip, isLoading, description }: VASPainQuestionnaireProps) {
   const form = useForm<VASData>({
     resolver: zodResolver(vasSchema),
     defaultValues: {
@@ -59,7 +60,7 @@ export default function VASPainQuestionnaire({ onSubmit, onSkip, isLoading }: VA
           <span>Pain Assessment</span>
         </CardTitle>
         <CardDescription>
-          Please rate your current pain level on a scale from 0 to 10
+          {description ?? 'Please rate your current pain level on a scale from 0 to 10'}
         </CardDescription>
       </CardHeader>
       <CardContent>
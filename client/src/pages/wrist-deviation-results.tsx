@@ -6,6 +6,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ArrowLeft, Activity, TrendingUp, Share2, Download, Hand, Calculator, Info, FileText, ChevronDown, ChevronUp } from "lucide-react";
 import { Link } from "wouter";
 import AssessmentReplay from "@/components/assessment-replay";
+import ContralateralComparisonCard from "@/components/contralateral-comparison-card";
+import { useNormativeReference } from "@/hooks/use-normative-reference";
 import { calculateWristDeviationResults, getDeviationClinicalInterpretation, getDeviationPercentages } from "@shared/wrist-deviation-calculator";
 
 interface WristDeviationResultsData {
@@ -40,6 +42,9 @@ export default function WristDeviationResults() {
     enabled: !!userAssessmentId,
   });
 
+  const normativeReference = useNormativeReference((resultsData as DeviationResultsData | undefined)?.user?.id);
+  const { radialDeviation, ulnarDeviation, deviationTotal } = normativeReference;
+
   console.log('Deviation Results query state:', { isLoading, error, userAssessmentId, hasData: !!resultsData });
 
   if (isLoading) {
@@ -86,10 +91,22 @@ export default function WristDeviationResults() {
     );
   }
   
-  // Use the centralized calculation for deviation results
-  const deviationResults = calculateWristDeviationResults(userAssessment);
-  const interpretation = getDeviationClinicalInterpretation(deviationResults);
-  const { radialPercentage, ulnarPercentage } = getDeviationPercentages(deviationResults);
+  // Use the centralized calculation for deviation results. The maxima scored into the record
+  // when it was saved (or re-scored) are the ones history, exports and the clinic see, so they
+  // take precedence; recordings saved before they were stored fall back to the frames.
+  const calculatedResults = calculateWristDeviationResults(userAssessment);
+  const storedRadial = userAssessment.maxRadialDeviation ?? null;
+  const storedUlnar = userAssessment.maxUlnarDeviation ?? null;
+  const deviationResults: WristDeviationResultsData = storedRadial !== null && storedUlnar !== null
+    ? {
+        ...calculatedResults,
+        maxRadialDeviation: Number(storedRadial),
+        maxUlnarDeviation: Number(storedUlnar),
+        totalDeviationROM: Number(storedRadial) + Number(storedUlnar)
+      }
+    : calculatedResults;
+  const interpretation = getDeviationClinicalInterpretation(deviationResults, normativeReference);
+  const { radialPercentage, ulnarPercentage } = getDeviationPercentages(deviationResults, normativeReference);
   
   // Extract values for display
   const { maxRadialDeviation, maxUlnarDeviation, totalDeviationROM, frameCount } = deviationResults;
@@ -106,7 +123,7 @@ export default function WristDeviationResults() {
     maxUlnarDeviation: maxUlnarDeviation.toFixed(1),
     totalDeviationROM: totalDeviationROM.toFixed(1),
     frameCount,
-    source: 'centralized-deviation-calculator'
+    source: storedRadial !== null && storedUlnar !== null ? 'stored-columns' : 'centralized-deviation-calculator'
   });
 
   console.log('📊 RAW USER ASSESSMENT DATA:', {
@@ -114,8 +131,8 @@ export default function WristDeviationResults() {
     assessmentId: userAssessment?.assessmentId,
     handType: userAssessment?.handType,
     motionDataLength: userAssessment?.repetitionData?.[0]?.motionData?.length,
-    storedRadial: userAssessment?.maxRadialDeviation,
-    storedUlnar: userAssessment?.maxUlnarDeviation
+    storedRadial,
+    storedUlnar
   });
 
   return (
@@ -166,7 +183,7 @@ export default function WristDeviationResults() {
                   {maxRadialDeviation.toFixed(1)}°
                 </div>
                 <div className="text-sm text-gray-600 mb-2">
-                  Normal: 20°
+                  Normal: {radialDeviation.normal}°
                 </div>
                 <div className="w-full bg-gray-200 rounded-full h-2">
                   <div 
@@ -191,7 +208,7 @@ export default function WristDeviationResults() {
                   {maxUlnarDeviation.toFixed(1)}°
                 </div>
                 <div className="text-sm text-gray-600 mb-2">
-                  Normal: 30°
+                  Normal: {ulnarDeviation.normal}°
                 </div>
                 <div className="w-full bg-gray-200 rounded-full h-2">
                   <div 
@@ -216,7 +233,7 @@ export default function WristDeviationResults() {
                   {totalDeviationROM.toFixed(1)}°
                 </div>
                 <div className="text-sm text-gray-600 mb-2">
-                  Normal: 50°
+                  Normal: {deviationTotal.normal}°
                 </div>
                 <div className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${interpretation.color === 'text-green-600' ? 'bg-green-100 text-green-800' : interpretation.color === 'text-yellow-600' ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800'}`}>
                   {interpretation.status}
@@ -229,6 +246,13 @@ export default function WristDeviationResults() {
           </Card>
         </div>
 
+        <ContralateralComparisonCard
+          className="mb-8"
+          userAssessmentId={userAssessmentId!}
+          assessmentId={userAssessment.assessmentId}
+          userCode={userCode!}
+        />
+
         {/* Motion Replay Section */}
         <Card className="mb-8">
           <CardHeader>
@@ -331,8 +355,8 @@ export default function WristDeviationResults() {
                 <div className="bg-orange-50 p-4 rounded-lg">
                   <h5 className="font-medium text-orange-800 mb-2">Radial Deviation Analysis</h5>
                   <p className="text-sm text-gray-700">
-                    {maxRadialDeviation >= 18 ? 'Normal radial deviation range achieved.' : 
-                     maxRadialDeviation >= 12 ? 'Mild limitation in radial deviation.' : 
+                    {maxRadialDeviation >= radialDeviation.functional ? 'Normal radial deviation range achieved.' : 
+                     maxRadialDeviation >= radialDeviation.minimum ? 'Mild limitation in radial deviation.' : 
                      'Significant radial deviation restriction.'}
                   </p>
                 </div>
@@ -340,8 +364,8 @@ export default function WristDeviationResults() {
                 <div className="bg-purple-50 p-4 rounded-lg">
                   <h5 className="font-medium text-purple-800 mb-2">Ulnar Deviation Analysis</h5>
                   <p className="text-sm text-gray-700">
-                    {maxUlnarDeviation >= 25 ? 'Normal ulnar deviation range achieved.' : 
-                     maxUlnarDeviation >= 18 ? 'Mild limitation in ulnar deviation.' : 
+                    {maxUlnarDeviation >= ulnarDeviation.functional ? 'Normal ulnar deviation range achieved.' : 
+                     maxUlnarDeviation >= ulnarDeviation.minimum ? 'Mild limitation in ulnar deviation.' : 
                      'Significant ulnar deviation restriction.'}
                   </p>
                 </div>
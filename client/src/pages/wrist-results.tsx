@@ -9,6 +9,8 @@ import { ArrowLeft, Download, Share2, TrendingUp, Activity, Calculator, Info, Fi
 import { calculateWristResults, getWristClinicalInterpretation, getWristPercentages } from "@shared/wrist-results-calculator";
 import { calculateElbowReferencedWristAngleWithForce } from "@shared/elbow-wrist-calculator";
 import AssessmentReplay from "@/components/assessment-replay";
+import ContralateralComparisonCard from "@/components/contralateral-comparison-card";
+import { useNormativeReference } from "@/hooks/use-normative-reference";
 
 interface WristResultsData {
   userAssessment: {
@@ -54,6 +56,9 @@ export default function WristResults() {
     enabled: !!userAssessmentId,
   });
 
+  const normativeReference = useNormativeReference((resultsData as WristResultsData | undefined)?.user?.id);
+  const { wristFlexion, wristExtension, wristTotal } = normativeReference;
+
   console.log('Query state:', { isLoading, error, userAssessmentId, hasData: !!resultsData });
 
   if (isLoading) {
@@ -172,8 +177,8 @@ export default function WristResults() {
       }
     }
     
-    interpretation = getWristClinicalInterpretation(wristResults);
-    const percentages = getWristPercentages(wristResults);
+    interpretation = getWristClinicalInterpretation(wristResults, normativeReference);
+    const percentages = getWristPercentages(wristResults, normativeReference);
     flexionPercentage = percentages.flexionPercentage;
     extensionPercentage = percentages.extensionPercentage;
   } catch (calculationError: any) {
@@ -315,7 +320,7 @@ export default function WristResults() {
                 <ul className="text-xs text-gray-600 space-y-1">
                   <li>• Formula: Max Flexion + Max Extension</li>
                   <li>• Represents functional wrist mobility range</li>
-                  <li>• Normal total ROM: ~150° (80° flex + 70° ext)</li>
+                  <li>• Normal total ROM: ~{wristTotal.normal}° ({wristFlexion.normal}° flex + {wristExtension.normal}° ext)</li>
                 </ul>
               </div>
             </div>
@@ -519,13 +524,19 @@ export default function WristResults() {
                 </div>
                 <div className="text-sm text-gray-600">Total ROM</div>
                 <Badge variant="outline" className="mt-2">
-                  Normal: 150°
+                  Normal: {wristTotal.normal}°
                 </Badge>
               </div>
             </div>
           </CardContent>
         </Card>
 
+        <ContralateralComparisonCard
+          userAssessmentId={userAssessmentId!}
+          assessmentId={assessment.id}
+          userCode={userCode!}
+        />
+
         {/* Clinical Analysis */}
         <div className="grid md:grid-cols-2 gap-6">
           <Card>
@@ -543,15 +554,15 @@ export default function WristResults() {
               <div className="space-y-2">
                 <div className="flex justify-between">
                   <span>Flexion Assessment:</span>
-                  <span className={maxFlexion >= 60 ? "text-green-600" : "text-red-600"}>
-                    {maxFlexion >= 60 ? "Normal" : "Limited"}
+                  <span className={maxFlexion >= wristFlexion.functional ? "text-green-600" : "text-red-600"}>
+                    {maxFlexion >= wristFlexion.functional ? "Normal" : "Limited"}
                   </span>
                 </div>
                 
                 <div className="flex justify-between">
                   <span>Extension Assessment:</span>
-                  <span className={maxExtension >= 50 ? "text-green-600" : "text-red-600"}>
-                    {maxExtension >= 50 ? "Normal" : "Limited"}
+                  <span className={maxExtension >= wristExtension.functional ? "text-green-600" : "text-red-600"}>
+                    {maxExtension >= wristExtension.functional ? "Normal" : "Limited"}
                   </span>
                 </div>
               </div>
@@ -620,15 +631,15 @@ export default function WristResults() {
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between">
                     <span>Flexion (Palmar):</span>
-                    <span className="font-medium">0° - 80°</span>
+                    <span className="font-medium">0° - {wristFlexion.normal}°</span>
                   </div>
                   <div className="flex justify-between">
                     <span>Extension (Dorsal):</span>
-                    <span className="font-medium">0° - 70°</span>
+                    <span className="font-medium">0° - {wristExtension.normal}°</span>
                   </div>
                   <div className="flex justify-between">
                     <span>Total ROM:</span>
-                    <span className="font-medium">150°</span>
+                    <span className="font-medium">{wristTotal.normal}°</span>
                   </div>
                 </div>
               </div>
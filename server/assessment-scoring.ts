@@ -0,0 +1,190 @@
+import type { Assessment, Cohort, RescoreMetricChange, RescoreRequest, RescoreResult, UserAssessment } from '@shared/schema';
+import { calculateAllFingersMaxROM, getValidationProfile, type ValidationProfile } from '@shared/rom-calculator';
+import { calculateMaxKapandjiScore } from '@shared/kapandji-calculator';
+import { calculateWristDeviationResults } from '@shared/wrist-deviation-calculator';
+import { decodeMotionFrames } from '@shared/motion-frame-codec';
+import { assessmentKindFor } from '@shared/assessment-submission';
+import type { UserAssessmentFilters } from './storage';
+import { findLinkedPatient, type PatientLinkSource } from './patient-assessment-sync';
+
+// Scoring of recorded motion frames, shared by the completion route and admin re-scoring.
+// Bump SCORING_ALGORITHM_VERSION whenever a change to the shared calculators alters
+// stored metrics, so older rows can be found and re-scored.
+
+// 1.1.0: Kapandji score and radial/ulnar deviation maxima are scored into their own columns
+export const SCORING_ALGORITHM_VERSION = '1.1.0';
+
+// userAssessments columns derived from motion frames
+const SCORED_METRICS = [
+  'totalActiveRom', 'kapandjiScore',
+  'indexFingerRom', 'middleFingerRom', 'ringFingerRom', 'pinkyFingerRom',
+  'middleFingerMcp', 'middleFingerPip', 'middleFingerDip',
+  'ringFingerMcp', 'ringFingerPip', 'ringFingerDip',
+  'pinkyFingerMcp', 'pinkyFingerPip', 'pinkyFingerDip',
+  'maxRadialDeviation', 'maxUlnarDeviation'
+] as const;
+
+type ScoredMetric = typeof SCORED_METRICS[number];
+
+export type MotionScores = Partial<Record<ScoredMetric, number | null>>;
+
+// Storage methods re-scoring reads from and writes to (implemented by every storage backend)
+export interface RescoreDataSource {
+  getAssessment(id: number): Promise<Assessment | undefined>;
+  getCompletedUserAssessments(filters: UserAssessmentFilters): Promise<UserAssessment[]>;
+  updateUserAssessment(id: number, updates: Partial<UserAssessment>): Promise<UserAssessment | undefined>;
+}
+
+// Storage methods used to find the validation profile for a recording
+export interface ValidationProfileSource extends PatientLinkSource {
+  getCohort(id: number): Promise<Cohort | undefined>;
+}
+
+// The study protocol wins: the patient's cohort profile, then the assessment's, then the default
+export async function resolveValidationProfile(
+  source: ValidationProfileSource,
+  userId: number,
+  assessment: Assessment | undefined
+): Promise<ValidationProfile> {
+  const patient = await findLinkedPatient(source, userId);
+  const cohort = patient?.cohortId ? await source.getCohort(patient.cohortId) : undefined;
+  return getValidationProfile(cohort?.validationProfile ?? assessment?.validationProfile);
+}
+
+// Frames are stored either as { landmarks } or as the bare landmark array
+function formatFrames(frames: any[]) {
+  return frames.map(frame => ({ landmarks: frame.landmarks || frame }));
+}
+
+export function collectMotionFrames(repetitionData: unknown): any[] {
+  if (!Array.isArray(repetitionData)) return [];
+  return repetitionData.flatMap((rep: any) => decodeMotionFrames(rep?.motionData));
+}
+
+// Deviation is measured against the forearm, so only frames with pose landmarks count
+function scoreWristDeviation(frames: any[], handType: string | null | undefined): MotionScores {
+  const deviation = calculateWristDeviationResults({ handType, motionData: frames });
+  if (deviation.frameCount === 0) return {};
+  return { maxRadialDeviation: deviation.maxRadialDeviation, maxUlnarDeviation: deviation.maxUlnarDeviation };
+}
+
+export function scoreMotionFrames(
+  assessmentName: string | undefined,
+  frames: any[],
+  profile: ValidationProfile = getValidationProfile(),
+  handType?: string | null
+): MotionScores {
+  if (frames.length === 0) return {};
+
+  if (assessmentName === 'Kapandji Score') {
+    const { maxScore, details } = calculateMaxKapandjiScore(formatFrames(frames));
+    return {
+      kapandjiScore: maxScore,
+      totalActiveRom: maxScore, // Kept for displays that read the score from totalActiveRom
+      // Highest landmark reached on each finger, shown in the finger fields
+      indexFingerRom: details.indexTip ? 3 : details.indexMiddlePhalanx ? 2 : details.indexProximalPhalanx ? 1 : 0,
+      middleFingerRom: details.middleTip ? 4 : 0,
+      ringFingerRom: details.ringTip ? 5 : 0,
+      pinkyFingerRom: details.littleTip ? 6 : 0
+    };
+  }
+
+  const rom = calculateAllFingersMaxROM(formatFrames(frames), profile);
+  const quality = rom.temporalQuality || {};
+  const accepted = (finger: 'index' | 'middle' | 'ring' | 'pinky') => quality[finger] >= profile.temporal.temporalQualityThreshold;
+  const angle = (finger: 'index' | 'middle' | 'ring' | 'pinky', joint: 'totalActiveRom' | 'mcpAngle' | 'pipAngle' | 'dipAngle') =>
+    accepted(finger) ? rom[finger]?.[joint] || null : null;
+
+  // A TAM recording's total is the index finger's, as the live romData the completion path
+  // stores it from; a rejected index finger keeps the stored total rather than clearing it
+  const indexTam = angle('index', 'totalActiveRom');
+
+  return {
+    ...(assessmentKindFor(assessmentName) === 'tam' && indexTam !== null ? { totalActiveRom: indexTam } : {}),
+    indexFingerRom: indexTam,
+    middleFingerRom: angle('middle', 'totalActiveRom'),
+    ringFingerRom: angle('ring', 'totalActiveRom'),
+    pinkyFingerRom: angle('pinky', 'totalActiveRom'),
+    middleFingerMcp: angle('middle', 'mcpAngle'),
+    middleFingerPip: angle('middle', 'pipAngle'),
+    middleFingerDip: angle('middle', 'dipAngle'),
+    ringFingerMcp: angle('ring', 'mcpAngle'),
+    ringFingerPip: angle('ring', 'pipAngle'),
+    ringFingerDip: angle('ring', 'dipAngle'),
+    pinkyFingerMcp: angle('pinky', 'mcpAngle'),
+    pinkyFingerPip: angle('pinky', 'pipAngle'),
+    pinkyFingerDip: angle('pinky', 'dipAngle'),
+    ...(assessmentName === 'Wrist Radial/Ulnar Deviation' ? scoreWristDeviation(frames, handType) : {})
+  };
+}
+
+// Stored as numeric(5,2), so compare and write at two decimals
+function roundMetric(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.round(number * 100) / 100 : null;
+}
+
+function diffScores(stored: UserAssessment, scores: MotionScores): RescoreMetricChange[] {
+  return SCORED_METRICS
+    .filter(metric => metric in scores)
+    .map(metric => ({ metric, previous: roundMetric(stored[metric]), current: roundMetric(scores[metric]) }))
+    .filter(change => change.previous !== change.current);
+}
+
+// Re-runs the current calculators over stored recordings, under the validation profile each
+// was first scored with. Without apply nothing is written; with apply every re-scored row
+// is updated and stamped with the current version.
+export async function rescoreUserAssessments(source: RescoreDataSource, request: RescoreRequest): Promise<RescoreResult[]> {
+  const rows = await source.getCompletedUserAssessments({
+    ids: request.userAssessmentIds,
+    userId: request.userId,
+    assessmentId: request.assessmentId
+  });
+  const assessmentNames = new Map<number, string>();
+  const results: RescoreResult[] = [];
+
+  for (const row of rows) {
+    if (request.onlyOutdated && row.algorithmVersion === SCORING_ALGORITHM_VERSION) continue;
+
+    if (!assessmentNames.has(row.assessmentId)) {
+      assessmentNames.set(row.assessmentId, (await source.getAssessment(row.assessmentId))?.name ?? 'Unknown');
+    }
+    const result: RescoreResult = {
+      userAssessmentId: row.id,
+      userId: row.userId,
+      assessmentName: assessmentNames.get(row.assessmentId)!,
+      previousVersion: row.algorithmVersion,
+      changes: [],
+      applied: false
+    };
+    results.push(result);
+
+    const frames = collectMotionFrames(row.repetitionData);
+    if (frames.length === 0) {
+      result.skippedReason = 'No motion frames recorded';
+      continue;
+    }
+
+    const profile = getValidationProfile(row.validationProfile);
+    try {
+      result.changes = diffScores(row, scoreMotionFrames(result.assessmentName, frames, profile, row.handType));
+    } catch (error) {
+      result.skippedReason = `Scoring failed: ${error instanceof Error ? error.message : error}`;
+      continue;
+    }
+
+    if (request.apply) {
+      const updates: Partial<UserAssessment> = {
+        algorithmVersion: SCORING_ALGORITHM_VERSION,
+        validationProfile: profile.name
+      };
+      result.changes.forEach(({ metric, current }) => {
+        (updates as Record<string, unknown>)[metric] = current !== null ? String(current) : null;
+      });
+      result.applied = !!(await source.updateUserAssessment(row.id, updates));
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,183 @@
+import type { Assessment, InsertUserAssessment, Patient } from '@shared/schema';
+import type { AssessmentKind, AssessmentSubmission, MotionSubmission, SubmissionIssue } from '@shared/assessment-submission';
+import { encodeRepetitionData } from '@shared/motion-frame-codec';
+import { scoreQuickDash, quickDashModulesFor, QUICKDASH_SCORE_TOLERANCE, type QuickDashScoreResult } from '@shared/quickdash';
+import {
+  collectMotionFrames,
+  resolveValidationProfile,
+  scoreMotionFrames,
+  SCORING_ALGORITHM_VERSION,
+  type ValidationProfileSource
+} from './assessment-scoring';
+import { findLinkedPatient } from './patient-assessment-sync';
+
+// Scores a validated submission with the calculator for its assessment kind and returns
+// the userAssessments columns to store. Motion kinds share the frame scoring; each kind
+// adds the measurements only it records.
+
+export class SubmissionValidationError extends Error {
+  constructor(message: string, public issues: SubmissionIssue[]) {
+    super(message);
+    this.name = 'SubmissionValidationError';
+  }
+}
+
+export type ScoredFields = Partial<InsertUserAssessment>;
+
+export interface ScoredSubmission {
+  fields: ScoredFields;
+  // Set for QuickDASH, whose item answers are also written to the study patient's record
+  quickDash?: { result: QuickDashScoreResult; patient?: Patient };
+  // A client-computed DASH score that disagrees with the server's
+  scoreMismatch?: { claimed: number; computed: number };
+}
+
+interface SubmissionContext {
+  source: ValidationProfileSource;
+  userId: number;
+  assessment: Assessment;
+}
+
+type SubmissionHandler<K extends AssessmentKind> =
+  (submission: Extract<AssessmentSubmission, { kind: K }>, context: SubmissionContext) => Promise<ScoredSubmission>;
+
+function column(value: number | null | undefined): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+// Module scores go in the same numeric columns on user assessments and QuickDASH responses
+export function quickDashModuleScores(quickDash: QuickDashScoreResult | null) {
+  return {
+    workModuleScore: column(quickDash?.moduleScores.work),
+    sportsArtsModuleScore: column(quickDash?.moduleScores.sportsArts)
+  };
+}
+
+function maxOf(values: Array<number | null | undefined>): number | null {
+  const present = values.filter((value): value is number => typeof value === 'number');
+  return present.length > 0 ? Math.max(...present) : null;
+}
+
+// Everything a motion recording stores regardless of kind: the compactly encoded session,
+// the index finger maxima the client measured, and the finger scores from the shared calculators
+async function scoreMotion(submission: MotionSubmission, context: SubmissionContext): Promise<ScoredFields> {
+  const reps = submission.repetitionData;
+  const repetitionData = encodeRepetitionData(reps);
+  const fields: ScoredFields = {
+    romData: submission.romData,
+    repetitionData,
+    qualityScore: submission.qualityScore,
+    handType: submission.handType,
+    vasScoreBefore: submission.vasScoreBefore ?? null,
+    vasScoreAfter: submission.vasScoreAfter ?? null,
+    retakeCount: submission.retakeCount,
+    retakeReasons: submission.retakeReasons ?? null,
+    maxMcpAngle: column(maxOf(reps.map(rep => rep.romData?.mcpAngle))),
+    maxPipAngle: column(maxOf(reps.map(rep => rep.romData?.pipAngle))),
+    maxDipAngle: column(maxOf(reps.map(rep => rep.romData?.dipAngle))),
+    totalActiveRom: column(maxOf(reps.map(rep => rep.romData?.totalActiveRom))),
+    algorithmVersion: SCORING_ALGORITHM_VERSION
+  };
+
+  // Scored from the frames as stored, so a later re-score reproduces the same metrics
+  const frames = collectMotionFrames(repetitionData);
+  if (frames.length === 0) return fields;
+
+  try {
+    const profile = await resolveValidationProfile(context.source, context.userId, context.assessment);
+    const scores = scoreMotionFrames(context.assessment.name, frames, profile, submission.handType);
+    console.log(`Scored ${frames.length} motion frames for ${context.assessment.name} (algorithm ${SCORING_ALGORITHM_VERSION}, ${profile.name} validation):`, scores);
+    fields.validationProfile = profile.name;
+    Object.entries(scores).forEach(([metric, value]) => {
+      (fields as Record<string, unknown>)[metric] = column(value);
+    });
+  } catch (error) {
+    console.log('ROM calculation for all fingers failed, keeping index finger only:', error);
+  }
+  return fields;
+}
+
+// Flexion/extension maxima across the repetitions and the per-frame wrist angles
+const scoreWristFlexionExtension: SubmissionHandler<'wrist-flexion-extension'> = async (submission, context) => {
+  const reps = submission.repetitionData;
+  const frameAngles = collectMotionFrames(reps).map(frame => frame.wristAngles).filter(Boolean);
+
+  const wristFlexionAngle = maxOf([
+    submission.wristFlexionAngle,
+    ...reps.map(rep => rep.wristFlexionAngle),
+    ...frameAngles.map(angles => angles.wristFlexionAngle)
+  ]);
+  const wristExtensionAngle = maxOf([
+    submission.wristExtensionAngle,
+    ...reps.map(rep => rep.wristExtensionAngle),
+    ...frameAngles.map(angles => angles.wristExtensionAngle)
+  ]);
+
+  return {
+    fields: {
+      ...await scoreMotion(submission, context),
+      wristFlexionAngle: column(wristFlexionAngle),
+      wristExtensionAngle: column(wristExtensionAngle),
+      maxWristFlexion: column(maxOf([submission.maxWristFlexion, ...reps.map(rep => rep.maxWristFlexion), wristFlexionAngle])),
+      maxWristExtension: column(maxOf([submission.maxWristExtension, ...reps.map(rep => rep.maxWristExtension), wristExtensionAngle]))
+    }
+  };
+};
+
+// The maxima scored from the stored frames win; the live values cover recordings without pose landmarks
+const scoreWristDeviation: SubmissionHandler<'wrist-deviation'> = async (submission, context) => {
+  const fields = await scoreMotion(submission, context);
+  return {
+    fields: {
+      ...fields,
+      maxRadialDeviation: fields.maxRadialDeviation ?? column(submission.maxRadialDeviation),
+      maxUlnarDeviation: fields.maxUlnarDeviation ?? column(submission.maxUlnarDeviation)
+    }
+  };
+};
+
+const scoreFingerMotion = async (submission: MotionSubmission, context: SubmissionContext): Promise<ScoredSubmission> => ({
+  fields: await scoreMotion(submission, context)
+});
+
+// Optional modules follow the linked study patient's occupation
+const scoreDash: SubmissionHandler<'dash'> = async (submission, context) => {
+  const patient = await findLinkedPatient(context.source, context.userId);
+  const quickDash = scoreQuickDash(submission.responses, quickDashModulesFor(patient?.occupationCategory));
+  if (!quickDash.valid) {
+    throw new SubmissionValidationError('Invalid QuickDASH responses', quickDash.errors.map(message => ({ path: 'responses', message })));
+  }
+
+  const claimed = submission.dashScore;
+  return {
+    fields: {
+      qualityScore: submission.qualityScore ?? null,
+      dashScore: column(quickDash.score),
+      ...quickDashModuleScores(quickDash),
+      responses: quickDash.answers
+    },
+    quickDash: { result: quickDash, patient },
+    scoreMismatch: claimed !== undefined && !(Math.abs(claimed - quickDash.score!) <= QUICKDASH_SCORE_TOLERANCE)
+      ? { claimed, computed: quickDash.score! }
+      : undefined
+  };
+};
+
+const SUBMISSION_HANDLERS: { [K in AssessmentKind]: SubmissionHandler<K> } = {
+  tam: scoreFingerMotion,
+  kapandji: scoreFingerMotion,
+  'wrist-flexion-extension': scoreWristFlexionExtension,
+  'forearm-rotation': scoreFingerMotion,
+  'wrist-deviation': scoreWristDeviation,
+  dash: scoreDash
+};
+
+export function scoreSubmission(
+  source: ValidationProfileSource,
+  userId: number,
+  assessment: Assessment,
+  submission: AssessmentSubmission
+): Promise<ScoredSubmission> {
+  const handler = SUBMISSION_HANDLERS[submission.kind] as SubmissionHandler<AssessmentKind>;
+  return handler(submission, { source, userId, assessment });
+}
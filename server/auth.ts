@@ -0,0 +1,110 @@
+import { randomBytes, scrypt, timingSafeEqual, createHmac, createHash } from "crypto";
+import { promisify } from "util";
+
+// Password hashing (scrypt) and signed session tokens for clinical users.
+// Access tokens are short-lived HMAC-signed payloads; refresh tokens are opaque
+// random strings whose SHA-256 hash is stored against a clinical session row.
+
+const SCRYPT_KEY_LENGTH = 64;
+
+// Off the event loop, so a burst of logins does not stall other requests
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keyLength: number) => Promise<Buffer>;
+const PASSWORD_HASH_PREFIX = "scrypt";
+
+export const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000; // 15 minutes
+export const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const TOKEN_SECRET = process.env.SESSION_SECRET || randomBytes(32).toString("hex");
+
+if (!process.env.SESSION_SECRET) {
+  console.log('SESSION_SECRET not set - using an ephemeral signing key, sessions will not survive a restart');
+}
+
+// Fields attached to authenticated requests by requireAuth
+declare global {
+  namespace Express {
+    interface Request {
+      user?: any;
+      sessionId?: number;
+    }
+  }
+}
+
+export interface AccessTokenPayload {
+  sub: number;  // clinical user id
+  sid: number;  // clinical session id
+  role: string;
+  exp: number;  // epoch milliseconds
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, SCRYPT_KEY_LENGTH)).toString("hex");
+  return `${PASSWORD_HASH_PREFIX}$${salt}$${hash}`;
+}
+
+export function isPasswordHashed(stored: string | null | undefined): boolean {
+  return !!stored && stored.startsWith(`${PASSWORD_HASH_PREFIX}$`);
+}
+
+export async function verifyPassword(password: string, stored: string | null | undefined): Promise<boolean> {
+  if (!stored) return false;
+
+  if (!isPasswordHashed(stored)) {
+    // Legacy plaintext password - callers should re-hash after a successful match
+    const a = Buffer.from(password);
+    const b = Buffer.from(stored);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  const [, salt, hash] = stored.split("$");
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", TOKEN_SECRET).update(data).digest("base64url");
+}
+
+export function createAccessToken(userId: number, sessionId: number, role: string): { token: string; expiresAt: Date } {
+  const exp = Date.now() + ACCESS_TOKEN_TTL_MS;
+  const payload: AccessTokenPayload = { sub: userId, sid: sessionId, role, exp };
+  const body = base64url(JSON.stringify(payload));
+  return { token: `${body}.${sign(body)}`, expiresAt: new Date(exp) };
+}
+
+export function verifyAccessToken(token: string): AccessTokenPayload | null {
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString("utf-8")) as AccessTokenPayload;
+    if (typeof payload.sub !== "number" || typeof payload.sid !== "number" || payload.exp < Date.now()) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export function generateRefreshToken(): string {
+  return randomBytes(48).toString("base64url");
+}
+
+export function hashRefreshToken(refreshToken: string): string {
+  return createHash("sha256").update(refreshToken).digest("hex");
+}
@@ -0,0 +1,158 @@
+import type { ClinicalSettings, InsertUserAssessment, PatientAssessment, UserAssessment } from '@shared/schema';
+import type { AssessmentKind } from '@shared/assessment-submission';
+import {
+  clinicalChangeMetricsFor,
+  computeClinicalChange,
+  resolveChangeThresholds,
+  type ClinicalChange,
+  type ClinicalChangeMetric,
+  type ClinicalChangeValues
+} from '@shared/clinical-change';
+
+// Server side of MCID tracking: reads a patient's earlier results of the same assessment and
+// classifies the new one against them. Portal recordings are compared with the user's earlier
+// sessions, clinical rows with the patient's earlier rows of the same assessment type.
+
+// Storage methods change tracking reads from (implemented by every storage backend)
+export interface ClinicalChangeDataSource {
+  getClinicalSettings(): Promise<ClinicalSettings>;
+  getUserAssessments(userId: number): Promise<UserAssessment[]>;
+  getPatientAssessments(patientId: number, limit?: number): Promise<PatientAssessment[]>;
+}
+
+// Storage methods reclassification also writes through
+export interface ClinicalChangeUpdateSource extends ClinicalChangeDataSource {
+  updateUserAssessment(id: number, updates: Partial<UserAssessment>): Promise<UserAssessment | undefined>;
+}
+
+// The baseline can be any number of sessions back
+const FULL_HISTORY = Number.MAX_SAFE_INTEGER;
+
+type Numeric = string | number | null | undefined;
+
+function toNumber(value: Numeric): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+// Both ends of an arc must be measured for the arc to compare across sessions
+function arc(first: Numeric, second: Numeric): number | null {
+  const a = toNumber(first);
+  const b = toNumber(second);
+  return a === null || b === null ? null : a + b;
+}
+
+function valuesFor(kind: AssessmentKind | null, all: Record<ClinicalChangeMetric, number | null>): ClinicalChangeValues {
+  return Object.fromEntries(clinicalChangeMetricsFor(kind).map(metric => [metric, all[metric]]));
+}
+
+type UserAssessmentValues = Partial<Pick<InsertUserAssessment,
+  'indexFingerRom' | 'middleFingerRom' | 'ringFingerRom' | 'pinkyFingerRom' | 'kapandjiScore' |
+  'maxWristFlexion' | 'maxWristExtension' | 'maxRadialDeviation' | 'maxUlnarDeviation' |
+  'dashScore' | 'vasScoreBefore' | 'vasScoreAfter'
+>>;
+
+export function userAssessmentChangeValues(kind: AssessmentKind | null, ua: UserAssessmentValues): ClinicalChangeValues {
+  return valuesFor(kind, {
+    indexFingerTam: toNumber(ua.indexFingerRom),
+    middleFingerTam: toNumber(ua.middleFingerRom),
+    ringFingerTam: toNumber(ua.ringFingerRom),
+    pinkyFingerTam: toNumber(ua.pinkyFingerRom),
+    kapandjiScore: toNumber(ua.kapandjiScore),
+    wristFlexionExtensionArc: arc(ua.maxWristFlexion, ua.maxWristExtension),
+    wristDeviationArc: arc(ua.maxRadialDeviation, ua.maxUlnarDeviation),
+    quickDashScore: toNumber(ua.dashScore),
+    // The rating after the recording reflects the effort just made
+    vasScore: toNumber(ua.vasScoreAfter ?? ua.vasScoreBefore)
+  });
+}
+
+export function patientAssessmentChangeValues(kind: AssessmentKind | null, pa: Partial<PatientAssessment>): ClinicalChangeValues {
+  return valuesFor(kind, {
+    indexFingerTam: toNumber(pa.indexFingerRom),
+    middleFingerTam: toNumber(pa.middleFingerRom),
+    ringFingerTam: toNumber(pa.ringFingerRom),
+    pinkyFingerTam: toNumber(pa.pinkyFingerRom),
+    kapandjiScore: toNumber(pa.kapandjiScore),
+    wristFlexionExtensionArc: arc(pa.maxWristFlexion, pa.maxWristExtension),
+    wristDeviationArc: arc(pa.maxRadialDeviation, pa.maxUlnarDeviation),
+    quickDashScore: toNumber(pa.quickDashScore),
+    vasScore: toNumber(pa.vasScore)
+  });
+}
+
+const time = (value: Date | string | null | undefined) => (value ? new Date(value).getTime() : 0);
+
+// A portal session against the user's completed sessions of the same assessment before it;
+// the session itself is left out, so an existing one can be reclassified after re-scoring
+export async function userAssessmentClinicalChange(
+  source: ClinicalChangeDataSource,
+  kind: AssessmentKind | null,
+  userAssessment: UserAssessmentValues & Pick<UserAssessment, 'userId' | 'assessmentId'> & Partial<Pick<UserAssessment, 'id' | 'completedAt'>>
+): Promise<ClinicalChange> {
+  const at = time(userAssessment.completedAt) || Date.now();
+  const earlier = (await source.getUserAssessments(userAssessment.userId))
+    .filter(ua => ua.assessmentId === userAssessment.assessmentId && ua.isCompleted && ua.id !== userAssessment.id)
+    .filter(ua => time(ua.completedAt) <= at)
+    .sort((a, b) => time(a.completedAt) - time(b.completedAt) || a.id - b.id);
+  const thresholds = resolveChangeThresholds((await source.getClinicalSettings()).clinicalChangeThresholds);
+  return computeClinicalChange(
+    userAssessmentChangeValues(kind, userAssessment),
+    earlier.map(ua => userAssessmentChangeValues(kind, ua)),
+    thresholds
+  );
+}
+
+// After a session is re-scored, every later session of the same assessment was classified
+// against a stale value, so the session and those after it are classified again, oldest
+// first. Returns the rows as saved, in that order, for the caller to sync.
+export async function reclassifyUserAssessmentsFrom(
+  source: ClinicalChangeUpdateSource,
+  kind: AssessmentKind | null,
+  from: UserAssessment
+): Promise<UserAssessment[]> {
+  const at = time(from.completedAt);
+  const affected = (await source.getUserAssessments(from.userId))
+    .filter(ua => ua.assessmentId === from.assessmentId && ua.isCompleted)
+    .filter(ua => ua.id === from.id || time(ua.completedAt) >= at)
+    .sort((a, b) => time(a.completedAt) - time(b.completedAt) || a.id - b.id);
+
+  const saved: UserAssessment[] = [];
+  for (const userAssessment of affected) {
+    const clinicalChange = await userAssessmentClinicalChange(source, kind, userAssessment);
+    saved.push((await source.updateUserAssessment(userAssessment.id, { clinicalChange })) ?? userAssessment);
+  }
+  return saved;
+}
+
+export interface PatientChangeFields {
+  changeFromBaseline: string | null;
+  clinicalChange: ClinicalChange;
+}
+
+// A clinical row against the patient's rows of the same type dated before it. The row itself
+// is left out, so a re-sync of an existing row reclassifies it the same way.
+export async function patientAssessmentClinicalChange(
+  source: ClinicalChangeDataSource,
+  kind: AssessmentKind | null,
+  assessment: Partial<PatientAssessment> & Pick<PatientAssessment, 'patientId' | 'assessmentTypeId'>
+): Promise<PatientChangeFields> {
+  const at = time(assessment.assessmentDate) || Date.now();
+  const earlier = (await source.getPatientAssessments(assessment.patientId, FULL_HISTORY))
+    .filter(row => row.assessmentTypeId === assessment.assessmentTypeId && row.id !== assessment.id)
+    .filter(row => time(row.assessmentDate) <= at)
+    .sort((a, b) => time(a.assessmentDate) - time(b.assessmentDate) || a.id - b.id);
+  const thresholds = resolveChangeThresholds((await source.getClinicalSettings()).clinicalChangeThresholds);
+
+  const baselineRom = earlier.map(row => toNumber(row.percentOfNormalRom)).find(rom => rom !== null) ?? null;
+  const currentRom = toNumber(assessment.percentOfNormalRom);
+  return {
+    changeFromBaseline: baselineRom === null || currentRom === null ? null : String(Math.round((currentRom - baselineRom) * 100) / 100),
+    clinicalChange: computeClinicalChange(
+      patientAssessmentChangeValues(kind, assessment),
+      earlier.map(row => patientAssessmentChangeValues(kind, row)),
+      thresholds
+    )
+  };
+}
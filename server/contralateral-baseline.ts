@@ -0,0 +1,101 @@
+import type { Assessment, ContralateralBaseline, InsertContralateralBaseline, UserAssessment } from '@shared/schema';
+import { assessmentKindFor } from '@shared/assessment-submission';
+import {
+  compareWithContralateral,
+  injuredHandFor,
+  oppositeHand,
+  supportsContralateralBaseline,
+  type ContralateralComparisonResult,
+  type HandSide
+} from '@shared/contralateral-comparison';
+import type { ScoredFields } from './assessment-submission';
+import { findLinkedPatient, type PatientLinkSource } from './patient-assessment-sync';
+
+// Contralateral baselines: the uninjured hand is recorded through the same submission
+// contract and calculators as an assessment, but stored apart from the portal history so it
+// never counts as a session, reaches the clinical record or raises outlier alerts.
+
+// Storage methods baselines are read from (implemented by every storage backend)
+export interface ContralateralDataSource extends PatientLinkSource {
+  getAssessment(id: number): Promise<Assessment | undefined>;
+  getContralateralBaseline(userId: number, assessmentId: number): Promise<ContralateralBaseline | undefined>;
+}
+
+// The injured side comes from the linked study patient; users without one can record either hand
+export async function injuredHandForUser(source: PatientLinkSource, userId: number): Promise<{ injuredHand: HandSide | null; bilateral: boolean }> {
+  const patient = await findLinkedPatient(source, userId);
+  return { injuredHand: injuredHandFor(patient?.laterality), bilateral: patient?.laterality === 'Bilateral' };
+}
+
+// Why a recording of this hand cannot serve as the reference, or null when it can. Once the
+// injured side is known only a recording confirmed on the other hand qualifies; an UNKNOWN
+// hand could be the injured one.
+export async function referenceHandProblem(source: PatientLinkSource, userId: number, handType: string): Promise<string | null> {
+  const { injuredHand, bilateral } = await injuredHandForUser(source, userId);
+  if (bilateral) return 'Both hands are affected, so there is no uninjured hand to record';
+  if (injuredHand && handType !== oppositeHand(injuredHand)) {
+    return `The reference must be recorded on the uninjured ${oppositeHand(injuredHand).toLowerCase()} hand`;
+  }
+  return null;
+}
+
+export function contralateralBaselineFields(userId: number, assessmentId: number, fields: ScoredFields): InsertContralateralBaseline {
+  return {
+    userId,
+    assessmentId,
+    handType: fields.handType ?? 'UNKNOWN',
+    totalActiveRom: fields.totalActiveRom ?? null,
+    kapandjiScore: fields.kapandjiScore ?? null,
+    maxWristFlexion: fields.maxWristFlexion ?? null,
+    maxWristExtension: fields.maxWristExtension ?? null,
+    maxRadialDeviation: fields.maxRadialDeviation ?? null,
+    maxUlnarDeviation: fields.maxUlnarDeviation ?? null,
+    qualityScore: fields.qualityScore ?? null,
+    repetitionData: fields.repetitionData ?? null,
+    algorithmVersion: fields.algorithmVersion ?? null,
+    validationProfile: fields.validationProfile ?? null
+  };
+}
+
+// Compares a recording with the latest baseline for its assessment
+export async function contralateralComparison(source: ContralateralDataSource, userAssessment: UserAssessment): Promise<ContralateralComparisonResult> {
+  const { injuredHand, bilateral } = await injuredHandForUser(source, userAssessment.userId);
+  const kind = assessmentKindFor((await source.getAssessment(userAssessment.assessmentId))?.name);
+  const result: ContralateralComparisonResult = {
+    injuredHand,
+    baseline: null,
+    comparisons: [],
+    canRecordBaseline: supportsContralateralBaseline(kind) && !bilateral
+  };
+
+  if (!supportsContralateralBaseline(kind)) {
+    result.unavailableReason = 'This assessment is not compared with the uninjured hand';
+    return result;
+  }
+  if (bilateral) {
+    result.unavailableReason = 'Both hands are affected, so results are compared with population norms';
+    return result;
+  }
+  const baseline = await source.getContralateralBaseline(userAssessment.userId, userAssessment.assessmentId);
+  if (!baseline) {
+    result.unavailableReason = 'No recording of the uninjured hand yet';
+    return result;
+  }
+  result.baseline = { id: baseline.id, handType: baseline.handType, recordedAt: baseline.recordedAt };
+
+  const sides = [userAssessment.handType, baseline.handType];
+  if (!sides.every(side => side === 'LEFT' || side === 'RIGHT')) {
+    result.unavailableReason = 'The hand used for this result or the reference is not known';
+    return result;
+  }
+  if (sides[0] === sides[1]) {
+    result.unavailableReason = 'This result and the reference were recorded on the same hand';
+    return result;
+  }
+
+  result.comparisons = compareWithContralateral(kind, userAssessment, baseline);
+  if (result.comparisons.length === 0) {
+    result.unavailableReason = 'No measurement was recorded on both hands';
+  }
+  return result;
+}
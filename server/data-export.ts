@@ -0,0 +1,221 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHmac } from 'crypto';
+import type {
+  Cohort,
+  CohortAnalytics,
+  DataExportFilters,
+  ExportFormat,
+  Patient,
+  PatientAssessment
+} from '@shared/schema';
+
+// Data export pipeline: builds rows for a dataExports request, serialises them
+// as CSV or NDJSON and writes the file under ./data/exports for later download.
+
+const EXPORT_DIR = path.join('./data', 'exports');
+
+// How long a download link stays valid; the file is deleted once it lapses
+export const EXPORT_LINK_TTL_MS = 15 * 60 * 1000;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8'
+};
+
+// Storage methods the exporter reads from (implemented by every storage backend)
+export interface ExportDataSource {
+  getPatients(clinicianId?: number): Promise<any[]>;
+  getPatientAssessments(patientId: number, limit?: number): Promise<PatientAssessment[]>;
+  getCohorts(): Promise<Cohort[]>;
+  getCohortAnalytics(cohortId: number): Promise<CohortAnalytics | null>;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  deidentify: boolean;
+  includeRawData: boolean;
+  // Restrict patient rows to this clinician's assigned patients
+  clinicianId?: number;
+  // Per-export salt for de-identified subject codes
+  salt: string;
+}
+
+type ExportRow = Record<string, unknown>;
+
+// Columns removed from de-identified patient exports
+const IDENTIFYING_FIELDS = ['patientId', 'alias', 'accessCode', 'phone', 'dateOfBirth', 'surgeonId', 'surgeryDate', 'injuryDate', 'notes'];
+
+const ASSESSMENT_FIELDS: (keyof PatientAssessment)[] = [
+  'assessmentDate', 'sessionNumber', 'postOpDay', 'studyWeek', 'deviceConfidenceScore',
+  'tamScore', 'indexFingerRom', 'middleFingerRom', 'ringFingerRom', 'pinkyFingerRom',
+  'indexMcp', 'indexPip', 'indexDip', 'middleMcp', 'middlePip', 'middleDip',
+  'ringMcp', 'ringPip', 'ringDip', 'pinkyMcp', 'pinkyPip', 'pinkyDip',
+  'kapandjiScore', 'wristFlexionAngle', 'wristExtensionAngle', 'maxWristFlexion', 'maxWristExtension',
+  'maxRadialDeviation', 'maxUlnarDeviation', 'percentOfNormalRom', 'changeFromBaseline', 'vasScore', 'quickDashScore',
+  'missedVisit', 'retakeFlag', 'isCompleted', 'completedAt', 'notes'
+];
+
+function subjectCode(patientId: number, salt: string): string {
+  return 'S-' + createHmac('sha256', salt).update(String(patientId)).digest('hex').substring(0, 10).toUpperCase();
+}
+
+function withinDateRange(date: Date | string | null, filters: DataExportFilters): boolean {
+  if (!filters.dateFrom && !filters.dateTo) return true;
+  if (!date) return false;
+  const time = new Date(date).getTime();
+  if (filters.dateFrom && time < new Date(filters.dateFrom).getTime()) return false;
+  if (filters.dateTo && time > new Date(filters.dateTo).getTime()) return false;
+  return true;
+}
+
+async function buildPatientRows(source: ExportDataSource, filters: DataExportFilters, options: ExportOptions): Promise<ExportRow[]> {
+  const cohorts = await source.getCohorts();
+  const allPatients: Patient[] = await source.getPatients(options.clinicianId);
+
+  // Patient listings can repeat a patient once per joined assessment - keep one row each
+  const patients = Array.from(new Map(allPatients.map(p => [p.id, p])).values()).filter(patient =>
+    (!options.clinicianId || patient.assignedClinicianId === options.clinicianId) &&
+    (!filters.cohortId || patient.cohortId === filters.cohortId) &&
+    (!filters.patientId || patient.id === filters.patientId)
+  );
+
+  const rows: ExportRow[] = [];
+  for (const patient of patients) {
+    const assessments = await source.getPatientAssessments(patient.id, 10000);
+    const cohort = cohorts.find(c => c.id === patient.cohortId);
+
+    const patientColumns: ExportRow = options.deidentify
+      ? { subjectCode: subjectCode(patient.id, options.salt) }
+      : { patientId: patient.patientId, alias: patient.alias };
+
+    Object.assign(patientColumns, {
+      cohortId: patient.cohortId,
+      cohortName: cohort?.name ?? null,
+      ageGroup: patient.ageGroup ?? null,
+      sex: patient.sex ?? null,
+      handDominance: patient.handDominance ?? null,
+      occupationCategory: patient.occupationCategory ?? null,
+      injuryType: patient.injuryType ?? null,
+      laterality: patient.laterality ?? null,
+      procedureCode: patient.procedureCode ?? null,
+      ...(options.deidentify ? {} : { surgeryDate: patient.surgeryDate ?? null })
+    });
+
+    for (const assessment of assessments) {
+      if (!withinDateRange(assessment.assessmentDate, filters)) continue;
+
+      const row: ExportRow = { ...patientColumns, assessmentId: assessment.id, assessmentTypeId: assessment.assessmentTypeId };
+      ASSESSMENT_FIELDS.forEach(field => {
+        row[field] = assessment[field] ?? null;
+      });
+      if (options.includeRawData) {
+        row.rawData = assessment.rawData ?? null;
+      }
+      if (options.deidentify) {
+        IDENTIFYING_FIELDS.forEach(field => delete row[field]);
+      }
+      rows.push(row);
+    }
+  }
+
+  return rows;
+}
+
+async function buildCohortRows(source: ExportDataSource, filters: DataExportFilters): Promise<ExportRow[]> {
+  const cohorts = (await source.getCohorts()).filter(cohort => !filters.cohortId || cohort.id === filters.cohortId);
+
+  const rows: ExportRow[] = [];
+  for (const cohort of cohorts) {
+    const analytics = await source.getCohortAnalytics(cohort.id);
+    rows.push({
+      cohortId: cohort.id,
+      cohortName: cohort.name,
+      patientCount: analytics?.patientCount ?? 0,
+      avgTamScore: analytics?.avgTamScore ?? null,
+      stdDevTamScore: analytics?.stdDevTamScore ?? null,
+      avgKapandjiScore: analytics?.avgKapandjiScore ?? null,
+      stdDevKapandjiScore: analytics?.stdDevKapandjiScore ?? null,
+      avgWristFlexion: analytics?.avgWristFlexion ?? null,
+      stdDevWristFlexion: analytics?.stdDevWristFlexion ?? null,
+      avgWristExtension: analytics?.avgWristExtension ?? null,
+      stdDevWristExtension: analytics?.stdDevWristExtension ?? null,
+      avgRadialDeviation: analytics?.avgRadialDeviation ?? null,
+      stdDevRadialDeviation: analytics?.stdDevRadialDeviation ?? null,
+      avgUlnarDeviation: analytics?.avgUlnarDeviation ?? null,
+      stdDevUlnarDeviation: analytics?.stdDevUlnarDeviation ?? null
+    });
+  }
+  return rows;
+}
+
+export async function buildExportRows(
+  source: ExportDataSource,
+  exportType: string,
+  filters: DataExportFilters,
+  options: ExportOptions
+): Promise<ExportRow[]> {
+  return exportType === 'cohort_data'
+    ? buildCohortRows(source, filters)
+    : buildPatientRows(source, filters, options);
+}
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function serializeRows(rows: ExportRow[], format: ExportFormat): string {
+  if (format === 'ndjson') {
+    return rows.map(row => JSON.stringify(row)).join('\n') + (rows.length ? '\n' : '');
+  }
+
+  // Union of keys keeps columns stable when some rows omit optional fields
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const lines = [columns.join(',')];
+  rows.forEach(row => lines.push(columns.map(column => csvValue(row[column])).join(',')));
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function exportFilePath(token: string, format: ExportFormat): string {
+  return path.join(EXPORT_DIR, `${token}.${format}`);
+}
+
+export async function removeExportFile(token: string, format: ExportFormat): Promise<void> {
+  await fs.rm(exportFilePath(token, format), { force: true });
+}
+
+// Export files can hold identifiable patient data, so none outlives its download link.
+// A file is judged by its age, which needs no lookup of the export request.
+export async function sweepExpiredExportFiles(now: number = Date.now()): Promise<number> {
+  let names: string[];
+  try {
+    names = await fs.readdir(EXPORT_DIR);
+  } catch {
+    return 0;
+  }
+
+  let removed = 0;
+  for (const name of names) {
+    const filePath = path.join(EXPORT_DIR, name);
+    try {
+      const { mtimeMs } = await fs.stat(filePath);
+      if (mtimeMs + EXPORT_LINK_TTL_MS >= now) continue;
+      await fs.rm(filePath, { force: true });
+      removed++;
+    } catch (error) {
+      console.error('Failed to remove expired export file', filePath, error);
+    }
+  }
+  return removed;
+}
+
+export async function writeExportFile(token: string, format: ExportFormat, rows: ExportRow[]): Promise<string> {
+  await fs.mkdir(EXPORT_DIR, { recursive: true });
+  const filePath = exportFilePath(token, format);
+  await fs.writeFile(filePath, serializeRows(rows, format), 'utf-8');
+  return filePath;
+}
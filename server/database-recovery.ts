@@ -1,383 +1,530 @@
 // Database recovery system with fallback to memory storage
-import { MemoryStorage } from './memory-storage';
-import { storage } from './storage';
-import { db } from './db';
 import { sql } from 'drizzle-orm';
-
-export class RecoveryStorage {
-  private activeStorage: any;
-  private isUsingMemory = false;
+import type {
+  User,
+  InsertUser,
+  Assessment,
+  InsertAssessment,
+  UserAssessment,
+  InsertUserAssessment,
+  InjuryType,
+  InsertInjuryType,
+  ClinicalUser,
+  InsertClinicalUser,
+  ClinicalSession,
+  InsertClinicalSession,
+  Cohort,
+  InsertCohort,
+  Patient,
+  InsertPatient,
+  PatientWithDetails,
+  PatientEnrollment,
+  InsertEnrollmentEvent,
+  QuickDashResponse,
+  InsertQuickDashResponse,
+  QuestionnaireSchedule,
+  InsertQuestionnaireSchedule,
+  QuestionnaireResponse,
+  InsertQuestionnaireResponse,
+  EnrollmentEvent,
+  AssessmentType,
+  InsertAssessmentType,
+  PatientAssessment,
+  InsertPatientAssessment,
+  OutlierAlert,
+  InsertOutlierAlert,
+  AuditLog,
+  InsertAuditLog,
+  DataExport,
+  InsertDataExport,
+  ClinicalSettings,
+  StudyVisit,
+  InsertStudyVisit,
+  CohortAnalytics,
+  StudyDataFilters,
+  PaginatedResult,
+  PatientOutcome,
+  PatientDashboardEntry,
+  DashboardMetrics,
+  PatientAssessmentHistoryEntry,
+  ShareLink,
+  InsertShareLink,
+  ContralateralBaseline,
+  InsertContralateralBaseline
+} from '@shared/schema';
+import type { IStorage, UserAssessmentFilters } from './storage';
+import type { EligibilityResult } from '@shared/eligibility-criteria';
+import { MemoryStorage, DEFAULT_ASSESSMENTS } from './memory-storage';
+
+// Serves every call from Postgres when it answers at startup and from memory
+// storage otherwise. The database modules are imported lazily because ./db
+// throws at import time when DATABASE_URL is not set.
+export class RecoveryStorage implements IStorage {
+  private activeStorage: IStorage = new MemoryStorage();
+  private isUsingMemory = true;
+  readonly ready: Promise<void>;
 
   constructor() {
-    // Always use database storage for consistent behavior
-    this.activeStorage = storage;
-    this.isUsingMemory = false;
+    this.ready = this.initializeStorage();
+  }
+
+  get usingMemory(): boolean {
+    return this.isUsingMemory;
   }
 
   private async initializeStorage() {
+    if (!process.env.DATABASE_URL) {
+      console.log('DATABASE_URL not set, using memory storage');
+      return;
+    }
+
     try {
       console.log('Testing database connection...');
+      const { db } = await import('./db');
       await Promise.race([
         db.execute(sql`SELECT 1 as test`),
         new Promise((_, reject) => setTimeout(() => reject(new Error('Connection timeout')), 5000))
       ]);
-      
+
       console.log('Database connection successful, initializing database storage');
-      this.activeStorage = await this.createDatabaseStorage();
-      this.isUsingMemory = false;
-      
+      const { DatabaseStorage } = await import('./storage');
+      const databaseStorage = new DatabaseStorage();
+
       // Ensure demo data exists
-      await this.ensureDemoData();
-      
+      await this.ensureDemoData(databaseStorage);
+
+      this.activeStorage = databaseStorage;
+      this.isUsingMemory = false;
     } catch (error) {
-      console.log('Database connection failed, using storage fallback');
-      this.activeStorage = storage;
-      this.isUsingMemory = true;
+      console.log('Database connection failed, using memory storage fallback');
     }
   }
 
-  private async createDatabaseStorage() {
-    // Create a simple database interface
-    return {
-      async getAssessments() {
-        const result = await db.execute(sql`SELECT * FROM assessments WHERE is_active = true ORDER BY order_index`);
-        return result.rows;
-      },
-      
-      async getAssessment(id: number) {
-        const result = await db.execute(sql`SELECT * FROM assessments WHERE id = ${id}`);
-        return result.rows[0];
-      },
-      
-      async getUserByCode(code: string) {
-        const result = await db.execute(sql`SELECT * FROM users WHERE code = ${code}`);
-        return result.rows[0];
-      },
-      
-      async getUserById(id: number) {
-        const result = await db.execute(sql`SELECT * FROM users WHERE id = ${id}`);
-        return result.rows[0];
-      },
-      
-      async createUser(userData: any) {
-        const result = await db.execute(sql`
-          INSERT INTO users (code, is_first_time, injury_type, created_at)
-          VALUES (${userData.code}, ${userData.isFirstTime || true}, ${userData.injuryType || null}, NOW())
-          RETURNING *
-        `);
-        return result.rows[0];
-      },
-      
-      async updateUser(id: number, updates: any) {
-        const setValues = Object.entries(updates).map(([key, value]) => `${key} = '${value}'`).join(', ');
-        const result = await db.execute(sql.raw(`UPDATE users SET ${setValues} WHERE id = ${id} RETURNING *`));
-        return result.rows[0];
-      },
-      
-      async createUserAssessment(data: any) {
-        const result = await db.execute(sql`
-          INSERT INTO user_assessments (user_id, assessment_id, assessment_name, is_completed, created_at)
-          VALUES (${data.userId}, ${data.assessmentId}, ${data.assessmentName || null}, ${data.isCompleted || false}, NOW())
-          RETURNING *
-        `);
-        return result.rows[0];
-      },
-      
-      async updateUserAssessment(id: number, updates: any) {
-        const setValues = Object.entries(updates).map(([key, value]) => `${key} = '${value}'`).join(', ');
-        const result = await db.execute(sql.raw(`UPDATE user_assessments SET ${setValues} WHERE id = ${id} RETURNING *`));
-        return result.rows[0];
-      },
-      
-      async getUserAssessmentById(id: number) {
-        const result = await db.execute(sql`SELECT * FROM user_assessments WHERE id = ${id}`);
-        return result.rows[0];
-      },
-      
-      async getUserAssessments(userId: number) {
-        const result = await db.execute(sql`SELECT * FROM user_assessments WHERE user_id = ${userId} ORDER BY created_at DESC`);
-        return result.rows;
-      },
-      
-      async getUserProgress(userId: number) {
-        const totalResult = await db.execute(sql`SELECT COUNT(*) as total FROM assessments WHERE is_active = true`);
-        const completedResult = await db.execute(sql`
-          SELECT COUNT(*) as completed FROM user_assessments 
-          WHERE user_id = ${userId} AND is_completed = true
-        `);
-        
-        const total = totalResult.rows[0]?.total || 5;
-        const completed = completedResult.rows[0]?.completed || 0;
-        
-        return {
-          completed,
-          total,
-          percentage: Math.round((completed / total) * 100)
-        };
+  // Restore the assessment catalogue and demo user if the database has been emptied
+  private async ensureDemoData(databaseStorage: IStorage) {
+    const assessments = await databaseStorage.getAssessments();
+    if (assessments.length === 0) {
+      console.log('Restoring assessment data to database...');
+      for (const assessment of DEFAULT_ASSESSMENTS) {
+        await databaseStorage.createAssessment(assessment);
       }
-    };
+    }
+
+    const demoUser = await databaseStorage.getUserByCode('DEMO01');
+    if (!demoUser) {
+      console.log('Restoring demo user...');
+      const user = await databaseStorage.createUser({ code: 'DEMO01', injuryType: 'Carpal Tunnel' });
+      await databaseStorage.updateUser(user.id, { isFirstTime: false });
+    }
   }
 
-  private async ensureDemoData() {
-    if (this.isUsingMemory) return; // Memory storage already has demo data
+  // Calls made during startup wait until the backend has been chosen
+  private async active(): Promise<IStorage> {
+    await this.ready;
+    return this.activeStorage;
+  }
 
-    try {
-      // Check if assessments exist
-      const assessments = await this.activeStorage.getAssessments();
-      if (assessments.length === 0) {
-        console.log('Restoring assessment data to database...');
-        await this.restoreAssessmentData();
-      }
+  // Clinical User methods
+  async getClinicalUser(id: number): Promise<ClinicalUser | undefined> {
+    return (await this.active()).getClinicalUser(id);
+  }
 
-      // Check if demo user exists
-      const demoUser = await this.activeStorage.getUserByCode('DEMO01');
-      if (!demoUser) {
-        console.log('Restoring demo user...');
-        await this.restoreDemoUser();
-      }
-    } catch (error) {
-      console.log('Failed to ensure demo data, falling back to persistent memory storage');
-      this.activeStorage = storage;
-      this.isUsingMemory = true;
-    }
+  async getClinicalUserByUsername(username: string): Promise<ClinicalUser | undefined> {
+    return (await this.active()).getClinicalUserByUsername(username);
   }
 
-  private async restoreAssessmentData() {
-    const assessmentData = [
-      {
-        name: 'TAM (Total Active Motion)',
-        description: 'Comprehensive finger flexion and extension measurement',
-        videoUrl: '/videos/tam_video.mp4',
-        duration: 10,
-        repetitions: 1,
-        instructions: 'Make a complete fist, then fully extend all fingers. Repeat slowly and deliberately.',
-        isActive: true,
-        orderIndex: 1
-      },
-      {
-        name: 'Kapandji Score',
-        description: 'Thumb opposition assessment using standardized scoring',
-        videoUrl: '/videos/kapandji-instruction.mov',
-        duration: 10,
-        repetitions: 1,
-        instructions: 'Touch your thumb to each finger tip, then to the base of each finger, progressing down the hand.',
-        isActive: true,
-        orderIndex: 2
-      },
-      {
-        name: 'Wrist Flexion/Extension',
-        description: 'Measure wrist forward and backward bending range of motion',
-        videoUrl: '/videos/wrist-fe-assessment.mp4',
-        duration: 10,
-        repetitions: 1,
-        instructions: 'Bend your wrist forward as far as comfortable, then backward. Keep forearm stable.',
-        isActive: true,
-        orderIndex: 3
-      },
-      {
-        name: 'Forearm Pronation/Supination',
-        description: 'Assess forearm rotation capabilities',
-        videoUrl: '/videos/forearm-rotation.mp4',
-        duration: 10,
-        repetitions: 1,
-        instructions: 'Rotate your forearm to turn palm up and down while keeping elbow stable.',
-        isActive: true,
-        orderIndex: 4
-      },
-      {
-        name: 'Wrist Radial/Ulnar Deviation',
-        description: 'Measure side-to-side wrist movement',
-        videoUrl: '/videos/wrist-deviation.mp4',
-        duration: 10,
-        repetitions: 1,
-        instructions: 'Move your wrist side to side, first toward thumb then toward pinky.',
-        isActive: true,
-        orderIndex: 5
-      }
-    ];
-
-    // Use raw SQL to restore data directly
-    for (const assessment of assessmentData) {
-      await db.execute(sql`
-        INSERT INTO assessments (name, description, video_url, duration, repetitions, instructions, is_active, order_index)
-        VALUES (${assessment.name}, ${assessment.description}, ${assessment.videoUrl}, ${assessment.duration}, ${assessment.repetitions}, ${assessment.instructions}, ${assessment.isActive}, ${assessment.orderIndex})
-        ON CONFLICT (name) DO NOTHING
-      `);
-    }
+  async createClinicalUser(user: InsertClinicalUser): Promise<ClinicalUser> {
+    return (await this.active()).createClinicalUser(user);
   }
 
-  private async restoreDemoUser() {
-    await db.execute(sql`
-      INSERT INTO users (code, is_first_time, injury_type, created_at)
-      VALUES ('DEMO01', false, 'Carpal Tunnel', NOW())
-      ON CONFLICT (code) DO NOTHING
-    `);
+  async updateClinicalUser(id: number, updates: Partial<ClinicalUser>): Promise<ClinicalUser | undefined> {
+    return (await this.active()).updateClinicalUser(id, updates);
   }
 
-  // Proxy all methods to active storage
-  async getAssessments() {
-    return await this.activeStorage.getAssessments();
+  async authenticateClinicalUser(username: string, password: string): Promise<ClinicalUser | null> {
+    return (await this.active()).authenticateClinicalUser(username, password);
   }
 
-  async getAssessment(id: number) {
-    return await this.activeStorage.getAssessment(id);
+  // Clinical session methods
+  async createClinicalSession(session: InsertClinicalSession): Promise<ClinicalSession> {
+    return (await this.active()).createClinicalSession(session);
   }
 
-  async getUserByCode(code: string) {
-    return await this.activeStorage.getUserByCode(code);
+  async getClinicalSession(id: number): Promise<ClinicalSession | undefined> {
+    return (await this.active()).getClinicalSession(id);
   }
 
-  async getUserById(id: number) {
-    const result = await this.activeStorage.getUserById(id);
-    console.log(`RecoveryStorage getUserById(${id}) returning:`, result ? 'found' : 'not found');
-    return result;
+  async getClinicalSessionByRefreshTokenHash(refreshTokenHash: string): Promise<ClinicalSession | undefined> {
+    return (await this.active()).getClinicalSessionByRefreshTokenHash(refreshTokenHash);
   }
 
-  async createUser(userData: any) {
-    return await this.activeStorage.createUser(userData);
+  async updateClinicalSession(id: number, updates: Partial<ClinicalSession>): Promise<ClinicalSession | undefined> {
+    return (await this.active()).updateClinicalSession(id, updates);
   }
 
-  async updateUser(id: number, updates: any) {
-    return await this.activeStorage.updateUser(id, updates);
+  async revokeClinicalSession(id: number): Promise<boolean> {
+    return (await this.active()).revokeClinicalSession(id);
   }
 
-  async createUserAssessment(data: any) {
-    return await this.activeStorage.createUserAssessment(data);
+  // Cohort methods
+  async getCohorts(): Promise<Cohort[]> {
+    return (await this.active()).getCohorts();
   }
 
-  async updateUserAssessment(id: number, updates: any) {
-    return await this.activeStorage.updateUserAssessment(id, updates);
+  async getCohort(id: number): Promise<Cohort | undefined> {
+    return (await this.active()).getCohort(id);
   }
 
-  async getUserAssessmentById(id: number) {
-    return await this.activeStorage.getUserAssessmentById(id);
+  async createCohort(cohort: InsertCohort): Promise<Cohort> {
+    return (await this.active()).createCohort(cohort);
   }
 
-  async getUserAssessments(userId: number) {
-    return await this.activeStorage.getUserAssessments(userId);
+  async updateCohort(id: number, updates: Partial<Cohort>): Promise<Cohort | undefined> {
+    return (await this.active()).updateCohort(id, updates);
   }
 
-  async getUserProgress(userId: number) {
-    return await this.activeStorage.getUserProgress(userId);
+  async deleteCohort(id: number): Promise<boolean> {
+    return (await this.active()).deleteCohort(id);
   }
 
-  // Clinical methods
-  async authenticateClinicalUser(username: string, password: string) {
-    console.log(`RecoveryStorage authenticateClinicalUser(${username})`);
-    return await this.activeStorage.authenticateClinicalUser(username, password);
+  // Patient methods
+  async getPatients(clinicianId?: number): Promise<PatientWithDetails[]> {
+    return (await this.active()).getPatients(clinicianId);
   }
 
-  async getClinicalUser(id: number) {
-    return await this.activeStorage.getClinicalUser(id);
+  async getPatient(id: number): Promise<Patient | undefined> {
+    return (await this.active()).getPatient(id);
   }
 
-  async getClinicalUserByUsername(username: string) {
-    return await this.activeStorage.getClinicalUserByUsername(username);
+  async getPatientWithDetails(id: number): Promise<PatientWithDetails | undefined> {
+    return (await this.active()).getPatientWithDetails(id);
   }
 
-  async createClinicalUser(userData: any) {
-    return await this.activeStorage.createClinicalUser(userData);
+  async createPatient(patient: InsertPatient): Promise<Patient> {
+    return (await this.active()).createPatient(patient);
   }
 
-  async updateClinicalUser(id: number, updates: any) {
-    return await this.activeStorage.updateClinicalUser(id, updates);
+  async updatePatient(id: number, updates: Partial<Patient>): Promise<Patient | undefined> {
+    return (await this.active()).updatePatient(id, updates);
   }
 
-  async getCohorts() {
-    if (this.isUsingMemory) {
-      return [
-        { id: 1, name: 'Trigger Finger Study', description: 'Finger tendon disorder research', patientCount: 25, status: 'active' },
-        { id: 2, name: 'Carpal Tunnel Study', description: 'Nerve compression in the wrist research', patientCount: 32, status: 'active' },
-        { id: 3, name: 'Distal Radius Fracture Study', description: 'Broken wrist bone recovery research', patientCount: 28, status: 'active' },
-        { id: 4, name: 'CMC Arthroplasty Study', description: 'Thumb joint replacement research', patientCount: 20, status: 'active' },
-        { id: 5, name: 'Metacarpal ORIF Study', description: 'Hand bone surgical repair research', patientCount: 15, status: 'active' },
-        { id: 6, name: 'Phalanx Fracture Study', description: 'Finger bone fracture research', patientCount: 18, status: 'active' }
-      ];
-    }
-    return await this.activeStorage.getCohorts();
+  async deletePatient(id: number): Promise<boolean> {
+    return (await this.active()).deletePatient(id);
   }
 
-  async getPatients() {
-    return await this.activeStorage.getPatients();
+  // Patient dashboard methods
+  async getPatientDashboardData(): Promise<{ patients: PatientDashboardEntry[] }> {
+    return (await this.active()).getPatientDashboardData();
   }
 
-  async getAlerts() {
-    return await this.activeStorage.getAlerts();
+  async getDashboardMetrics(): Promise<DashboardMetrics> {
+    return (await this.active()).getDashboardMetrics();
   }
 
-  async createAuditLog(logData: any) {
-    return await this.activeStorage.createAuditLog(logData);
+  async getPatientAssessmentHistory(patientId: number): Promise<PatientAssessmentHistoryEntry[]> {
+    return (await this.active()).getPatientAssessmentHistory(patientId);
   }
 
-  async createCohort(cohortData: any) {
-    return await this.activeStorage.createCohort(cohortData);
+  // Patient enrollment
+  async checkEligibility(patientId: number, cohortId: number): Promise<EligibilityResult> {
+    return (await this.active()).checkEligibility(patientId, cohortId);
   }
 
-  async updateCohort(id: number, updates: any) {
-    return await this.activeStorage.updateCohort(id, updates);
+  async enrollPatient(enrollment: PatientEnrollment, performedBy?: number): Promise<Patient> {
+    return (await this.active()).enrollPatient(enrollment, performedBy);
   }
 
-  async createPatient(patientData: any) {
-    return await this.activeStorage.createPatient(patientData);
+  async generateAccessCode(): Promise<string> {
+    return (await this.active()).generateAccessCode();
   }
 
-  async updatePatient(id: number, updates: any) {
-    return await this.activeStorage.updatePatient(id, updates);
+  async getPatientByAccessCode(accessCode: string): Promise<Patient | undefined> {
+    return (await this.active()).getPatientByAccessCode(accessCode);
   }
 
-  async getDashboardMetrics() {
-    return await this.activeStorage.getDashboardMetrics();
+  async createEnrollmentEvent(event: InsertEnrollmentEvent): Promise<EnrollmentEvent> {
+    return (await this.active()).createEnrollmentEvent(event);
   }
 
-  async getPatientDashboardData() {
-    return await this.activeStorage.getPatientDashboardData();
+  async getEnrollmentEvents(patientId: number): Promise<EnrollmentEvent[]> {
+    return (await this.active()).getEnrollmentEvents(patientId);
   }
 
-  async checkEligibility(patientId: number, cohortId: number) {
-    if (this.activeStorage.checkEligibility) {
-      return await this.activeStorage.checkEligibility(patientId, cohortId);
-    }
-    
-    // Fallback basic eligibility check
-    return { eligible: true, reasons: [] };
+  // Assessment Type methods
+  async getAssessmentTypes(): Promise<AssessmentType[]> {
+    return (await this.active()).getAssessmentTypes();
   }
 
-  async enrollPatient(enrollmentData: any) {
-    if (this.activeStorage.enrollPatient) {
-      return await this.activeStorage.enrollPatient(enrollmentData);
-    }
-    
-    // Fallback enrollment
-    return { id: enrollmentData.patientId, ...enrollmentData, enrolledAt: new Date() };
+  async getAssessmentType(id: number): Promise<AssessmentType | undefined> {
+    return (await this.active()).getAssessmentType(id);
   }
 
-  // Additional methods for injury type support
-  async getAssessmentsForInjuryType(injuryType: string) {
-    if (this.activeStorage.getAssessmentsForInjuryType) {
-      return await this.activeStorage.getAssessmentsForInjuryType(injuryType);
-    }
-    // Fallback: return all assessments
-    return await this.getAssessments();
-  }
-
-  async getInjuryTypes() {
-    if (this.isUsingMemory) {
-      return [
-        { name: 'Trigger Finger', description: 'Finger tendon disorder' },
-        { name: 'Carpal Tunnel', description: 'Nerve compression in the wrist' },
-        { name: 'Distal Radius Fracture', description: 'Broken wrist bone' },
-        { name: 'CMC Arthroplasty', description: 'Thumb joint replacement' },
-        { name: 'Metacarpal ORIF', description: 'Hand bone surgical repair' },
-        { name: 'Phalanx Fracture', description: 'Finger bone fracture' }
-      ];
-    }
-    return await this.activeStorage.getInjuryTypes?.() || [];
+  async createAssessmentType(assessmentType: InsertAssessmentType): Promise<AssessmentType> {
+    return (await this.active()).createAssessmentType(assessmentType);
   }
 
-  async getTodaysAssessments(userId: number) {
-    if (this.activeStorage.getTodaysAssessments) {
-      return await this.activeStorage.getTodaysAssessments(userId);
-    }
-    return { assessments: [] };
+  async updateAssessmentType(id: number, updates: Partial<AssessmentType>): Promise<AssessmentType | undefined> {
+    return (await this.active()).updateAssessmentType(id, updates);
+  }
+
+  // Patient Assessment methods
+  async getPatientAssessments(patientId: number, limit?: number): Promise<PatientAssessment[]> {
+    return (await this.active()).getPatientAssessments(patientId, limit);
+  }
+
+  async getPatientAssessment(id: number): Promise<PatientAssessment | undefined> {
+    return (await this.active()).getPatientAssessment(id);
+  }
+
+  async getPatientAssessmentByUserAssessmentId(userAssessmentId: number): Promise<PatientAssessment | undefined> {
+    return (await this.active()).getPatientAssessmentByUserAssessmentId(userAssessmentId);
+  }
+
+  async createPatientAssessment(assessment: InsertPatientAssessment): Promise<PatientAssessment> {
+    return (await this.active()).createPatientAssessment(assessment);
+  }
+
+  async updatePatientAssessment(id: number, updates: Partial<PatientAssessment>): Promise<PatientAssessment | undefined> {
+    return (await this.active()).updatePatientAssessment(id, updates);
+  }
+
+  async getCohortAssessments(cohortId: number, limit?: number): Promise<PatientAssessment[]> {
+    return (await this.active()).getCohortAssessments(cohortId, limit);
+  }
+
+  // Study-wide listings, paginated and filtered by cohort, clinician, date range and study week
+  async queryPatientAssessments(filters: StudyDataFilters): Promise<PaginatedResult<PatientAssessment>> {
+    return (await this.active()).queryPatientAssessments(filters);
+  }
+
+  async getPatientOutcomes(filters: StudyDataFilters): Promise<PaginatedResult<PatientOutcome>> {
+    return (await this.active()).getPatientOutcomes(filters);
+  }
+
+  // QuickDASH response methods
+  async createQuickDashResponse(response: InsertQuickDashResponse): Promise<QuickDashResponse> {
+    return (await this.active()).createQuickDashResponse(response);
+  }
+
+  async getQuickDashResponses(patientId: number): Promise<QuickDashResponse[]> {
+    return (await this.active()).getQuickDashResponses(patientId);
+  }
+
+  // Questionnaire methods
+  async getQuestionnaireSchedules(injuryType?: string): Promise<QuestionnaireSchedule[]> {
+    return (await this.active()).getQuestionnaireSchedules(injuryType);
+  }
+
+  async createQuestionnaireSchedule(schedule: InsertQuestionnaireSchedule): Promise<QuestionnaireSchedule> {
+    return (await this.active()).createQuestionnaireSchedule(schedule);
+  }
+
+  async updateQuestionnaireSchedule(id: number, updates: Partial<QuestionnaireSchedule>): Promise<QuestionnaireSchedule | undefined> {
+    return (await this.active()).updateQuestionnaireSchedule(id, updates);
+  }
+
+  async createQuestionnaireResponse(response: InsertQuestionnaireResponse): Promise<QuestionnaireResponse> {
+    return (await this.active()).createQuestionnaireResponse(response);
+  }
+
+  async getQuestionnaireResponses(userId: number, questionnaireId?: string): Promise<QuestionnaireResponse[]> {
+    return (await this.active()).getQuestionnaireResponses(userId, questionnaireId);
+  }
+
+  // Study visit methods
+  async createStudyVisit(visit: InsertStudyVisit): Promise<StudyVisit> {
+    return (await this.active()).createStudyVisit(visit);
+  }
+
+  async getStudyVisits(patientId: number): Promise<StudyVisit[]> {
+    return (await this.active()).getStudyVisits(patientId);
+  }
+
+  async getOverdueStudyVisits(asOf: Date): Promise<StudyVisit[]> {
+    return (await this.active()).getOverdueStudyVisits(asOf);
+  }
+
+  async updateStudyVisit(id: number, updates: Partial<StudyVisit>): Promise<StudyVisit | undefined> {
+    return (await this.active()).updateStudyVisit(id, updates);
+  }
+
+  async queryStudyVisits(filters: StudyDataFilters): Promise<PaginatedResult<StudyVisit>> {
+    return (await this.active()).queryStudyVisits(filters);
+  }
+
+  // Analytics methods
+  async getCohortAnalytics(cohortId: number): Promise<CohortAnalytics | null> {
+    return (await this.active()).getCohortAnalytics(cohortId);
+  }
+
+  // Outlier Alert methods
+  async getOutlierAlerts(patientId?: number, includeResolved?: boolean): Promise<OutlierAlert[]> {
+    return (await this.active()).getOutlierAlerts(patientId, includeResolved);
+  }
+
+  async createOutlierAlert(alert: InsertOutlierAlert): Promise<OutlierAlert> {
+    return (await this.active()).createOutlierAlert(alert);
+  }
+
+  async updateOutlierAlert(id: number, updates: Partial<OutlierAlert>): Promise<OutlierAlert | undefined> {
+    return (await this.active()).updateOutlierAlert(id, updates);
+  }
+
+  async resolveOutlierAlert(id: number): Promise<boolean> {
+    return (await this.active()).resolveOutlierAlert(id);
+  }
+
+  // Audit Log methods
+  async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
+    return (await this.active()).createAuditLog(log);
+  }
+
+  async getAuditLogs(userId?: number, limit?: number): Promise<AuditLog[]> {
+    return (await this.active()).getAuditLogs(userId, limit);
+  }
+
+  // Data Export methods
+  async createDataExport(exportRequest: InsertDataExport): Promise<DataExport> {
+    return (await this.active()).createDataExport(exportRequest);
+  }
+
+  async getDataExport(id: number): Promise<DataExport | undefined> {
+    return (await this.active()).getDataExport(id);
+  }
+
+  async getDataExportByDownloadUrl(downloadUrl: string): Promise<DataExport | undefined> {
+    return (await this.active()).getDataExportByDownloadUrl(downloadUrl);
+  }
+
+  async updateDataExport(id: number, updates: Partial<DataExport>): Promise<DataExport | undefined> {
+    return (await this.active()).updateDataExport(id, updates);
+  }
+
+  // Clinical settings methods
+  async getClinicalSettings(): Promise<ClinicalSettings> {
+    return (await this.active()).getClinicalSettings();
+  }
+
+  async updateClinicalSettings(updates: Partial<ClinicalSettings>, updatedBy: number): Promise<ClinicalSettings> {
+    return (await this.active()).updateClinicalSettings(updates, updatedBy);
+  }
+
+  // Legacy methods
+  async getUser(id: number): Promise<User | undefined> {
+    return (await this.active()).getUser(id);
+  }
+
+  async getUserById(id: number): Promise<User | undefined> {
+    return (await this.active()).getUserById(id);
+  }
+
+  async getUserByCode(code: string): Promise<User | undefined> {
+    return (await this.active()).getUserByCode(code);
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    return (await this.active()).createUser(user);
+  }
+
+  async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
+    return (await this.active()).updateUser(id, updates);
+  }
+
+  async getAssessments(): Promise<Assessment[]> {
+    return (await this.active()).getAssessments();
+  }
+
+  async getAssessmentsForInjury(injuryType: string): Promise<Assessment[]> {
+    return (await this.active()).getAssessmentsForInjury(injuryType);
+  }
+
+  async getAssessment(id: number): Promise<Assessment | undefined> {
+    return (await this.active()).getAssessment(id);
+  }
+
+  async createAssessment(assessment: InsertAssessment): Promise<Assessment> {
+    return (await this.active()).createAssessment(assessment);
+  }
+
+  async updateAssessment(id: number, updates: Partial<Assessment>): Promise<Assessment | undefined> {
+    return (await this.active()).updateAssessment(id, updates);
+  }
+
+  async getUserAssessments(userId: number): Promise<UserAssessment[]> {
+    return (await this.active()).getUserAssessments(userId);
+  }
+
+  async getUserAssessmentById(id: number): Promise<UserAssessment | undefined> {
+    return (await this.active()).getUserAssessmentById(id);
+  }
+
+  async getUserAssessmentByShareToken(shareToken: string): Promise<UserAssessment | undefined> {
+    return (await this.active()).getUserAssessmentByShareToken(shareToken);
+  }
+
+  async getCompletedUserAssessments(filters: UserAssessmentFilters): Promise<UserAssessment[]> {
+    return (await this.active()).getCompletedUserAssessments(filters);
+  }
+
+  async getUserAssessment(userId: number, assessmentId: number): Promise<UserAssessment | undefined> {
+    return (await this.active()).getUserAssessment(userId, assessmentId);
+  }
+
+  async createUserAssessment(userAssessment: InsertUserAssessment): Promise<UserAssessment> {
+    return (await this.active()).createUserAssessment(userAssessment);
+  }
+
+  async updateUserAssessment(id: number, updates: Partial<UserAssessment>): Promise<UserAssessment | undefined> {
+    return (await this.active()).updateUserAssessment(id, updates);
+  }
+
+  async getInjuryTypes(): Promise<InjuryType[]> {
+    return (await this.active()).getInjuryTypes();
+  }
+
+  async createInjuryType(injuryType: InsertInjuryType): Promise<InjuryType> {
+    return (await this.active()).createInjuryType(injuryType);
+  }
+
+  async resetUserAssessments(userId: number): Promise<void> {
+    return (await this.active()).resetUserAssessments(userId);
+  }
+
+  // Share link methods
+  async createShareLink(link: InsertShareLink): Promise<ShareLink> {
+    return (await this.active()).createShareLink(link);
+  }
+
+  async getShareLink(id: number): Promise<ShareLink | undefined> {
+    return (await this.active()).getShareLink(id);
+  }
+
+  async getShareLinkByTokenHash(tokenHash: string): Promise<ShareLink | undefined> {
+    return (await this.active()).getShareLinkByTokenHash(tokenHash);
+  }
+
+  async getShareLinks(userAssessmentId: number): Promise<ShareLink[]> {
+    return (await this.active()).getShareLinks(userAssessmentId);
+  }
+
+  async updateShareLink(id: number, updates: Partial<ShareLink>): Promise<ShareLink | undefined> {
+    return (await this.active()).updateShareLink(id, updates);
+  }
+
+  async revokeShareLink(id: number): Promise<boolean> {
+    return (await this.active()).revokeShareLink(id);
+  }
+
+  async recordShareLinkView(id: number): Promise<ShareLink | undefined> {
+    return (await this.active()).recordShareLinkView(id);
+  }
+
+  // Contralateral baseline methods
+  async createContralateralBaseline(baseline: InsertContralateralBaseline): Promise<ContralateralBaseline> {
+    return (await this.active()).createContralateralBaseline(baseline);
+  }
+
+  async getContralateralBaseline(userId: number, assessmentId: number): Promise<ContralateralBaseline | undefined> {
+    return (await this.active()).getContralateralBaseline(userId, assessmentId);
   }
-}
\ No newline at end of file
+}
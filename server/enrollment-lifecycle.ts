@@ -0,0 +1,109 @@
+import type {
+  EnrollmentEvent,
+  EnrollmentStatus,
+  InsertEnrollmentEvent,
+  Patient,
+  PatientEnrollment
+} from '@shared/schema';
+import type { EligibilityResult } from '@shared/eligibility-criteria';
+
+// Enrollment lifecycle: the statuses a study patient moves through, the transitions
+// allowed between them, and the history event recorded for every transition.
+
+// Excluded and withdrawn patients come back through screening, never straight to enrolled
+export const ENROLLMENT_TRANSITIONS: Record<EnrollmentStatus, EnrollmentStatus[]> = {
+  screening: ['enrolled', 'excluded'],
+  enrolled: ['withdrawn'],
+  excluded: ['screening'],
+  withdrawn: ['screening']
+};
+
+const REASON_REQUIRED: EnrollmentStatus[] = ['excluded', 'withdrawn'];
+
+export class EnrollmentTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnrollmentTransitionError';
+  }
+}
+
+// Storage methods a transition reads from and writes to (implemented by every storage backend)
+export interface EnrollmentDataSource {
+  getPatient(id: number): Promise<Patient | undefined>;
+  updatePatient(id: number, updates: Partial<Patient>): Promise<Patient | undefined>;
+  checkEligibility(patientId: number, cohortId: number): Promise<EligibilityResult>;
+  createEnrollmentEvent(event: InsertEnrollmentEvent): Promise<EnrollmentEvent>;
+}
+
+// Patients created before the lifecycle existed may carry "pending" or no status
+export function currentEnrollmentStatus(patient: Pick<Patient, 'enrollmentStatus'>): EnrollmentStatus {
+  const status = patient.enrollmentStatus as EnrollmentStatus;
+  return status in ENROLLMENT_TRANSITIONS ? status : 'screening';
+}
+
+export function allowedEnrollmentTransitions(patient: Pick<Patient, 'enrollmentStatus'>): EnrollmentStatus[] {
+  return ENROLLMENT_TRANSITIONS[currentEnrollmentStatus(patient)];
+}
+
+function transitionUpdates(to: EnrollmentStatus, cohortId: number): Partial<Patient> {
+  const now = new Date();
+  switch (to) {
+    case 'enrolled':
+      return { cohortId, enrolledInStudy: true, enrolledDate: now, accessCodeDeactivatedAt: null };
+    case 'withdrawn':
+      return { enrolledInStudy: false, accessCodeDeactivatedAt: now };
+    case 'excluded':
+      return { cohortId, enrolledInStudy: false };
+    case 'screening':
+      return { cohortId, enrolledInStudy: false };
+  }
+}
+
+export async function transitionEnrollment(
+  source: EnrollmentDataSource,
+  enrollment: PatientEnrollment,
+  performedBy?: number
+): Promise<Patient> {
+  const patient = await source.getPatient(enrollment.patientId);
+  if (!patient) {
+    throw new EnrollmentTransitionError('Patient not found');
+  }
+
+  const from = currentEnrollmentStatus(patient);
+  const to = enrollment.enrollmentStatus;
+  if (!ENROLLMENT_TRANSITIONS[from].includes(to)) {
+    throw new EnrollmentTransitionError(`Cannot move a patient from ${from} to ${to}`);
+  }
+
+  const reason = enrollment.reason?.trim();
+  if (REASON_REQUIRED.includes(to) && !reason) {
+    throw new EnrollmentTransitionError(`A reason is required when a patient is ${to}`);
+  }
+
+  // Withdrawal keeps the cohort the patient was enrolled in
+  const cohortId = to === 'withdrawn' ? patient.cohortId ?? enrollment.cohortId : enrollment.cohortId;
+
+  if (to === 'enrolled') {
+    const { eligible, reasons } = await source.checkEligibility(patient.id, cohortId);
+    if (!eligible) {
+      throw new EnrollmentTransitionError(`Patient is not eligible for enrollment: ${reasons.join('; ')}`);
+    }
+  }
+
+  const updated = await source.updatePatient(patient.id, {
+    ...transitionUpdates(to, cohortId),
+    enrollmentStatus: to,
+    ...(enrollment.eligibilityNotes !== undefined && { eligibilityNotes: enrollment.eligibilityNotes })
+  });
+
+  await source.createEnrollmentEvent({
+    patientId: patient.id,
+    cohortId,
+    fromStatus: from,
+    toStatus: to,
+    reason: reason ?? null,
+    performedBy: performedBy ?? null
+  });
+
+  return updated!;
+}
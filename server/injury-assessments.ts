@@ -0,0 +1,33 @@
+import type { Assessment } from '@shared/schema';
+
+// Which assessments each injury type's daily plan includes, shared by every storage backend
+
+const FULL_WRIST_PLAN = [
+  "TAM (Total Active Motion)",
+  "Kapandji Score",
+  "Wrist Flexion/Extension",
+  "Forearm Pronation/Supination",
+  "Wrist Radial/Ulnar Deviation"
+];
+
+const FINGER_PLAN = ["TAM (Total Active Motion)"];
+
+export const INJURY_ASSESSMENTS: Record<string, string[]> = {
+  "Trigger Finger": FINGER_PLAN,
+  "Carpal Tunnel": FULL_WRIST_PLAN,
+  "Distal Radius Fracture": FULL_WRIST_PLAN,
+  "CMC Arthroplasty": FULL_WRIST_PLAN,
+  "Metacarpal ORIF": FINGER_PLAN,
+  "Phalanx Fracture": FINGER_PLAN,
+  "Radial Head Replacement": FULL_WRIST_PLAN,
+  "Terrible Triad Injury": FULL_WRIST_PLAN,
+  "Dupuytren's Contracture": FINGER_PLAN,
+  "Flexor Tendon Injury": FINGER_PLAN,
+  "Extensor Tendon Injury": FINGER_PLAN
+};
+
+// Unknown injury types fall back to TAM only
+export function filterAssessmentsForInjury(assessments: Assessment[], injuryType: string): Assessment[] {
+  const required = INJURY_ASSESSMENTS[injuryType] || FINGER_PLAN;
+  return assessments.filter(assessment => required.includes(assessment.name));
+}
@@ -1,234 +1,1066 @@
-// In-memory storage fallback when database is unavailable
-export class MemoryStorage {
-  private users = new Map<number, any>();
-  private userByCode = new Map<string, any>();
-  private assessments = new Map<number, any>();
-  private userAssessments = new Map<number, any>();
-  private injuryTypeAssessments = new Map<string, any>();
-  private nextUserAssessmentId = 1;
+// In-memory storage fallback when database is unavailable. Implements the full
+// IStorage contract so the file store and recovery fallback behave like Postgres.
+import { getTableColumns, SQL } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import {
+  users,
+  assessments,
+  userAssessments,
+  injuryTypes,
+  shareLinks,
+  contralateralBaselines,
+  clinicalUsers,
+  clinicalSessions,
+  cohorts,
+  patients,
+  assessmentTypes,
+  patientAssessments,
+  outlierAlerts,
+  auditLogs,
+  dataExports,
+  studyVisits,
+  enrollmentEvents,
+  quickDashResponses,
+  questionnaireSchedules,
+  questionnaireResponses,
+  clinicalSettingsSchema,
+  eligibilityCriteriaSchema,
+  type User,
+  type InsertUser,
+  type Assessment,
+  type InsertAssessment,
+  type UserAssessment,
+  type ShareLink,
+  type InsertShareLink,
+  type ContralateralBaseline,
+  type InsertContralateralBaseline,
+  type InsertUserAssessment,
+  type InjuryType,
+  type InsertInjuryType,
+  type ClinicalUser,
+  type InsertClinicalUser,
+  type ClinicalSession,
+  type InsertClinicalSession,
+  type Cohort,
+  type InsertCohort,
+  type Patient,
+  type InsertPatient,
+  type PatientWithDetails,
+  type PatientEnrollment,
+  type InsertEnrollmentEvent,
+  type QuickDashResponse,
+  type InsertQuickDashResponse,
+  type QuestionnaireSchedule,
+  type InsertQuestionnaireSchedule,
+  type QuestionnaireResponse,
+  type InsertQuestionnaireResponse,
+  type EnrollmentEvent,
+  type AssessmentType,
+  type InsertAssessmentType,
+  type PatientAssessment,
+  type InsertPatientAssessment,
+  type OutlierAlert,
+  type InsertOutlierAlert,
+  type AuditLog,
+  type InsertAuditLog,
+  type DataExport,
+  type InsertDataExport,
+  type ClinicalSettings,
+  type StudyVisit,
+  type InsertStudyVisit,
+  type CohortAnalytics,
+  type StudyDataFilters,
+  type PaginatedResult,
+  type PatientOutcome,
+  type PatientDashboardEntry,
+  type DashboardMetrics,
+  type PatientAssessmentHistoryEntry
+} from '@shared/schema';
+import type { IStorage, UserAssessmentFilters } from './storage';
+import { hashPassword, isPasswordHashed, verifyPassword } from './auth';
+import { matchesPatientFilters, withinDateRange, paginate, buildPatientOutcomes } from './study-data';
+import { filterAssessmentsForInjury } from './injury-assessments';
+import { evaluateEligibility, type EligibilityResult } from '@shared/eligibility-criteria';
+import { transitionEnrollment } from './enrollment-lifecycle';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Shape a value object like a row read back from Postgres: every column present,
+// column defaults applied to missing values and non-column keys dropped
+function toRow<T>(table: PgTable, values: object): T {
+  const input = values as Record<string, unknown>;
+  const row: Record<string, unknown> = {};
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    if (input[key] !== undefined) {
+      row[key] = input[key];
+    } else if (column.default instanceof SQL) {
+      row[key] = new Date(); // defaultNow()
+    } else {
+      row[key] = column.default ?? null;
+    }
+  }
+  return row as T;
+}
+
+// Like drizzle's .set(), undefined values leave the column unchanged
+function definedValues(values: object): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
+
+function time(date: Date | string | null | undefined): number {
+  return date ? new Date(date).getTime() : 0;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+// Mean and sample standard deviation, null where Postgres AVG/STDDEV would be
+function columnStats(values: number[]): { mean: number | null; stdDev: number | null } {
+  if (values.length === 0) return { mean: null, stdDev: null };
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  if (values.length < 2) return { mean, stdDev: null };
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return { mean, stdDev: Math.sqrt(variance) };
+}
+
+// A table held in memory, keyed by a serial id
+export class MemoryTable<T extends { id: number }> {
+  private rows = new Map<number, T>();
+  private nextId = 1;
+
+  constructor(private table: PgTable) {}
+
+  all(): T[] {
+    return Array.from(this.rows.values());
+  }
+
+  get(id: number): T | undefined {
+    return this.rows.get(id);
+  }
+
+  find(predicate: (row: T) => boolean): T | undefined {
+    return this.all().find(predicate);
+  }
+
+  filter(predicate: (row: T) => boolean): T[] {
+    return this.all().filter(predicate);
+  }
+
+  insert(values: object): T {
+    const row = toRow<T>(this.table, values);
+    if (typeof row.id !== 'number') row.id = this.nextId;
+    this.put(row);
+    return row;
+  }
+
+  update(id: number, updates: object): T | undefined {
+    const existing = this.rows.get(id);
+    if (!existing) return undefined;
+    const row = toRow<T>(this.table, { ...existing, ...definedValues(updates), id });
+    this.rows.set(id, row);
+    return row;
+  }
+
+  delete(id: number): boolean {
+    return this.rows.delete(id);
+  }
+
+  // Replace the contents with previously saved rows, keeping ids as they were
+  load(rows: T[]): void {
+    this.rows.clear();
+    this.nextId = 1;
+    rows.forEach(row => this.put(row));
+  }
+
+  private put(row: T) {
+    this.rows.set(row.id, row);
+    this.nextId = Math.max(this.nextId, row.id + 1);
+  }
+}
+
+export const DEFAULT_ASSESSMENTS: InsertAssessment[] = [
+  {
+    name: 'TAM (Total Active Motion)',
+    description: 'Comprehensive finger flexion and extension measurement',
+    videoUrl: '/videos/tam_video.mp4',
+    duration: 10,
+    repetitions: 1,
+    instructions: 'Make a complete fist, then fully extend all fingers. Repeat slowly and deliberately.',
+    isActive: true,
+    orderIndex: 1
+  },
+  {
+    name: 'Kapandji Score',
+    description: 'Thumb opposition assessment using standardized scoring',
+    videoUrl: '/videos/kapandji-instruction.mov',
+    duration: 10,
+    repetitions: 1,
+    instructions: 'Touch your thumb to each finger tip, then to the base of each finger, progressing down the hand.',
+    isActive: true,
+    orderIndex: 2
+  },
+  {
+    name: 'Wrist Flexion/Extension',
+    description: 'Measure wrist forward and backward bending range of motion',
+    videoUrl: '/videos/wrist-fe-assessment.mp4',
+    duration: 10,
+    repetitions: 1,
+    instructions: 'Bend your wrist forward as far as comfortable, then backward. Keep forearm stable.',
+    isActive: true,
+    orderIndex: 3
+  },
+  {
+    name: 'Forearm Pronation/Supination',
+    description: 'Assess forearm rotation capabilities',
+    videoUrl: '/videos/forearm-rotation.mp4',
+    duration: 10,
+    repetitions: 1,
+    instructions: 'Rotate your forearm to turn palm up and down while keeping elbow stable.',
+    isActive: true,
+    orderIndex: 4
+  },
+  {
+    name: 'Wrist Radial/Ulnar Deviation',
+    description: 'Measure side-to-side wrist movement',
+    videoUrl: '/videos/wrist-deviation.mp4',
+    duration: 10,
+    repetitions: 1,
+    instructions: 'Move your wrist side to side, first toward thumb then toward pinky.',
+    isActive: true,
+    orderIndex: 5
+  },
+  {
+    name: 'DASH Survey',
+    description: 'Disabilities of the Arm, Shoulder and Hand questionnaire',
+    videoUrl: null,
+    duration: 600,
+    repetitions: 1,
+    instructions: 'Complete the DASH questionnaire about your arm, shoulder and hand function',
+    isActive: true,
+    orderIndex: 6
+  }
+];
+
+export const DEFAULT_QUESTIONNAIRE_SCHEDULES: InsertQuestionnaireSchedule[] = [
+  { injuryType: 'Distal Radius Fracture', questionnaireId: 'prwe', frequency: 'weekly' },
+  { injuryType: 'Carpal Tunnel', questionnaireId: 'bctq', frequency: 'weekly' }
+];
+
+const DEFAULT_INJURY_TYPES: InsertInjuryType[] = [
+  { name: 'Trigger Finger', description: 'Finger tendon disorder', icon: 'fas fa-hand-point-up' },
+  { name: 'Carpal Tunnel', description: 'Nerve compression in the wrist', icon: 'fas fa-hand-scissors' },
+  { name: 'Distal Radius Fracture', description: 'Broken wrist bone', icon: 'fas fa-hand-paper' },
+  { name: 'CMC Arthroplasty', description: 'Thumb joint replacement', icon: 'fas fa-thumbs-up' },
+  { name: 'Metacarpal ORIF', description: 'Hand bone surgical repair', icon: 'fas fa-hand-rock' },
+  { name: 'Phalanx Fracture', description: 'Finger bone fracture', icon: 'fas fa-hand-point-right' }
+];
+
+const DEFAULT_COHORTS: InsertCohort[] = [
+  { name: 'Trigger Finger Study', description: 'Finger tendon disorder research' },
+  { name: 'Carpal Tunnel Study', description: 'Nerve compression in the wrist research' },
+  { name: 'Distal Radius Fracture Study', description: 'Broken wrist bone recovery research' },
+  { name: 'CMC Arthroplasty Study', description: 'Thumb joint replacement research' },
+  { name: 'Metacarpal ORIF Study', description: 'Hand bone surgical repair research' },
+  { name: 'Phalanx Fracture Study', description: 'Finger bone fracture research' }
+];
+
+const DEFAULT_CLINICAL_USERS: InsertClinicalUser[] = [
+  { username: 'admin', password: 'admin123', email: 'admin@clinic.com', firstName: 'Admin', lastName: 'User', role: 'admin' },
+  { username: 'dr.smith', password: 'password123', email: 'dr.smith@clinic.com', firstName: 'Dr. John', lastName: 'Smith', role: 'clinician' },
+  { username: 'researcher1', password: 'research123', email: 'researcher@clinic.com', firstName: 'Research', lastName: 'Staff', role: 'researcher' }
+];
+
+// Demo access codes, including the study patients 000001 and 421475
+const DEMO_USERS = [
+  { id: 1, code: 'DEMO01', createdAt: new Date('2025-06-20T18:24:59.559Z'), isFirstTime: false, injuryType: 'Carpal Tunnel' },
+  { id: 2, code: 'TEST01', createdAt: new Date('2025-06-19T10:30:00.000Z'), isFirstTime: true, injuryType: 'Trigger Finger' },
+  { id: 3, code: 'ADMIN1', createdAt: new Date('2025-06-18T14:15:30.000Z'), isFirstTime: true, injuryType: 'Distal Radius Fracture' },
+  { id: 5, code: '000001', createdAt: new Date('2025-06-21T10:00:00.000Z'), isFirstTime: false, injuryType: 'Trigger Finger' },
+  { id: 23, code: '421475', createdAt: new Date('2025-06-22T14:30:00.000Z'), isFirstTime: false, injuryType: 'Carpal Tunnel' }
+];
+
+const DEMO_PATIENTS = [
+  { id: 5, patientId: '000001', alias: 'Patient 000001', accessCode: '000001', injuryType: 'Trigger Finger', cohortId: 1, createdAt: new Date('2025-06-21T10:00:00.000Z') },
+  { id: 23, patientId: '421475', alias: 'Patient 421475', accessCode: '421475', injuryType: 'Carpal Tunnel', cohortId: 2, createdAt: new Date('2025-06-22T14:30:00.000Z') }
+];
+
+const DEMO_USER_ASSESSMENTS = [
+  {
+    id: 6, userId: 1, assessmentId: 3, sessionNumber: 1, isCompleted: true,
+    completedAt: new Date('2025-06-20T18:24:59.559Z'), qualityScore: 95, handType: 'LEFT', shareToken: 'share_wrist_123',
+    maxWristFlexion: '65', maxWristExtension: '58', wristFlexionAngle: '65', wristExtensionAngle: '58',
+    romData: { assessmentId: '3', repetitionsCompleted: 1, totalDuration: 10, averageQuality: 95 }
+  },
+  {
+    id: 7, userId: 1, assessmentId: 2, sessionNumber: 1, isCompleted: true,
+    completedAt: new Date('2025-06-19T15:30:00.000Z'), qualityScore: 88, handType: 'LEFT', shareToken: 'share_kapandji_456',
+    totalActiveRom: '8',
+    romData: { assessmentId: '2', repetitionsCompleted: 1, totalDuration: 10, averageQuality: 88 }
+  },
+  {
+    id: 26, userId: 23, assessmentId: 1, sessionNumber: 1, isCompleted: true,
+    completedAt: new Date('2025-06-22T15:45:00.000Z'), qualityScore: 92, handType: 'RIGHT', shareToken: 'share_tam_421475',
+    totalActiveRom: '245', indexFingerRom: '240', middleFingerRom: '248', ringFingerRom: '246', pinkyFingerRom: '245',
+    romData: { assessmentId: '1', repetitionsCompleted: 5, totalDuration: 300, averageQuality: 92 }
+  },
+  {
+    id: 27, userId: 23, assessmentId: 2, sessionNumber: 1, isCompleted: true,
+    completedAt: new Date('2025-06-22T16:15:00.000Z'), qualityScore: 89, handType: 'RIGHT', shareToken: 'share_kapandji_421475',
+    totalActiveRom: '9',
+    romData: { assessmentId: '2', repetitionsCompleted: 1, totalDuration: 180, averageQuality: 89 }
+  },
+  {
+    id: 28, userId: 23, assessmentId: 3, sessionNumber: 1, isCompleted: true,
+    completedAt: new Date('2025-06-22T16:45:00.000Z'), qualityScore: 94, handType: 'RIGHT', shareToken: 'share_wrist_421475',
+    maxWristFlexion: '68', maxWristExtension: '62', wristFlexionAngle: '68', wristExtensionAngle: '62',
+    romData: { assessmentId: '3', repetitionsCompleted: 3, totalDuration: 240, averageQuality: 94 }
+  }
+];
+
+export class MemoryStorage implements IStorage {
+  protected users = new MemoryTable<User>(users);
+  protected assessments = new MemoryTable<Assessment>(assessments);
+  protected userAssessments = new MemoryTable<UserAssessment>(userAssessments);
+  protected injuryTypes = new MemoryTable<InjuryType>(injuryTypes);
+  protected clinicalUsers = new MemoryTable<ClinicalUser>(clinicalUsers);
+  protected clinicalSessions = new MemoryTable<ClinicalSession>(clinicalSessions);
+  protected cohorts = new MemoryTable<Cohort>(cohorts);
+  protected patients = new MemoryTable<Patient>(patients);
+  protected assessmentTypes = new MemoryTable<AssessmentType>(assessmentTypes);
+  protected patientAssessments = new MemoryTable<PatientAssessment>(patientAssessments);
+  protected studyVisits = new MemoryTable<StudyVisit>(studyVisits);
+  protected quickDashResponses = new MemoryTable<QuickDashResponse>(quickDashResponses);
+  protected questionnaireSchedules = new MemoryTable<QuestionnaireSchedule>(questionnaireSchedules);
+  protected questionnaireResponses = new MemoryTable<QuestionnaireResponse>(questionnaireResponses);
+  protected enrollmentEvents = new MemoryTable<EnrollmentEvent>(enrollmentEvents);
+  protected outlierAlerts = new MemoryTable<OutlierAlert>(outlierAlerts);
+  protected auditLogs = new MemoryTable<AuditLog>(auditLogs);
+  protected dataExports = new MemoryTable<DataExport>(dataExports);
+  protected shareLinks = new MemoryTable<ShareLink>(shareLinks);
+  protected contralateralBaselines = new MemoryTable<ContralateralBaseline>(contralateralBaselines);
+  protected clinicalSettings: Record<string, unknown> = {};
 
   constructor() {
     this.initializeDemoData();
   }
 
-  private initializeDemoData() {
-    // Create demo user
-    const demoUser = {
-      id: 1,
-      code: 'DEMO01',
-      createdAt: new Date(),
-      isFirstTime: false,
-      injuryType: 'Carpal Tunnel'
+  // Every table by the key it is saved under
+  protected tables() {
+    return {
+      users: this.users,
+      assessments: this.assessments,
+      userAssessments: this.userAssessments,
+      injuryTypes: this.injuryTypes,
+      clinicalUsers: this.clinicalUsers,
+      clinicalSessions: this.clinicalSessions,
+      cohorts: this.cohorts,
+      patients: this.patients,
+      assessmentTypes: this.assessmentTypes,
+      patientAssessments: this.patientAssessments,
+      studyVisits: this.studyVisits,
+      quickDashResponses: this.quickDashResponses,
+      questionnaireSchedules: this.questionnaireSchedules,
+      questionnaireResponses: this.questionnaireResponses,
+      enrollmentEvents: this.enrollmentEvents,
+      outlierAlerts: this.outlierAlerts,
+      auditLogs: this.auditLogs,
+      dataExports: this.dataExports,
+      shareLinks: this.shareLinks,
+      contralateralBaselines: this.contralateralBaselines
     };
-    this.users.set(1, demoUser);
-    this.userByCode.set('DEMO01', demoUser);
-
-    // Create all assessments
-    const assessments = [
-      {
-        id: 1,
-        name: 'TAM (Total Active Motion)',
-        description: 'Comprehensive finger flexion and extension measurement',
-        videoUrl: '/videos/tam_video.mp4',
-        duration: 10,
-        repetitions: 1,
-        instructions: 'Make a complete fist, then fully extend all fingers. Repeat slowly and deliberately.',
-        isActive: true,
-        orderIndex: 1
-      },
-      {
-        id: 2,
-        name: 'Kapandji Score',
-        description: 'Thumb opposition assessment using standardized scoring',
-        videoUrl: '/videos/kapandji-instruction.mov',
-        duration: 10,
-        repetitions: 1,
-        instructions: 'Touch your thumb to each finger tip, then to the base of each finger, progressing down the hand.',
-        isActive: true,
-        orderIndex: 2
-      },
-      {
-        id: 3,
-        name: 'Wrist Flexion/Extension',
-        description: 'Measure wrist forward and backward bending range of motion',
-        videoUrl: '/videos/wrist-fe-assessment.mp4',
-        duration: 10,
-        repetitions: 1,
-        instructions: 'Bend your wrist forward as far as comfortable, then backward. Keep forearm stable.',
-        isActive: true,
-        orderIndex: 3
-      },
-      {
-        id: 4,
-        name: 'Forearm Pronation/Supination',
-        description: 'Assess forearm rotation capabilities',
-        videoUrl: '/videos/forearm-rotation.mp4',
-        duration: 10,
-        repetitions: 1,
-        instructions: 'Rotate your forearm to turn palm up and down while keeping elbow stable.',
-        isActive: true,
-        orderIndex: 4
-      },
-      {
-        id: 5,
-        name: 'Wrist Radial/Ulnar Deviation',
-        description: 'Measure side-to-side wrist movement',
-        videoUrl: '/videos/wrist-deviation.mp4',
-        duration: 10,
-        repetitions: 1,
-        instructions: 'Move your wrist side to side, first toward thumb then toward pinky.',
-        isActive: true,
-        orderIndex: 5
-      }
-    ];
+  }
 
-    assessments.forEach(assessment => {
-      this.assessments.set(assessment.id, assessment);
-    });
+  // Called after every write; the file-backed store saves here
+  protected async persist(): Promise<void> {}
 
-    // Create injury type mappings
-    const injuryMappings = [
-      // Carpal Tunnel - all assessments
-      { injuryType: 'Carpal Tunnel', assessmentId: 1, isRequired: true, displayOrder: 1 },
-      { injuryType: 'Carpal Tunnel', assessmentId: 2, isRequired: true, displayOrder: 2 },
-      { injuryType: 'Carpal Tunnel', assessmentId: 3, isRequired: true, displayOrder: 3 },
-      { injuryType: 'Carpal Tunnel', assessmentId: 4, isRequired: true, displayOrder: 4 },
-      { injuryType: 'Carpal Tunnel', assessmentId: 5, isRequired: true, displayOrder: 5 },
-      // Tennis Elbow
-      { injuryType: 'Tennis Elbow', assessmentId: 1, isRequired: true, displayOrder: 1 },
-      { injuryType: 'Tennis Elbow', assessmentId: 3, isRequired: true, displayOrder: 2 },
-      // Golfer's Elbow
-      { injuryType: 'Golfer\'s Elbow', assessmentId: 1, isRequired: true, displayOrder: 1 },
-      { injuryType: 'Golfer\'s Elbow', assessmentId: 3, isRequired: true, displayOrder: 2 },
-      // Trigger Finger
-      { injuryType: 'Trigger Finger', assessmentId: 1, isRequired: true, displayOrder: 1 },
-      { injuryType: 'Trigger Finger', assessmentId: 2, isRequired: true, displayOrder: 2 }
-    ];
-
-    injuryMappings.forEach(mapping => {
-      const key = `${mapping.injuryType}:${mapping.assessmentId}`;
-      this.injuryTypeAssessments.set(key, mapping);
-    });
-    
-    console.log('Memory storage initialized with', assessments.length, 'assessments and', injuryMappings.length, 'injury mappings');
-  }
-
-  async getAssessments(): Promise<any[]> {
-    const allAssessments = Array.from(this.assessments.values())
-      .sort((a, b) => (a.orderIndex || 0) - (b.orderIndex || 0));
-    console.log('Memory storage getAssessments returning:', allAssessments.length, 'assessments');
-    return allAssessments;
-  }
-
-  async getAssessmentsForInjuryType(injuryType: string): Promise<any[]> {
-    const mappings = Array.from(this.injuryTypeAssessments.values())
-      .filter(mapping => mapping.injuryType === injuryType)
-      .sort((a, b) => a.displayOrder - b.displayOrder);
-    
-    const assessments = mappings.map(mapping => {
-      const assessment = this.assessments.get(mapping.assessmentId);
-      return {
-        ...assessment,
-        isRequired: mapping.isRequired,
-        displayOrder: mapping.displayOrder
-      };
-    }).filter(Boolean);
-    
-    console.log(`Memory storage getAssessmentsForInjuryType(${injuryType}) returning:`, assessments.length, 'assessments');
-    return assessments;
-  }
-
-  async getAssessment(id: number): Promise<any> {
-    return this.assessments.get(id);
+  private initializeDemoData() {
+    DEFAULT_ASSESSMENTS.forEach(assessment => this.assessments.insert(assessment));
+    // Clinical assessment types mirror the motion assessments (not the DASH survey)
+    DEFAULT_ASSESSMENTS.slice(0, 5).forEach(assessment => this.assessmentTypes.insert(assessment));
+    DEFAULT_INJURY_TYPES.forEach(injuryType => this.injuryTypes.insert(injuryType));
+    DEFAULT_QUESTIONNAIRE_SCHEDULES.forEach(schedule => this.questionnaireSchedules.insert(schedule));
+    DEFAULT_COHORTS.forEach(cohort => this.cohorts.insert(cohort));
+    // The demo passwords are already public in this file; the first login replaces them with a hash
+    DEFAULT_CLINICAL_USERS.forEach(user => this.clinicalUsers.insert(user));
+    DEMO_USERS.forEach(user => this.users.insert(user));
+    DEMO_PATIENTS.forEach(patient => this.patients.insert(patient));
+    DEMO_USER_ASSESSMENTS.forEach(userAssessment => this.userAssessments.insert(userAssessment));
+  }
+
+  // Clinical User methods
+  async getClinicalUser(id: number): Promise<ClinicalUser | undefined> {
+    return this.clinicalUsers.get(id);
+  }
+
+  async getClinicalUserByUsername(username: string): Promise<ClinicalUser | undefined> {
+    return this.clinicalUsers.find(user => user.username === username);
+  }
+
+  async createClinicalUser(insertUser: InsertClinicalUser): Promise<ClinicalUser> {
+    const user = this.clinicalUsers.insert({ ...insertUser, password: await hashPassword(insertUser.password) });
+    await this.persist();
+    return user;
   }
 
-  async getUserByCode(code: string): Promise<any> {
-    const user = this.userByCode.get(code);
-    console.log(`Memory storage getUserByCode(${code}) returning:`, user ? 'found' : 'not found');
+  async updateClinicalUser(id: number, updates: Partial<ClinicalUser>): Promise<ClinicalUser | undefined> {
+    const values = updates.password && !isPasswordHashed(updates.password)
+      ? { ...updates, password: await hashPassword(updates.password) }
+      : updates;
+    const user = this.clinicalUsers.update(id, values);
+    await this.persist();
     return user;
   }
 
-  async createUser(userData: any): Promise<any> {
-    const newUser = {
-      id: Math.max(...Array.from(this.users.keys())) + 1,
-      ...userData,
-      createdAt: new Date(),
-      isFirstTime: true
+  async authenticateClinicalUser(username: string, password: string): Promise<ClinicalUser | null> {
+    const user = this.clinicalUsers.find(u => u.username === username && u.isActive === true);
+    if (!user || !(await verifyPassword(password, user.password))) {
+      return null;
+    }
+
+    // Upgrade legacy plaintext passwords loaded from older storage files
+    const updates: Partial<ClinicalUser> = { lastLoginAt: new Date() };
+    if (!isPasswordHashed(user.password)) {
+      updates.password = await hashPassword(password);
+    }
+    return (await this.updateClinicalUser(user.id, updates)) || user;
+  }
+
+  // Clinical session methods
+  async createClinicalSession(insertSession: InsertClinicalSession): Promise<ClinicalSession> {
+    const session = this.clinicalSessions.insert(insertSession);
+    await this.persist();
+    return session;
+  }
+
+  async getClinicalSession(id: number): Promise<ClinicalSession | undefined> {
+    return this.clinicalSessions.get(id);
+  }
+
+  async getClinicalSessionByRefreshTokenHash(refreshTokenHash: string): Promise<ClinicalSession | undefined> {
+    return this.clinicalSessions.find(session => session.refreshTokenHash === refreshTokenHash);
+  }
+
+  async updateClinicalSession(id: number, updates: Partial<ClinicalSession>): Promise<ClinicalSession | undefined> {
+    const session = this.clinicalSessions.update(id, updates);
+    await this.persist();
+    return session;
+  }
+
+  async revokeClinicalSession(id: number): Promise<boolean> {
+    return !!(await this.updateClinicalSession(id, { revokedAt: new Date() }));
+  }
+
+  // Cohort methods
+  async getCohorts(): Promise<Cohort[]> {
+    return this.cohorts
+      .filter(cohort => cohort.isActive === true)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getCohort(id: number): Promise<Cohort | undefined> {
+    return this.cohorts.get(id);
+  }
+
+  async createCohort(insertCohort: InsertCohort): Promise<Cohort> {
+    const cohort = this.cohorts.insert(insertCohort);
+    await this.persist();
+    return cohort;
+  }
+
+  async updateCohort(id: number, updates: Partial<Cohort>): Promise<Cohort | undefined> {
+    const cohort = this.cohorts.update(id, updates);
+    await this.persist();
+    return cohort;
+  }
+
+  async deleteCohort(id: number): Promise<boolean> {
+    return !!(await this.updateCohort(id, { isActive: false }));
+  }
+
+  // Patient methods
+  private withDetails(patient: Patient): PatientWithDetails {
+    const history = this.patientAssessments
+      .filter(assessment => assessment.patientId === patient.id)
+      .sort((a, b) => time(b.assessmentDate) - time(a.assessmentDate));
+    return {
+      ...patient,
+      cohort: (patient.cohortId && this.cohorts.get(patient.cohortId)) || null,
+      assignedClinician: (patient.assignedClinicianId && this.clinicalUsers.get(patient.assignedClinicianId)) || null,
+      lastAssessment: history[0] || null,
+      assessmentCount: history.length
     };
-    this.users.set(newUser.id, newUser);
-    this.userByCode.set(newUser.code, newUser);
-    console.log(`Memory storage createUser created user with code: ${newUser.code}`);
-    return newUser;
   }
 
-  async getUserById(id: number): Promise<any> {
-    return this.users.get(id);
+  async getPatients(clinicianId?: number): Promise<PatientWithDetails[]> {
+    return this.patients
+      .filter(patient => patient.isActive === true && (!clinicianId || patient.assignedClinicianId === clinicianId))
+      .map(patient => this.withDetails(patient))
+      .sort((a, b) => time(b.lastAssessment?.assessmentDate) - time(a.lastAssessment?.assessmentDate));
   }
 
-  async updateUser(id: number, updates: any): Promise<any> {
-    const user = this.users.get(id);
-    if (user) {
-      const updatedUser = { ...user, ...updates };
-      this.users.set(id, updatedUser);
-      this.userByCode.set(updatedUser.code, updatedUser);
-      return updatedUser;
-    }
-    return null;
+  async getPatient(id: number): Promise<Patient | undefined> {
+    return this.patients.get(id);
+  }
+
+  async getPatientWithDetails(id: number): Promise<PatientWithDetails | undefined> {
+    const patient = this.patients.get(id);
+    return patient ? this.withDetails(patient) : undefined;
+  }
+
+  async createPatient(insertPatient: InsertPatient): Promise<Patient> {
+    const accessCode = insertPatient.accessCode || await this.generateAccessCode();
+    const patient = this.patients.insert({ ...insertPatient, accessCode, enrollmentStatus: 'screening' });
+    await this.persist();
+    return patient;
+  }
+
+  async updatePatient(id: number, updates: Partial<Patient>): Promise<Patient | undefined> {
+    const patient = this.patients.update(id, updates);
+    await this.persist();
+    return patient;
   }
 
-  async createUserAssessment(data: any): Promise<any> {
-    const userAssessment = {
-      id: this.nextUserAssessmentId++,
-      ...data,
-      createdAt: new Date()
+  async deletePatient(id: number): Promise<boolean> {
+    return !!(await this.updatePatient(id, { isActive: false }));
+  }
+
+  // Patient dashboard methods
+  private completedUserAssessments(patient: Patient): UserAssessment[] {
+    const user = patient.accessCode ? this.users.find(u => u.code === patient.accessCode) : undefined;
+    if (!user) return [];
+    return this.userAssessments
+      .filter(ua => ua.userId === user.id && !!ua.completedAt)
+      .sort((a, b) => time(b.completedAt) - time(a.completedAt));
+  }
+
+  async getPatientDashboardData(): Promise<{ patients: PatientDashboardEntry[] }> {
+    const totalAssessments = this.assessments.filter(a => a.isActive === true).length || 5;
+    const now = Date.now();
+
+    const entries = this.patients
+      .filter(patient => patient.isActive === true)
+      .map((patient): PatientDashboardEntry => {
+        const enrolledDate = patient.enrolledDate ?? patient.createdAt;
+        const completed = this.completedUserAssessments(patient);
+        const latest = completed[0];
+        const daysSinceEnrollment = enrolledDate ? Math.floor((now - time(enrolledDate)) / DAY_MS) : 0;
+        const assessmentsCompleted = completed.length;
+
+        return {
+          id: patient.id,
+          patientId: patient.patientId,
+          alias: patient.alias,
+          injuryType: patient.injuryType,
+          enrolledDate,
+          accessCode: patient.accessCode,
+          daysSinceEnrollment,
+          assessmentsCompleted,
+          totalAssessments,
+          lastAssessmentDate: latest?.completedAt ?? null,
+          lastAssessmentType: latest ? this.assessments.get(latest.assessmentId)?.name ?? null : null,
+          status: assessmentsCompleted === 0 && daysSinceEnrollment > 7 ? 'Overdue' :
+                  assessmentsCompleted >= 5 ? 'Complete' :
+                  assessmentsCompleted === 0 ? 'New' : 'Active'
+        };
+      })
+      .sort((a, b) => time(b.enrolledDate) - time(a.enrolledDate));
+
+    return { patients: entries };
+  }
+
+  async getDashboardMetrics(): Promise<DashboardMetrics> {
+    const { patients } = await this.getPatientDashboardData();
+    return {
+      totalPatients: patients.length,
+      activePatients: patients.filter(p => p.assessmentsCompleted > 0 && p.assessmentsCompleted < 5).length,
+      completedPatients: patients.filter(p => p.assessmentsCompleted >= 5).length,
+      overduePatients: patients.filter(p => p.status === 'Overdue').length
     };
-    this.userAssessments.set(userAssessment.id, userAssessment);
-    return userAssessment;
   }
 
-  async updateUserAssessment(id: number, updates: any): Promise<any> {
-    const userAssessment = this.userAssessments.get(id);
-    if (userAssessment) {
-      const updated = { ...userAssessment, ...updates };
-      this.userAssessments.set(id, updated);
-      return updated;
+  async getPatientAssessmentHistory(patientId: number): Promise<PatientAssessmentHistoryEntry[]> {
+    const patient = this.patients.get(patientId);
+    if (!patient) return [];
+
+    return this.completedUserAssessments(patient).flatMap(ua => {
+      const assessment = this.assessments.get(ua.assessmentId);
+      if (!assessment) return [];
+      return [{ id: assessment.id, name: assessment.name, completedAt: ua.completedAt, score: ua.qualityScore, notes: null }];
+    });
+  }
+
+  // Patient enrollment
+  async checkEligibility(patientId: number, cohortId: number): Promise<EligibilityResult> {
+    const patient = this.patients.get(patientId);
+    const cohort = this.cohorts.get(cohortId);
+
+    if (!patient || !cohort) {
+      return { eligible: false, reasons: ['Patient or cohort not found'], criteria: [] };
     }
-    return null;
+
+    const criteria = eligibilityCriteriaSchema.safeParse(cohort.eligibilityCriteria);
+    return evaluateEligibility(patient, cohortId, criteria.success ? criteria.data : null);
+  }
+
+  async enrollPatient(enrollment: PatientEnrollment, performedBy?: number): Promise<Patient> {
+    return transitionEnrollment(this, enrollment, performedBy);
+  }
+
+  async generateAccessCode(): Promise<string> {
+    let code: string;
+    do {
+      code = Math.floor(100000 + Math.random() * 900000).toString();
+    } while (this.patients.find(patient => patient.accessCode === code));
+    return code;
+  }
+
+  async getPatientByAccessCode(accessCode: string): Promise<Patient | undefined> {
+    return this.patients.find(patient => patient.accessCode === accessCode);
+  }
+  async createEnrollmentEvent(insertEvent: InsertEnrollmentEvent): Promise<EnrollmentEvent> {
+    const event = this.enrollmentEvents.insert(insertEvent);
+    await this.persist();
+    return event;
+  }
+
+  async getEnrollmentEvents(patientId: number): Promise<EnrollmentEvent[]> {
+    return this.enrollmentEvents
+      .filter(event => event.patientId === patientId)
+      .sort((a, b) => time(a.createdAt) - time(b.createdAt) || a.id - b.id);
+  }
+
+
+  // Assessment Type methods
+  async getAssessmentTypes(): Promise<AssessmentType[]> {
+    return this.assessmentTypes
+      .filter(type => type.isActive === true)
+      .sort((a, b) => a.orderIndex - b.orderIndex);
+  }
+
+  async getAssessmentType(id: number): Promise<AssessmentType | undefined> {
+    return this.assessmentTypes.get(id);
+  }
+
+  async createAssessmentType(insertAssessmentType: InsertAssessmentType): Promise<AssessmentType> {
+    const assessmentType = this.assessmentTypes.insert(insertAssessmentType);
+    await this.persist();
+    return assessmentType;
+  }
+
+  async updateAssessmentType(id: number, updates: Partial<AssessmentType>): Promise<AssessmentType | undefined> {
+    const assessmentType = this.assessmentTypes.update(id, updates);
+    await this.persist();
+    return assessmentType;
+  }
+
+  // Patient Assessment methods
+  async getPatientAssessments(patientId: number, limit = 100): Promise<PatientAssessment[]> {
+    return this.patientAssessments
+      .filter(assessment => assessment.patientId === patientId)
+      .sort((a, b) => time(b.assessmentDate) - time(a.assessmentDate))
+      .slice(0, limit);
+  }
+
+  async getPatientAssessment(id: number): Promise<PatientAssessment | undefined> {
+    return this.patientAssessments.get(id);
   }
 
-  async getUserAssessmentById(id: number): Promise<any> {
+  async getPatientAssessmentByUserAssessmentId(userAssessmentId: number): Promise<PatientAssessment | undefined> {
+    return this.patientAssessments.find(assessment => assessment.userAssessmentId === userAssessmentId);
+  }
+
+  async createPatientAssessment(insertAssessment: InsertPatientAssessment): Promise<PatientAssessment> {
+    const assessment = this.patientAssessments.insert(insertAssessment);
+    await this.persist();
+    return assessment;
+  }
+
+  async updatePatientAssessment(id: number, updates: Partial<PatientAssessment>): Promise<PatientAssessment | undefined> {
+    const assessment = this.patientAssessments.update(id, updates);
+    await this.persist();
+    return assessment;
+  }
+
+  async getCohortAssessments(cohortId: number, limit = 500): Promise<PatientAssessment[]> {
+    return this.patientAssessments
+      .filter(assessment => assessment.isCompleted === true && this.patients.get(assessment.patientId)?.cohortId === cohortId)
+      .sort((a, b) => time(b.assessmentDate) - time(a.assessmentDate))
+      .slice(0, limit);
+  }
+
+  // Study-wide listings
+  async queryPatientAssessments(filters: StudyDataFilters): Promise<PaginatedResult<PatientAssessment>> {
+    const assessments = this.patientAssessments
+      .filter(pa => matchesPatientFilters(this.patients.get(pa.patientId), filters))
+      .filter(pa => withinDateRange(pa.assessmentDate, filters))
+      .filter(pa => filters.studyWeek === undefined || pa.studyWeek === filters.studyWeek)
+      .sort((a, b) => time(b.assessmentDate) - time(a.assessmentDate) || b.id - a.id);
+    return paginate(assessments, filters);
+  }
+
+  async getPatientOutcomes(filters: StudyDataFilters): Promise<PaginatedResult<PatientOutcome>> {
+    const studyPatients = this.patients
+      .filter(patient => patient.isActive === true && matchesPatientFilters(patient, filters))
+      .sort((a, b) => a.id - b.id);
+    const patientIds = new Set(studyPatients.map(patient => patient.id));
+    const assessments = this.patientAssessments.filter(pa => patientIds.has(pa.patientId));
+    return paginate(buildPatientOutcomes(studyPatients, assessments, filters), filters);
+  }
+
+  // QuickDASH response methods
+  async createQuickDashResponse(insertResponse: InsertQuickDashResponse): Promise<QuickDashResponse> {
+    const response = this.quickDashResponses.insert(insertResponse);
+    await this.persist();
+    return response;
+  }
+
+  async getQuickDashResponses(patientId: number): Promise<QuickDashResponse[]> {
+    return this.quickDashResponses
+      .filter(response => response.patientId === patientId)
+      .sort((a, b) => time(a.completedAt) - time(b.completedAt) || a.id - b.id);
+  }
+
+  // Questionnaire methods
+  async getQuestionnaireSchedules(injuryType?: string): Promise<QuestionnaireSchedule[]> {
+    return this.questionnaireSchedules.filter(schedule => !injuryType || schedule.injuryType === injuryType);
+  }
+
+  async createQuestionnaireSchedule(insertSchedule: InsertQuestionnaireSchedule): Promise<QuestionnaireSchedule> {
+    const schedule = this.questionnaireSchedules.insert(insertSchedule);
+    await this.persist();
+    return schedule;
+  }
+
+  async updateQuestionnaireSchedule(id: number, updates: Partial<QuestionnaireSchedule>): Promise<QuestionnaireSchedule | undefined> {
+    const schedule = this.questionnaireSchedules.update(id, updates);
+    await this.persist();
+    return schedule;
+  }
+
+  async createQuestionnaireResponse(insertResponse: InsertQuestionnaireResponse): Promise<QuestionnaireResponse> {
+    const response = this.questionnaireResponses.insert(insertResponse);
+    await this.persist();
+    return response;
+  }
+
+  async getQuestionnaireResponses(userId: number, questionnaireId?: string): Promise<QuestionnaireResponse[]> {
+    return this.questionnaireResponses
+      .filter(response => response.userId === userId && (!questionnaireId || response.questionnaireId === questionnaireId))
+      .sort((a, b) => time(a.completedAt) - time(b.completedAt) || a.id - b.id);
+  }
+
+  // Study visit methods
+  async createStudyVisit(insertVisit: InsertStudyVisit): Promise<StudyVisit> {
+    const visit = this.studyVisits.insert(insertVisit);
+    await this.persist();
+    return visit;
+  }
+
+  async getStudyVisits(patientId: number): Promise<StudyVisit[]> {
+    return this.studyVisits
+      .filter(visit => visit.patientId === patientId)
+      .sort((a, b) => a.scheduledWeek - b.scheduledWeek);
+  }
+
+  async getOverdueStudyVisits(asOf: Date): Promise<StudyVisit[]> {
+    return this.studyVisits
+      .filter(visit => visit.visitStatus === 'scheduled' && time(visit.windowEnd) < asOf.getTime());
+  }
+
+  async updateStudyVisit(id: number, updates: Partial<StudyVisit>): Promise<StudyVisit | undefined> {
+    const visit = this.studyVisits.update(id, updates);
+    await this.persist();
+    return visit;
+  }
+
+  async queryStudyVisits(filters: StudyDataFilters): Promise<PaginatedResult<StudyVisit>> {
+    const visits = this.studyVisits
+      .filter(visit => matchesPatientFilters(this.patients.get(visit.patientId), filters))
+      .filter(visit => withinDateRange(visit.scheduledDate, filters))
+      .filter(visit => filters.studyWeek === undefined || visit.scheduledWeek === filters.studyWeek)
+      .sort((a, b) => a.patientId - b.patientId || a.scheduledWeek - b.scheduledWeek);
+    return paginate(visits, filters);
+  }
+
+  // Analytics methods
+  async getCohortAnalytics(cohortId: number): Promise<CohortAnalytics | null> {
+    const cohort = this.cohorts.get(cohortId);
+    const cohortPatientIds = new Set(this.patients.filter(p => p.cohortId === cohortId).map(p => p.id));
+    if (!cohort || cohortPatientIds.size === 0) return null;
+
+    const completed = this.patientAssessments
+      .filter(pa => cohortPatientIds.has(pa.patientId) && pa.isCompleted === true);
+    const stats = (field: keyof PatientAssessment) => columnStats(
+      completed.map(pa => toNumber(pa[field])).filter((value): value is number => value !== null)
+    );
+
+    const tam = stats('tamScore');
+    const kapandji = stats('kapandjiScore');
+    const flexion = stats('wristFlexionAngle');
+    const extension = stats('wristExtensionAngle');
+    const radial = stats('maxRadialDeviation');
+    const ulnar = stats('maxUlnarDeviation');
+
+    // Aggregates over no readings are null, as in Postgres
+    return {
+      cohortId,
+      cohortName: cohort.name,
+      patientCount: cohortPatientIds.size,
+      avgTamScore: tam.mean,
+      avgKapandjiScore: kapandji.mean,
+      avgWristFlexion: flexion.mean,
+      avgWristExtension: extension.mean,
+      avgRadialDeviation: radial.mean,
+      avgUlnarDeviation: ulnar.mean,
+      stdDevTamScore: tam.stdDev,
+      stdDevKapandjiScore: kapandji.stdDev,
+      stdDevWristFlexion: flexion.stdDev,
+      stdDevWristExtension: extension.stdDev,
+      stdDevRadialDeviation: radial.stdDev,
+      stdDevUlnarDeviation: ulnar.stdDev
+    } as CohortAnalytics;
+  }
+
+  // Outlier Alert methods
+  async getOutlierAlerts(patientId?: number, includeResolved = false): Promise<OutlierAlert[]> {
+    return this.outlierAlerts
+      .filter(alert => (includeResolved || !alert.isResolved) && (!patientId || alert.patientId === patientId))
+      .sort((a, b) => time(b.createdAt) - time(a.createdAt));
+  }
+
+  async createOutlierAlert(insertAlert: InsertOutlierAlert): Promise<OutlierAlert> {
+    const alert = this.outlierAlerts.insert(insertAlert);
+    await this.persist();
+    return alert;
+  }
+
+  async updateOutlierAlert(id: number, updates: Partial<OutlierAlert>): Promise<OutlierAlert | undefined> {
+    const alert = this.outlierAlerts.update(id, updates);
+    await this.persist();
+    return alert;
+  }
+
+  async resolveOutlierAlert(id: number): Promise<boolean> {
+    return !!(await this.updateOutlierAlert(id, { isResolved: true, resolvedAt: new Date() }));
+  }
+
+  // Audit Log methods
+  async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
+    const log = this.auditLogs.insert(insertLog);
+    await this.persist();
+    return log;
+  }
+
+  async getAuditLogs(userId?: number, limit = 100): Promise<AuditLog[]> {
+    return this.auditLogs
+      .filter(log => !userId || log.userId === userId)
+      .sort((a, b) => time(b.timestamp) - time(a.timestamp) || b.id - a.id)
+      .slice(0, limit);
+  }
+
+  // Data Export methods
+  async createDataExport(insertExport: InsertDataExport): Promise<DataExport> {
+    const dataExport = this.dataExports.insert(insertExport);
+    await this.persist();
+    return dataExport;
+  }
+
+  async getDataExport(id: number): Promise<DataExport | undefined> {
+    return this.dataExports.get(id);
+  }
+
+  async getDataExportByDownloadUrl(downloadUrl: string): Promise<DataExport | undefined> {
+    return this.dataExports.find(dataExport => dataExport.downloadUrl === downloadUrl);
+  }
+
+  async updateDataExport(id: number, updates: Partial<DataExport>): Promise<DataExport | undefined> {
+    const dataExport = this.dataExports.update(id, updates);
+    await this.persist();
+    return dataExport;
+  }
+
+  // Clinical settings methods
+  async getClinicalSettings(): Promise<ClinicalSettings> {
+    return clinicalSettingsSchema.parse(this.clinicalSettings);
+  }
+
+  async updateClinicalSettings(updates: Partial<ClinicalSettings>, updatedBy: number): Promise<ClinicalSettings> {
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value !== undefined) {
+        this.clinicalSettings[key] = value;
+      }
+    });
+    await this.persist();
+    return this.getClinicalSettings();
+  }
+
+  // Legacy methods
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserById(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByCode(code: string): Promise<User | undefined> {
+    return this.users.find(user => user.code === code);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const user = this.users.insert(insertUser);
+    await this.persist();
+    return user;
+  }
+
+  async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
+    const user = this.users.update(id, updates);
+    await this.persist();
+    return user;
+  }
+
+  async getAssessments(): Promise<Assessment[]> {
+    return this.assessments
+      .filter(assessment => assessment.isActive === true)
+      .sort((a, b) => a.orderIndex - b.orderIndex);
+  }
+
+  async getAssessmentsForInjury(injuryType: string): Promise<Assessment[]> {
+    return filterAssessmentsForInjury(await this.getAssessments(), injuryType);
+  }
+
+  async getAssessment(id: number): Promise<Assessment | undefined> {
+    return this.assessments.get(id);
+  }
+
+  async createAssessment(insertAssessment: InsertAssessment): Promise<Assessment> {
+    const assessment = this.assessments.insert(insertAssessment);
+    await this.persist();
+    return assessment;
+  }
+
+  async updateAssessment(id: number, updates: Partial<Assessment>): Promise<Assessment | undefined> {
+    const assessment = this.assessments.update(id, updates);
+    await this.persist();
+    return assessment;
+  }
+
+  async getUserAssessments(userId: number): Promise<UserAssessment[]> {
+    return this.userAssessments.filter(ua => ua.userId === userId);
+  }
+
+  async getUserAssessmentById(id: number): Promise<UserAssessment | undefined> {
     return this.userAssessments.get(id);
   }
 
-  async getUserAssessments(userId: number): Promise<any[]> {
-    const assessments = Array.from(this.userAssessments.values())
+  async getUserAssessmentByShareToken(shareToken: string): Promise<UserAssessment | undefined> {
+    return this.userAssessments.find(ua => ua.shareToken === shareToken);
+  }
+
+  async getUserAssessment(userId: number, assessmentId: number): Promise<UserAssessment | undefined> {
+    return this.userAssessments.find(ua => ua.userId === userId && ua.assessmentId === assessmentId);
+  }
+
+  async getCompletedUserAssessments(filters: UserAssessmentFilters): Promise<UserAssessment[]> {
+    return this.userAssessments
+      .filter(ua =>
+        !!ua.isCompleted &&
+        (!filters.ids || filters.ids.includes(ua.id)) &&
+        (filters.userId === undefined || ua.userId === filters.userId) &&
+        (filters.assessmentId === undefined || ua.assessmentId === filters.assessmentId)
+      )
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createUserAssessment(insertUserAssessment: InsertUserAssessment): Promise<UserAssessment> {
+    const userAssessment = this.userAssessments.insert(insertUserAssessment);
+    await this.persist();
+    return userAssessment;
+  }
+
+  async updateUserAssessment(id: number, updates: Partial<UserAssessment>): Promise<UserAssessment | undefined> {
+    const userAssessment = this.userAssessments.update(id, updates);
+    await this.persist();
+    return userAssessment;
+  }
+
+  async getInjuryTypes(): Promise<InjuryType[]> {
+    return this.injuryTypes.all();
+  }
+
+  async createInjuryType(insertInjuryType: InsertInjuryType): Promise<InjuryType> {
+    const injuryType = this.injuryTypes.insert(insertInjuryType);
+    await this.persist();
+    return injuryType;
+  }
+
+  async resetUserAssessments(userId: number): Promise<void> {
+    this.userAssessments
       .filter(ua => ua.userId === userId)
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    console.log(`Memory storage getUserAssessments(${userId}) returning:`, assessments.length, 'assessments');
-    return assessments;
+      .forEach(ua => {
+        this.shareLinks.filter(link => link.userAssessmentId === ua.id).forEach(link => this.shareLinks.delete(link.id));
+        // Synced clinical records are study data and outlive the portal history
+        this.patientAssessments
+          .filter(assessment => assessment.userAssessmentId === ua.id)
+          .forEach(assessment => this.patientAssessments.update(assessment.id, { userAssessmentId: null }));
+        this.userAssessments.delete(ua.id);
+      });
+    this.contralateralBaselines
+      .filter(baseline => baseline.userId === userId)
+      .forEach(baseline => this.contralateralBaselines.delete(baseline.id));
+    await this.persist();
   }
 
-  async getUserProgress(userId: number): Promise<any> {
-    const user = this.users.get(userId);
-    if (!user) return { completed: 0, total: 0, percentage: 0 };
+  // Share link methods
+  async createShareLink(insertLink: InsertShareLink): Promise<ShareLink> {
+    const link = this.shareLinks.insert(insertLink);
+    await this.persist();
+    return link;
+  }
 
-    const userAssessments = await this.getUserAssessments(userId);
-    const completedAssessments = userAssessments.filter(ua => ua.completedAt);
-    
-    const totalAssessments = user.injuryType 
-      ? await this.getAssessmentsForInjuryType(user.injuryType)
-      : await this.getAssessments();
+  async getShareLink(id: number): Promise<ShareLink | undefined> {
+    return this.shareLinks.get(id);
+  }
 
-    return {
-      completed: completedAssessments.length,
-      total: totalAssessments.length,
-      percentage: Math.round((completedAssessments.length / totalAssessments.length) * 100)
-    };
+  async getShareLinkByTokenHash(tokenHash: string): Promise<ShareLink | undefined> {
+    return this.shareLinks.find(link => link.tokenHash === tokenHash);
+  }
+
+  async getShareLinks(userAssessmentId: number): Promise<ShareLink[]> {
+    return this.shareLinks
+      .filter(link => link.userAssessmentId === userAssessmentId)
+      .sort((a, b) => time(b.createdAt) - time(a.createdAt) || b.id - a.id);
+  }
+
+  async updateShareLink(id: number, updates: Partial<ShareLink>): Promise<ShareLink | undefined> {
+    const link = this.shareLinks.update(id, updates);
+    await this.persist();
+    return link;
   }
 
-  // Clinical dashboard methods (minimal implementation)
-  async authenticateClinicalUser(): Promise<any> { return null; }
-  async getCohorts(): Promise<any[]> { return []; }
-  async getPatients(): Promise<any[]> { return []; }
-  async createAuditLog(): Promise<any> { return null; }
-}
\ No newline at end of file
+  async revokeShareLink(id: number): Promise<boolean> {
+    return !!(await this.updateShareLink(id, { revokedAt: new Date() }));
+  }
+
+  async recordShareLinkView(id: number): Promise<ShareLink | undefined> {
+    const link = this.shareLinks.get(id);
+    if (!link) return undefined;
+    return this.updateShareLink(id, { viewCount: (link.viewCount ?? 0) + 1, lastViewedAt: new Date() });
+  }
+
+  // Contralateral baseline methods
+  async createContralateralBaseline(insertBaseline: InsertContralateralBaseline): Promise<ContralateralBaseline> {
+    const baseline = this.contralateralBaselines.insert(insertBaseline);
+    await this.persist();
+    return baseline;
+  }
+
+  async getContralateralBaseline(userId: number, assessmentId: number): Promise<ContralateralBaseline | undefined> {
+    return this.contralateralBaselines
+      .filter(baseline => baseline.userId === userId && baseline.assessmentId === assessmentId)
+      .sort((a, b) => time(b.recordedAt) - time(a.recordedAt) || b.id - a.id)[0];
+  }
+}
@@ -0,0 +1,131 @@
+// Motion frame migration: rewrites user assessments recorded before compact frame encoding,
+// so their repetition data takes the encoded form new recordings are stored in.
+//
+//   npx tsx server/motion-frame-migration.ts data/storage.json           JSON file store
+//   npx tsx server/motion-frame-migration.ts database                    Postgres
+//   npx tsx server/motion-frame-migration.ts database --dry-run          report only, write nothing
+//
+// Rows that are already encoded, or whose frames cannot be encoded (older sessions stored
+// bare landmark arrays), are left as they are, so re-running only picks up what is left.
+// Stop the app before migrating its own data file - the running store would overwrite it.
+import fs from 'fs/promises';
+import { eq, isNotNull, TransactionRollbackError } from 'drizzle-orm';
+import { userAssessments } from '@shared/schema';
+import { encodeRepetitionData } from '@shared/motion-frame-codec';
+import { reviveDates } from './persistent-storage';
+
+interface StoredRow {
+  id: number;
+  repetitionData: unknown;
+}
+
+interface MotionFrameMigrationReport {
+  location: string;
+  dryRun: boolean;
+  encoded: number;
+  unchanged: number;
+  bytesBefore: number;
+  bytesAfter: number;
+}
+
+// Runs the migration over one store; a dry run discards everything it wrote
+type MigrationTarget = (
+  migrate: (rows: StoredRow[]) => Map<number, unknown>,
+  dryRun: boolean
+) => Promise<void>;
+
+function fileTarget(dataFile: string): MigrationTarget {
+  return async (migrate, dryRun) => {
+    let data: Record<string, any>;
+    try {
+      data = JSON.parse(await fs.readFile(dataFile, 'utf-8'), reviveDates);
+    } catch (error: any) {
+      throw new Error(`Failed to read ${dataFile}: ${error.message}`);
+    }
+    const rows: any[] = Array.isArray(data.userAssessments) ? data.userAssessments : [];
+    const updates = migrate(rows.filter(row => typeof row?.id === 'number'));
+    if (dryRun || updates.size === 0) return;
+
+    rows.forEach(row => {
+      if (updates.has(row.id)) row.repetitionData = updates.get(row.id);
+    });
+    await fs.writeFile(dataFile, JSON.stringify(data, null, 2));
+  };
+}
+
+// One transaction, so a failed or dry run leaves the database unchanged
+function databaseTarget(): MigrationTarget {
+  return async (migrate, dryRun) => {
+    const { db } = await import('./db');
+    try {
+      await db.transaction(async tx => {
+        const rows = await tx
+          .select({ id: userAssessments.id, repetitionData: userAssessments.repetitionData })
+          .from(userAssessments)
+          .where(isNotNull(userAssessments.repetitionData));
+        for (const [id, repetitionData] of Array.from(migrate(rows))) {
+          await tx.update(userAssessments).set({ repetitionData }).where(eq(userAssessments.id, id));
+        }
+        if (dryRun) tx.rollback();
+      });
+    } catch (error) {
+      if (!(dryRun && error instanceof TransactionRollbackError)) throw error;
+    }
+  };
+}
+
+async function migrateMotionFrames(location: string, dryRun = false): Promise<MotionFrameMigrationReport> {
+  const report: MotionFrameMigrationReport = { location, dryRun, encoded: 0, unchanged: 0, bytesBefore: 0, bytesAfter: 0 };
+  const target = location === 'database' ? databaseTarget() : fileTarget(location);
+
+  await target(rows => {
+    const updates = new Map<number, unknown>();
+    rows.forEach(row => {
+      const before = JSON.stringify(row.repetitionData ?? null);
+      const encoded = encodeRepetitionData(row.repetitionData);
+      const after = JSON.stringify(encoded ?? null);
+      report.bytesBefore += before.length;
+      report.bytesAfter += after.length;
+      if (after === before) {
+        report.unchanged++;
+      } else {
+        report.encoded++;
+        updates.set(row.id, encoded);
+      }
+    });
+    return updates;
+  }, dryRun);
+
+  return report;
+}
+
+function printReport(report: MotionFrameMigrationReport) {
+  const kb = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+  console.log(`${report.dryRun ? 'Dry run: ' : ''}${report.location}`);
+  console.log(`  ${report.encoded} user assessment(s) encoded, ${report.unchanged} unchanged`);
+  console.log(`  repetition data ${kb(report.bytesBefore)} -> ${kb(report.bytesAfter)}`);
+  if (report.dryRun) console.log('Nothing was written');
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const [location] = args.filter(arg => !arg.startsWith('--'));
+  if (!location) {
+    console.error('Usage: tsx server/motion-frame-migration.ts <location> [--dry-run]\n  <location>: "database" or a JSON file path');
+    process.exit(1);
+  }
+
+  try {
+    printReport(await migrateMotionFrames(location, dryRun));
+    if (location === 'database') {
+      const { pool } = await import('./db');
+      await pool.end();
+    }
+  } catch (error) {
+    console.error('Migration failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main();
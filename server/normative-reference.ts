@@ -0,0 +1,17 @@
+import { normalRomRangesSchema, type Cohort, type Patient } from '@shared/schema';
+import { resolveNormativeReference, type NormativeReference } from '@shared/normative-ranges';
+
+// Storage methods the normal ROM of a patient is resolved from (implemented by every storage backend)
+export interface NormativeReferenceSource {
+  getCohort(id: number): Promise<Cohort | undefined>;
+}
+
+// Patients outside a cohort, and cohorts whose stored ranges no longer parse, use the population defaults
+export async function normativeReferenceForPatient(
+  source: NormativeReferenceSource,
+  patient: Pick<Patient, 'cohortId' | 'ageGroup' | 'sex'> | null | undefined
+): Promise<NormativeReference> {
+  const cohort = patient?.cohortId ? await source.getCohort(patient.cohortId) : undefined;
+  const ranges = normalRomRangesSchema.safeParse(cohort?.normalRomRanges);
+  return resolveNormativeReference(ranges.success ? ranges.data : null, patient);
+}
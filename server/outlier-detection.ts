@@ -0,0 +1,239 @@
+import type {
+  Assessment,
+  ClinicalSettings,
+  CohortAnalytics,
+  InsertOutlierAlert,
+  OutlierAlert,
+  Patient,
+  PatientAssessment,
+  User,
+  UserAssessment
+} from '@shared/schema';
+import { assessmentKindFor, type AssessmentKind } from '@shared/assessment-submission';
+import { findLinkedPatient } from './patient-assessment-sync';
+
+// Outlier detection: compares each written assessment against the patient's
+// cohort mean/stddev and keeps one open "deviation_below_mean" alert per metric.
+// Consecutive low readings escalate the alert; a recovered reading resolves it.
+// Patient-reported VAS pain is tracked the same way under a "pain_spike" alert.
+
+export const OUTLIER_ALERT_TYPE = 'deviation_below_mean';
+
+export const PAIN_SPIKE_ALERT_TYPE = 'pain_spike';
+
+const PAIN_METRIC = 'VAS Pain';
+
+// A reading more than this many standard deviations below the cohort mean is low
+const LOW_READING_STD_DEVS = 1;
+
+// Consecutive low readings that escalate a warning to critical regardless of size
+const CRITICAL_CONSECUTIVE_READINGS = 3;
+
+// VAS points pain may rise between the before and after ratings of one session
+const PAIN_SPIKE_RISE = 3;
+
+// VAS rating that counts as a spike on its own
+const SEVERE_PAIN_SCORE = 7;
+
+// Storage methods the engine reads from and writes to
+export interface OutlierDataSource {
+  getPatient(id: number): Promise<Patient | undefined>;
+  getPatientByAccessCode(accessCode: string): Promise<Patient | undefined>;
+  getUser(id: number): Promise<User | undefined>;
+  getAssessment(id: number): Promise<Assessment | undefined>;
+  getCohortAnalytics(cohortId: number): Promise<CohortAnalytics | null>;
+  getClinicalSettings(): Promise<ClinicalSettings>;
+  getOutlierAlerts(patientId?: number, includeResolved?: boolean): Promise<OutlierAlert[]>;
+  createOutlierAlert(alert: InsertOutlierAlert): Promise<OutlierAlert>;
+  updateOutlierAlert(id: number, updates: Partial<OutlierAlert>): Promise<OutlierAlert | undefined>;
+  resolveOutlierAlert(id: number): Promise<boolean>;
+}
+
+interface OutlierMetric {
+  name: string; // stored in outlierAlerts.metric and shown on the alerts page
+  mean: keyof CohortAnalytics;
+  stdDev: keyof CohortAnalytics;
+  fromPatientAssessment: (assessment: PatientAssessment) => unknown;
+  fromUserAssessment: (assessment: UserAssessment, kind: AssessmentKind | null) => unknown;
+}
+
+const OUTLIER_METRICS: OutlierMetric[] = [
+  {
+    name: 'TAM Score',
+    mean: 'avgTamScore',
+    stdDev: 'stdDevTamScore',
+    fromPatientAssessment: a => a.tamScore,
+    // Kapandji recordings keep their score in totalActiveRom and wrist recordings a live
+    // finger reading, so only TAM recordings carry a TAM
+    fromUserAssessment: (a, kind) => (kind === 'tam' ? a.totalActiveRom : null)
+  },
+  {
+    name: 'Kapandji Score',
+    mean: 'avgKapandjiScore',
+    stdDev: 'stdDevKapandjiScore',
+    fromPatientAssessment: a => a.kapandjiScore,
+    fromUserAssessment: a => a.kapandjiScore
+  },
+  {
+    name: 'Wrist Flexion',
+    mean: 'avgWristFlexion',
+    stdDev: 'stdDevWristFlexion',
+    fromPatientAssessment: a => a.wristFlexionAngle ?? a.maxWristFlexion,
+    fromUserAssessment: a => a.maxWristFlexion ?? a.wristFlexionAngle
+  },
+  {
+    name: 'Wrist Extension',
+    mean: 'avgWristExtension',
+    stdDev: 'stdDevWristExtension',
+    fromPatientAssessment: a => a.wristExtensionAngle ?? a.maxWristExtension,
+    fromUserAssessment: a => a.maxWristExtension ?? a.wristExtensionAngle
+  }
+];
+
+// Numeric columns arrive as strings from Postgres and analytics aggregates may be null
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function readMetrics<T>(assessment: T, extract: (metric: OutlierMetric) => (assessment: T) => unknown): Map<string, number> {
+  const readings = new Map<string, number>();
+  OUTLIER_METRICS.forEach(metric => {
+    const value = toNumber(extract(metric)(assessment));
+    if (value !== null) readings.set(metric.name, value);
+  });
+  return readings;
+}
+
+async function evaluateReadings(source: OutlierDataSource, patient: Patient, readings: Map<string, number>): Promise<OutlierAlert[]> {
+  if (!patient.cohortId || readings.size === 0) return [];
+
+  const settings = await source.getClinicalSettings();
+  if (!settings.outlierAlerts) return [];
+
+  const analytics = await source.getCohortAnalytics(patient.cohortId);
+  if (!analytics) return [];
+
+  // "Critical Score Threshold (%)" - how far below the cohort mean a repeat low reading must fall to go critical
+  const criticalPercent = toNumber(settings.criticalThreshold) ?? 15;
+  const openAlerts = (await source.getOutlierAlerts(patient.id))
+    .filter(alert => alert.alertType === OUTLIER_ALERT_TYPE && !alert.isResolved);
+
+  const changed: OutlierAlert[] = [];
+  for (const metric of OUTLIER_METRICS) {
+    const value = readings.get(metric.name);
+    const mean = toNumber(analytics[metric.mean]);
+    const stdDev = toNumber(analytics[metric.stdDev]) ?? 0;
+    if (value === undefined || mean === null || mean <= 0) continue;
+
+    const openAlert = openAlerts.find(alert => alert.metric === metric.name);
+    const deviation = mean - value;
+
+    if (deviation <= stdDev * LOW_READING_STD_DEVS) {
+      // Patient is back within the expected range
+      if (openAlert) await source.resolveOutlierAlert(openAlert.id);
+      continue;
+    }
+
+    const consecutiveOccurrences = (openAlert?.consecutiveOccurrences ?? 0) + 1;
+    const percentBelowMean = (deviation / mean) * 100;
+    const isCritical = openAlert?.severity === 'critical' ||
+      consecutiveOccurrences >= CRITICAL_CONSECUTIVE_READINGS ||
+      (consecutiveOccurrences > 1 && percentBelowMean >= criticalPercent);
+
+    const fields = {
+      severity: isCritical ? 'critical' : 'warning',
+      deviationValue: deviation.toFixed(2),
+      consecutiveOccurrences
+    };
+
+    const alert = openAlert
+      ? await source.updateOutlierAlert(openAlert.id, fields)
+      : await source.createOutlierAlert({
+          patientId: patient.id,
+          cohortId: patient.cohortId,
+          alertType: OUTLIER_ALERT_TYPE,
+          metric: metric.name,
+          isResolved: false,
+          ...fields
+        });
+    if (alert) changed.push(alert);
+  }
+
+  return changed;
+}
+
+// Pain is judged against the patient's own ratings rather than the cohort: a session
+// whose pain rises sharply during exercise, or that ends at a severe level, is a spike.
+async function evaluatePain(source: OutlierDataSource, patient: Patient, before: number | null, after: number | null): Promise<OutlierAlert[]> {
+  const reported = after ?? before;
+  if (!patient.cohortId || reported === null) return [];
+
+  const settings = await source.getClinicalSettings();
+  if (!settings.outlierAlerts) return [];
+
+  const openAlert = (await source.getOutlierAlerts(patient.id))
+    .find(alert => alert.alertType === PAIN_SPIKE_ALERT_TYPE && !alert.isResolved);
+
+  const rise = before !== null && after !== null ? after - before : 0;
+  const isSpike = rise >= PAIN_SPIKE_RISE || reported >= SEVERE_PAIN_SCORE;
+  if (!isSpike) {
+    if (openAlert) await source.resolveOutlierAlert(openAlert.id);
+    return [];
+  }
+
+  const consecutiveOccurrences = (openAlert?.consecutiveOccurrences ?? 0) + 1;
+  const isCritical = openAlert?.severity === 'critical' ||
+    consecutiveOccurrences >= CRITICAL_CONSECUTIVE_READINGS ||
+    (rise >= PAIN_SPIKE_RISE && reported >= SEVERE_PAIN_SCORE);
+
+  // deviationValue holds the VAS rating the spike reached
+  const fields = {
+    severity: isCritical ? 'critical' : 'warning',
+    deviationValue: reported.toFixed(2),
+    consecutiveOccurrences
+  };
+
+  const alert = openAlert
+    ? await source.updateOutlierAlert(openAlert.id, fields)
+    : await source.createOutlierAlert({
+        patientId: patient.id,
+        cohortId: patient.cohortId,
+        alertType: PAIN_SPIKE_ALERT_TYPE,
+        metric: PAIN_METRIC,
+        isResolved: false,
+        ...fields
+      });
+  return alert ? [alert] : [];
+}
+
+// Run after a patientAssessments row is written. Failures are logged rather than
+// thrown so alerting never blocks saving the assessment itself.
+export async function detectPatientAssessmentOutliers(source: OutlierDataSource, assessment: PatientAssessment): Promise<OutlierAlert[]> {
+  try {
+    const patient = await source.getPatient(assessment.patientId);
+    if (!patient) return [];
+    const alerts = await evaluateReadings(source, patient, readMetrics(assessment, metric => metric.fromPatientAssessment));
+    return [...alerts, ...await evaluatePain(source, patient, null, assessment.vasScore)];
+  } catch (error) {
+    console.error('Outlier detection failed for patient assessment', assessment.id, error);
+    return [];
+  }
+}
+
+// Run after a userAssessments row is written. Legacy users are matched to their
+// study patient record through the shared access code.
+export async function detectUserAssessmentOutliers(source: OutlierDataSource, assessment: UserAssessment): Promise<OutlierAlert[]> {
+  try {
+    if (!assessment.isCompleted) return [];
+    const patient = await findLinkedPatient(source, assessment.userId);
+    if (!patient) return [];
+    const kind = assessmentKindFor((await source.getAssessment(assessment.assessmentId))?.name);
+    const alerts = await evaluateReadings(source, patient, readMetrics(assessment, metric => a => metric.fromUserAssessment(a, kind)));
+    return [...alerts, ...await evaluatePain(source, patient, assessment.vasScoreBefore, assessment.vasScoreAfter)];
+  } catch (error) {
+    console.error('Outlier detection failed for user assessment', assessment.id, error);
+    return [];
+  }
+}
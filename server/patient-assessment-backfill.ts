@@ -0,0 +1,63 @@
+// Patient assessment backfill: syncs user assessments completed before the portal and the
+// clinical record were bridged, so clinic dashboards include earlier home recordings.
+//
+//   npx tsx server/patient-assessment-backfill.ts data/storage.json           JSON file store
+//   npx tsx server/patient-assessment-backfill.ts database                    Postgres
+//   npx tsx server/patient-assessment-backfill.ts database --dry-run          report only, write nothing
+//
+// Recordings already synced are refreshed in place, so re-running is safe. Recordings of
+// users without a study patient, or whose patient has no assigned clinician, are skipped
+// and listed; assign a clinician and run again to pick them up. Stop the app before
+// backfilling its own data file - the running store would overwrite the result.
+import fs from 'fs/promises';
+import { backfillPatientAssessments, type PatientSyncDataSource, type PatientSyncResult, type PatientSyncStatus } from './patient-assessment-sync';
+import { PersistentMemoryStorage } from './persistent-storage';
+
+async function openLocation(location: string): Promise<PatientSyncDataSource> {
+  if (location === 'database') {
+    const { DatabaseStorage } = await import('./storage');
+    return new DatabaseStorage();
+  }
+  // Opening a missing file would write a fresh store in its place
+  await fs.access(location).catch(() => {
+    throw new Error(`${location} does not exist`);
+  });
+  const storage = new PersistentMemoryStorage(location);
+  await storage.ready;
+  return storage;
+}
+
+function printReport(location: string, results: PatientSyncResult[], dryRun: boolean) {
+  const counts = (['created', 'updated', 'unchanged', 'skipped'] as PatientSyncStatus[])
+    .map(status => `${results.filter(result => result.status === status).length} ${status}`);
+  console.log(`${dryRun ? 'Dry run: ' : ''}${location}`);
+  console.log(`  ${results.length} completed user assessment(s): ${counts.join(', ')}`);
+  results
+    .filter(result => result.skippedReason)
+    .forEach(result => console.log(`  ! user assessment #${result.userAssessmentId}: ${result.skippedReason}`));
+  if (dryRun) console.log('Nothing was written');
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const [location] = args.filter(arg => !arg.startsWith('--'));
+  if (!location) {
+    console.error('Usage: tsx server/patient-assessment-backfill.ts <location> [--dry-run]\n  <location>: "database" or a JSON file path');
+    process.exit(1);
+  }
+
+  try {
+    const source = await openLocation(location);
+    printReport(location, await backfillPatientAssessments(source, dryRun), dryRun);
+    if (location === 'database') {
+      const { pool } = await import('./db');
+      await pool.end();
+    }
+  } catch (error) {
+    console.error('Backfill failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,231 @@
+import { isDeepStrictEqual } from 'util';
+import type {
+  Assessment,
+  AssessmentType,
+  InsertAssessmentType,
+  InsertPatientAssessment,
+  Patient,
+  PatientAssessment,
+  User,
+  UserAssessment
+} from '@shared/schema';
+import { getRecoveryTimeline } from '@shared/recovery-timeline';
+import { assessmentKindFor } from '@shared/assessment-submission';
+import { percentOfNormalRom, type NormativeReference } from '@shared/normative-ranges';
+import type { UserAssessmentFilters } from './storage';
+import { recordVisitAssessment, type StudyVisitDataSource } from './study-visit-scheduler';
+import { normativeReferenceForPatient, type NormativeReferenceSource } from './normative-reference';
+import { patientAssessmentClinicalChange, type ClinicalChangeDataSource } from './clinical-change';
+
+// Bridge from the patient portal to the clinical record. Patients sign in to the portal
+// with their study access code, so a legacy user is linked to the patient whose accessCode
+// equals users.code. Each completed user assessment is materialised once as a
+// patientAssessments row pointing back at it through userAssessmentId, which keeps
+// re-syncs idempotent and lets clinic dashboards, cohort analytics and exports see home
+// recordings.
+
+// Storage methods used to resolve a legacy user's study patient
+export interface PatientLinkSource {
+  getUser(id: number): Promise<User | undefined>;
+  getPatientByAccessCode(accessCode: string): Promise<Patient | undefined>;
+}
+
+// Storage methods the sync reads from and writes to (implemented by every storage backend)
+export interface PatientSyncDataSource extends PatientLinkSource, StudyVisitDataSource, NormativeReferenceSource, ClinicalChangeDataSource {
+  getAssessment(id: number): Promise<Assessment | undefined>;
+  getAssessmentTypes(): Promise<AssessmentType[]>;
+  createAssessmentType(assessmentType: InsertAssessmentType): Promise<AssessmentType>;
+  getCompletedUserAssessments(filters: UserAssessmentFilters): Promise<UserAssessment[]>;
+  getPatientAssessmentByUserAssessmentId(userAssessmentId: number): Promise<PatientAssessment | undefined>;
+  createPatientAssessment(assessment: InsertPatientAssessment): Promise<PatientAssessment>;
+}
+
+export type PatientSyncStatus = 'created' | 'updated' | 'unchanged' | 'skipped';
+
+export interface PatientSyncResult {
+  userAssessmentId: number;
+  status: PatientSyncStatus;
+  patientAssessmentId?: number;
+  skippedReason?: string;
+}
+
+// Columns the sync owns; the insert schema leaves dates and the link out of clinic-entered rows
+type SyncedFields = InsertPatientAssessment & Pick<PatientAssessment, 'assessmentDate' | 'completedAt' | 'userAssessmentId'>;
+
+const KAPANDJI_ASSESSMENT = 'Kapandji Score';
+
+export async function findLinkedPatient(source: PatientLinkSource, userId: number): Promise<Patient | undefined> {
+  const user = await source.getUser(userId);
+  return user ? source.getPatientByAccessCode(user.code) : undefined;
+}
+
+// Assessment types mirror the portal's assessments by name; a missing one is created from it
+async function assessmentTypeFor(source: PatientSyncDataSource, assessment: Assessment, dryRun: boolean): Promise<AssessmentType | undefined> {
+  const existing = (await source.getAssessmentTypes()).find(type => type.name === assessment.name);
+  if (existing || dryRun) return existing;
+  return source.createAssessmentType({
+    name: assessment.name,
+    description: assessment.description,
+    instructions: assessment.instructions,
+    videoUrl: assessment.videoUrl,
+    duration: assessment.duration,
+    repetitions: assessment.repetitions,
+    orderIndex: assessment.orderIndex
+  });
+}
+
+function patientAssessmentFields(
+  userAssessment: UserAssessment,
+  assessment: Assessment,
+  patient: Patient,
+  clinicianId: number,
+  assessmentTypeId: number,
+  reference: NormativeReference
+): SyncedFields {
+  const completedAt = userAssessment.completedAt ?? new Date();
+  const timeline = getRecoveryTimeline(patient, completedAt);
+  // Kapandji recordings keep their score in totalActiveRom for older displays
+  const isKapandji = assessment.name === KAPANDJI_ASSESSMENT;
+  const kapandjiScore = userAssessment.kapandjiScore ?? (isKapandji ? userAssessment.totalActiveRom : null);
+  const percentOfNormal = percentOfNormalRom(assessmentKindFor(assessment.name), { ...userAssessment, kapandjiScore }, reference);
+
+  return {
+    patientId: patient.id,
+    assessmentTypeId,
+    clinicianId,
+    userAssessmentId: userAssessment.id,
+    assessmentDate: completedAt,
+    completedAt,
+    isCompleted: true,
+    sessionNumber: userAssessment.sessionNumber,
+    deviceConfidenceScore: userAssessment.qualityScore === null ? null : String(userAssessment.qualityScore),
+    tamScore: isKapandji ? null : userAssessment.totalActiveRom,
+    kapandjiScore,
+    indexFingerRom: userAssessment.indexFingerRom,
+    middleFingerRom: userAssessment.middleFingerRom,
+    ringFingerRom: userAssessment.ringFingerRom,
+    pinkyFingerRom: userAssessment.pinkyFingerRom,
+    // The index finger joints are the maxima the portal measured live
+    indexMcp: userAssessment.maxMcpAngle,
+    indexPip: userAssessment.maxPipAngle,
+    indexDip: userAssessment.maxDipAngle,
+    middleMcp: userAssessment.middleFingerMcp,
+    middlePip: userAssessment.middleFingerPip,
+    middleDip: userAssessment.middleFingerDip,
+    ringMcp: userAssessment.ringFingerMcp,
+    ringPip: userAssessment.ringFingerPip,
+    ringDip: userAssessment.ringFingerDip,
+    pinkyMcp: userAssessment.pinkyFingerMcp,
+    pinkyPip: userAssessment.pinkyFingerPip,
+    pinkyDip: userAssessment.pinkyFingerDip,
+    wristFlexionAngle: userAssessment.wristFlexionAngle,
+    wristExtensionAngle: userAssessment.wristExtensionAngle,
+    maxWristFlexion: userAssessment.maxWristFlexion,
+    maxWristExtension: userAssessment.maxWristExtension,
+    maxRadialDeviation: userAssessment.maxRadialDeviation,
+    maxUlnarDeviation: userAssessment.maxUlnarDeviation,
+    percentOfNormalRom: percentOfNormal === null ? null : String(percentOfNormal),
+    quickDashScore: userAssessment.dashScore,
+    vasScore: userAssessment.vasScoreAfter ?? userAssessment.vasScoreBefore,
+    retakeFlag: (userAssessment.retakeCount ?? 0) > 0,
+    postOpDay: timeline?.postOpDay ?? null,
+    studyWeek: timeline?.studyWeek ?? null,
+    // Portal measurements without a clinical column
+    rawData: {
+      source: 'patient_portal',
+      handType: userAssessment.handType ?? null,
+      vasScoreBefore: userAssessment.vasScoreBefore ?? null,
+      retakeCount: userAssessment.retakeCount ?? null,
+      retakeReasons: userAssessment.retakeReasons ?? null,
+      workModuleScore: userAssessment.workModuleScore ?? null,
+      sportsArtsModuleScore: userAssessment.sportsArtsModuleScore ?? null,
+      validationProfile: userAssessment.validationProfile ?? null,
+      algorithmVersion: userAssessment.algorithmVersion ?? null
+    }
+  };
+}
+
+// Numeric columns come back from Postgres as "180.00" and jsonb reorders keys
+function sameValue(stored: unknown, synced: unknown): boolean {
+  if ((stored ?? null) === null || (synced ?? null) === null) return (stored ?? null) === (synced ?? null);
+  if (stored instanceof Date || synced instanceof Date) return new Date(stored as Date).getTime() === new Date(synced as Date).getTime();
+  if (typeof synced === 'string' && synced !== '' && !Number.isNaN(Number(synced))) return Number(stored) === Number(synced);
+  return isDeepStrictEqual(stored, synced);
+}
+
+// Creates or refreshes the clinical copy of one user assessment. Without a linked patient
+// and an assigned clinician there is nothing to attach it to, so it is skipped. A dry run
+// reports what would change and writes nothing.
+export async function syncUserAssessment(source: PatientSyncDataSource, userAssessment: UserAssessment, dryRun = false): Promise<PatientSyncResult> {
+  const result: PatientSyncResult = { userAssessmentId: userAssessment.id, status: 'skipped' };
+
+  if (!userAssessment.isCompleted) {
+    result.skippedReason = 'Assessment is not completed';
+    return result;
+  }
+  const patient = await findLinkedPatient(source, userAssessment.userId);
+  if (!patient) {
+    result.skippedReason = 'No study patient uses this access code';
+    return result;
+  }
+  if (!patient.assignedClinicianId) {
+    result.skippedReason = `Patient ${patient.patientId} has no assigned clinician`;
+    return result;
+  }
+  const assessment = await source.getAssessment(userAssessment.assessmentId);
+  if (!assessment) {
+    result.skippedReason = `Assessment ${userAssessment.assessmentId} not found`;
+    return result;
+  }
+
+  const existing = await source.getPatientAssessmentByUserAssessmentId(userAssessment.id);
+  const assessmentTypeId = existing?.assessmentTypeId ?? (await assessmentTypeFor(source, assessment, dryRun))?.id;
+  const reference = await normativeReferenceForPatient(source, patient);
+  const fields = patientAssessmentFields(userAssessment, assessment, patient, existing?.clinicianId ?? patient.assignedClinicianId, assessmentTypeId ?? 0, reference);
+  Object.assign(fields, await patientAssessmentClinicalChange(source, assessmentKindFor(assessment.name), { ...fields, id: existing?.id }));
+
+  if (!existing) {
+    result.status = 'created';
+    if (dryRun) return result;
+    const created = await source.createPatientAssessment(fields);
+    result.patientAssessmentId = created.id;
+    // Patients record at home far more often than they have study visits
+    await recordVisitAssessment(source, created, { inWindowOnly: true });
+    return result;
+  }
+
+  result.patientAssessmentId = existing.id;
+  const changes = Object.fromEntries(
+    Object.entries(fields).filter(([column, value]) => !sameValue(existing[column as keyof PatientAssessment], value))
+  );
+  if (Object.keys(changes).length === 0) {
+    result.status = 'unchanged';
+    return result;
+  }
+  result.status = 'updated';
+  if (!dryRun) await source.updatePatientAssessment(existing.id, changes);
+  return result;
+}
+
+// Run after a user assessment is written or re-scored. Failures are logged rather than
+// thrown so the portal never fails a save because the clinical copy could not be written.
+export async function syncUserAssessmentToPatient(source: PatientSyncDataSource, userAssessment: UserAssessment): Promise<PatientSyncResult | undefined> {
+  try {
+    return await syncUserAssessment(source, userAssessment);
+  } catch (error) {
+    console.error('Patient assessment sync failed for user assessment', userAssessment.id, error);
+    return undefined;
+  }
+}
+
+// Syncs every completed user assessment, oldest first so visits are matched in order
+export async function backfillPatientAssessments(source: PatientSyncDataSource, dryRun = false): Promise<PatientSyncResult[]> {
+  const rows = await source.getCompletedUserAssessments({});
+  rows.sort((a, b) => new Date(a.completedAt ?? 0).getTime() - new Date(b.completedAt ?? 0).getTime() || a.id - b.id);
+
+  const results: PatientSyncResult[] = [];
+  for (const row of rows) {
+    results.push(await syncUserAssessment(source, row, dryRun));
+  }
+  return results;
+}
@@ -1,18 +1,62 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import fs from "fs/promises";
+import { randomBytes } from "crypto";
 import { PersistentMemoryStorage } from "./persistent-storage";
-import { DatabaseStorage } from "./storage";
+import { DatabaseStorage, type IStorage } from "./storage";
+import {
+  createAccessToken,
+  verifyAccessToken,
+  generateRefreshToken,
+  hashRefreshToken,
+  hashPassword,
+  REFRESH_TOKEN_TTL_MS
+} from "./auth";
+import { buildExportRows, writeExportFile, exportFilePath, removeExportFile, sweepExpiredExportFiles, EXPORT_CONTENT_TYPES, EXPORT_LINK_TTL_MS } from "./data-export";
+import { detectPatientAssessmentOutliers, detectUserAssessmentOutliers } from "./outlier-detection";
+import { findLinkedPatient, syncUserAssessmentToPatient } from "./patient-assessment-sync";
+import { contralateralBaselineFields, contralateralComparison, injuredHandForUser, referenceHandProblem } from "./contralateral-baseline";
+import { buildVisitSchedule, resolveVisitProtocol, recordVisitAssessment, withMissedStatus } from "./study-visit-scheduler";
+import { getRecoveryTimeline, calculatePostOpDay, calculateStudyWeek } from "@shared/recovery-timeline";
+import { collectMotionFrames, rescoreUserAssessments, resolveValidationProfile, SCORING_ALGORITHM_VERSION } from "./assessment-scoring";
+import { scoreSubmission, quickDashModuleScores, SubmissionValidationError } from "./assessment-submission";
+import { VALIDATION_PROFILES } from "@shared/rom-calculator";
+import { evaluateEligibility, type EligibilityCandidate, type EligibilityResult } from "@shared/eligibility-criteria";
+import { EnrollmentTransitionError, currentEnrollmentStatus, allowedEnrollmentTransitions } from "./enrollment-lifecycle";
+import { quickDashModulesFor } from "@shared/quickdash";
+import { assessmentKindFor, parseAssessmentSubmission } from "@shared/assessment-submission";
+import { decodeRepetitionData } from "@shared/motion-frame-codec";
+import { oppositeHand, supportsContralateralBaseline } from "@shared/contralateral-comparison";
+import { percentOfNormalRom } from "@shared/normative-ranges";
+import { normativeReferenceForPatient } from "./normative-reference";
+import { patientAssessmentClinicalChange, reclassifyUserAssessmentsFrom, userAssessmentClinicalChange } from "./clinical-change";
+import { QUESTIONNAIRES, QUESTIONNAIRE_FREQUENCY_DAYS, isQuestionnaireId, scoreQuestionnaire, type QuestionnaireFrequency } from "@shared/questionnaires";
+import { generateShareToken, hashShareToken, shareLinkStatus, verifySharePin, describeShareLink, redactSharedAssessment, adoptLegacyShareToken, MAX_PIN_ATTEMPTS } from "./share-links";
 import { z } from "zod";
 import { 
   insertUserSchema, 
   insertUserAssessmentSchema,
   loginSchema,
+  refreshTokenSchema,
   insertCohortSchema,
   insertPatientSchema,
   insertAssessmentTypeSchema,
   insertPatientAssessmentSchema,
   insertAuditLogSchema,
-  patientEnrollmentSchema
+  patientEnrollmentSchema,
+  clinicalSettingsSchema,
+  dataExportFiltersSchema,
+  studyDataFiltersSchema,
+  visitProtocolSchema,
+  rescoreRequestSchema,
+  validationProfileSchema,
+  createShareLinkSchema,
+  eligibilityCriteriaSchema,
+  eligibilityScreeningSchema,
+  normalRomRangesSchema,
+  insertQuestionnaireScheduleSchema,
+  type ExportFormat,
+  type StudyDataFilters
 } from "@shared/schema";
 
 // Authentication middleware - will be updated with storage reference
@@ -31,14 +75,25 @@ const requireRole = (roles: string[]) => {
 // Audit logging helper - will be updated with storage reference
 let auditLog: any;
 
+// Screens details against a cohort's criteria before the patient record exists
+async function screenCandidate(storage: IStorage, cohortId: number, candidate: EligibilityCandidate): Promise<EligibilityResult | undefined> {
+  const cohort = await storage.getCohort(cohortId);
+  if (!cohort) return undefined;
+  const criteria = eligibilityCriteriaSchema.safeParse(cohort.eligibilityCriteria);
+  return evaluateEligibility(candidate, cohortId, criteria.success ? criteria.data : null);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize memory storage for rollback state
   // Use database storage if enabled, otherwise file storage
   const useDatabase = process.env.USE_DATABASE === 'true' || process.env.NODE_ENV === 'production' || process.env.DATABASE_URL;
-  const storage = useDatabase ? new DatabaseStorage() : new PersistentMemoryStorage();
+  const storage: IStorage = useDatabase ? new DatabaseStorage() : new PersistentMemoryStorage();
   
   console.log('Storage system initialized:', useDatabase ? 'DatabaseStorage' : 'PersistentMemoryStorage');
   console.log('Environment check - USE_DATABASE:', process.env.USE_DATABASE, 'NODE_ENV:', process.env.NODE_ENV, 'DATABASE_URL exists:', !!process.env.DATABASE_URL);
+
+  // Exports whose links lapsed while the server was down
+  await sweepExpiredExportFiles();
   
   // Initialize authentication middleware with storage reference
   requireAuth = async (req: any, res: any, next: any) => {
@@ -49,21 +104,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     const token = authHeader.substring(7);
     try {
-      // Simple token validation (in production, use JWT)
-      const userId = parseInt(token);
-      const user = await storage.getClinicalUser(userId);
+      const payload = verifyAccessToken(token);
+      if (!payload) {
+        return res.status(401).json({ message: 'Invalid or expired token' });
+      }
+      
+      // Reject tokens whose session has been logged out or revoked
+      const session = await storage.getClinicalSession(payload.sid);
+      if (!session || session.revokedAt || session.userId !== payload.sub) {
+        return res.status(401).json({ message: 'Session revoked' });
+      }
+      
+      const user = await storage.getClinicalUser(payload.sub);
       if (!user || !user.isActive) {
         return res.status(401).json({ message: 'Invalid token' });
       }
       req.user = user;
+      req.sessionId = session.id;
       next();
     } catch (error) {
       return res.status(401).json({ message: 'Invalid token' });
     }
   };
   
+  // Withdrawn study patients lose portal write access, including clients that already hold
+  // their userId; the user is matched to the patient through the shared access code
+  const requireActiveAccessCode = async (req: any, res: any, next: any) => {
+    try {
+      const patient = req.params.code
+        ? await storage.getPatientByAccessCode(req.params.code)
+        : await findLinkedPatient(storage, parseInt(req.params.userId ?? req.params.id));
+      if (patient?.accessCodeDeactivatedAt) {
+        return res.status(403).json({ message: "This access code has been deactivated" });
+      }
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to verify access code" });
+    }
+  };
+  
   // Initialize audit logging helper with storage reference
-  auditLog = async (userId: number, action: string, targetEntity?: string, details?: any, req?: any) => {
+  auditLog = async (userId: number | null, action: string, targetEntity?: string, details?: any, req?: any) => {
     await storage.createAuditLog({
       userId,
       action,
@@ -74,6 +155,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   };
 
+  // Issue a signed access token plus a refresh token bound to a new session row
+  const issueSession = async (user: { id: number; role: string }, req: any) => {
+    const refreshToken = generateRefreshToken();
+    const session = await storage.createClinicalSession({
+      userId: user.id,
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+    const { token, expiresAt } = createAccessToken(user.id, session.id, user.role);
+    return { token, expiresAt, refreshToken, refreshExpiresAt: session.expiresAt };
+  };
+
   // Clinical Dashboard Authentication
   app.post("/api/auth/login", async (req, res) => {
     try {
@@ -87,13 +182,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Invalid credentials" });
       }
       
-      // Simple token (in production, use JWT)
-      const token = user.id.toString();
+      const { token, expiresAt, refreshToken, refreshExpiresAt } = await issueSession(user, req);
       
       await auditLog(user.id, "login", undefined, { username }, req);
       
       res.json({ 
         token, 
+        expiresAt,
+        refreshToken,
+        refreshExpiresAt,
         user: { 
           id: user.id, 
           username: user.username, 
@@ -104,8 +201,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
         } 
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request format" });
+      }
       console.error('Login error:', error);
-      res.status(400).json({ message: "Invalid request format" });
+      res.status(500).json({ message: "Failed to log in" });
+    }
+  });
+
+  // Exchange a refresh token for a new access token (refresh tokens are rotated on use)
+  app.post("/api/auth/refresh", async (req, res) => {
+    try {
+      const { refreshToken } = refreshTokenSchema.parse(req.body);
+      const session = await storage.getClinicalSessionByRefreshTokenHash(hashRefreshToken(refreshToken));
+      
+      if (!session || session.revokedAt || new Date(session.expiresAt) < new Date()) {
+        return res.status(401).json({ message: "Invalid or expired refresh token" });
+      }
+      
+      const user = await storage.getClinicalUser(session.userId);
+      if (!user || !user.isActive) {
+        await storage.revokeClinicalSession(session.id);
+        return res.status(401).json({ message: "Invalid or expired refresh token" });
+      }
+      
+      const nextRefreshToken = generateRefreshToken();
+      await storage.updateClinicalSession(session.id, {
+        refreshTokenHash: hashRefreshToken(nextRefreshToken),
+        lastUsedAt: new Date()
+      });
+      const { token, expiresAt } = createAccessToken(user.id, session.id, user.role);
+      
+      res.json({ 
+        token, 
+        expiresAt,
+        refreshToken: nextRefreshToken,
+        refreshExpiresAt: session.expiresAt
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request format" });
+      }
+      console.error('Token refresh error:', error);
+      res.status(500).json({ message: "Failed to refresh session" });
+    }
+  });
+
+  app.post("/api/auth/logout", requireAuth, async (req, res) => {
+    try {
+      await storage.revokeClinicalSession(req.sessionId!);
+      await auditLog(req.user.id, "logout", `session_id:${req.sessionId}`, undefined, req);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Logout error:', error);
+      res.status(500).json({ message: "Failed to log out" });
     }
   });
 
@@ -130,17 +279,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Clinical Dashboard - Alerts
-  app.get("/api/alerts", requireAuth, async (req, res) => {
-    try {
-      // Return empty array for now since alerts aren't implemented yet
-      res.json([]);
-    } catch (error) {
-      console.error('Failed to fetch alerts:', error);
-      res.status(500).json({ message: "Failed to fetch alerts" });
-    }
-  });
-
 
 
 
@@ -149,16 +287,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const patientData = {
         ...req.body,
+        surgeryDate: req.body.surgeryDate ? new Date(req.body.surgeryDate) : null,
         assignedClinicianId: req.user.id,
         accessCode: Math.floor(100000 + Math.random() * 900000).toString(),
         isActive: true,
         enrolledInStudy: false,
-        enrollmentStatus: 'pending'
+        enrollmentStatus: 'screening'
       };
       
       console.log('Creating patient with data:', patientData);
       const patient = await storage.createPatient(patientData);
       console.log('Created patient:', patient);
+      await storage.createEnrollmentEvent({
+        patientId: patient.id,
+        cohortId: patient.cohortId,
+        fromStatus: null,
+        toStatus: 'screening',
+        performedBy: req.user.id
+      });
       
       await auditLog(req.user.id, "patient_create", `patient_id:${patient.id}`, patientData, req);
       
@@ -207,9 +353,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const patientId = parseInt(req.params.id);
       const cohortId = parseInt(req.params.cohortId);
       
-      console.log(`Checking eligibility for patient ${patientId}, cohort ${cohortId}`);
       const eligibility = await storage.checkEligibility(patientId, cohortId);
-      console.log(`Eligibility result:`, eligibility);
       res.json(eligibility);
     } catch (error) {
       console.error("Eligibility check error:", error);
@@ -217,6 +361,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Screening form check against a cohort's criteria, ahead of creating the patient
+  app.post("/api/cohorts/:id/eligibility-screening", requireAuth, async (req, res) => {
+    try {
+      const cohortId = parseInt(req.params.id);
+      const screening = eligibilityScreeningSchema.parse(req.body);
+      
+      const eligibility = await screenCandidate(storage, cohortId, screening);
+      if (!eligibility) {
+        return res.status(404).json({ message: "Cohort not found" });
+      }
+      
+      res.json(eligibility);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid screening details", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to check eligibility" });
+    }
+  });
+
   app.post("/api/patients/:id/enroll", requireAuth, requireRole(['admin', 'clinician']), async (req, res) => {
     try {
       const patientId = parseInt(req.params.id);
@@ -225,14 +389,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
         patientId
       });
       
-      const patient = await storage.enrollPatient(enrollmentData);
+      const patient = await storage.enrollPatient(enrollmentData, req.user.id);
       
       await auditLog(req.user.id, "patient_enroll", `patient_id:${patient.id}`, enrollmentData, req);
       
       res.json(patient);
     } catch (error) {
       console.error('Enrollment error:', error);
-      res.status(400).json({ message: error instanceof Error ? error.message : "Enrollment failed" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid enrollment data", errors: error.errors });
+      }
+      if (error instanceof EnrollmentTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Enrollment failed" });
+    }
+  });
+
+  // Enrollment history, oldest first, with the transitions open to the patient now
+  app.get("/api/patients/:id/enrollment-events", requireAuth, async (req, res) => {
+    try {
+      const patientId = parseInt(req.params.id);
+      const patient = await storage.getPatient(patientId);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      
+      const events = await storage.getEnrollmentEvents(patientId);
+      const performers = new Map<number, string>();
+      for (const id of Array.from(new Set(events.map(event => event.performedBy).filter((id): id is number => id !== null)))) {
+        const user = await storage.getClinicalUser(id);
+        if (user) performers.set(id, `${user.firstName} ${user.lastName}`);
+      }
+      
+      res.json({
+        status: currentEnrollmentStatus(patient),
+        allowedTransitions: allowedEnrollmentTransitions(patient),
+        accessCodeDeactivatedAt: patient.accessCodeDeactivatedAt,
+        events: events.map(event => ({
+          ...event,
+          performedByName: event.performedBy !== null ? performers.get(event.performedBy) ?? null : null
+        }))
+      });
+    } catch (error) {
+      console.error("Error fetching enrollment events:", error);
+      res.status(500).json({ message: "Failed to fetch enrollment history" });
     }
   });
 
@@ -250,6 +451,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Patient not found" });
       }
       
+      if (patient.accessCodeDeactivatedAt) {
+        return res.status(403).json({ message: "This access code has been deactivated" });
+      }
+      
       res.json({ patient });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch patient" });
@@ -261,34 +466,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const enrollmentData = insertPatientSchema.parse({
         ...req.body,
+        surgeryDate: req.body.surgeryDate ? new Date(req.body.surgeryDate) : undefined,
         assignedClinicianId: req.user.id,
+        enrollmentStatus: 'enrolled',
         enrolledInStudy: true,
+        enrolledDate: new Date(),
         studyEnrollmentDate: new Date(),
       });
       
+      if (enrollmentData.cohortId) {
+        const eligibility = await screenCandidate(storage, enrollmentData.cohortId, enrollmentData);
+        if (!eligibility) {
+          return res.status(400).json({ message: "Cohort not found" });
+        }
+        if (!eligibility.eligible) {
+          return res.status(400).json({ message: "Patient does not meet the cohort's eligibility criteria", eligibility });
+        }
+      }
+      
       const patient = await storage.createPatient(enrollmentData);
+      await storage.createEnrollmentEvent({
+        patientId: patient.id,
+        cohortId: patient.cohortId,
+        fromStatus: null,
+        toStatus: 'enrolled',
+        performedBy: req.user.id
+      });
       
-      // Create baseline study visit schedule (weeks 0-12)
+      // Generate the study visit schedule from the cohort's protocol
       if (enrollmentData.surgeryDate) {
-        const surgeryDate = new Date(enrollmentData.surgeryDate);
-        for (let week = 0; week <= 12; week++) {
-          const scheduledDate = new Date(surgeryDate);
-          scheduledDate.setDate(scheduledDate.getDate() + (week * 7));
-          
-          const windowStart = new Date(scheduledDate);
-          windowStart.setDate(windowStart.getDate() - 2);
-          
-          const windowEnd = new Date(scheduledDate);
-          windowEnd.setDate(windowEnd.getDate() + 2);
-          
-          await storage.createStudyVisit({
-            patientId: patient.id,
-            scheduledWeek: week,
-            scheduledDate,
-            windowStart,
-            windowEnd,
-            visitStatus: 'scheduled',
-          });
+        const cohort = enrollmentData.cohortId ? await storage.getCohort(enrollmentData.cohortId) : undefined;
+        const schedule = buildVisitSchedule(patient.id, new Date(enrollmentData.surgeryDate), resolveVisitProtocol(cohort));
+        for (const visit of schedule) {
+          await storage.createStudyVisit(visit);
         }
       }
       
@@ -390,7 +600,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      const assessment = await storage.createPatientAssessment(assessmentData);
+      // Post-op day and study week are always derived from the patient's recovery timeline
+      const timeline = getRecoveryTimeline(patient);
+      // Percent of normal ROM is measured against the patient's cohort norms unless entered
+      const assessmentType = await storage.getAssessmentType(assessmentData.assessmentTypeId);
+      const kind = assessmentKindFor(assessmentType?.name);
+      const percentOfNormal = percentOfNormalRom(
+        kind,
+        { ...assessmentData, totalActiveRom: assessmentData.tamScore },
+        await normativeReferenceForPatient(storage, patient)
+      );
+      const measured = {
+        ...assessmentData,
+        percentOfNormalRom: assessmentData.percentOfNormalRom ?? (percentOfNormal === null ? null : String(percentOfNormal))
+      };
+      const assessment = await storage.createPatientAssessment({
+        ...measured,
+        ...await patientAssessmentClinicalChange(storage, kind, measured),
+        postOpDay: timeline?.postOpDay ?? null,
+        studyWeek: timeline?.studyWeek ?? null
+      });
+      await recordVisitAssessment(storage, assessment);
+      await detectPatientAssessmentOutliers(storage, assessment);
       
       await auditLog(req.user.id, "assessment_create", `patient_id:${patientId}`, assessmentData, req);
       
@@ -401,6 +632,172 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Clinical Dashboard - Cohort Analytics
+  // Visit protocol changes apply to patients enrolled afterwards
+  app.put("/api/cohorts/:id/visit-protocol", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const cohortId = parseInt(req.params.id);
+      const visitProtocol = visitProtocolSchema.parse(req.body);
+      
+      const cohort = await storage.updateCohort(cohortId, { visitProtocol });
+      if (!cohort) {
+        return res.status(404).json({ message: "Cohort not found" });
+      }
+      
+      await auditLog(req.user.id, "cohort_protocol_update", `cohort_id:${cohortId}`, visitProtocol, req);
+      
+      res.json(cohort);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid visit protocol", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update visit protocol" });
+    }
+  });
+
+  // Criteria changes apply to screenings from now on; enrolled patients are not re-checked
+  app.put("/api/cohorts/:id/eligibility-criteria", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const cohortId = parseInt(req.params.id);
+      const eligibilityCriteria = eligibilityCriteriaSchema.parse(req.body);
+      
+      const cohort = await storage.updateCohort(cohortId, { eligibilityCriteria });
+      if (!cohort) {
+        return res.status(404).json({ message: "Cohort not found" });
+      }
+      
+      await auditLog(req.user.id, "cohort_eligibility_update", `cohort_id:${cohortId}`, eligibilityCriteria, req);
+      
+      res.json(cohort);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid eligibility criteria", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update eligibility criteria" });
+    }
+  });
+
+  // Normal ROM changes apply to results viewed and assessments synced from now on
+  app.put("/api/cohorts/:id/normal-rom-ranges", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const cohortId = parseInt(req.params.id);
+      const normalRomRanges = normalRomRangesSchema.parse(req.body);
+
+      const cohort = await storage.updateCohort(cohortId, { normalRomRanges });
+      if (!cohort) {
+        return res.status(404).json({ message: "Cohort not found" });
+      }
+
+      await auditLog(req.user.id, "cohort_normal_rom_update", `cohort_id:${cohortId}`, normalRomRanges, req);
+
+      res.json(cohort);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid normal ROM ranges", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update normal ROM ranges" });
+    }
+  });
+
+  // ROM validation profiles; a cohort's profile overrides the one set on an assessment
+  app.get("/api/validation-profiles", requireAuth, async (req, res) => {
+    res.json(Object.values(VALIDATION_PROFILES));
+  });
+
+  app.put("/api/cohorts/:id/validation-profile", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const cohortId = parseInt(req.params.id);
+      const { validationProfile } = validationProfileSchema.parse(req.body);
+
+      const cohort = await storage.updateCohort(cohortId, { validationProfile });
+      if (!cohort) {
+        return res.status(404).json({ message: "Cohort not found" });
+      }
+
+      await auditLog(req.user.id, "cohort_validation_profile_update", `cohort_id:${cohortId}`, { validationProfile }, req);
+
+      res.json(cohort);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid validation profile", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update validation profile" });
+    }
+  });
+
+  app.put("/api/assessments/:id/validation-profile", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const assessmentId = parseInt(req.params.id);
+      const { validationProfile } = validationProfileSchema.parse(req.body);
+
+      const assessment = await storage.updateAssessment(assessmentId, { validationProfile });
+      if (!assessment) {
+        return res.status(404).json({ message: "Assessment not found" });
+      }
+
+      await auditLog(req.user.id, "assessment_validation_profile_update", `assessment_id:${assessmentId}`, { validationProfile }, req);
+
+      res.json(assessment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid validation profile", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update validation profile" });
+    }
+  });
+
+  // Questionnaire (PRWE, BCTQ) assignments by injury type
+  app.get("/api/questionnaire-schedules", requireAuth, async (req, res) => {
+    try {
+      const schedules = await storage.getQuestionnaireSchedules();
+      res.json(schedules);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch questionnaire schedules" });
+    }
+  });
+
+  app.post("/api/questionnaire-schedules", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const scheduleData = insertQuestionnaireScheduleSchema.parse(req.body);
+
+      const existing = await storage.getQuestionnaireSchedules(scheduleData.injuryType);
+      if (existing.some(schedule => schedule.isActive && schedule.questionnaireId === scheduleData.questionnaireId)) {
+        return res.status(409).json({ message: "This questionnaire is already assigned to the injury type" });
+      }
+
+      const schedule = await storage.createQuestionnaireSchedule(scheduleData);
+
+      await auditLog(req.user.id, "questionnaire_schedule_create", `questionnaire_schedule_id:${schedule.id}`, scheduleData, req);
+
+      res.json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid questionnaire schedule", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create questionnaire schedule" });
+    }
+  });
+
+  app.patch("/api/questionnaire-schedules/:id", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const scheduleId = parseInt(req.params.id);
+      const updates = insertQuestionnaireScheduleSchema.partial().parse(req.body);
+
+      const schedule = await storage.updateQuestionnaireSchedule(scheduleId, updates);
+      if (!schedule) {
+        return res.status(404).json({ message: "Questionnaire schedule not found" });
+      }
+
+      await auditLog(req.user.id, "questionnaire_schedule_update", `questionnaire_schedule_id:${scheduleId}`, updates, req);
+
+      res.json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid questionnaire schedule", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update questionnaire schedule" });
+    }
+  });
+
   app.get("/api/cohorts/:id/analytics", requireAuth, async (req, res) => {
     try {
       const cohortId = parseInt(req.params.id);
@@ -442,25 +839,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Patient-portal users take their recovery start from the linked study patient when there is one
+  const getUserRecoveryTimeline = async (user: { code: string; createdAt: Date | null }, asOf: Date = new Date()) => {
+    const patient = await storage.getPatientByAccessCode(user.code);
+    return getRecoveryTimeline(patient ?? user, asOf);
+  };
+
+  // Study-wide listings - clinicians are always scoped to their assigned patients
+  const parseStudyDataFilters = (req: any): StudyDataFilters => {
+    const filters = studyDataFiltersSchema.parse(req.query);
+    if (req.user.role === 'clinician') {
+      filters.clinicianId = req.user.id;
+    }
+    return filters;
+  };
+
+  app.get("/api/patient-assessments/all", requireAuth, async (req, res) => {
+    try {
+      const filters = parseStudyDataFilters(req);
+      const result = await storage.queryPatientAssessments(filters);
+      
+      if (req.user.role === 'researcher') {
+        // Keep the internal patient key so longitudinal views can group readings
+        res.json({
+          ...result,
+          data: result.data.map(assessment => ({
+            ...assessment,
+            clinicianId: null,
+            notes: null,
+            rawData: null
+          }))
+        });
+      } else {
+        res.json(result);
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid filters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch assessments" });
+    }
+  });
+
+  app.get("/api/patient-assessments/outcomes", requireAuth, async (req, res) => {
+    try {
+      const filters = parseStudyDataFilters(req);
+      const outcomes = await storage.getPatientOutcomes(filters);
+      res.json(outcomes);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid filters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch outcomes" });
+    }
+  });
+
+  app.get("/api/study-visits/all", requireAuth, async (req, res) => {
+    try {
+      const filters = parseStudyDataFilters(req);
+      const visits = await storage.queryStudyVisits(filters);
+      const asOf = new Date();
+      res.json({ ...visits, data: visits.data.map(visit => withMissedStatus(visit, asOf)) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid filters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch study visits" });
+    }
+  });
+
   // Clinical Dashboard - Outlier Alerts
-  app.get("/api/alerts", requireAuth, async (req, res) => {
+  app.get("/api/alerts", requireAuth, requireRole(['clinician', 'admin']), async (req, res) => {
     try {
-      console.log('=== ALERTS API DEBUG ===');
-      console.log('Storage type:', storage.constructor.name);
-      console.log('Storage has getOutlierAlerts:', typeof storage.getOutlierAlerts);
       const patientId = req.query.patientId ? parseInt(req.query.patientId as string) : undefined;
-      console.log('PatientId parameter:', patientId);
-      
-      if (typeof storage.getOutlierAlerts === 'function') {
-        console.log('Calling getOutlierAlerts...');
-        const alerts = await storage.getOutlierAlerts(patientId);
-        console.log('Alerts returned:', alerts?.length || 0);
-        console.log('Alerts sample:', alerts?.slice(0, 2));
-        res.json(alerts);
-      } else {
-        console.log('getOutlierAlerts method not found on storage');
-        res.json([]);
+      const includeResolved = req.query.includeResolved === 'true';
+      
+      let alerts = await storage.getOutlierAlerts(patientId, includeResolved);
+      
+      // Clinicians only see alerts for their assigned patients
+      if (req.user.role === 'clinician') {
+        const assignedPatientIds = new Set((await storage.getPatients(req.user.id)).map((p: any) => p.id));
+        alerts = alerts.filter(alert => assignedPatientIds.has(alert.patientId));
       }
+      
+      res.json(alerts);
     } catch (error) {
       console.error('Error in alerts API:', error);
       res.status(500).json({ message: "Failed to fetch alerts" });
@@ -487,35 +949,157 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Clinical Dashboard - Data Export
   app.post("/api/export", requireAuth, async (req, res) => {
     try {
-      const { exportType, filters } = z.object({
+      const { exportType, filters = {} } = z.object({
         exportType: z.enum(['patient_data', 'cohort_data']),
-        filters: z.any().optional()
+        filters: dataExportFiltersSchema.optional()
       }).parse(req.body);
       
-      // Generate download URL (expires in 15 minutes)
-      const expiresAt = new Date(Date.now() + 15 * 60 * 1000);
-      const downloadUrl = `/api/export/download/${Math.random().toString(36).substring(2)}`;
+      // Unspecified options fall back to the clinic's export settings
+      const settings = await storage.getClinicalSettings();
+      const format: ExportFormat = filters.format ?? settings.exportFormat;
+      const deidentify = req.user.role === 'researcher' ? true : (filters.deidentify ?? settings.deidentifyExports);
+      const includeRawData = filters.includeRawData ?? settings.includeRawData;
+      
+      await sweepExpiredExportFiles();
+      const token = randomBytes(24).toString('hex');
+      const rows = await buildExportRows(storage, exportType, filters, {
+        format,
+        deidentify,
+        includeRawData,
+        clinicianId: req.user.role === 'clinician' ? req.user.id : undefined,
+        salt: token
+      });
+      await writeExportFile(token, format, rows);
+      
+      const expiresAt = new Date(Date.now() + EXPORT_LINK_TTL_MS);
+      const downloadUrl = `/api/export/download/${token}`;
+      const appliedFilters = { ...filters, format, deidentify, includeRawData, rowCount: rows.length };
       
       const exportRequest = await storage.createDataExport({
         requestedBy: req.user.id,
         exportType,
-        filters,
+        filters: appliedFilters,
         downloadUrl,
         expiresAt
       });
       
-      await auditLog(req.user.id, "data_export", `export_id:${exportRequest.id}`, { exportType, filters }, req);
+      await auditLog(req.user.id, "data_export", `export_id:${exportRequest.id}`, { exportType, filters: appliedFilters }, req);
       
       res.json({ 
         exportId: exportRequest.id,
         downloadUrl: exportRequest.downloadUrl,
-        expiresAt: exportRequest.expiresAt
+        expiresAt: exportRequest.expiresAt,
+        format,
+        rowCount: rows.length
       });
     } catch (error) {
+      console.error('Export error:', error);
       res.status(400).json({ message: "Invalid export request" });
     }
   });
 
+  app.get("/api/export/download/:token", requireAuth, async (req, res) => {
+    try {
+      const downloadUrl = `/api/export/download/${req.params.token}`;
+      const exportRequest = await storage.getDataExportByDownloadUrl(downloadUrl);
+      
+      if (!exportRequest) {
+        return res.status(404).json({ message: "Export not found" });
+      }
+      
+      if (exportRequest.requestedBy !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const format: ExportFormat = (exportRequest.filters as any)?.format === 'ndjson' ? 'ndjson' : 'csv';
+      if (!exportRequest.expiresAt || new Date(exportRequest.expiresAt) < new Date()) {
+        await removeExportFile(req.params.token, format);
+        return res.status(410).json({ message: "Export link has expired" });
+      }
+      
+      let content: string;
+      try {
+        content = await fs.readFile(exportFilePath(req.params.token, format), 'utf-8');
+      } catch {
+        return res.status(404).json({ message: "Export file not found" });
+      }
+      
+      await storage.updateDataExport(exportRequest.id, { downloadedAt: new Date() });
+      await auditLog(req.user.id, "data_export_download", `export_id:${exportRequest.id}`, { exportType: exportRequest.exportType, format }, req);
+      
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${exportRequest.exportType}-${exportRequest.id}.${format}"`);
+      res.send(content);
+    } catch (error) {
+      console.error('Export download error:', error);
+      res.status(500).json({ message: "Failed to download export" });
+    }
+  });
+
+  // Clinical Dashboard - Settings
+  app.get("/api/settings", requireAuth, async (req, res) => {
+    try {
+      const settings = await storage.getClinicalSettings();
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.put("/api/settings", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const updates = clinicalSettingsSchema.partial().parse(req.body);
+      const settings = await storage.updateClinicalSettings(updates, req.user.id);
+      
+      await auditLog(req.user.id, "settings_update", undefined, updates, req);
+      
+      res.json(settings);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid settings" });
+    }
+  });
+
+  // Re-score stored recordings with the current calculators; a dry run unless apply is set
+  app.post("/api/admin/rescore-assessments", requireAuth, requireRole(['admin']), async (req, res) => {
+    try {
+      const request = rescoreRequestSchema.parse(req.body);
+      const results = await rescoreUserAssessments(storage, request);
+
+      // Sessions already reclassified and synced after an earlier re-scored session of theirs
+      const reclassified = new Set<number>();
+      for (const result of results.filter(r => r.applied && r.changes.length > 0)) {
+        await auditLog(req.user.id, "assessment_rescore", `user_assessment_id:${result.userAssessmentId}`, {
+          fromVersion: result.previousVersion,
+          toVersion: SCORING_ALGORITHM_VERSION,
+          changes: result.changes
+        }, req);
+        if (reclassified.has(result.userAssessmentId)) continue;
+        // Keep the change classification and the clinical copy of this and every later session
+        // in step with the re-scored metrics
+        const rescored = await storage.getUserAssessmentById(result.userAssessmentId);
+        if (!rescored) continue;
+        for (const saved of await reclassifyUserAssessmentsFrom(storage, assessmentKindFor(result.assessmentName), rescored)) {
+          reclassified.add(saved.id);
+          await syncUserAssessmentToPatient(storage, saved);
+        }
+      }
+      await auditLog(req.user.id, "assessment_rescore_run", undefined, {
+        request,
+        algorithmVersion: SCORING_ALGORITHM_VERSION,
+        scanned: results.length,
+        changed: results.filter(r => r.changes.length > 0).length,
+        applied: results.filter(r => r.applied).length
+      }, req);
+
+      res.json({ algorithmVersion: SCORING_ALGORITHM_VERSION, dryRun: !request.apply, results });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid re-score request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to re-score assessments" });
+    }
+  });
+
   // Assessment Types
   app.get("/api/assessment-types", requireAuth, async (req, res) => {
     try {
@@ -551,11 +1135,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { code } = z.object({ code: z.string().min(6) }).parse(req.body);
       
+      // Withdrawn study patients lose portal access
+      const patient = await storage.getPatientByAccessCode(code);
+      if (patient?.accessCodeDeactivatedAt) {
+        return res.status(403).json({ message: "This access code has been deactivated" });
+      }
+      
       let user = await storage.getUserByCode(code);
       
       if (!user) {
-        // Create new user with any valid 6-digit code
-        user = await storage.createUser({ code, isFirstTime: true });
+        // Create new user with any valid 6-digit code, taking the injury type from a matching study patient
+        user = await storage.createUser({ code, injuryType: patient?.injuryType ?? null });
         
         if (!user) {
           return res.status(400).json({ message: "Failed to create user" });
@@ -586,13 +1176,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
       
+      if ((await storage.getPatientByAccessCode(code))?.accessCodeDeactivatedAt) {
+        return res.status(403).json({ message: "This access code has been deactivated" });
+      }
+      
       res.json({ user });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch user" });
     }
   });
 
-  app.patch("/api/users/:id", async (req, res) => {
+  app.patch("/api/users/:id", requireActiveAccessCode, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const updates = req.body;
@@ -705,14 +1299,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           maxWristExtension: ua.maxWristExtension,
           wristFlexionAngle: ua.wristFlexionAngle,
           wristExtensionAngle: ua.wristExtensionAngle,
-          forearmPronationAngle: ua.forearmPronationAngle,
-          forearmSupinationAngle: ua.forearmSupinationAngle,
-          wristRadialDeviationAngle: ua.wristRadialDeviationAngle,
-          wristUlnarDeviationAngle: ua.wristUlnarDeviationAngle,
+          maxRadialDeviation: ua.maxRadialDeviation,
+          maxUlnarDeviation: ua.maxUlnarDeviation,
           handType: ua.handType,
           sessionNumber: ua.sessionNumber,
           dashScore: ua.dashScore,
-          repetitionData: ua.repetitionData,
+          vasScoreBefore: ua.vasScoreBefore,
+          vasScoreAfter: ua.vasScoreAfter,
+          clinicalChange: ua.clinicalChange,
+          repetitionData: decodeRepetitionData(ua.repetitionData),
         };
       }).sort((a, b) => new Date(b.completedAt || 0).getTime() - new Date(a.completedAt || 0).getTime());
       
@@ -736,7 +1331,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Get assessments based on user's injury type
       const allAssessments = user.injuryType 
-        ? await storage.getAssessmentsForInjuryType(user.injuryType)
+        ? await storage.getAssessmentsForInjury(user.injuryType)
         : await storage.getAssessments();
       
       // Combine assessments with user progress and sort by orderIndex
@@ -772,7 +1367,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/users/:userId/assessments/:assessmentId/start", async (req, res) => {
+  app.post("/api/users/:userId/assessments/:assessmentId/start", requireActiveAccessCode, async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const assessmentId = parseInt(req.params.assessmentId);
@@ -797,308 +1392,268 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/users/:userId/assessments/:assessmentId/complete", async (req, res) => {
+  // Optional QuickDASH modules the user is asked, from the linked study patient's occupation
+  app.get("/api/users/:userId/quickdash-modules", async (req, res) => {
+    try {
+      const user = await storage.getUserById(parseInt(req.params.userId));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const patient = await storage.getPatientByAccessCode(user.code);
+      res.json({ modules: quickDashModulesFor(patient?.occupationCategory) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve QuickDASH modules" });
+    }
+  });
+
+  // Questionnaires assigned to the user's injury type and whether each is due
+  app.get("/api/users/:userId/questionnaires", async (req, res) => {
+    try {
+      const user = await storage.getUserById(parseInt(req.params.userId));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const schedules = user.injuryType ? await storage.getQuestionnaireSchedules(user.injuryType) : [];
+      const responses = await storage.getQuestionnaireResponses(user.id);
+
+      const questionnaires = schedules
+        .filter(schedule => schedule.isActive && isQuestionnaireId(schedule.questionnaireId))
+        .map(schedule => {
+          const definition = QUESTIONNAIRES[schedule.questionnaireId as keyof typeof QUESTIONNAIRES];
+          const last = responses.filter(response => response.questionnaireId === schedule.questionnaireId).pop();
+          const intervalDays = QUESTIONNAIRE_FREQUENCY_DAYS[schedule.frequency as QuestionnaireFrequency] ?? 7;
+          const daysSinceLast = last?.completedAt
+            ? Math.floor((Date.now() - new Date(last.completedAt).getTime()) / (1000 * 60 * 60 * 24))
+            : null;
+
+          return {
+            questionnaireId: definition.id,
+            name: definition.name,
+            shortName: definition.shortName,
+            description: definition.description,
+            frequency: schedule.frequency,
+            lastCompletedAt: last?.completedAt ?? null,
+            lastScores: last?.scores ?? null,
+            lastTotalScore: last?.totalScore ?? null,
+            isDue: daysSinceLast === null || daysSinceLast >= intervalDays
+          };
+        });
+
+      res.json({ questionnaires });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve questionnaires" });
+    }
+  });
+
+  app.get("/api/users/:userId/questionnaires/:questionnaireId/responses", async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const { questionnaireId } = req.params;
+      if (!isQuestionnaireId(questionnaireId)) {
+        return res.status(404).json({ message: "Questionnaire not found" });
+      }
+
+      const responses = await storage.getQuestionnaireResponses(userId, questionnaireId);
+      res.json({ responses });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve questionnaire responses" });
+    }
+  });
+
+  // Answers are scored here; the response keeps the item answers and section scores
+  app.post("/api/users/:userId/questionnaires/:questionnaireId/responses", requireActiveAccessCode, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const { questionnaireId } = req.params;
+      if (!isQuestionnaireId(questionnaireId)) {
+        return res.status(404).json({ message: "Questionnaire not found" });
+      }
+
+      const user = await storage.getUserById(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const schedules = user.injuryType ? await storage.getQuestionnaireSchedules(user.injuryType) : [];
+      if (!schedules.some(schedule => schedule.isActive && schedule.questionnaireId === questionnaireId)) {
+        return res.status(400).json({ message: "This questionnaire is not assigned to the user's injury type" });
+      }
+
+      const definition = QUESTIONNAIRES[questionnaireId];
+      const result = scoreQuestionnaire(definition, req.body.answers);
+      if (!result.valid) {
+        return res.status(400).json({ message: `Invalid ${definition.shortName} answers`, errors: result.errors });
+      }
+
+      const patient = await storage.getPatientByAccessCode(user.code);
+      const timeline = getRecoveryTimeline(patient ?? user);
+      const response = await storage.createQuestionnaireResponse({
+        userId,
+        patientId: patient?.id ?? null,
+        questionnaireId,
+        answers: result.answers,
+        scores: result.scores,
+        totalScore: result.totalScore !== null ? String(result.totalScore) : null,
+        postOpDay: timeline?.postOpDay ?? null
+      });
+
+      res.json({ response });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to save questionnaire response" });
+    }
+  });
+
+  // The profile a recording will be scored under, so the recording page can check it first
+  app.get("/api/users/:userId/assessments/:assessmentId/validation-profile", async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const assessment = await storage.getAssessment(parseInt(req.params.assessmentId));
+      if (!assessment) {
+        return res.status(404).json({ message: "Assessment not found" });
+      }
+      const profile = await resolveValidationProfile(storage, userId, assessment);
+      res.json({ profile });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to resolve validation profile" });
+    }
+  });
+
+  // The body must match the submission contract for the assessment's kind (see shared/assessment-submission)
+  app.post("/api/users/:userId/assessments/:assessmentId/complete", requireActiveAccessCode, async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const assessmentId = parseInt(req.params.assessmentId);
-      const { 
-        romData, 
-        repetitionData, 
-        qualityScore, 
-        handType,
-        wristFlexionAngle: reqWristFlexionAngle,
-        wristExtensionAngle: reqWristExtensionAngle,
-        maxWristFlexion: reqMaxWristFlexion,
-        maxWristExtension: reqMaxWristExtension,
-        dashScore,
-        responses
-      } = req.body;
-      
-      // Calculate ROM values from repetition data for trigger finger assessments
-      let maxMcpAngle: number | null = null;
-      let maxPipAngle: number | null = null;
-      let maxDipAngle: number | null = null;
-      let totalActiveRom: number | null = null;
-      
-      // Kapandji-specific scoring (dedicated field)
-      let kapandjiScore: number | null = null;
-      
-      // Individual finger ROM calculations
-      let indexFingerRom: number | null = null;
-      let middleFingerRom: number | null = null;
-      let ringFingerRom: number | null = null;
-      let pinkyFingerRom: number | null = null;
-      
-      // Individual joint angles for each finger
-      let middleFingerMcp: number | null = null;
-      let middleFingerPip: number | null = null;
-      let middleFingerDip: number | null = null;
-      
-      let ringFingerMcp: number | null = null;
-      let ringFingerPip: number | null = null;
-      let ringFingerDip: number | null = null;
-      
-      let pinkyFingerMcp: number | null = null;
-      let pinkyFingerPip: number | null = null;
-      let pinkyFingerDip: number | null = null;
-      
-      // Wrist angle calculations - initialize with top-level request values
-      let wristFlexionAngle: number | null = reqWristFlexionAngle || null;
-      let wristExtensionAngle: number | null = reqWristExtensionAngle || null;
-      let maxWristFlexion: number | null = reqMaxWristFlexion || null;
-      let maxWristExtension: number | null = reqMaxWristExtension || null;
-      
-      if (repetitionData && Array.isArray(repetitionData)) {
-        // Collect all motion frames for multi-finger ROM calculation
-        const allMotionFrames: any[] = [];
-        
-        repetitionData.forEach((rep: any) => {
-          if (rep.romData) {
-            // Keep existing index finger calculations for backward compatibility
-            maxMcpAngle = Math.max(maxMcpAngle || 0, rep.romData.mcpAngle || 0);
-            maxPipAngle = Math.max(maxPipAngle || 0, rep.romData.pipAngle || 0);
-            maxDipAngle = Math.max(maxDipAngle || 0, rep.romData.dipAngle || 0);
-            totalActiveRom = Math.max(totalActiveRom || 0, rep.romData.totalActiveRom || 0);
-          }
-          
-          // Extract wrist angle data from repetition data
-          console.log(`Processing repetition data for wrist angles:`, {
-            wristFlexionAngle: rep.wristFlexionAngle,
-            wristExtensionAngle: rep.wristExtensionAngle,
-            maxWristFlexion: rep.maxWristFlexion,
-            maxWristExtension: rep.maxWristExtension
-          });
-          
-          if (rep.wristFlexionAngle !== undefined) {
-            wristFlexionAngle = Math.max(wristFlexionAngle || 0, rep.wristFlexionAngle);
-            console.log(`Updated wristFlexionAngle: ${wristFlexionAngle}`);
-          }
-          if (rep.wristExtensionAngle !== undefined) {
-            wristExtensionAngle = Math.max(wristExtensionAngle || 0, rep.wristExtensionAngle);
-            console.log(`Updated wristExtensionAngle: ${wristExtensionAngle}`);
-          }
-          if (rep.maxWristFlexion !== undefined) {
-            maxWristFlexion = Math.max(maxWristFlexion || 0, rep.maxWristFlexion);
-            console.log(`Updated maxWristFlexion: ${maxWristFlexion}`);
-          }
-          if (rep.maxWristExtension !== undefined) {
-            maxWristExtension = Math.max(maxWristExtension || 0, rep.maxWristExtension);
-            console.log(`Updated maxWristExtension: ${maxWristExtension}`);
-          }
-          
-          // Collect motion data for all finger calculations and extract wrist angle data
-          if (rep.motionData && Array.isArray(rep.motionData)) {
-            allMotionFrames.push(...rep.motionData);
-            
-            // Extract wrist angles from motion frames for wrist assessments
-            rep.motionData.forEach((frame: any) => {
-              if (frame.wristAngles) {
-                const frameWristAngles = frame.wristAngles;
-                // Remove the > 0 filter to capture all calculated angles, including small ones
-                if (frameWristAngles.wristFlexionAngle !== undefined && frameWristAngles.wristFlexionAngle !== null) {
-                  wristFlexionAngle = Math.max(wristFlexionAngle || 0, frameWristAngles.wristFlexionAngle);
-                }
-                if (frameWristAngles.wristExtensionAngle !== undefined && frameWristAngles.wristExtensionAngle !== null) {
-                  wristExtensionAngle = Math.max(wristExtensionAngle || 0, frameWristAngles.wristExtensionAngle);
-                }
-              }
-            });
-          }
-        });
-        
-        // Update max wrist values based on extracted data - remove artificial > 0 filtering
-        if (wristFlexionAngle !== null && wristFlexionAngle !== undefined) {
-          maxWristFlexion = Math.max(maxWristFlexion || 0, wristFlexionAngle);
-          console.log(`Final maxWristFlexion: ${maxWristFlexion}° (from recorded angles)`);
-        }
-        if (wristExtensionAngle !== null && wristExtensionAngle !== undefined) {
-          maxWristExtension = Math.max(maxWristExtension || 0, wristExtensionAngle);
-          console.log(`Final maxWristExtension: ${maxWristExtension}° (from recorded angles)`);
-        }
-        
-        // Calculate max ROM for all fingers if motion data exists
-        if (allMotionFrames.length > 0) {
-          try {
-            // Get the assessment to determine which calculation to use
-            const assessment = await storage.getAssessment(assessmentId);
-            
-            if (assessment?.name === "Kapandji Score") {
-              // Use Kapandji-specific scoring for thumb opposition
-              const kapandjiModule = await import('../shared/kapandji-calculator.js');
-              const { calculateMaxKapandjiScore } = kapandjiModule;
-              
-              const formattedFrames = allMotionFrames.map(frame => ({
-                landmarks: frame.landmarks || frame
-              }));
-              
-              console.log(`Calculating Kapandji score for ${formattedFrames.length} motion frames`);
-              const kapandjiResult = calculateMaxKapandjiScore(formattedFrames);
-              
-              console.log('Kapandji score result:', JSON.stringify(kapandjiResult, null, 2));
-              
-              // Store Kapandji score in CORRECT dedicated field
-              kapandjiScore = kapandjiResult.maxScore;
-              totalActiveRom = kapandjiResult.maxScore; // Keep for backward compatibility display
-              
-              // Store details in individual finger fields for display
-              indexFingerRom = kapandjiResult.details.indexTip ? 3 : (kapandjiResult.details.indexMiddlePhalanx ? 2 : (kapandjiResult.details.indexProximalPhalanx ? 1 : 0));
-              middleFingerRom = kapandjiResult.details.middleTip ? 4 : 0;
-              ringFingerRom = kapandjiResult.details.ringTip ? 5 : 0;
-              pinkyFingerRom = kapandjiResult.details.littleTip ? 6 : 0;
-              
-              console.log('Kapandji assessment completed with score:', kapandjiScore, '(saved to kapandjiScore field)');
-              
-            } else {
-              // Use standard ROM calculation for other assessments
-              const romCalculatorModule = await import('../shared/rom-calculator.js');
-              const { calculateAllFingersMaxROM } = romCalculatorModule;
-              
-              // Ensure motion frames have the correct structure
-              const formattedFrames = allMotionFrames.map(frame => ({
-                landmarks: frame.landmarks || frame
-              }));
-              
-              console.log(`Calculating ROM for ${formattedFrames.length} motion frames`);
-              const allFingersROM = calculateAllFingersMaxROM(formattedFrames);
-              
-              console.log('Raw allFingersROM object:', JSON.stringify(allFingersROM, null, 2));
-              
-              // Check temporal validation quality
-              const temporalQuality = allFingersROM.temporalQuality || {};
-              console.log('Temporal validation quality scores:', temporalQuality);
-              
-              // Apply temporal quality thresholds for TAM assessments
-              const TEMPORAL_QUALITY_THRESHOLD = 0.7; // 70% temporal consistency required
-              
-              indexFingerRom = (temporalQuality.index >= TEMPORAL_QUALITY_THRESHOLD) 
-                ? allFingersROM.index?.totalActiveRom || null
-                : null;
-              middleFingerRom = (temporalQuality.middle >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.middle?.totalActiveRom || null
-                : null;
-              ringFingerRom = (temporalQuality.ring >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.ring?.totalActiveRom || null
-                : null;
-              pinkyFingerRom = (temporalQuality.pinky >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.pinky?.totalActiveRom || null
-                : null;
-              
-              // Log temporal validation results
-              ['index', 'middle', 'ring', 'pinky'].forEach(finger => {
-                const quality = temporalQuality[finger] || 0;
-                const status = quality >= TEMPORAL_QUALITY_THRESHOLD ? 'ACCEPTED' : 'REJECTED';
-                console.log(`${finger.toUpperCase()} finger temporal validation: ${(quality * 100).toFixed(1)}% - ${status}`);
-              });
-              
-              // Store individual joint angles for detailed breakdown (only if temporally valid)
-              middleFingerMcp = (temporalQuality.middle >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.middle?.mcpAngle || null
-                : null;
-              middleFingerPip = (temporalQuality.middle >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.middle?.pipAngle || null
-                : null;
-              middleFingerDip = (temporalQuality.middle >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.middle?.dipAngle || null
-                : null;
-              
-              ringFingerMcp = (temporalQuality.ring >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.ring?.mcpAngle || null
-                : null;
-              ringFingerPip = (temporalQuality.ring >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.ring?.pipAngle || null
-                : null;
-              ringFingerDip = (temporalQuality.ring >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.ring?.dipAngle || null
-                : null;
-              
-              pinkyFingerMcp = (temporalQuality.pinky >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.pinky?.mcpAngle || null
-                : null;
-              pinkyFingerPip = (temporalQuality.pinky >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.pinky?.pipAngle || null
-                : null;
-              pinkyFingerDip = (temporalQuality.pinky >= TEMPORAL_QUALITY_THRESHOLD)
-                ? allFingersROM.pinky?.dipAngle || null
-                : null;
-              
-              console.log('Multi-finger ROM calculated with temporal validation:', {
-                index: indexFingerRom,
-                middle: middleFingerRom,
-                ring: ringFingerRom,
-                pinky: pinkyFingerRom,
-                temporalQuality: temporalQuality
-              });
-              
-              console.log('Individual joint angles calculated:', {
-                middle: { mcp: middleFingerMcp, pip: middleFingerPip, dip: middleFingerDip },
-                ring: { mcp: ringFingerMcp, pip: ringFingerPip, dip: ringFingerDip },
-                pinky: { mcp: pinkyFingerMcp, pip: pinkyFingerPip, dip: pinkyFingerDip }
-              });
-            }
-          } catch (error) {
-            console.log('ROM calculation for all fingers failed:', error);
-            console.log('Using index finger only');
-          }
+
+      const assessment = await storage.getAssessment(assessmentId);
+      if (!assessment) {
+        return res.status(404).json({ message: "Assessment not found" });
+      }
+      const kind = assessmentKindFor(assessment.name);
+      if (!kind) {
+        return res.status(400).json({ message: `${assessment.name} cannot be completed through this endpoint` });
+      }
+
+      const parsed = parseAssessmentSubmission(kind, req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid assessment submission", errors: parsed.issues });
+      }
+
+      let scored;
+      try {
+        scored = await scoreSubmission(storage, userId, assessment, parsed.submission);
+      } catch (error) {
+        if (error instanceof SubmissionValidationError) {
+          return res.status(400).json({ message: error.message, errors: error.issues });
         }
+        throw error;
+      }
+
+      if (scored.scoreMismatch) {
+        await auditLog(null, "quickdash_score_mismatch", `user_id:${userId}`, { assessmentId, ...scored.scoreMismatch }, req);
       }
       
       // Find existing user assessments to determine session number
       const existingAssessments = await storage.getUserAssessments(userId);
       const sessionCount = existingAssessments.filter(ua => ua.assessmentId === assessmentId).length;
-      const sessionNumber = sessionCount + 1;
       
       // Create new assessment (don't update existing ones - allow multiple sessions)
+      const completedAt = new Date();
+      const clinicalChange = await userAssessmentClinicalChange(storage, kind, { userId, assessmentId, completedAt, ...scored.fields });
       const userAssessment = await storage.createUserAssessment({
         userId,
         assessmentId,
-        sessionNumber,
+        sessionNumber: sessionCount + 1,
         isCompleted: true,
-        completedAt: new Date(),
-        romData,
-        repetitionData,
-        qualityScore,
-        maxMcpAngle: maxMcpAngle !== null ? String(maxMcpAngle) : null,
-        maxPipAngle: maxPipAngle !== null ? String(maxPipAngle) : null,
-        maxDipAngle: maxDipAngle !== null ? String(maxDipAngle) : null,
-        totalActiveRom: totalActiveRom !== null ? String(totalActiveRom) : null,
-        kapandjiScore: kapandjiScore !== null ? String(kapandjiScore) : null,
-        indexFingerRom: indexFingerRom !== null ? String(indexFingerRom) : null,
-        middleFingerRom: middleFingerRom !== null ? String(middleFingerRom) : null,
-        ringFingerRom: ringFingerRom !== null ? String(ringFingerRom) : null,
-        pinkyFingerRom: pinkyFingerRom !== null ? String(pinkyFingerRom) : null,
-        
-        // Individual joint angles for detailed breakdown
-        middleFingerMcp: middleFingerMcp !== null ? String(middleFingerMcp) : null,
-        middleFingerPip: middleFingerPip !== null ? String(middleFingerPip) : null,
-        middleFingerDip: middleFingerDip !== null ? String(middleFingerDip) : null,
-        
-        ringFingerMcp: ringFingerMcp !== null ? String(ringFingerMcp) : null,
-        ringFingerPip: ringFingerPip !== null ? String(ringFingerPip) : null,
-        ringFingerDip: ringFingerDip !== null ? String(ringFingerDip) : null,
-        
-        pinkyFingerMcp: pinkyFingerMcp !== null ? String(pinkyFingerMcp) : null,
-        pinkyFingerPip: pinkyFingerPip !== null ? String(pinkyFingerPip) : null,
-        pinkyFingerDip: pinkyFingerDip !== null ? String(pinkyFingerDip) : null,
-        handType: handType || null,
-        
-        // Wrist angle data
-        wristFlexionAngle: wristFlexionAngle !== null ? String(wristFlexionAngle) : null,
-        wristExtensionAngle: wristExtensionAngle !== null ? String(wristExtensionAngle) : null,
-        maxWristFlexion: maxWristFlexion !== null ? String(maxWristFlexion) : null,
-        maxWristExtension: maxWristExtension !== null ? String(maxWristExtension) : null,
-        
-        // Wrist deviation data
-        maxRadialDeviation: req.body.maxRadialDeviation ? String(req.body.maxRadialDeviation) : null,
-        maxUlnarDeviation: req.body.maxUlnarDeviation ? String(req.body.maxUlnarDeviation) : null,
-        
-        // DASH assessment data
-        dashScore: dashScore !== null ? dashScore : null,
-        responses: responses ? JSON.stringify(responses) : null
+        completedAt,
+        ...scored.fields,
+        clinicalChange
       });
+      await detectUserAssessmentOutliers(storage, userAssessment);
+      await syncUserAssessmentToPatient(storage, userAssessment);
+
+      // Study patients also get the item-level answers in the QuickDASH table
+      const quickDash = scored.quickDash;
+      if (quickDash?.patient) {
+        const timeline = getRecoveryTimeline(quickDash.patient);
+        await storage.createQuickDashResponse({
+          patientId: quickDash.patient.id,
+          ...quickDash.result.answers,
+          totalScore: String(quickDash.result.score),
+          ...quickDashModuleScores(quickDash.result),
+          postOpDay: timeline?.postOpDay ?? 0,
+          studyWeek: timeline?.studyWeek ?? 0
+        });
+      }
       
-      res.json({ userAssessment });
+      res.json({ userAssessment: { ...userAssessment, repetitionData: decodeRepetitionData(userAssessment.repetitionData) } });
+    } catch (error) {
+      console.error('Assessment completion failed:', error);
+      res.status(500).json({ message: "Failed to complete assessment" });
+    }
+  });
+
+  // The uninjured hand's reference for an assessment, and which hand it should be recorded on
+  app.get("/api/users/:userId/assessments/:assessmentId/contralateral-baseline", async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const assessment = await storage.getAssessment(parseInt(req.params.assessmentId));
+      if (!assessment) {
+        return res.status(404).json({ message: "Assessment not found" });
+      }
+
+      const { injuredHand, bilateral } = await injuredHandForUser(storage, userId);
+      const baseline = await storage.getContralateralBaseline(userId, assessment.id);
+      res.json({
+        supported: supportsContralateralBaseline(assessmentKindFor(assessment.name)) && !bilateral,
+        injuredHand,
+        referenceHand: injuredHand ? oppositeHand(injuredHand) : null,
+        baseline: baseline ? { ...baseline, repetitionData: undefined } : null
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve contralateral baseline" });
+    }
+  });
+
+  // Records the uninjured hand through the same submission contract as /complete; the newest
+  // recording replaces the reference and nothing is added to the assessment history
+  app.post("/api/users/:userId/assessments/:assessmentId/contralateral-baseline", requireActiveAccessCode, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const assessment = await storage.getAssessment(parseInt(req.params.assessmentId));
+      if (!assessment) {
+        return res.status(404).json({ message: "Assessment not found" });
+      }
+      const kind = assessmentKindFor(assessment.name);
+      if (!kind || !supportsContralateralBaseline(kind)) {
+        return res.status(400).json({ message: `${assessment.name} has no contralateral comparison` });
+      }
+
+      const parsed = parseAssessmentSubmission(kind, req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid assessment submission", errors: parsed.issues });
+      }
+      const submission = parsed.submission;
+      const handProblem = submission.kind === 'dash' ? null : await referenceHandProblem(storage, userId, submission.handType);
+      if (handProblem) {
+        return res.status(400).json({ message: handProblem });
+      }
+
+      let scored;
+      try {
+        scored = await scoreSubmission(storage, userId, assessment, submission);
+      } catch (error) {
+        if (error instanceof SubmissionValidationError) {
+          return res.status(400).json({ message: error.message, errors: error.issues });
+        }
+        throw error;
+      }
+
+      const baseline = await storage.createContralateralBaseline(contralateralBaselineFields(userId, assessment.id, scored.fields));
+      res.status(201).json({ baseline: { ...baseline, repetitionData: undefined } });
     } catch (error) {
-      res.status(400).json({ message: "Failed to complete assessment" });
+      console.error('Contralateral baseline recording failed:', error);
+      res.status(500).json({ message: "Failed to record contralateral baseline" });
     }
   });
 
@@ -1110,11 +1665,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const completed = userAssessments.filter(ua => ua.isCompleted).length;
       const total = allAssessments.length;
+
+      // Pain trend across sessions, oldest first
+      const painScores = userAssessments
+        .filter(ua => ua.isCompleted && ua.completedAt && (ua.vasScoreBefore !== null || ua.vasScoreAfter !== null))
+        .sort((a, b) => new Date(a.completedAt!).getTime() - new Date(b.completedAt!).getTime())
+        .map(ua => ({
+          userAssessmentId: ua.id,
+          assessmentId: ua.assessmentId,
+          sessionNumber: ua.sessionNumber,
+          completedAt: ua.completedAt,
+          vasScoreBefore: ua.vasScoreBefore,
+          vasScoreAfter: ua.vasScoreAfter
+        }));
       
       res.json({ 
         completed, 
         total, 
-        percentage: total > 0 ? Math.round((completed / total) * 100) : 0 
+        percentage: total > 0 ? Math.round((completed / total) * 100) : 0,
+        painScores
       });
     } catch (error) {
       res.status(400).json({ message: "Failed to fetch progress" });
@@ -1155,13 +1724,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
             wristFlexionAngle: ua.wristFlexionAngle,
             wristExtensionAngle: ua.wristExtensionAngle,
             // Other motion fields
-            forearmPronationAngle: ua.forearmPronationAngle,
-            forearmSupinationAngle: ua.forearmSupinationAngle,
-            wristRadialDeviationAngle: ua.wristRadialDeviationAngle,
-            wristUlnarDeviationAngle: ua.wristUlnarDeviationAngle,
+            maxRadialDeviation: ua.maxRadialDeviation,
+            maxUlnarDeviation: ua.maxUlnarDeviation,
             sessionNumber: ua.sessionNumber || 1,
-            repetitionData: ua.repetitionData,
-            handType: ua.handType
+            repetitionData: decodeRepetitionData(ua.repetitionData),
+            handType: ua.handType,
+            clinicalChange: ua.clinicalChange
           };
         })
         .sort((a, b) => new Date(b.completedAt!).getTime() - new Date(a.completedAt!).getTime()); // Sort by completion date, newest first
@@ -1195,15 +1763,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Motion data not found" });
       }
       
-      // Extract motion data from repetition data
-      const motionData: any[] = [];
-      if (Array.isArray(userAssessment.repetitionData)) {
-        userAssessment.repetitionData.forEach((rep: any) => {
-          if (rep.motionData && Array.isArray(rep.motionData)) {
-            motionData.push(...rep.motionData);
-          }
-        });
-      }
+      // Extract motion data from repetition data, decoding compactly stored sessions
+      const motionData = collectMotionFrames(userAssessment.repetitionData);
       
       res.json({ motionData });
     } catch (error) {
@@ -1279,16 +1840,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
           maxWristExtension: ua.maxWristExtension,
           wristFlexionAngle: ua.wristFlexionAngle,
           wristExtensionAngle: ua.wristExtensionAngle,
-          forearmPronationAngle: ua.forearmPronationAngle,
-          forearmSupinationAngle: ua.forearmSupinationAngle,
-          wristRadialDeviationAngle: ua.wristRadialDeviationAngle,
-          wristUlnarDeviationAngle: ua.wristUlnarDeviationAngle,
+          maxRadialDeviation: ua.maxRadialDeviation,
+          maxUlnarDeviation: ua.maxUlnarDeviation,
           handType: ua.handType,
           sessionNumber: ua.sessionNumber,
           // Include DASH score data - ensure it's always included for DASH assessments
           dashScore: ua.dashScore,
+          workModuleScore: ua.workModuleScore,
+          sportsArtsModuleScore: ua.sportsArtsModuleScore,
+          vasScoreBefore: ua.vasScoreBefore,
+          vasScoreAfter: ua.vasScoreAfter,
+          clinicalChange: ua.clinicalChange,
           // Include repetition data for accurate recalculation
-          repetitionData: ua.repetitionData,
+          repetitionData: decodeRepetitionData(ua.repetitionData),
         };
       }).sort((a, b) => new Date(b.completedAt || 0).getTime() - new Date(a.completedAt || 0).getTime());
       
@@ -1345,6 +1909,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Add assessment name to user assessment for display purposes
       const userAssessmentWithName = {
         ...userAssessment,
+        repetitionData: decodeRepetitionData(userAssessment.repetitionData),
         assessmentName: assessment?.name || 'Unknown Assessment'
       };
       
@@ -1365,7 +1930,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Generate shareable link for user assessment
+  // A result as a percentage of the same measurement on the uninjured hand
+  app.get("/api/user-assessments/:userAssessmentId/contralateral-comparison", async (req, res) => {
+    try {
+      const userAssessment = await storage.getUserAssessmentById(parseInt(req.params.userAssessmentId));
+      if (!userAssessment) {
+        return res.status(404).json({ message: "Assessment not found" });
+      }
+      res.json(await contralateralComparison(storage, userAssessment));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to compare with the contralateral hand" });
+    }
+  });
+
+  // Normal ROM the user's results are interpreted against, from their study patient's cohort
+  app.get("/api/users/:userId/normative-reference", async (req, res) => {
+    try {
+      const patient = await findLinkedPatient(storage, parseInt(req.params.userId));
+      res.json(await normativeReferenceForPatient(storage, patient));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch normal ROM ranges" });
+    }
+  });
+
+  // Share links are created, listed and revoked only by the portal user who owns the result,
+  // identified by their access code in the X-User-Code header
+  const ownsUserAssessment = async (req: any, userAssessmentId: number) => {
+    const code = req.get('X-User-Code');
+    const [user, userAssessment] = await Promise.all([
+      code ? storage.getUserByCode(code) : undefined,
+      storage.getUserAssessmentById(userAssessmentId)
+    ]);
+    return !!user && !!userAssessment && userAssessment.userId === user.id;
+  };
+
+  // Share links for a result: expiring, revocable and scoped to summary metrics or full replay
   app.post("/api/user-assessments/:id/share", async (req, res) => {
     try {
       const userAssessmentId = parseInt(req.params.id);
@@ -1374,31 +1973,130 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid user assessment ID" });
       }
 
-      const shareToken = await storage.generateShareToken(userAssessmentId);
-      res.json({ shareToken, shareUrl: `/shared/${shareToken}` });
+      const userAssessment = await storage.getUserAssessmentById(userAssessmentId);
+      if (!userAssessment) {
+        return res.status(404).json({ error: "User assessment not found" });
+      }
+      if (!(await ownsUserAssessment(req, userAssessmentId))) {
+        return res.status(403).json({ error: "Only the owner of this assessment can share it" });
+      }
+      if ((await findLinkedPatient(storage, userAssessment.userId))?.accessCodeDeactivatedAt) {
+        return res.status(403).json({ error: "This access code has been deactivated" });
+      }
+
+      const { scope, expiresInDays, pin, maxViews } = createShareLinkSchema.parse(req.body ?? {});
+      const shareToken = generateShareToken();
+      const shareLink = await storage.createShareLink({
+        userAssessmentId,
+        tokenHash: hashShareToken(shareToken),
+        scope,
+        pinHash: pin ? await hashPassword(pin) : null,
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+        maxViews: maxViews ?? null
+      });
+
+      await auditLog(null, "share_link_create", `share_link_id:${shareLink.id}`, {
+        userAssessmentId,
+        scope,
+        expiresAt: shareLink.expiresAt,
+        maxViews: shareLink.maxViews,
+        hasPin: !!pin
+      }, req);
+
+      // The token is only ever returned here; storage keeps its hash
+      res.json({ shareToken, shareUrl: `/shared/${shareToken}`, shareLink: describeShareLink(shareLink) });
     } catch (error) {
-      console.error("Error generating share token:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid share settings", errors: error.errors });
+      }
+      console.error("Error generating share link:", error);
       res.status(500).json({ error: "Failed to generate shareable link" });
     }
   });
 
-  // Get shared user assessment by token (public route)
+  app.get("/api/user-assessments/:id/share-links", async (req, res) => {
+    try {
+      const userAssessmentId = parseInt(req.params.id);
+      if (!(await ownsUserAssessment(req, userAssessmentId))) {
+        return res.status(403).json({ error: "Only the owner of this assessment can see its share links" });
+      }
+      const shareLinks = await storage.getShareLinks(userAssessmentId);
+      res.json({ shareLinks: shareLinks.map(describeShareLink) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch share links" });
+    }
+  });
+
+  app.post("/api/share-links/:id/revoke", async (req, res) => {
+    try {
+      const shareLinkId = parseInt(req.params.id);
+      const existing = await storage.getShareLink(shareLinkId);
+      if (!existing) {
+        return res.status(404).json({ error: "Share link not found" });
+      }
+      if (!(await ownsUserAssessment(req, existing.userAssessmentId))) {
+        return res.status(403).json({ error: "Only the owner of this assessment can revoke its share links" });
+      }
+      await storage.revokeShareLink(shareLinkId);
+
+      await auditLog(null, "share_link_revoke", `share_link_id:${shareLinkId}`, undefined, req);
+
+      const shareLink = await storage.getShareLink(shareLinkId);
+      res.json({ shareLink: shareLink && describeShareLink(shareLink) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revoke share link" });
+    }
+  });
+
+  // Get shared user assessment by token (public route); a PIN is sent in the X-Share-Pin header.
+  // Every attempt on an existing link is audited, including refused ones.
   app.get("/api/shared/:token", async (req, res) => {
     try {
-      const { token } = req.params;
-      
-      const userAssessment = await storage.getUserAssessmentByShareToken(token);
-      if (!userAssessment) {
-        return res.status(404).json({ error: "Shared assessment not found" });
+      const shareLink = await storage.getShareLinkByTokenHash(hashShareToken(req.params.token)) ??
+        await adoptLegacyShareToken(storage, req.params.token);
+      if (!shareLink) {
+        return res.status(404).json({ status: "not_found", error: "Shared assessment not found" });
       }
 
-      // Get assessment details for display
-      const assessment = await storage.getAssessment(userAssessment.assessmentId);
-      if (!assessment) {
-        return res.status(404).json({ error: "Assessment not found" });
+      const target = `share_link_id:${shareLink.id}`;
+      const auditView = (outcome: string, details: Record<string, unknown> = {}) =>
+        auditLog(null, "shared_assessment_view", target, { outcome, userAssessmentId: shareLink.userAssessmentId, ...details }, req);
+
+      const status = shareLinkStatus(shareLink);
+      if (status !== 'active') {
+        await auditView(status);
+        return res.status(410).json({ status, error: `This share link has ${status === 'exhausted' ? 'reached its view limit' : status === 'revoked' ? 'been revoked' : 'expired'}` });
       }
 
-      res.json({ userAssessment, assessment });
+      const pin = req.get('X-Share-Pin');
+      if (!(await verifySharePin(shareLink, pin))) {
+        if (!pin) {
+          await auditView("pin_required");
+          return res.status(401).json({ status: "pin_required", error: "A PIN is required to view this assessment" });
+        }
+
+        const failedPinAttempts = (shareLink.failedPinAttempts ?? 0) + 1;
+        const locked = failedPinAttempts >= MAX_PIN_ATTEMPTS;
+        await storage.updateShareLink(shareLink.id, { failedPinAttempts, ...(locked ? { revokedAt: new Date() } : {}) });
+        await auditView("pin_invalid", { failedPinAttempts, revoked: locked });
+
+        if (locked) {
+          return res.status(410).json({ status: "revoked", error: "Too many incorrect PINs - this share link has been revoked" });
+        }
+        return res.status(401).json({ status: "pin_invalid", error: "Incorrect PIN", attemptsRemaining: MAX_PIN_ATTEMPTS - failedPinAttempts });
+      }
+
+      const userAssessment = await storage.getUserAssessmentById(shareLink.userAssessmentId);
+      const assessment = userAssessment && await storage.getAssessment(userAssessment.assessmentId);
+      if (!userAssessment || !assessment) {
+        await auditView("not_found");
+        return res.status(404).json({ status: "not_found", error: "Shared assessment not found" });
+      }
+
+      const viewed = await storage.recordShareLinkView(shareLink.id);
+      await auditView("viewed", { scope: shareLink.scope, viewCount: viewed?.viewCount });
+
+      res.json(redactSharedAssessment(shareLink, userAssessment, assessment));
     } catch (error) {
       console.error("Error fetching shared assessment:", error);
       res.status(500).json({ error: "Failed to fetch shared assessment" });
@@ -1415,14 +2113,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Patient not found" });
       }
       
-      const daysSinceStart = user.createdAt ? 
-        Math.floor((Date.now() - new Date(user.createdAt).getTime()) / (1000 * 60 * 60 * 24)) + 1 : 1;
+      const timeline = await getUserRecoveryTimeline(user);
+      const daysSinceStart = timeline ? Math.max(1, timeline.postOpDay + 1) : 1;
       
       res.json({
         id: user.id,
         alias: user.firstName ? `${user.firstName} ${user.lastName?.charAt(0)}.` : `Patient ${user.code}`,
         injuryType: user.injuryType || 'General Recovery',
         daysSinceStart,
+        postOpDay: timeline?.postOpDay ?? null,
+        studyWeek: timeline?.studyWeek ?? null,
+        rehabPhase: timeline?.phase ?? null,
         accessCode: user.code
       });
     } catch (error) {
@@ -1458,8 +2159,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
           // Add DASH assessment reminder logic
       const today = new Date();
-      const recoveryStartDate = user.studyStartDate ? new Date(user.studyStartDate) : new Date(user.createdAt);
-      const daysSinceStart = Math.floor((today.getTime() - recoveryStartDate.getTime()) / (1000 * 60 * 60 * 24));
+      const timeline = await getUserRecoveryTimeline(user, today);
+      const daysSinceStart = Math.max(0, timeline?.postOpDay ?? 0);
       
       // Check for DASH assessments (weekly reminders)
       const dashAssessments = userAssessments.filter(ua => ua.assessmentId === 6); // DASH Survey ID
@@ -1546,9 +2247,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .sort((a, b) => new Date(b.completedAt!).getTime() - new Date(a.completedAt!).getTime())[0];
       
       // Get user to determine recovery start date
-      const user = await storage.getUserByCode('DEMO02'); // For now, using static code
-      const recoveryStartDate = user?.createdAt ? new Date(user.createdAt) : new Date();
-      const daysSinceStart = Math.floor((Date.now() - recoveryStartDate.getTime()) / (1000 * 60 * 60 * 24));
+      const user = await storage.getUser(userId);
+      const timeline = user ? await getUserRecoveryTimeline(user) : null;
+      const daysSinceStart = Math.max(0, timeline?.postOpDay ?? 0);
       
       let daysSinceLastDash = 0;
       if (lastDashAssessment) {
@@ -1598,9 +2299,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Dynamic streak calculation based on user's actual data
-      const recoveryStartDate = user.studyStartDate ? new Date(user.studyStartDate) : new Date(user.createdAt);
       const today = new Date();
-      const daysSinceRecovery = Math.max(0, Math.floor((today - recoveryStartDate) / (1000 * 60 * 60 * 24)));
+      const timeline = await getUserRecoveryTimeline(user, today);
+      const daysSinceRecovery = Math.max(0, timeline?.postOpDay ?? 0);
       
       // Get user's actual assessments to calculate real streaks
       const userAssessments = await storage.getUserAssessments(user.id);
@@ -1614,7 +2315,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Calculate streaks based on actual assessment completion dates
         const completionDates = completedAssessments
           .filter(ua => ua.completedAt)
-          .map(ua => new Date(ua.completedAt).toISOString().split('T')[0])
+          .map(ua => new Date(ua.completedAt!).toISOString().split('T')[0])
           .filter((date, index, array) => array.indexOf(date) === index) // Unique dates
           .sort((a, b) => new Date(b).getTime() - new Date(a).getTime()); // Most recent first
         
@@ -1623,7 +2324,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const todayStr = today.toISOString().split('T')[0];
         let checkDate = new Date(today);
         
-        for (let i = 0; i < 30; i++) { // Check last 30 days
+        // Check the last 30 days, never reaching back before recovery started
+        for (let i = 0; i < Math.min(30, daysSinceRecovery + 1); i++) {
           const dateStr = checkDate.toISOString().split('T')[0];
           if (completionDates.includes(dateStr)) {
             streak++;
@@ -1667,8 +2369,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const today = new Date(); // Use actual current date instead of hardcoded
 
       
-      // Fixed surgery/recovery start date for all users
-      const recoveryStartDate = new Date(2025, 5, 20); // June 20, 2025 (month is 0-indexed)
+      // Recovery start comes from the patient's surgery or enrollment date
+      const timeline = await getUserRecoveryTimeline(user, today);
       
       // Get actual assessments count
       const allAssessments = await storage.getAssessments();
@@ -1684,8 +2386,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         let status = 'future';
         let completedCount = 0;
+        const postOpDay = timeline ? calculatePostOpDay(timeline.startDate, date) : null;
         
-        if (date < recoveryStartDate) {
+        if (postOpDay !== null && postOpDay < 0) {
           // Before recovery started - no activity
           status = 'future';
           completedCount = 0;
@@ -1719,7 +2422,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           date: dateStr,
           status,
           completedAssessments: completedCount,
-          totalAssessments
+          totalAssessments,
+          postOpDay,
+          studyWeek: postOpDay !== null ? calculateStudyWeek(postOpDay) : null
         });
       }
 
@@ -1730,7 +2435,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/patients/:code/complete-assessment", async (req, res) => {
+  app.post("/api/patients/:code/complete-assessment", requireActiveAccessCode, async (req, res) => {
     try {
       const code = req.params.code;
       const { assessmentId } = req.body;
@@ -0,0 +1,116 @@
+import { randomBytes, createHash } from 'crypto';
+import type { Assessment, InsertShareLink, ShareLink, ShareLinkStatus, ShareScope, UserAssessment } from '@shared/schema';
+import { verifyPassword } from './auth';
+import { collectMotionFrames } from './assessment-scoring';
+
+// Share links for assessment results: opaque tokens stored as SHA-256 hashes, with an
+// expiry, optional view limit and PIN, and a scope deciding how much of the result a
+// viewer receives.
+
+// Wrong PINs allowed before the link is revoked
+export const MAX_PIN_ATTEMPTS = 5;
+
+// Legacy tokens never expired; once adopted they get the longest life a new link may have
+const LEGACY_LINK_DAYS = 90;
+
+// Storage methods legacy token adoption reads from and writes to
+export interface LegacyShareTokenSource {
+  getUserAssessmentByShareToken(shareToken: string): Promise<UserAssessment | undefined>;
+  updateUserAssessment(id: number, updates: Partial<UserAssessment>): Promise<UserAssessment | undefined>;
+  createShareLink(link: InsertShareLink): Promise<ShareLink>;
+}
+
+// Metrics a shared result may show; identifiers, raw ROM data and repetition data never leave
+const SUMMARY_FIELDS = [
+  'sessionNumber', 'completedAt', 'qualityScore', 'handType',
+  'totalActiveRom', 'maxMcpAngle', 'maxPipAngle', 'maxDipAngle',
+  'indexFingerRom', 'middleFingerRom', 'ringFingerRom', 'pinkyFingerRom',
+  'middleFingerMcp', 'middleFingerPip', 'middleFingerDip',
+  'ringFingerMcp', 'ringFingerPip', 'ringFingerDip',
+  'pinkyFingerMcp', 'pinkyFingerPip', 'pinkyFingerDip',
+  'wristFlexionAngle', 'wristExtensionAngle', 'maxWristFlexion', 'maxWristExtension',
+  'maxRadialDeviation', 'maxUlnarDeviation', 'kapandjiScore',
+  'dashScore', 'validationProfile'
+] as const satisfies readonly (keyof UserAssessment)[];
+
+export interface SharedAssessmentPayload {
+  scope: ShareScope;
+  expiresAt: Date;
+  assessment: { name: string; description: string };
+  result: Partial<Pick<UserAssessment, typeof SUMMARY_FIELDS[number]>>;
+  // Replay scope only: the recorded hand landmark frames
+  motionData?: any[];
+}
+
+export function generateShareToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function hashShareToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Tokens stored in plain text on userAssessments.shareToken before share links existed
+// (e.g. the demo share_wrist_123). The first visit turns one into a summary-scope share
+// link under the same URL and clears the plain token.
+export async function adoptLegacyShareToken(source: LegacyShareTokenSource, token: string): Promise<ShareLink | undefined> {
+  const userAssessment = await source.getUserAssessmentByShareToken(token);
+  if (!userAssessment) return undefined;
+
+  const link = await source.createShareLink({
+    userAssessmentId: userAssessment.id,
+    tokenHash: hashShareToken(token),
+    scope: 'summary',
+    pinHash: null,
+    expiresAt: new Date(Date.now() + LEGACY_LINK_DAYS * 24 * 60 * 60 * 1000),
+    maxViews: null
+  });
+  await source.updateUserAssessment(userAssessment.id, { shareToken: null });
+  return link;
+}
+
+export function shareLinkStatus(link: ShareLink, now: Date = new Date()): ShareLinkStatus {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt.getTime() <= now.getTime()) return 'expired';
+  if (link.maxViews !== null && (link.viewCount ?? 0) >= link.maxViews) return 'exhausted';
+  return 'active';
+}
+
+export async function verifySharePin(link: ShareLink, pin: string | undefined): Promise<boolean> {
+  return !link.pinHash || (!!pin && await verifyPassword(pin, link.pinHash));
+}
+
+// Link details safe to show the owner; never includes the token or PIN hashes
+export function describeShareLink(link: ShareLink) {
+  return {
+    id: link.id,
+    userAssessmentId: link.userAssessmentId,
+    scope: link.scope,
+    status: shareLinkStatus(link),
+    hasPin: !!link.pinHash,
+    expiresAt: link.expiresAt,
+    revokedAt: link.revokedAt,
+    maxViews: link.maxViews,
+    viewCount: link.viewCount ?? 0,
+    lastViewedAt: link.lastViewedAt,
+    createdAt: link.createdAt
+  };
+}
+
+export function redactSharedAssessment(link: ShareLink, userAssessment: UserAssessment, assessment: Assessment): SharedAssessmentPayload {
+  const result: SharedAssessmentPayload['result'] = {};
+  SUMMARY_FIELDS.forEach(field => {
+    (result as Record<string, unknown>)[field] = userAssessment[field];
+  });
+
+  const payload: SharedAssessmentPayload = {
+    scope: link.scope as ShareScope,
+    expiresAt: link.expiresAt,
+    assessment: { name: assessment.name, description: assessment.description },
+    result
+  };
+  if (link.scope === 'replay') {
+    payload.motionData = collectMotionFrames(userAssessment.repetitionData);
+  }
+  return payload;
+}
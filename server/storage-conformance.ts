@@ -0,0 +1,1017 @@
+// Storage conformance suite: runs the same scenarios against every IStorage backend
+// so local development (memory and file stores) behaves like production (Postgres).
+//
+//   npx tsx server/storage-conformance.ts              MemoryStorage, PersistentMemoryStorage, RecoveryStorage
+//   npx tsx server/storage-conformance.ts --database   also DatabaseStorage and RecoveryStorage against DATABASE_URL
+//
+// The --database run writes scenario rows to that database, so point it at a scratch copy.
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { normalRomRangesSchema, studyDataFiltersSchema, type StudyDataFilters } from '@shared/schema';
+import type { IStorage } from './storage';
+import { MemoryStorage } from './memory-storage';
+import { PersistentMemoryStorage } from './persistent-storage';
+import { RecoveryStorage } from './database-recovery';
+import { collectMotionFrames, rescoreUserAssessments } from './assessment-scoring';
+import { syncUserAssessment } from './patient-assessment-sync';
+import { contralateralComparison, referenceHandProblem } from './contralateral-baseline';
+import { normativeReferenceForPatient } from './normative-reference';
+import { reclassifyUserAssessmentsFrom, userAssessmentClinicalChange } from './clinical-change';
+import { detectUserAssessmentOutliers } from './outlier-detection';
+import { adoptLegacyShareToken, hashShareToken, shareLinkStatus } from './share-links';
+import { buildVisitSchedule, DEFAULT_VISIT_PROTOCOL, recordVisitAssessment } from './study-visit-scheduler';
+import { encodeRepetitionData } from '@shared/motion-frame-codec';
+import { DEFAULT_NORMATIVE_REFERENCE } from '@shared/normative-ranges';
+import type { ClinicalChange } from '@shared/clinical-change';
+
+interface ScenarioContext {
+  storage: IStorage;
+  // Reopens the same backing store, for backends that keep data across restarts
+  reopen?: () => Promise<IStorage>;
+}
+
+interface Scenario {
+  name: string;
+  run(context: ScenarioContext): Promise<void>;
+}
+
+interface Backend {
+  name: string;
+  open(): Promise<ScenarioContext>;
+  close?(): Promise<void>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Unique per run so scenarios never collide with existing rows or unique constraints
+const runId = Date.now().toString(36);
+let sequence = 0;
+const unique = (prefix: string) => `${prefix}-${runId}-${++sequence}`;
+const accessCode = () => String(100000 + ((Date.now() + ++sequence) % 900000));
+
+const filters = (values: Partial<StudyDataFilters> = {}) => studyDataFiltersSchema.parse(values);
+
+// Numeric columns come back from Postgres as strings
+const num = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+async function createClinician(storage: IStorage) {
+  const username = unique('clinician');
+  return storage.createClinicalUser({
+    username,
+    password: 'conformance-password',
+    email: `${username}@conformance.test`,
+    firstName: 'Conformance',
+    lastName: 'Clinician',
+    role: 'clinician'
+  });
+}
+
+async function createStudyPatient(storage: IStorage, cohortId: number, clinicianId?: number) {
+  return storage.createPatient({
+    patientId: unique('PT'),
+    alias: unique('Patient'),
+    cohortId,
+    assignedClinicianId: clinicianId,
+    injuryType: 'Carpal Tunnel'
+  });
+}
+
+async function createAssessmentType(storage: IStorage) {
+  return storage.createAssessmentType({
+    name: unique('TAM'),
+    description: 'Conformance assessment type',
+    duration: 10,
+    orderIndex: 99
+  });
+}
+
+const SCENARIOS: Scenario[] = [
+  {
+    name: 'clinical users hash passwords and authenticate',
+    async run({ storage }) {
+      const user = await createClinician(storage);
+      assert.notEqual(user.password, 'conformance-password');
+      assert.equal(user.isActive, true);
+
+      assert.equal((await storage.getClinicalUserByUsername(user.username))?.id, user.id);
+      assert.equal(await storage.authenticateClinicalUser(user.username, 'wrong-password'), null);
+
+      const authenticated = await storage.authenticateClinicalUser(user.username, 'conformance-password');
+      assert.equal(authenticated?.id, user.id);
+      assert.ok(authenticated?.lastLoginAt instanceof Date);
+
+      await storage.updateClinicalUser(user.id, { isActive: false });
+      assert.equal(await storage.authenticateClinicalUser(user.username, 'conformance-password'), null);
+    }
+  },
+  {
+    name: 'clinical sessions are found by refresh token and revoked',
+    async run({ storage }) {
+      const user = await createClinician(storage);
+      const refreshTokenHash = unique('refresh');
+      const session = await storage.createClinicalSession({
+        userId: user.id,
+        refreshTokenHash,
+        expiresAt: new Date(Date.now() + DAY_MS)
+      });
+      assert.equal(session.revokedAt, null);
+      assert.equal((await storage.getClinicalSessionByRefreshTokenHash(refreshTokenHash))?.id, session.id);
+
+      assert.equal(await storage.revokeClinicalSession(session.id), true);
+      assert.ok((await storage.getClinicalSession(session.id))?.revokedAt instanceof Date);
+      assert.equal(await storage.revokeClinicalSession(-1), false);
+    }
+  },
+  {
+    name: 'cohorts are created, updated and soft deleted',
+    async run({ storage }) {
+      const cohort = await storage.createCohort({ name: unique('Cohort'), description: 'Conformance cohort' });
+      assert.equal(cohort.isActive, true);
+      assert.ok(cohort.createdAt instanceof Date);
+      assert.ok((await storage.getCohorts()).some(c => c.id === cohort.id));
+
+      const protocol = { visits: [{ week: 0, windowDaysBefore: 1, windowDaysAfter: 1 }] };
+      assert.deepEqual((await storage.updateCohort(cohort.id, { visitProtocol: protocol }))?.visitProtocol, protocol);
+
+      assert.equal(await storage.deleteCohort(cohort.id), true);
+      assert.ok(!(await storage.getCohorts()).some(c => c.id === cohort.id));
+      assert.equal((await storage.getCohort(cohort.id))?.isActive, false);
+      assert.equal(await storage.deleteCohort(-1), false);
+    }
+  },
+  {
+    name: 'patients get access codes, details and soft deletes',
+    async run({ storage }) {
+      const clinician = await createClinician(storage);
+      const cohort = await storage.createCohort({ name: unique('Cohort'), description: 'Conformance cohort' });
+      const patient = await createStudyPatient(storage, cohort.id, clinician.id);
+
+      assert.match(patient.accessCode ?? '', /^\d{6}$/);
+      assert.equal(patient.enrollmentStatus, 'screening');
+      assert.equal(patient.status, 'stable');
+      assert.equal((await storage.getPatientByAccessCode(patient.accessCode!))?.id, patient.id);
+
+      const withCode = await storage.createPatient({ patientId: unique('PT'), alias: unique('Patient'), accessCode: accessCode() });
+      assert.equal((await storage.getPatientByAccessCode(withCode.accessCode!))?.id, withCode.id);
+
+      const details = await storage.getPatientWithDetails(patient.id);
+      assert.equal(details?.cohort?.id, cohort.id);
+      assert.equal(details?.assignedClinician?.id, clinician.id);
+      assert.equal(details?.lastAssessment, null);
+      assert.equal(Number(details?.assessmentCount), 0);
+
+      assert.ok((await storage.getPatients(clinician.id)).some(p => p.id === patient.id));
+      assert.equal((await storage.updatePatient(patient.id, { status: 'improving' }))?.status, 'improving');
+
+      assert.equal(await storage.deletePatient(patient.id), true);
+      assert.ok(!(await storage.getPatients(clinician.id)).some(p => p.id === patient.id));
+      assert.equal((await storage.getPatient(patient.id))?.isActive, false);
+    }
+  },
+  {
+    name: 'enrollment checks eligibility and records the cohort',
+    async run({ storage }) {
+      const cohort = await storage.createCohort({ name: unique('Cohort'), description: 'Conformance cohort' });
+      const otherCohort = await storage.createCohort({ name: unique('Cohort'), description: 'Conformance cohort' });
+      const patient = await createStudyPatient(storage, cohort.id);
+
+      assert.deepEqual(await storage.checkEligibility(-1, cohort.id), { eligible: false, reasons: ['Patient or cohort not found'], criteria: [] });
+      assert.equal((await storage.checkEligibility(patient.id, cohort.id)).eligible, true);
+
+      const enrolled = await storage.enrollPatient({ patientId: patient.id, cohortId: cohort.id, enrollmentStatus: 'enrolled' });
+      assert.equal(enrolled.enrolledInStudy, true);
+      assert.ok(enrolled.enrolledDate instanceof Date);
+
+      const elsewhere = await storage.checkEligibility(patient.id, otherCohort.id);
+      assert.deepEqual(elsewhere.reasons, ['Patient already enrolled in another study']);
+      await assert.rejects(storage.enrollPatient({ patientId: patient.id, cohortId: otherCohort.id, enrollmentStatus: 'enrolled' }));
+    }
+  },
+  {
+    name: 'cohort eligibility criteria report every rule',
+    async run({ storage }) {
+      const cohort = await storage.createCohort({
+        name: unique('Cohort'),
+        description: 'Conformance cohort',
+        eligibilityCriteria: {
+          rules: [
+            { type: 'inclusion', field: 'injuryType', values: ['Carpal Tunnel'] },
+            { type: 'exclusion', field: 'laterality', values: ['Bilateral'] },
+            { type: 'inclusion', field: 'daysSinceSurgery', max: 30 }
+          ]
+        }
+      });
+      const patient = await createStudyPatient(storage, cohort.id);
+
+      const unscreened = await storage.checkEligibility(patient.id, cohort.id);
+      assert.equal(unscreened.eligible, false);
+      assert.deepEqual(unscreened.criteria.map(c => c.passed), [true, true, true, false, false]);
+      assert.deepEqual(unscreened.reasons, ['Laterality not recorded', 'Surgery date not recorded']);
+
+      await storage.updatePatient(patient.id, { laterality: 'Right', surgeryDate: new Date(Date.now() - 10 * DAY_MS) });
+      assert.equal((await storage.checkEligibility(patient.id, cohort.id)).eligible, true);
+
+      await storage.updatePatient(patient.id, { laterality: 'Bilateral' });
+      assert.deepEqual((await storage.checkEligibility(patient.id, cohort.id)).reasons, ['Laterality Bilateral is excluded from this cohort']);
+      await assert.rejects(storage.enrollPatient({ patientId: patient.id, cohortId: cohort.id, enrollmentStatus: 'enrolled' }));
+
+      const excluded = await storage.enrollPatient({ patientId: patient.id, cohortId: cohort.id, enrollmentStatus: 'excluded', reason: 'Bilateral surgery' });
+      assert.equal(excluded.enrollmentStatus, 'excluded');
+      assert.equal(excluded.enrolledInStudy, false);
+    }
+  },
+  {
+    name: 'enrollment follows the lifecycle and keeps its history',
+    async run({ storage }) {
+      const clinician = await createClinician(storage);
+      const cohort = await storage.createCohort({ name: unique('Cohort'), description: 'Conformance cohort' });
+      const patient = await createStudyPatient(storage, cohort.id);
+      const enrollment = { patientId: patient.id, cohortId: cohort.id };
+
+      await assert.rejects(storage.enrollPatient({ ...enrollment, enrollmentStatus: 'withdrawn', reason: 'Moved away' }));
+      await storage.enrollPatient({ ...enrollment, enrollmentStatus: 'enrolled' }, clinician.id);
+      await assert.rejects(storage.enrollPatient({ ...enrollment, enrollmentStatus: 'withdrawn' }));
+
+      const withdrawn = await storage.enrollPatient({ ...enrollment, enrollmentStatus: 'withdrawn', reason: 'Moved away' }, clinician.id);
+      assert.equal(withdrawn.enrollmentStatus, 'withdrawn');
+      assert.equal(withdrawn.enrolledInStudy, false);
+      assert.equal(withdrawn.cohortId, cohort.id);
+      assert.ok(withdrawn.accessCodeDeactivatedAt instanceof Date);
+      await assert.rejects(storage.enrollPatient({ ...enrollment, enrollmentStatus: 'enrolled' }));
+
+      await storage.enrollPatient({ ...enrollment, enrollmentStatus: 'screening' }, clinician.id);
+      const reenrolled = await storage.enrollPatient({ ...enrollment, enrollmentStatus: 'enrolled' }, clinician.id);
+      assert.equal(reenrolled.accessCodeDeactivatedAt, null);
+
+      const events = await storage.getEnrollmentEvents(patient.id);
+      assert.deepEqual(events.map(e => `${e.fromStatus}>${e.toStatus}`), [
+        'screening>enrolled', 'enrolled>withdrawn', 'withdrawn>screening', 'screening>enrolled'
+      ]);
+      assert.equal(events[1].reason, 'Moved away');
+      assert.equal(events[1].performedBy, clinician.id);
+      assert.ok(events.every(e => e.createdAt instanceof Date));
+    }
+  },
+  {
+    name: 'patient assessments are listed, paged and summarised',
+    async run({ storage }) {
+      const clinician = await createClinician(storage);
+      const cohort = await storage.createCohort({ name: unique('Cohort'), description: 'Conformance cohort' });
+      const patient = await createStudyPatient(storage, cohort.id, clinician.id);
+      const type = await createAssessmentType(storage);
+
+      const baseline = await storage.createPatientAssessment({
+        patientId: patient.id, assessmentTypeId: type.id, clinicianId: clinician.id, tamScore: '180', studyWeek: 0, isCompleted: true
+      });
+      const followUp = await storage.createPatientAssessment({
+        patientId: patient.id, assessmentTypeId: type.id, clinicianId: clinician.id, tamScore: '220', studyWeek: 4, isCompleted: true
+      });
+      const pending = await storage.createPatientAssessment({
+        patientId: patient.id, assessmentTypeId: type.id, clinicianId: clinician.id
+      });
+      assert.equal(pending.isCompleted, false);
+      assert.equal(pending.missedVisit, false);
+      assert.ok(pending.assessmentDate instanceof Date);
+
+      await storage.updatePatientAssessment(baseline.id, { assessmentDate: new Date(Date.now() - 28 * DAY_MS) });
+      await storage.updatePatientAssessment(followUp.id, { assessmentDate: new Date(Date.now() - DAY_MS) });
+
+      const history = await storage.getPatientAssessments(patient.id);
+      assert.deepEqual(history.map(a => a.id), [pending.id, followUp.id, baseline.id]);
+      assert.equal((await storage.getPatientAssessments(patient.id, 1)).length, 1);
+      assert.deepEqual((await storage.getCohortAssessments(cohort.id)).map(a => a.id), [followUp.id, baseline.id]);
+
+      const page = await storage.queryPatientAssessments(filters({ patientId: patient.id, pageSize: 2, page: 2 }));
+      assert.equal(page.total, 3);
+      assert.equal(page.totalPages, 2);
+      assert.deepEqual(page.data.map(a => a.id), [baseline.id]);
+      assert.equal((await storage.queryPatientAssessments(filters({ patientId: patient.id, studyWeek: 4 }))).total, 1);
+
+      const { data: [outcome] } = await storage.getPatientOutcomes(filters({ patientId: patient.id }));
+      assert.equal(outcome.assessmentCount, 2);
+      assert.equal(outcome.baseline.tamScore, 180);
+      assert.equal(outcome.latest.tamScore, 220);
+    }
+  },
+  {
+    name: 'cohort analytics aggregate completed assessments',
+    async run({ storage }) {
+      const clinician = await createClinician(storage);
+      const cohort = await storage.createCohort({ name: unique('Cohort'), description: 'Conformance cohort' });
+      assert.equal(await storage.getCohortAnalytics(cohort.id), null);
+
+      const type = await createAssessmentType(storage);
+      for (const [tamScore, maxUlnarDeviation] of [['100', '30'], ['120', '36']]) {
+        const patient = await createStudyPatient(storage, cohort.id, clinician.id);
+        await storage.createPatientAssessment({
+          patientId: patient.id, assessmentTypeId: type.id, clinicianId: clinician.id, tamScore, maxUlnarDeviation, isCompleted: true
+        });
+      }
+
+      const analytics = await storage.getCohortAnalytics(cohort.id);
+      assert.equal(num(analytics?.patientCount), 2);
+      assert.equal(num(analytics?.avgTamScore), 110);
+      assert.ok(Math.abs(num(analytics?.stdDevTamScore)! - Math.sqrt(200)) < 0.01);
+      assert.equal(analytics?.avgKapandjiScore, null);
+      assert.equal(num(analytics?.avgUlnarDeviation), 33);
+      assert.equal(analytics?.avgRadialDeviation, null);
+    }
+  },
+  {
+    name: 'QuickDASH responses keep item and module answers per patient',
+    async run({ storage }) {
+      const cohort = await storage.createCohort({ name: unique('Cohort'), description: 'Conformance cohort' });
+      const patient = await createStudyPatient(storage, cohort.id);
+      const other = await createStudyPatient(storage, cohort.id);
+
+      const first = await storage.createQuickDashResponse({
+        patientId: patient.id,
+        postOpDay: 14,
+        studyWeek: 2,
+        q1_difficulty_opening_jar: 3,
+        q7_arm_shoulder_hand_pain: 4,
+        work1_usual_technique: 2,
+        totalScore: '52.5',
+        workModuleScore: '25'
+      });
+      await storage.createQuickDashResponse({ patientId: patient.id, postOpDay: 28, studyWeek: 4, totalScore: '25' });
+      await storage.createQuickDashResponse({ patientId: other.id, postOpDay: 7, studyWeek: 1, totalScore: '75' });
+
+      assert.equal(first.q2_difficulty_writing ?? null, null);
+      assert.ok(first.completedAt instanceof Date);
+
+      const responses = await storage.getQuickDashResponses(patient.id);
+      assert.deepEqual(responses.map(r => r.studyWeek), [2, 4]);
+      assert.equal(responses[0].q1_difficulty_opening_jar, 3);
+      assert.equal(Number(responses[0].totalScore), 52.5);
+      assert.equal(responses[0].work1_usual_technique, 2);
+      assert.equal(Number(responses[0].workModuleScore), 25);
+      assert.equal(responses[0].sportsArtsModuleScore ?? null, null);
+    }
+  },
+  {
+    name: 'study visits are scheduled, overdue and paged',
+    async run({ storage }) {
+      const cohort = await storage.createCohort({ name: unique('Cohort'), description: 'Conformance cohort' });
+      const patient = await createStudyPatient(storage, cohort.id);
+      const start = Date.now() - 14 * DAY_MS;
+
+      const visits = [];
+      for (const week of [2, 0, 1]) {
+        const scheduledDate = new Date(start + week * 7 * DAY_MS);
+        visits.push(await storage.createStudyVisit({
+          patientId: patient.id,
+          scheduledWeek: week,
+          scheduledDate,
+          windowStart: new Date(scheduledDate.getTime() - DAY_MS),
+          windowEnd: new Date(scheduledDate.getTime() + DAY_MS)
+        }));
+      }
+      assert.equal(visits[0].visitStatus, 'scheduled');
+      assert.deepEqual((await storage.getStudyVisits(patient.id)).map(v => v.scheduledWeek), [0, 1, 2]);
+
+      const overdue = (await storage.getOverdueStudyVisits(new Date())).filter(v => v.patientId === patient.id);
+      assert.deepEqual(overdue.map(v => v.scheduledWeek).sort(), [0, 1]);
+
+      await storage.updateStudyVisit(overdue[0].id, { visitStatus: 'missed' });
+      assert.equal((await storage.getOverdueStudyVisits(new Date())).filter(v => v.patientId === patient.id).length, 1);
+
+      const page = await storage.queryStudyVisits(filters({ patientId: patient.id, studyWeek: 2 }));
+      assert.equal(page.total, 1);
+      assert.equal(page.data[0].id, visits[0].id);
+    }
+  },
+  {
+    name: 'visit assessments complete open windows and never claim future visits',
+    async run({ storage }) {
+      const clinician = await createClinician(storage);
+      const cohort = await storage.createCohort({ name: unique('Cohort'), description: 'Conformance cohort' });
+      const type = await createAssessmentType(storage);
+      const scheduledPatient = async (surgeryDaysAgo: number) => {
+        const patient = await createStudyPatient(storage, cohort.id, clinician.id);
+        for (const visit of buildVisitSchedule(patient.id, new Date(Date.now() - surgeryDaysAgo * DAY_MS), DEFAULT_VISIT_PROTOCOL)) {
+          await storage.createStudyVisit(visit);
+        }
+        return patient;
+      };
+      // Windows open and close on UTC midnights
+      const [week0] = buildVisitSchedule(0, new Date('2025-03-10T22:30:00Z'), DEFAULT_VISIT_PROTOCOL);
+      assert.equal(week0.windowStart?.toISOString(), '2025-03-08T00:00:00.000Z');
+      assert.equal(week0.windowEnd?.toISOString(), '2025-03-12T23:59:59.999Z');
+      const assess = async (patientId: number) => {
+        const assessment = await storage.createPatientAssessment({
+          patientId, assessmentTypeId: type.id, clinicianId: clinician.id, isCompleted: true
+        });
+        const visit = await recordVisitAssessment(storage, assessment);
+        const [stored] = (await storage.getPatientAssessments(patientId, 100)).filter(a => a.id === assessment.id);
+        return { visit, missedVisit: stored?.missedVisit ?? false };
+      };
+      const statuses = async (patientId: number) => (await storage.getStudyVisits(patientId)).slice(0, 3).map(v => v.visitStatus);
+
+      // Surgery yesterday: the first session completes week 0, same-day extras attach to nothing
+      const recent = await scheduledPatient(1);
+      assert.equal((await assess(recent.id)).visit?.scheduledWeek, 0);
+      for (let i = 0; i < 2; i++) {
+        assert.deepEqual(await assess(recent.id), { visit: undefined, missedVisit: false });
+      }
+      assert.deepEqual(await statuses(recent.id), ['completed', 'scheduled', 'scheduled']);
+
+      // Day 10 falls between the week 1 and week 2 windows: a late week 1, never an early week 2
+      const late = await scheduledPatient(10);
+      const makeUp = await assess(late.id);
+      assert.equal(makeUp.visit?.scheduledWeek, 1);
+      assert.equal(makeUp.missedVisit, true);
+      assert.deepEqual(await statuses(late.id), ['missed', 'out_of_window', 'scheduled']);
+    }
+  },
+  {
+    name: 'outlier alerts are raised, escalated and resolved',
+    async run({ storage }) {
+      const cohort = await storage.createCohort({ name: unique('Cohort'), description: 'Conformance cohort' });
+      const patient = await createStudyPatient(storage, cohort.id);
+
+      const alert = await storage.createOutlierAlert({
+        patientId: patient.id, cohortId: cohort.id, alertType: 'deviation_below_mean', severity: 'warning', metric: 'TAM Score'
+      });
+      assert.equal(alert.isResolved, false);
+      assert.equal(alert.consecutiveOccurrences, 1);
+      assert.equal(alert.resolvedAt, null);
+
+      assert.equal((await storage.updateOutlierAlert(alert.id, { severity: 'critical', consecutiveOccurrences: 2 }))?.severity, 'critical');
+      assert.deepEqual((await storage.getOutlierAlerts(patient.id)).map(a => a.id), [alert.id]);
+
+      assert.equal(await storage.resolveOutlierAlert(alert.id), true);
+      assert.equal((await storage.getOutlierAlerts(patient.id)).length, 0);
+      const [resolved] = await storage.getOutlierAlerts(patient.id, true);
+      assert.equal(resolved.isResolved, true);
+      assert.ok(resolved.resolvedAt instanceof Date);
+    }
+  },
+  {
+    name: 'portal recordings raise TAM alerts only from TAM recordings',
+    async run({ storage }) {
+      const clinician = await createClinician(storage);
+      const cohort = await storage.createCohort({ name: unique('Cohort'), description: 'Conformance cohort' });
+      const type = await createAssessmentType(storage);
+      for (const tamScore of ['200', '210']) {
+        const peer = await createStudyPatient(storage, cohort.id, clinician.id);
+        await storage.createPatientAssessment({ patientId: peer.id, assessmentTypeId: type.id, clinicianId: clinician.id, tamScore, isCompleted: true });
+      }
+      const patient = await createStudyPatient(storage, cohort.id, clinician.id);
+      const user = await storage.createUser({ code: patient.accessCode! });
+      const assessments = await storage.getAssessments();
+      const kapandji = assessments.find(a => a.name === 'Kapandji Score')!;
+      const tam = assessments.find(a => a.name === 'TAM (Total Active Motion)')!;
+
+      // A Kapandji score of 8 in totalActiveRom is not a TAM of 8°
+      for (let i = 0; i < 3; i++) {
+        const recording = await storage.createUserAssessment({
+          userId: user.id, assessmentId: kapandji.id, isCompleted: true, completedAt: new Date(), totalActiveRom: '8', kapandjiScore: '8'
+        });
+        await detectUserAssessmentOutliers(storage, recording);
+      }
+      assert.equal((await storage.getOutlierAlerts(patient.id)).filter(a => a.metric === 'TAM Score').length, 0);
+
+      const low = await storage.createUserAssessment({
+        userId: user.id, assessmentId: tam.id, isCompleted: true, completedAt: new Date(), totalActiveRom: '100'
+      });
+      const [alert] = await detectUserAssessmentOutliers(storage, low);
+      assert.equal(alert?.metric, 'TAM Score');
+      assert.equal(alert?.severity, 'warning');
+    }
+  },
+  {
+    name: 'audit logs are recorded and listed newest first',
+    async run({ storage }) {
+      const user = await createClinician(storage);
+      const first = await storage.createAuditLog({ userId: user.id, action: 'patient_access', targetEntity: 'patient_id:1' });
+      const second = await storage.createAuditLog({ userId: user.id, action: 'data_export', details: { format: 'csv' } });
+      assert.ok(first.timestamp instanceof Date);
+
+      const logs = await storage.getAuditLogs(user.id);
+      assert.deepEqual(logs.map(log => log.id), [second.id, first.id]);
+      assert.deepEqual(logs[0].details, { format: 'csv' });
+      assert.equal((await storage.getAuditLogs(user.id, 1)).length, 1);
+    }
+  },
+  {
+    name: 'data exports are tracked by download url',
+    async run({ storage }) {
+      const user = await createClinician(storage);
+      const downloadUrl = `/api/exports/${unique('export')}/download`;
+      const dataExport = await storage.createDataExport({
+        requestedBy: user.id, exportType: 'patient_data', downloadUrl, expiresAt: new Date(Date.now() + DAY_MS)
+      });
+      assert.equal(dataExport.downloadedAt, null);
+      assert.equal((await storage.getDataExport(dataExport.id))?.downloadUrl, downloadUrl);
+      assert.equal((await storage.getDataExportByDownloadUrl(downloadUrl))?.id, dataExport.id);
+
+      const downloaded = await storage.updateDataExport(dataExport.id, { downloadedAt: new Date() });
+      assert.ok(downloaded?.downloadedAt instanceof Date);
+    }
+  },
+  {
+    name: 'clinical settings merge updates over defaults',
+    async run({ storage }) {
+      const user = await createClinician(storage);
+      const before = await storage.getClinicalSettings();
+      const updated = await storage.updateClinicalSettings({ outlierAlerts: !before.outlierAlerts }, user.id);
+      assert.equal(updated.outlierAlerts, !before.outlierAlerts);
+      assert.deepEqual(await storage.getClinicalSettings(), updated);
+      await storage.updateClinicalSettings({ outlierAlerts: before.outlierAlerts }, user.id);
+    }
+  },
+  {
+    name: 'legacy users and assessments',
+    async run({ storage }) {
+      const user = await storage.createUser({ code: accessCode(), injuryType: 'Trigger Finger' });
+      assert.equal(user.isFirstTime, true);
+      assert.equal((await storage.getUserByCode(user.code))?.id, user.id);
+      assert.equal((await storage.updateUser(user.id, { isFirstTime: false }))?.isFirstTime, false);
+
+      const assessments = await storage.getAssessments();
+      assert.ok(assessments.every(a => a.isActive));
+      const plan = await storage.getAssessmentsForInjury('Trigger Finger');
+      assert.deepEqual(plan.map(a => a.name), ['TAM (Total Active Motion)']);
+
+      const tam = plan[0];
+      const frames = [0, 33, 66].map(offset => ({
+        timestamp: 1700000000000 + offset,
+        landmarks: Array.from({ length: 21 }, (_, i) => ({ x: i / 20, y: offset / 100, z: -0.01 })),
+        handedness: 'LEFT'
+      }));
+      const repetitionData = encodeRepetitionData([{ repetition: 1, motionData: frames }]);
+      const userAssessment = await storage.createUserAssessment({ userId: user.id, assessmentId: tam.id, isCompleted: true, completedAt: new Date(), repetitionData, vasScoreBefore: 2, vasScoreAfter: 5, retakeCount: 1, retakeReasons: ['Ring finger was clearly visible in 40% of frames'] });
+      assert.equal(userAssessment.sessionNumber, 1);
+      assert.deepEqual([userAssessment.vasScoreBefore, userAssessment.vasScoreAfter], [2, 5]);
+      assert.equal(userAssessment.retakeCount, 1);
+      assert.deepEqual(userAssessment.retakeReasons, ['Ring finger was clearly visible in 40% of frames']);
+      assert.equal((await storage.getUserAssessment(user.id, tam.id))?.id, userAssessment.id);
+      // Encoded motion frames survive the store and decode back to the recorded frames
+      const stored = await storage.getUserAssessmentById(userAssessment.id);
+      assert.deepEqual(collectMotionFrames(stored?.repetitionData), frames);
+      await storage.createUserAssessment({ userId: user.id, assessmentId: tam.id });
+      assert.deepEqual((await storage.getCompletedUserAssessments({ userId: user.id })).map(ua => ua.id), [userAssessment.id]);
+      assert.deepEqual(await storage.getCompletedUserAssessments({ ids: [] }), []);
+
+      await storage.resetUserAssessments(user.id);
+      assert.deepEqual(await storage.getUserAssessments(user.id), []);
+    }
+  },
+  {
+    name: 'rescoring a TAM recording recomputes its total from the frames',
+    async run({ storage }) {
+      const user = await storage.createUser({ code: accessCode(), injuryType: 'Trigger Finger' });
+      const [tam] = await storage.getAssessmentsForInjury('Trigger Finger');
+      // The index finger curls a little further each frame; every landmark is clearly visible
+      const curledHand = (curl: number) => {
+        const landmarks = Array.from({ length: 21 }, (_, i) => ({ x: 0.5, y: 0.9 - i * 0.02, z: 0, visibility: 1 }));
+        let x = 0.5, y = 0.6, heading = -Math.PI / 2;
+        landmarks[0] = { x: 0.5, y: 0.9, z: 0, visibility: 1 };
+        landmarks[5] = { x, y, z: 0, visibility: 1 };
+        [6, 7, 8].forEach(i => {
+          heading += curl;
+          x += 0.05 * Math.cos(heading);
+          y += 0.05 * Math.sin(heading);
+          landmarks[i] = { x, y, z: 0, visibility: 1 };
+        });
+        return landmarks;
+      };
+      const frames = [0, 0.1, 0.2, 0.3, 0.4].map((curl, i) => ({ timestamp: 1700000000000 + i * 33, landmarks: curledHand(curl) }));
+      const recorded = await storage.createUserAssessment({
+        userId: user.id, assessmentId: tam.id, isCompleted: true, completedAt: new Date(), totalActiveRom: '30',
+        repetitionData: encodeRepetitionData([{ repetition: 1, motionData: frames }])
+      });
+
+      const [result] = await rescoreUserAssessments(storage, { userAssessmentIds: [recorded.id], onlyOutdated: false, apply: true });
+      const total = result.changes.find(change => change.metric === 'totalActiveRom');
+      const indexFinger = result.changes.find(change => change.metric === 'indexFingerRom');
+      assert.equal(total?.previous, 30);
+      assert.ok(total?.current && total.current > 30);
+      assert.equal(total.current, indexFinger?.current);
+      assert.equal((await storage.getUserAssessmentById(recorded.id))?.totalActiveRom, String(total.current));
+    }
+  },
+  {
+    name: 'portal recordings sync into patient assessments',
+    async run({ storage }) {
+      const clinician = await createClinician(storage);
+      const cohort = await storage.createCohort({ name: unique('Cohort'), description: 'Conformance cohort' });
+      const patient = await storage.updatePatient((await createStudyPatient(storage, cohort.id, clinician.id)).id, { accessCode: accessCode() });
+      const user = await storage.createUser({ code: patient!.accessCode! });
+      const tam = (await storage.getAssessments()).find(a => a.name === 'TAM (Total Active Motion)')!;
+
+      const userAssessment = await storage.createUserAssessment({
+        userId: user.id, assessmentId: tam.id, isCompleted: true, completedAt: new Date(),
+        totalActiveRom: '210', maxMcpAngle: '80', middleFingerPip: '95', qualityScore: 88, vasScoreAfter: 4, retakeCount: 1
+      });
+      const created = await syncUserAssessment(storage, userAssessment);
+      assert.equal(created.status, 'created');
+      const synced = await storage.getPatientAssessmentByUserAssessmentId(userAssessment.id);
+      assert.equal(synced?.id, created.patientAssessmentId);
+      assert.equal(synced?.patientId, patient!.id);
+      assert.equal(synced?.clinicianId, clinician.id);
+      assert.deepEqual([num(synced?.tamScore), num(synced?.indexMcp), num(synced?.middlePip), num(synced?.deviceConfidenceScore)], [210, 80, 95, 88]);
+      assert.deepEqual([synced?.vasScore, synced?.retakeFlag, synced?.isCompleted], [4, true, true]);
+      assert.ok(synced?.assessmentDate instanceof Date);
+      assert.equal((await syncUserAssessment(storage, userAssessment)).status, 'unchanged');
+
+      const rescored = await storage.updateUserAssessment(userAssessment.id, { totalActiveRom: '215' });
+      assert.equal((await syncUserAssessment(storage, rescored!)).status, 'updated');
+      assert.equal(num((await storage.getPatientAssessment(synced!.id))?.tamScore), 215);
+      assert.equal((await storage.getPatientAssessments(patient!.id)).length, 1);
+
+      // Kapandji and deviation maxima land in their own clinical columns
+      const kapandji = (await storage.getAssessments()).find(a => a.name === 'Kapandji Score')!;
+      const deviation = (await storage.getAssessments()).find(a => a.name === 'Wrist Radial/Ulnar Deviation')!;
+      const opposition = await storage.createUserAssessment({
+        userId: user.id, assessmentId: kapandji.id, isCompleted: true, completedAt: new Date(), kapandjiScore: '8', totalActiveRom: '8'
+      });
+      const radialUlnar = await storage.createUserAssessment({
+        userId: user.id, assessmentId: deviation.id, isCompleted: true, completedAt: new Date(), maxRadialDeviation: '18.5', maxUlnarDeviation: '27.25'
+      });
+      assert.deepEqual([num(opposition.kapandjiScore), num(radialUlnar.maxRadialDeviation), num(radialUlnar.maxUlnarDeviation)], [8, 18.5, 27.25]);
+      await syncUserAssessment(storage, opposition);
+      await syncUserAssessment(storage, radialUlnar);
+      const syncedKapandji = await storage.getPatientAssessmentByUserAssessmentId(opposition.id);
+      const syncedDeviation = await storage.getPatientAssessmentByUserAssessmentId(radialUlnar.id);
+      assert.deepEqual([num(syncedKapandji?.kapandjiScore), syncedKapandji?.tamScore ?? null], [8, null]);
+      assert.deepEqual([num(syncedDeviation?.maxRadialDeviation), num(syncedDeviation?.maxUlnarDeviation)], [18.5, 27.25]);
+
+      const unlinked = await storage.createUser({ code: accessCode() });
+      const home = await storage.createUserAssessment({ userId: unlinked.id, assessmentId: tam.id, isCompleted: true, completedAt: new Date() });
+      assert.equal((await syncUserAssessment(storage, home)).status, 'skipped');
+
+      // Resetting the portal history keeps the clinical record and drops the link
+      await storage.resetUserAssessments(user.id);
+      const kept = await storage.getPatientAssessment(synced!.id);
+      assert.equal(kept?.userAssessmentId, null);
+      assert.equal(await storage.getPatientAssessmentByUserAssessmentId(userAssessment.id), undefined);
+    }
+  },
+  {
+    name: 'portal recordings only complete study visits whose window is open',
+    async run({ storage }) {
+      const clinician = await createClinician(storage);
+      const cohort = await storage.createCohort({ name: unique('Cohort'), description: 'Conformance cohort' });
+      const tam = (await storage.getAssessments()).find(a => a.name === 'TAM (Total Active Motion)')!;
+      const recordAtHome = async (surgeryDaysAgo: number, sessions: number) => {
+        const patient = await storage.updatePatient((await createStudyPatient(storage, cohort.id, clinician.id)).id, { accessCode: accessCode() });
+        for (const visit of buildVisitSchedule(patient!.id, new Date(Date.now() - surgeryDaysAgo * DAY_MS), DEFAULT_VISIT_PROTOCOL)) {
+          await storage.createStudyVisit(visit);
+        }
+        const user = await storage.createUser({ code: patient!.accessCode! });
+        for (let i = 0; i < sessions; i++) {
+          await syncUserAssessment(storage, await storage.createUserAssessment({
+            userId: user.id, assessmentId: tam.id, isCompleted: true, completedAt: new Date(), totalActiveRom: '200'
+          }));
+        }
+        const visits = await storage.getStudyVisits(patient!.id);
+        const assessments = await storage.getPatientAssessments(patient!.id, 100);
+        return { statuses: visits.slice(0, 3).map(v => v.visitStatus), missedVisit: assessments.some(a => a.missedVisit) };
+      };
+
+      assert.deepEqual(await recordAtHome(0, 3), { statuses: ['completed', 'scheduled', 'scheduled'], missedVisit: false });
+      // Between windows a home recording neither makes up week 1 nor claims week 2
+      assert.deepEqual(await recordAtHome(10, 1), { statuses: ['missed', 'missed', 'scheduled'], missedVisit: false });
+    }
+  },
+  {
+    name: 'questionnaire schedules and responses',
+    async run({ storage }) {
+      const injuryType = unique('Injury');
+      const schedule = await storage.createQuestionnaireSchedule({ injuryType, questionnaireId: 'prwe', frequency: 'weekly' });
+      await storage.createQuestionnaireSchedule({ injuryType: unique('Injury'), questionnaireId: 'bctq', frequency: 'biweekly' });
+      assert.equal(schedule.isActive, true);
+      assert.deepEqual((await storage.getQuestionnaireSchedules(injuryType)).map(s => s.id), [schedule.id]);
+      assert.ok((await storage.getQuestionnaireSchedules()).some(s => s.id === schedule.id));
+      assert.equal((await storage.updateQuestionnaireSchedule(schedule.id, { isActive: false }))?.isActive, false);
+
+      const user = await storage.createUser({ code: accessCode(), injuryType });
+      const first = await storage.createQuestionnaireResponse({
+        userId: user.id,
+        questionnaireId: 'prwe',
+        answers: { pain1_at_rest: 3 },
+        scores: { pain: 15, function: 10 },
+        totalScore: '25',
+        postOpDay: 14
+      });
+      await storage.createQuestionnaireResponse({ userId: user.id, questionnaireId: 'bctq', answers: {}, scores: { symptomSeverity: 2.5 } });
+      await storage.createQuestionnaireResponse({ userId: user.id, questionnaireId: 'prwe', answers: {}, scores: { pain: 5, function: 4 }, totalScore: '9' });
+
+      assert.ok(first.completedAt instanceof Date);
+      assert.equal(first.patientId ?? null, null);
+      const prwe = await storage.getQuestionnaireResponses(user.id, 'prwe');
+      assert.deepEqual(prwe.map(r => Number(r.totalScore)), [25, 9]);
+      assert.deepEqual(prwe[0].scores, { pain: 15, function: 10 });
+      assert.equal((await storage.getQuestionnaireResponses(user.id)).length, 3);
+    }
+  },
+  {
+    name: 'share links count views, revoke and go with their assessment',
+    async run({ storage }) {
+      const user = await storage.createUser({ code: accessCode(), injuryType: 'Trigger Finger' });
+      const [tam] = await storage.getAssessmentsForInjury('Trigger Finger');
+      const userAssessment = await storage.createUserAssessment({ userId: user.id, assessmentId: tam.id, isCompleted: true });
+
+      const tokenHash = unique('share');
+      const link = await storage.createShareLink({ userAssessmentId: userAssessment.id, tokenHash, expiresAt: new Date(Date.now() + DAY_MS) });
+      assert.equal(link.scope, 'summary');
+      assert.equal(link.viewCount, 0);
+      assert.equal(link.revokedAt, null);
+      assert.equal((await storage.getShareLinkByTokenHash(tokenHash))?.id, link.id);
+
+      const second = await storage.createShareLink({ userAssessmentId: userAssessment.id, tokenHash: unique('share'), scope: 'replay', expiresAt: new Date(Date.now() + DAY_MS) });
+      assert.deepEqual((await storage.getShareLinks(userAssessment.id)).map(l => l.id), [second.id, link.id]);
+
+      await storage.recordShareLinkView(link.id);
+      const viewed = await storage.recordShareLinkView(link.id);
+      assert.equal(viewed?.viewCount, 2);
+      assert.ok(viewed?.lastViewedAt instanceof Date);
+
+      assert.equal(await storage.revokeShareLink(link.id), true);
+      assert.ok((await storage.getShareLink(link.id))?.revokedAt instanceof Date);
+
+      await storage.resetUserAssessments(user.id);
+      assert.deepEqual(await storage.getShareLinks(userAssessment.id), []);
+    }
+  },
+  {
+    name: 'legacy share tokens become share links on first use',
+    async run({ storage }) {
+      const user = await storage.createUser({ code: accessCode(), injuryType: 'Trigger Finger' });
+      const [tam] = await storage.getAssessmentsForInjury('Trigger Finger');
+      const token = unique('share_legacy');
+      const userAssessment = await storage.updateUserAssessment(
+        (await storage.createUserAssessment({ userId: user.id, assessmentId: tam.id, isCompleted: true })).id,
+        { shareToken: token }
+      );
+      assert.equal((await storage.getUserAssessmentByShareToken(token))?.id, userAssessment!.id);
+
+      const adopted = await adoptLegacyShareToken(storage, token);
+      assert.equal(adopted?.userAssessmentId, userAssessment!.id);
+      assert.equal(adopted?.scope, 'summary');
+      assert.equal(shareLinkStatus(adopted!), 'active');
+      assert.equal((await storage.getShareLinkByTokenHash(hashShareToken(token)))?.id, adopted?.id);
+
+      // The plain token is gone, so it is adopted only once
+      assert.equal((await storage.getUserAssessmentById(userAssessment!.id))?.shareToken, null);
+      assert.equal(await adoptLegacyShareToken(storage, token), undefined);
+    }
+  },
+  {
+    name: 'contralateral baselines compare the injured hand with the newest reference',
+    async run({ storage }) {
+      const cohort = await storage.createCohort({ name: unique('Cohort'), description: 'Conformance cohort' });
+      const patient = await storage.updatePatient((await createStudyPatient(storage, cohort.id)).id, { accessCode: accessCode(), laterality: 'Right' });
+      const user = await storage.createUser({ code: patient!.accessCode! });
+      const wrist = (await storage.getAssessments()).find(a => a.name === 'Wrist Flexion/Extension')!;
+      const injured = await storage.createUserAssessment({
+        userId: user.id, assessmentId: wrist.id, isCompleted: true, handType: 'RIGHT', maxWristFlexion: '45', maxWristExtension: '30'
+      });
+      assert.equal(await storage.getContralateralBaseline(user.id, wrist.id), undefined);
+      assert.equal((await contralateralComparison(storage, injured)).unavailableReason, 'No recording of the uninjured hand yet');
+
+      const first = await storage.createContralateralBaseline({ userId: user.id, assessmentId: wrist.id, handType: 'LEFT', maxWristFlexion: '70', maxWristExtension: '60' });
+      assert.ok(first.recordedAt instanceof Date);
+      const latest = await storage.createContralateralBaseline({ userId: user.id, assessmentId: wrist.id, handType: 'LEFT', maxWristFlexion: '75', maxWristExtension: '60' });
+      assert.equal((await storage.getContralateralBaseline(user.id, wrist.id))?.id, latest.id);
+
+      const comparison = await contralateralComparison(storage, injured);
+      assert.equal(comparison.injuredHand, 'RIGHT');
+      assert.equal(comparison.baseline?.id, latest.id);
+      assert.deepEqual(
+        comparison.comparisons.map(c => [c.metric, c.injured, c.contralateral, c.percentOfContralateral]),
+        [['maxWristFlexion', 45, 75, 60], ['maxWristExtension', 30, 60, 50]]
+      );
+      // Baselines are not sessions
+      assert.deepEqual((await storage.getUserAssessments(user.id)).map(ua => ua.id), [injured.id]);
+
+      // Only a recording confirmed on the uninjured hand can become the reference
+      assert.equal(await referenceHandProblem(storage, user.id, 'LEFT'), null);
+      assert.ok(await referenceHandProblem(storage, user.id, 'UNKNOWN'));
+      assert.ok(await referenceHandProblem(storage, user.id, 'RIGHT'));
+      const unknownHand = await storage.createUserAssessment({
+        userId: user.id, assessmentId: wrist.id, isCompleted: true, handType: 'UNKNOWN', maxWristFlexion: '50', maxWristExtension: '35'
+      });
+      const unverified = await contralateralComparison(storage, unknownHand);
+      assert.deepEqual(unverified.comparisons, []);
+      assert.equal(unverified.unavailableReason, 'The hand used for this result or the reference is not known');
+
+      await storage.resetUserAssessments(user.id);
+      assert.equal(await storage.getContralateralBaseline(user.id, wrist.id), undefined);
+    }
+  },
+  {
+    name: 'cohort normal ROM ranges resolve by age group and sex',
+    async run({ storage }) {
+      const clinician = await createClinician(storage);
+      const cohort = await storage.createCohort({
+        name: unique('Cohort'),
+        description: 'Conformance cohort',
+        normalRomRanges: normalRomRangesSchema.parse({
+          ranges: [
+            { joint: 'tam', ageGroup: '56-65', sex: 'F', normal: 180, functional: 135, minimum: 90 },
+            { joint: 'tam', ageGroup: '56-65', normal: 200, functional: 150, minimum: 100 },
+            { joint: 'tam', normal: 240, functional: 180, minimum: 120 },
+            { joint: 'wristFlexion', sex: 'M', normal: 85, functional: 65, minimum: 35 }
+          ]
+        })
+      });
+      const patient = await storage.updatePatient((await createStudyPatient(storage, cohort.id, clinician.id)).id, {
+        accessCode: accessCode(), ageGroup: '56-65', sex: 'F'
+      });
+      const reference = await normativeReferenceForPatient(storage, patient);
+      assert.deepEqual(reference.tam, { normal: 180, functional: 135, minimum: 90 });
+      assert.deepEqual(reference.wristFlexion, DEFAULT_NORMATIVE_REFERENCE.wristFlexion);
+      assert.equal((await normativeReferenceForPatient(storage, { ...patient!, ageGroup: '18-25' })).tam.normal, 240);
+      assert.deepEqual(await normativeReferenceForPatient(storage, { cohortId: null, ageGroup: '56-65', sex: 'F' }), DEFAULT_NORMATIVE_REFERENCE);
+
+      // The clinical copy is scored against the patient's own norm
+      const user = await storage.createUser({ code: patient!.accessCode! });
+      const tam = (await storage.getAssessments()).find(a => a.name === 'TAM (Total Active Motion)')!;
+      const userAssessment = await storage.createUserAssessment({ userId: user.id, assessmentId: tam.id, isCompleted: true, completedAt: new Date(), totalActiveRom: '90' });
+      await syncUserAssessment(storage, userAssessment);
+      assert.equal(num((await storage.getPatientAssessmentByUserAssessmentId(userAssessment.id))?.percentOfNormalRom), 50);
+    }
+  },
+  {
+    name: 'assessments are classified against baseline and previous session by MCID',
+    async run({ storage }) {
+      const clinician = await createClinician(storage);
+      const cohort = await storage.createCohort({ name: unique('Cohort'), description: 'Conformance cohort' });
+      const patient = await createStudyPatient(storage, cohort.id, clinician.id);
+      const user = await storage.createUser({ code: patient.accessCode! });
+      const tam = (await storage.getAssessments()).find(a => a.name === 'TAM (Total Active Motion)')!;
+
+      const sessions = [
+        { daysAgo: 20, index: '150', middle: '200', total: '130' },
+        { daysAgo: 10, index: '160', middle: '200', total: '156' },
+        { daysAgo: 0, index: '185', middle: '170', total: '182' }
+      ];
+      const recorded = [];
+      for (const session of sessions) {
+        const userAssessment = await storage.createUserAssessment({
+          userId: user.id, assessmentId: tam.id, isCompleted: true,
+          completedAt: new Date(Date.now() - session.daysAgo * DAY_MS),
+          indexFingerRom: session.index, middleFingerRom: session.middle, totalActiveRom: session.total
+        });
+        await syncUserAssessment(storage, userAssessment);
+        recorded.push(userAssessment);
+      }
+      const latest = recorded[recorded.length - 1];
+      const clinical = await storage.getPatientAssessmentByUserAssessmentId(latest.id);
+      const byMetric = (change: unknown, metric: string) => (change as ClinicalChange).find(c => c.metric === metric);
+
+      // +35° since baseline and +25° since the last session both clear the 20° MCID
+      assert.equal(byMetric(clinical?.clinicalChange, 'indexFingerTam')?.vsBaseline, 'improved');
+      assert.equal(byMetric(clinical?.clinicalChange, 'indexFingerTam')?.vsPrevious, 'improved');
+      assert.equal(byMetric(clinical?.clinicalChange, 'middleFingerTam')?.vsBaseline, 'worsened');
+      assert.equal(byMetric(clinical?.clinicalChange, 'ringFingerTam'), undefined);
+      assert.equal(num(clinical?.changeFromBaseline), 20);
+      const second = await storage.getPatientAssessmentByUserAssessmentId(recorded[1].id);
+      assert.equal(byMetric(second?.clinicalChange, 'indexFingerTam')?.vsBaseline, 'no_change');
+      const first = await storage.getPatientAssessmentByUserAssessmentId(recorded[0].id);
+      assert.equal(byMetric(first?.clinicalChange, 'indexFingerTam')?.vsBaseline, null);
+
+      // Portal sessions are compared with the user's own earlier sessions the same way
+      const portal = await userAssessmentClinicalChange(storage, 'tam', latest);
+      assert.equal(byMetric(portal, 'indexFingerTam')?.vsPrevious, 'improved');
+
+      // A clinic MCID above the gain turns it into no change
+      const before = await storage.getClinicalSettings();
+      await storage.updateClinicalSettings({ clinicalChangeThresholds: { indexFingerTam: { mcid: 40 } } }, clinician.id);
+      try {
+        await syncUserAssessment(storage, latest);
+        const reclassified = await storage.getPatientAssessmentByUserAssessmentId(latest.id);
+        assert.equal(reclassified?.id, clinical?.id);
+        assert.equal(byMetric(reclassified?.clinicalChange, 'indexFingerTam')?.vsBaseline, 'no_change');
+      } finally {
+        await storage.updateClinicalSettings({ clinicalChangeThresholds: before.clinicalChangeThresholds }, clinician.id);
+      }
+
+      // Re-scoring the baseline to 170° leaves the latest session only 15° above it
+      const rescoredBaseline = await storage.updateUserAssessment(recorded[0].id, { indexFingerRom: '170' });
+      const resaved = await reclassifyUserAssessmentsFrom(storage, 'tam', rescoredBaseline!);
+      assert.deepEqual(resaved.map(ua => ua.id), recorded.map(ua => ua.id));
+      const latestPortal = await storage.getUserAssessmentById(latest.id);
+      assert.equal(byMetric(latestPortal?.clinicalChange, 'indexFingerTam')?.vsBaseline, 'no_change');
+      assert.equal(byMetric(latestPortal?.clinicalChange, 'indexFingerTam')?.vsPrevious, 'improved');
+      for (const userAssessment of resaved) await syncUserAssessment(storage, userAssessment);
+      const latestClinical = await storage.getPatientAssessmentByUserAssessmentId(latest.id);
+      assert.equal(byMetric(latestClinical?.clinicalChange, 'indexFingerTam')?.vsBaseline, 'no_change');
+    }
+  },
+  {
+    name: 'patient dashboard follows the linked legacy user',
+    async run({ storage }) {
+      const cohort = await storage.createCohort({ name: unique('Cohort'), description: 'Conformance cohort' });
+      const patient = await createStudyPatient(storage, cohort.id);
+      const user = await storage.createUser({ code: patient.accessCode!, injuryType: patient.injuryType });
+      const [tam] = await storage.getAssessmentsForInjury('Trigger Finger');
+      await storage.createUserAssessment({ userId: user.id, assessmentId: tam.id, isCompleted: true, completedAt: new Date(), qualityScore: 90 });
+
+      const { patients } = await storage.getPatientDashboardData();
+      const entry = patients.find(p => p.id === patient.id);
+      assert.equal(entry?.assessmentsCompleted, 1);
+      assert.equal(entry?.lastAssessmentType, tam.name);
+      assert.equal(entry?.status, 'Active');
+
+      const [history] = await storage.getPatientAssessmentHistory(patient.id);
+      assert.equal(history.name, tam.name);
+      assert.equal(history.score, 90);
+
+      const metrics = await storage.getDashboardMetrics();
+      assert.ok(metrics.totalPatients >= 1 && metrics.activePatients >= 1);
+    }
+  },
+  {
+    name: 'data survives a restart',
+    async run({ storage, reopen }) {
+      if (!reopen) return;
+      const cohort = await storage.createCohort({ name: unique('Cohort'), description: 'Conformance cohort' });
+      const patient = await createStudyPatient(storage, cohort.id);
+
+      const reopened = await reopen();
+      const restored = await reopened.getPatient(patient.id);
+      assert.equal(restored?.alias, patient.alias);
+      assert.ok(restored?.createdAt instanceof Date);
+
+      // Ids keep counting from the restored rows
+      const next = await createStudyPatient(reopened, cohort.id);
+      assert.ok(next.id > patient.id);
+    }
+  }
+];
+
+function backends(includeDatabase: boolean): Backend[] {
+  const dataFile = path.join(os.tmpdir(), `storage-conformance-${runId}.json`);
+  const openFileStore = async () => {
+    const storage = new PersistentMemoryStorage(dataFile);
+    await storage.ready;
+    return storage;
+  };
+
+  const list: Backend[] = [
+    { name: 'MemoryStorage', open: async () => ({ storage: new MemoryStorage() }) },
+    {
+      name: 'PersistentMemoryStorage',
+      open: async () => ({ storage: await openFileStore(), reopen: openFileStore }),
+      close: () => fs.rm(dataFile, { force: true })
+    },
+    {
+      name: includeDatabase ? 'RecoveryStorage (database)' : 'RecoveryStorage (memory fallback)',
+      open: async () => {
+        const storage = new RecoveryStorage();
+        await storage.ready;
+        return { storage };
+      }
+    }
+  ];
+
+  if (includeDatabase) {
+    list.push({
+      name: 'DatabaseStorage',
+      open: async () => {
+        const { DatabaseStorage } = await import('./storage');
+        return { storage: new DatabaseStorage() };
+      }
+    });
+  }
+  return list;
+}
+
+async function main() {
+  const includeDatabase = process.argv.includes('--database');
+  if (includeDatabase && !process.env.DATABASE_URL) {
+    console.error('--database needs DATABASE_URL to be set');
+    process.exit(1);
+  }
+  // Keep the recovery backend off a configured database unless it was asked for
+  if (!includeDatabase) delete process.env.DATABASE_URL;
+
+  let failures = 0;
+  for (const backend of backends(includeDatabase)) {
+    console.log(`\n${backend.name}`);
+    try {
+      for (const scenario of SCENARIOS) {
+        try {
+          await scenario.run(await backend.open());
+          console.log(`  ✓ ${scenario.name}`);
+        } catch (error) {
+          failures++;
+          console.log(`  ✗ ${scenario.name}\n      ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    } finally {
+      await backend.close?.();
+    }
+  }
+
+  console.log(failures === 0 ? '\nAll storage backends conform' : `\n${failures} scenario(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
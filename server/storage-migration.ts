@@ -0,0 +1,392 @@
+// Storage migration: copies records between the JSON file store and Postgres, in either
+// direction, remapping ids so foreign keys stay intact in the target.
+//
+//   npx tsx server/storage-migration.ts data/storage.json database            file store -> Postgres
+//   npx tsx server/storage-migration.ts database snapshots/demo.json          Postgres -> JSON archive
+//   npx tsx server/storage-migration.ts data/storage.json database --dry-run  report only, write nothing
+//
+// Records are matched on natural keys (clinician username, cohort and assessment name,
+// user code, external patient id, share token, visit week, or owner and timestamp for
+// recorded events), so re-running a migration only adds what is missing. Clinical
+// sessions, audit logs and exports stay behind. A JSON target keeps the storage.json layout, so an archive
+// can be served directly by PersistentMemoryStorage. Stop the app before migrating
+// into its own data file - the running store would overwrite the result.
+import fs from 'fs/promises';
+import path from 'path';
+import { getTableColumns, TransactionRollbackError } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import {
+  assessments,
+  assessmentTypes,
+  clinicalUsers,
+  cohorts,
+  contralateralBaselines,
+  enrollmentEvents,
+  outlierAlerts,
+  patientAssessments,
+  patients,
+  questionnaireResponses,
+  shareLinks,
+  studyVisits,
+  userAssessments,
+  users
+} from '@shared/schema';
+import { MemoryTable } from './memory-storage';
+import { reviveDates } from './persistent-storage';
+
+type Row = { id: number; [key: string]: any };
+
+type MigratedTable =
+  | 'clinicalUsers' | 'cohorts' | 'assessments' | 'assessmentTypes' | 'users' | 'patients' | 'userAssessments'
+  | 'patientAssessments' | 'studyVisits' | 'outlierAlerts' | 'enrollmentEvents' | 'questionnaireResponses'
+  | 'shareLinks' | 'contralateralBaselines';
+
+type Snapshot = Record<MigratedTable, Row[]>;
+
+interface TableSpec {
+  key: MigratedTable;
+  table: PgTable;
+  // Identifies the same record in source and target, read after foreign keys are remapped
+  naturalKey(row: Row): string | null;
+  // Foreign key columns and the table they point at; rows missing a required parent are skipped
+  references?: Record<string, { table: MigratedTable; required: boolean }>;
+  // Unique columns besides the natural key; a clash with a different target row skips the row
+  uniqueColumns?: string[];
+}
+
+const iso = (value: unknown) => (value ? new Date(value as string | Date).toISOString() : '');
+
+// Parents before children, so every reference is remapped before it is needed
+const MIGRATED_TABLES: TableSpec[] = [
+  {
+    key: 'clinicalUsers',
+    table: clinicalUsers,
+    naturalKey: row => row.username,
+    uniqueColumns: ['email']
+  },
+  { key: 'cohorts', table: cohorts, naturalKey: row => row.name },
+  { key: 'assessments', table: assessments, naturalKey: row => row.name },
+  { key: 'assessmentTypes', table: assessmentTypes, naturalKey: row => row.name },
+  { key: 'users', table: users, naturalKey: row => row.code },
+  {
+    key: 'patients',
+    table: patients,
+    naturalKey: row => row.patientId,
+    references: {
+      cohortId: { table: 'cohorts', required: false },
+      assignedClinicianId: { table: 'clinicalUsers', required: false }
+    },
+    uniqueColumns: ['accessCode']
+  },
+  {
+    key: 'userAssessments',
+    table: userAssessments,
+    naturalKey: row => row.shareToken
+      ? `share:${row.shareToken}`
+      : `${row.userId}:${row.assessmentId}:${row.sessionNumber ?? 1}:${iso(row.completedAt)}`,
+    references: {
+      userId: { table: 'users', required: true },
+      assessmentId: { table: 'assessments', required: true }
+    }
+  },
+  {
+    key: 'patientAssessments',
+    table: patientAssessments,
+    naturalKey: row => row.userAssessmentId
+      ? `portal:${row.userAssessmentId}`
+      : `${row.patientId}:${row.assessmentTypeId}:${row.sessionNumber ?? 1}:${iso(row.assessmentDate)}`,
+    references: {
+      patientId: { table: 'patients', required: true },
+      assessmentTypeId: { table: 'assessmentTypes', required: true },
+      clinicianId: { table: 'clinicalUsers', required: true },
+      userAssessmentId: { table: 'userAssessments', required: false }
+    }
+  },
+  {
+    key: 'studyVisits',
+    table: studyVisits,
+    naturalKey: row => `${row.patientId}:${row.scheduledWeek}`,
+    references: {
+      patientId: { table: 'patients', required: true },
+      assessmentId: { table: 'patientAssessments', required: false }
+    }
+  },
+  {
+    key: 'outlierAlerts',
+    table: outlierAlerts,
+    naturalKey: row => `${row.patientId}:${row.alertType}:${row.metric}:${iso(row.createdAt)}`,
+    references: {
+      patientId: { table: 'patients', required: true },
+      cohortId: { table: 'cohorts', required: true }
+    }
+  },
+  {
+    key: 'enrollmentEvents',
+    table: enrollmentEvents,
+    naturalKey: row => `${row.patientId}:${row.toStatus}:${iso(row.createdAt)}`,
+    references: {
+      patientId: { table: 'patients', required: true },
+      cohortId: { table: 'cohorts', required: false },
+      performedBy: { table: 'clinicalUsers', required: false }
+    }
+  },
+  {
+    key: 'questionnaireResponses',
+    table: questionnaireResponses,
+    naturalKey: row => `${row.userId}:${row.questionnaireId}:${iso(row.completedAt)}`,
+    references: {
+      userId: { table: 'users', required: true },
+      patientId: { table: 'patients', required: false }
+    }
+  },
+  {
+    key: 'shareLinks',
+    table: shareLinks,
+    naturalKey: row => row.tokenHash,
+    references: {
+      userAssessmentId: { table: 'userAssessments', required: true }
+    }
+  },
+  {
+    key: 'contralateralBaselines',
+    table: contralateralBaselines,
+    naturalKey: row => `${row.userId}:${row.assessmentId}:${row.handType}:${iso(row.recordedAt)}`,
+    references: {
+      userId: { table: 'users', required: true },
+      assessmentId: { table: 'assessments', required: true }
+    }
+  }
+];
+
+interface TableReport {
+  inserted: number;
+  matched: number;
+  skipped: number;
+}
+
+interface MigrationReport {
+  from: string;
+  to: string;
+  dryRun: boolean;
+  tables: Record<MigratedTable, TableReport>;
+  warnings: string[];
+}
+
+// Read and insert access to the target, scoped to one migration run
+interface TableWriter {
+  rows(table: TableSpec): Promise<Row[]>;
+  insert(table: TableSpec, values: Record<string, unknown>): Promise<Row>;
+}
+
+interface MigrationLocation {
+  describe: string;
+  read(): Promise<Snapshot>;
+  // Runs the migration against the target; a dry run discards everything it wrote
+  write(work: (writer: TableWriter) => Promise<void>, dryRun: boolean): Promise<void>;
+}
+
+// Only real columns are copied; the target assigns its own ids
+function columnValues(table: PgTable, row: Row): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const key of Object.keys(getTableColumns(table))) {
+    if (key !== 'id' && row[key] !== undefined) values[key] = row[key];
+  }
+  return values;
+}
+
+function emptySnapshot(): Snapshot {
+  return Object.fromEntries(MIGRATED_TABLES.map(spec => [spec.key, []])) as unknown as Snapshot;
+}
+
+function fileLocation(dataFile: string): MigrationLocation {
+  const readFile = async (): Promise<Record<string, unknown>> => {
+    try {
+      return JSON.parse(await fs.readFile(dataFile, 'utf-8'), reviveDates);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return {};
+      throw new Error(`Failed to read ${dataFile}: ${error.message}`);
+    }
+  };
+
+  return {
+    describe: dataFile,
+
+    async read() {
+      const data = await readFile();
+      if (Object.keys(data).length === 0) throw new Error(`${dataFile} does not exist or is empty`);
+      const snapshot = emptySnapshot();
+      MIGRATED_TABLES.forEach(spec => {
+        const rows = data[spec.key];
+        // Older files stored rows without ids; nothing can reference those
+        if (Array.isArray(rows)) snapshot[spec.key] = rows.filter(row => typeof row?.id === 'number');
+      });
+      return snapshot;
+    },
+
+    async write(work, dryRun) {
+      const data = await readFile();
+      const tables = new Map<MigratedTable, MemoryTable<Row>>();
+      MIGRATED_TABLES.forEach(spec => {
+        const table = new MemoryTable<Row>(spec.table);
+        const rows = data[spec.key];
+        if (Array.isArray(rows)) table.load(rows.filter(row => typeof row?.id === 'number'));
+        tables.set(spec.key, table);
+      });
+
+      await work({
+        rows: async spec => tables.get(spec.key)!.all(),
+        insert: async (spec, values) => tables.get(spec.key)!.insert(values)
+      });
+      if (dryRun) return;
+
+      // Collections this tool does not migrate are written back untouched
+      tables.forEach((table, key) => { data[key] = table.all(); });
+      await fs.mkdir(path.dirname(dataFile), { recursive: true });
+      await fs.writeFile(dataFile, JSON.stringify(data, null, 2));
+    }
+  };
+}
+
+function databaseLocation(): MigrationLocation {
+  return {
+    describe: 'database',
+
+    async read() {
+      const { db } = await import('./db');
+      const snapshot = emptySnapshot();
+      for (const spec of MIGRATED_TABLES) {
+        snapshot[spec.key] = await db.select().from(spec.table) as Row[];
+      }
+      return snapshot;
+    },
+
+    // One transaction per run, so a failed or dry run leaves the database unchanged
+    async write(work, dryRun) {
+      const { db } = await import('./db');
+      try {
+        await db.transaction(async tx => {
+          await work({
+            rows: async spec => await tx.select().from(spec.table) as Row[],
+            insert: async (spec, values) => {
+              const [row] = await tx.insert(spec.table).values(values as any).returning();
+              return row as Row;
+            }
+          });
+          if (dryRun) tx.rollback();
+        });
+      } catch (error) {
+        if (!(dryRun && error instanceof TransactionRollbackError)) throw error;
+      }
+    }
+  };
+}
+
+function parseLocation(value: string): MigrationLocation {
+  return value === 'database' ? databaseLocation() : fileLocation(value);
+}
+
+async function migrateStorage(from: MigrationLocation, to: MigrationLocation, dryRun = false): Promise<MigrationReport> {
+  const snapshot = await from.read();
+  const report: MigrationReport = {
+    from: from.describe,
+    to: to.describe,
+    dryRun,
+    tables: Object.fromEntries(MIGRATED_TABLES.map(spec => [spec.key, { inserted: 0, matched: 0, skipped: 0 }])) as unknown as Record<MigratedTable, TableReport>,
+    warnings: []
+  };
+
+  await to.write(async writer => {
+    // Source id -> target id, per table
+    const idMaps = new Map<MigratedTable, Map<number, number>>(MIGRATED_TABLES.map(spec => [spec.key, new Map()]));
+
+    for (const spec of MIGRATED_TABLES) {
+      const tableReport = report.tables[spec.key];
+      const idMap = idMaps.get(spec.key)!;
+      const existing = await writer.rows(spec);
+      const byKey = new Map(existing.map(row => [spec.naturalKey(row), row]));
+      const taken = new Map((spec.uniqueColumns ?? []).map(column => [
+        column,
+        new Set(existing.map(row => row[column]).filter(value => value !== null && value !== undefined))
+      ]));
+
+      for (const sourceRow of snapshot[spec.key]) {
+        const row: Row = { ...sourceRow };
+        const label = `${spec.key} #${sourceRow.id}`;
+
+        let missingParent: string | null = null;
+        for (const [column, reference] of Object.entries(spec.references ?? {})) {
+          if (row[column] === null || row[column] === undefined) continue;
+          const mapped = idMaps.get(reference.table)!.get(row[column]);
+          if (mapped !== undefined) {
+            row[column] = mapped;
+          } else if (reference.required) {
+            missingParent = `${column} ${row[column]} not found in ${reference.table}`;
+          } else {
+            report.warnings.push(`${label}: ${column} ${row[column]} not found in ${reference.table}, cleared`);
+            row[column] = null;
+          }
+        }
+        if (missingParent) {
+          tableReport.skipped++;
+          report.warnings.push(`${label}: skipped, ${missingParent}`);
+          continue;
+        }
+
+        const key = spec.naturalKey(row);
+        const match = key === null ? undefined : byKey.get(key);
+        if (match) {
+          idMap.set(sourceRow.id, match.id);
+          tableReport.matched++;
+          continue;
+        }
+
+        const clash = (spec.uniqueColumns ?? []).find(column => row[column] != null && taken.get(column)!.has(row[column]));
+        if (clash) {
+          tableReport.skipped++;
+          report.warnings.push(`${label}: skipped, ${clash} "${row[clash]}" already belongs to another record`);
+          continue;
+        }
+
+        const inserted = await writer.insert(spec, columnValues(spec.table, row));
+        idMap.set(sourceRow.id, inserted.id);
+        byKey.set(key, inserted);
+        (spec.uniqueColumns ?? []).forEach(column => {
+          if (row[column] != null) taken.get(column)!.add(row[column]);
+        });
+        tableReport.inserted++;
+      }
+    }
+  }, dryRun);
+
+  return report;
+}
+
+function printReport(report: MigrationReport) {
+  console.log(`${report.dryRun ? 'Dry run: ' : ''}${report.from} -> ${report.to}`);
+  console.table(report.tables);
+  report.warnings.forEach(warning => console.log(`  ! ${warning}`));
+  if (report.dryRun) console.log('Nothing was written');
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const [from, to] = args.filter(arg => !arg.startsWith('--'));
+  if (!from || !to || from === to) {
+    console.error('Usage: tsx server/storage-migration.ts <from> <to> [--dry-run]\n  <from>/<to>: "database" or a JSON file path');
+    process.exit(1);
+  }
+
+  try {
+    printReport(await migrateStorage(parseLocation(from), parseLocation(to), dryRun));
+    if ([from, to].includes('database')) {
+      const { pool } = await import('./db');
+      await pool.end();
+    }
+  } catch (error) {
+    console.error('Migration failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -3,7 +3,10 @@ import {
   assessments, 
   userAssessments, 
   injuryTypes,
+  shareLinks,
+  contralateralBaselines,
   clinicalUsers,
+  clinicalSessions,
   cohorts,
   patients,
   assessmentTypes,
@@ -11,18 +14,30 @@ import {
   outlierAlerts,
   auditLogs,
   dataExports,
+  clinicalSettings,
+  clinicalSettingsSchema,
+  eligibilityCriteriaSchema,
   quickDashResponses,
+  questionnaireSchedules,
+  questionnaireResponses,
   studyVisits,
+  enrollmentEvents,
   type User, 
   type InsertUser,
   type Assessment,
   type InsertAssessment,
   type UserAssessment,
+  type ShareLink,
+  type InsertShareLink,
+  type ContralateralBaseline,
+  type InsertContralateralBaseline,
   type InsertUserAssessment,
   type InjuryType,
   type InsertInjuryType,
   type ClinicalUser,
   type InsertClinicalUser,
+  type ClinicalSession,
+  type InsertClinicalSession,
   type Cohort,
   type InsertCohort,
   type Patient,
@@ -38,14 +53,41 @@ import {
   type InsertAuditLog,
   type DataExport,
   type InsertDataExport,
+  type ClinicalSettings,
   type QuickDashResponse,
   type InsertQuickDashResponse,
+  type QuestionnaireSchedule,
+  type InsertQuestionnaireSchedule,
+  type QuestionnaireResponse,
+  type InsertQuestionnaireResponse,
   type StudyVisit,
   type InsertStudyVisit,
-  type CohortAnalytics
+  type CohortAnalytics,
+  type StudyDataFilters,
+  type PaginatedResult,
+  type PatientOutcome,
+  type PatientEnrollment,
+  type InsertEnrollmentEvent,
+  type EnrollmentEvent,
+  type PatientDashboardEntry,
+  type DashboardMetrics,
+  type PatientAssessmentHistoryEntry
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, sql, count, avg, asc } from "drizzle-orm";
+import { hashPassword, isPasswordHashed, verifyPassword } from "./auth";
+import { toPaginatedResult, paginate, buildPatientOutcomes } from "./study-data";
+import { filterAssessmentsForInjury } from "./injury-assessments";
+import { evaluateEligibility, type EligibilityResult } from "@shared/eligibility-criteria";
+import { transitionEnrollment } from "./enrollment-lifecycle";
+import { MemoryStorage, DEFAULT_QUESTIONNAIRE_SCHEDULES } from "./memory-storage";
+import { eq, and, desc, sql, count, avg, asc, gte, lte, lt, inArray, type SQL } from "drizzle-orm";
+
+// Narrows completed user assessments, e.g. for re-scoring; ids, when given, are matched as well
+export interface UserAssessmentFilters {
+  ids?: number[];
+  userId?: number;
+  assessmentId?: number;
+}
 
 export interface IStorage {
   // Clinical User methods
@@ -55,6 +97,13 @@ export interface IStorage {
   updateClinicalUser(id: number, updates: Partial<ClinicalUser>): Promise<ClinicalUser | undefined>;
   authenticateClinicalUser(username: string, password: string): Promise<ClinicalUser | null>;
   
+  // Clinical session methods
+  createClinicalSession(session: InsertClinicalSession): Promise<ClinicalSession>;
+  getClinicalSession(id: number): Promise<ClinicalSession | undefined>;
+  getClinicalSessionByRefreshTokenHash(refreshTokenHash: string): Promise<ClinicalSession | undefined>;
+  updateClinicalSession(id: number, updates: Partial<ClinicalSession>): Promise<ClinicalSession | undefined>;
+  revokeClinicalSession(id: number): Promise<boolean>;
+  
   // Cohort methods
   getCohorts(): Promise<Cohort[]>;
   getCohort(id: number): Promise<Cohort | undefined>;
@@ -70,11 +119,18 @@ export interface IStorage {
   updatePatient(id: number, updates: Partial<Patient>): Promise<Patient | undefined>;
   deletePatient(id: number): Promise<boolean>;
   
+  // Patient dashboard methods
+  getPatientDashboardData(): Promise<{ patients: PatientDashboardEntry[] }>;
+  getDashboardMetrics(): Promise<DashboardMetrics>;
+  getPatientAssessmentHistory(patientId: number): Promise<PatientAssessmentHistoryEntry[]>;
+  
   // Patient enrollment
-  checkEligibility(patientId: number, cohortId: number): Promise<{ eligible: boolean; reasons: string[] }>;
-  enrollPatient(enrollment: any): Promise<Patient>;
+  checkEligibility(patientId: number, cohortId: number): Promise<EligibilityResult>;
+  enrollPatient(enrollment: PatientEnrollment, performedBy?: number): Promise<Patient>;
   generateAccessCode(): Promise<string>;
   getPatientByAccessCode(accessCode: string): Promise<Patient | undefined>;
+  createEnrollmentEvent(event: InsertEnrollmentEvent): Promise<EnrollmentEvent>;
+  getEnrollmentEvents(patientId: number): Promise<EnrollmentEvent[]>;
   
   // Assessment Type methods
   getAssessmentTypes(): Promise<AssessmentType[]>;
@@ -85,16 +141,40 @@ export interface IStorage {
   // Patient Assessment methods
   getPatientAssessments(patientId: number, limit?: number): Promise<PatientAssessment[]>;
   getPatientAssessment(id: number): Promise<PatientAssessment | undefined>;
+  getPatientAssessmentByUserAssessmentId(userAssessmentId: number): Promise<PatientAssessment | undefined>;
   createPatientAssessment(assessment: InsertPatientAssessment): Promise<PatientAssessment>;
   updatePatientAssessment(id: number, updates: Partial<PatientAssessment>): Promise<PatientAssessment | undefined>;
   getCohortAssessments(cohortId: number, limit?: number): Promise<PatientAssessment[]>;
   
+  // Study-wide listings, paginated and filtered by cohort, clinician, date range and study week
+  queryPatientAssessments(filters: StudyDataFilters): Promise<PaginatedResult<PatientAssessment>>;
+  getPatientOutcomes(filters: StudyDataFilters): Promise<PaginatedResult<PatientOutcome>>;
+  
+  // Study visit methods
+  createStudyVisit(visit: InsertStudyVisit): Promise<StudyVisit>;
+  getStudyVisits(patientId: number): Promise<StudyVisit[]>;
+  getOverdueStudyVisits(asOf: Date): Promise<StudyVisit[]>;
+  updateStudyVisit(id: number, updates: Partial<StudyVisit>): Promise<StudyVisit | undefined>;
+  queryStudyVisits(filters: StudyDataFilters): Promise<PaginatedResult<StudyVisit>>;
+  
+  // QuickDASH response methods
+  createQuickDashResponse(response: InsertQuickDashResponse): Promise<QuickDashResponse>;
+  getQuickDashResponses(patientId: number): Promise<QuickDashResponse[]>;
+  
+  // Questionnaire methods (PRWE, BCTQ)
+  getQuestionnaireSchedules(injuryType?: string): Promise<QuestionnaireSchedule[]>;
+  createQuestionnaireSchedule(schedule: InsertQuestionnaireSchedule): Promise<QuestionnaireSchedule>;
+  updateQuestionnaireSchedule(id: number, updates: Partial<QuestionnaireSchedule>): Promise<QuestionnaireSchedule | undefined>;
+  createQuestionnaireResponse(response: InsertQuestionnaireResponse): Promise<QuestionnaireResponse>;
+  getQuestionnaireResponses(userId: number, questionnaireId?: string): Promise<QuestionnaireResponse[]>;
+  
   // Analytics methods
   getCohortAnalytics(cohortId: number): Promise<CohortAnalytics | null>;
   
   // Outlier Alert methods
-  getOutlierAlerts(patientId?: number): Promise<OutlierAlert[]>;
+  getOutlierAlerts(patientId?: number, includeResolved?: boolean): Promise<OutlierAlert[]>;
   createOutlierAlert(alert: InsertOutlierAlert): Promise<OutlierAlert>;
+  updateOutlierAlert(id: number, updates: Partial<OutlierAlert>): Promise<OutlierAlert | undefined>;
   resolveOutlierAlert(id: number): Promise<boolean>;
   
   // Audit Log methods
@@ -104,8 +184,13 @@ export interface IStorage {
   // Data Export methods
   createDataExport(exportRequest: InsertDataExport): Promise<DataExport>;
   getDataExport(id: number): Promise<DataExport | undefined>;
+  getDataExportByDownloadUrl(downloadUrl: string): Promise<DataExport | undefined>;
   updateDataExport(id: number, updates: Partial<DataExport>): Promise<DataExport | undefined>;
   
+  // Clinical settings methods
+  getClinicalSettings(): Promise<ClinicalSettings>;
+  updateClinicalSettings(updates: Partial<ClinicalSettings>, updatedBy: number): Promise<ClinicalSettings>;
+  
   // Legacy methods
   getUser(id: number): Promise<User | undefined>;
   getUserById(id: number): Promise<User | undefined>;
@@ -116,16 +201,31 @@ export interface IStorage {
   getAssessmentsForInjury(injuryType: string): Promise<Assessment[]>;
   getAssessment(id: number): Promise<Assessment | undefined>;
   createAssessment(assessment: InsertAssessment): Promise<Assessment>;
+  updateAssessment(id: number, updates: Partial<Assessment>): Promise<Assessment | undefined>;
   getUserAssessments(userId: number): Promise<UserAssessment[]>;
   getUserAssessmentById(id: number): Promise<UserAssessment | undefined>;
+  // Share tokens from before share links; see adoptLegacyShareToken
+  getUserAssessmentByShareToken(shareToken: string): Promise<UserAssessment | undefined>;
   getUserAssessment(userId: number, assessmentId: number): Promise<UserAssessment | undefined>;
+  getCompletedUserAssessments(filters: UserAssessmentFilters): Promise<UserAssessment[]>;
   createUserAssessment(userAssessment: InsertUserAssessment): Promise<UserAssessment>;
   updateUserAssessment(id: number, updates: Partial<UserAssessment>): Promise<UserAssessment | undefined>;
-  getUserAssessmentByShareToken(shareToken: string): Promise<UserAssessment | undefined>;
-  generateShareToken(userAssessmentId: number): Promise<string>;
   getInjuryTypes(): Promise<InjuryType[]>;
   createInjuryType(injuryType: InsertInjuryType): Promise<InjuryType>;
   resetUserAssessments(userId: number): Promise<void>;
+
+  // Share link methods
+  createShareLink(link: InsertShareLink): Promise<ShareLink>;
+  getShareLink(id: number): Promise<ShareLink | undefined>;
+  getShareLinkByTokenHash(tokenHash: string): Promise<ShareLink | undefined>;
+  getShareLinks(userAssessmentId: number): Promise<ShareLink[]>;
+  updateShareLink(id: number, updates: Partial<ShareLink>): Promise<ShareLink | undefined>;
+  revokeShareLink(id: number): Promise<boolean>;
+  recordShareLinkView(id: number): Promise<ShareLink | undefined>;
+
+  // Contralateral baseline methods
+  createContralateralBaseline(baseline: InsertContralateralBaseline): Promise<ContralateralBaseline>;
+  getContralateralBaseline(userId: number, assessmentId: number): Promise<ContralateralBaseline | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -143,15 +243,18 @@ export class DatabaseStorage implements IStorage {
   async createClinicalUser(insertUser: InsertClinicalUser): Promise<ClinicalUser> {
     const [user] = await db
       .insert(clinicalUsers)
-      .values(insertUser)
+      .values({ ...insertUser, password: await hashPassword(insertUser.password) })
       .returning();
     return user;
   }
 
   async updateClinicalUser(id: number, updates: Partial<ClinicalUser>): Promise<ClinicalUser | undefined> {
+    const values = updates.password && !isPasswordHashed(updates.password)
+      ? { ...updates, password: await hashPassword(updates.password) }
+      : updates;
     const [user] = await db
       .update(clinicalUsers)
-      .set(updates)
+      .set(values)
       .where(eq(clinicalUsers.id, id))
       .returning();
     return user || undefined;
@@ -161,13 +264,54 @@ export class DatabaseStorage implements IStorage {
     const [user] = await db
       .select()
       .from(clinicalUsers)
-      .where(and(eq(clinicalUsers.username, username), eq(clinicalUsers.password, password), eq(clinicalUsers.isActive, true)));
+      .where(and(eq(clinicalUsers.username, username), eq(clinicalUsers.isActive, true)));
     
-    if (user) {
-      await this.updateClinicalUser(user.id, { lastLoginAt: new Date() });
-      return user;
+    if (!user || !(await verifyPassword(password, user.password))) {
+      return null;
     }
-    return null;
+    
+    // Upgrade legacy plaintext passwords to a hash on first successful login
+    const updates: Partial<ClinicalUser> = { lastLoginAt: new Date() };
+    if (!isPasswordHashed(user.password)) {
+      updates.password = await hashPassword(password);
+    }
+    return (await this.updateClinicalUser(user.id, updates)) || user;
+  }
+
+  // Clinical session methods
+  async createClinicalSession(insertSession: InsertClinicalSession): Promise<ClinicalSession> {
+    const [session] = await db
+      .insert(clinicalSessions)
+      .values(insertSession)
+      .returning();
+    return session;
+  }
+
+  async getClinicalSession(id: number): Promise<ClinicalSession | undefined> {
+    const [session] = await db.select().from(clinicalSessions).where(eq(clinicalSessions.id, id));
+    return session || undefined;
+  }
+
+  async getClinicalSessionByRefreshTokenHash(refreshTokenHash: string): Promise<ClinicalSession | undefined> {
+    const [session] = await db.select().from(clinicalSessions).where(eq(clinicalSessions.refreshTokenHash, refreshTokenHash));
+    return session || undefined;
+  }
+
+  async updateClinicalSession(id: number, updates: Partial<ClinicalSession>): Promise<ClinicalSession | undefined> {
+    const [session] = await db
+      .update(clinicalSessions)
+      .set(updates)
+      .where(eq(clinicalSessions.id, id))
+      .returning();
+    return session || undefined;
+  }
+
+  async revokeClinicalSession(id: number): Promise<boolean> {
+    const result = await db
+      .update(clinicalSessions)
+      .set({ revokedAt: new Date() })
+      .where(eq(clinicalSessions.id, id));
+    return result.rowCount ? result.rowCount > 0 : false;
   }
 
   // Cohort methods
@@ -274,7 +418,7 @@ export class DatabaseStorage implements IStorage {
 
   async createPatient(insertPatient: InsertPatient): Promise<Patient> {
     // Generate access code if not provided
-    const accessCode = await this.generateAccessCode();
+    const accessCode = insertPatient.accessCode || await this.generateAccessCode();
     
     const [patient] = await db
       .insert(patients)
@@ -287,7 +431,7 @@ export class DatabaseStorage implements IStorage {
     return patient;
   }
 
-  async getPatientDashboardData() {
+  async getPatientDashboardData(): Promise<{ patients: PatientDashboardEntry[] }> {
     try {
       // First get basic patient data
       const basicResult = await db.execute(sql`
@@ -305,7 +449,7 @@ export class DatabaseStorage implements IStorage {
       `);
 
       // Then try to get assessment data, but fallback gracefully if tables don't exist
-      let assessmentData = [];
+      let assessmentData: Record<string, any>[] = [];
       try {
         const assessmentResult = await db.execute(sql`
           SELECT 
@@ -341,7 +485,7 @@ export class DatabaseStorage implements IStorage {
         const countResult = await db.execute(sql`
           SELECT COUNT(*) as total_count FROM assessments WHERE is_active = true
         `);
-        totalAssessments = countResult.rows[0]?.total_count || 5;
+        totalAssessments = Number(countResult.rows[0]?.total_count) || 5;
       } catch (error) {
         console.log('Using default assessment count');
       }
@@ -349,7 +493,7 @@ export class DatabaseStorage implements IStorage {
       // Combine data
       const patients = basicResult.rows.map((patient: any) => {
         const assessmentInfo = assessmentData.find((a: any) => a.patient_id === patient.id) || {};
-        const assessmentsCompleted = assessmentInfo.assessmentsCompleted || 0;
+        const assessmentsCompleted = Number(assessmentInfo.assessmentsCompleted) || 0;
         
         return {
           ...patient,
@@ -363,14 +507,14 @@ export class DatabaseStorage implements IStorage {
         };
       });
 
-      return { patients };
+      return { patients: patients as PatientDashboardEntry[] };
     } catch (error) {
       console.error('Error in getPatientDashboardData:', error);
       throw error;
     }
   }
 
-  async getDashboardMetrics() {
+  async getDashboardMetrics(): Promise<DashboardMetrics> {
     try {
       // Get basic patient count first
       const basicResult = await db.execute(sql`
@@ -379,7 +523,7 @@ export class DatabaseStorage implements IStorage {
         WHERE p.is_active = true
       `);
 
-      const totalPatients = basicResult.rows[0]?.totalPatients || 0;
+      const totalPatients = Number(basicResult.rows[0]?.totalPatients) || 0;
 
       // Try to get assessment-based metrics, fallback to basic counts
       let activePatients = 0;
@@ -410,9 +554,9 @@ export class DatabaseStorage implements IStorage {
         `);
         
         const metrics = metricsResult.rows[0];
-        activePatients = metrics?.activePatients || 0;
-        completedPatients = metrics?.completedPatients || 0;
-        overduePatients = metrics?.overduePatients || 0;
+        activePatients = Number(metrics?.activePatients) || 0;
+        completedPatients = Number(metrics?.completedPatients) || 0;
+        overduePatients = Number(metrics?.overduePatients) || 0;
       } catch (error) {
         console.log('Assessment metrics unavailable, using basic counts');
         // Fallback to basic status distribution
@@ -437,14 +581,14 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getPatientAssessmentHistory(patientId: number) {
+  async getPatientAssessmentHistory(patientId: number): Promise<PatientAssessmentHistoryEntry[]> {
     const result = await db.execute(sql`
       SELECT 
         a.id,
         a.name,
         ua.completed_at as "completedAt",
-        ua.score,
-        ua.notes
+        ua.quality_score as "score",
+        NULL as "notes"
       FROM patients p
       JOIN users u ON u.code = p.access_code
       JOIN user_assessments ua ON ua.user_id = u.id
@@ -453,7 +597,7 @@ export class DatabaseStorage implements IStorage {
       ORDER BY ua.completed_at DESC
     `);
     
-    return result.rows;
+    return result.rows as PatientAssessmentHistoryEntry[];
   }
 
   async updatePatient(id: number, updates: Partial<Patient>): Promise<Patient | undefined> {
@@ -515,6 +659,11 @@ export class DatabaseStorage implements IStorage {
     return assessment || undefined;
   }
 
+  async getPatientAssessmentByUserAssessmentId(userAssessmentId: number): Promise<PatientAssessment | undefined> {
+    const [assessment] = await db.select().from(patientAssessments).where(eq(patientAssessments.userAssessmentId, userAssessmentId));
+    return assessment || undefined;
+  }
+
   async createPatientAssessment(insertAssessment: InsertPatientAssessment): Promise<PatientAssessment> {
     const [assessment] = await db
       .insert(patientAssessments)
@@ -523,6 +672,15 @@ export class DatabaseStorage implements IStorage {
     return assessment;
   }
 
+  async updateAssessment(id: number, updates: Partial<Assessment>): Promise<Assessment | undefined> {
+    const [assessment] = await db
+      .update(assessments)
+      .set(updates)
+      .where(eq(assessments.id, id))
+      .returning();
+    return assessment || undefined;
+  }
+
   async updatePatientAssessment(id: number, updates: Partial<PatientAssessment>): Promise<PatientAssessment | undefined> {
     const [assessment] = await db
       .update(patientAssessments)
@@ -564,6 +722,8 @@ export class DatabaseStorage implements IStorage {
         wristExtensionAngle: patientAssessments.wristExtensionAngle,
         maxWristFlexion: patientAssessments.maxWristFlexion,
         maxWristExtension: patientAssessments.maxWristExtension,
+        maxRadialDeviation: patientAssessments.maxRadialDeviation,
+        maxUlnarDeviation: patientAssessments.maxUlnarDeviation,
         percentOfNormalRom: patientAssessments.percentOfNormalRom,
         changeFromBaseline: patientAssessments.changeFromBaseline,
         rawData: patientAssessments.rawData,
@@ -578,6 +738,177 @@ export class DatabaseStorage implements IStorage {
       .limit(limit) as PatientAssessment[];
   }
 
+  private studyPatientConditions(filters: StudyDataFilters): SQL[] {
+    const conditions: SQL[] = [];
+    if (filters.cohortId) conditions.push(eq(patients.cohortId, filters.cohortId));
+    if (filters.clinicianId) conditions.push(eq(patients.assignedClinicianId, filters.clinicianId));
+    if (filters.patientId) conditions.push(eq(patients.id, filters.patientId));
+    return conditions;
+  }
+
+  async queryPatientAssessments(filters: StudyDataFilters): Promise<PaginatedResult<PatientAssessment>> {
+    const conditions = this.studyPatientConditions(filters);
+    if (filters.dateFrom) conditions.push(gte(patientAssessments.assessmentDate, filters.dateFrom));
+    if (filters.dateTo) conditions.push(lte(patientAssessments.assessmentDate, filters.dateTo));
+    if (filters.studyWeek !== undefined) conditions.push(eq(patientAssessments.studyWeek, filters.studyWeek));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(patientAssessments)
+      .innerJoin(patients, eq(patientAssessments.patientId, patients.id))
+      .where(where);
+
+    const rows = await db
+      .select({ assessment: patientAssessments })
+      .from(patientAssessments)
+      .innerJoin(patients, eq(patientAssessments.patientId, patients.id))
+      .where(where)
+      .orderBy(desc(patientAssessments.assessmentDate), desc(patientAssessments.id))
+      .limit(filters.pageSize)
+      .offset((filters.page - 1) * filters.pageSize);
+
+    return toPaginatedResult(rows.map(row => row.assessment), total, filters);
+  }
+
+  async getPatientOutcomes(filters: StudyDataFilters): Promise<PaginatedResult<PatientOutcome>> {
+    const conditions = this.studyPatientConditions(filters);
+    const studyPatients = await db
+      .select()
+      .from(patients)
+      .where(and(eq(patients.isActive, true), ...conditions))
+      .orderBy(asc(patients.id));
+    if (studyPatients.length === 0) return toPaginatedResult([], 0, filters);
+
+    const assessmentRows = await db
+      .select({ assessment: patientAssessments })
+      .from(patientAssessments)
+      .innerJoin(patients, eq(patientAssessments.patientId, patients.id))
+      .where(and(eq(patients.isActive, true), eq(patientAssessments.isCompleted, true), ...conditions));
+
+    return paginate(buildPatientOutcomes(studyPatients, assessmentRows.map(row => row.assessment), filters), filters);
+  }
+
+  // QuickDASH response methods
+  async createQuickDashResponse(insertResponse: InsertQuickDashResponse): Promise<QuickDashResponse> {
+    const [response] = await db
+      .insert(quickDashResponses)
+      .values(insertResponse)
+      .returning();
+    return response;
+  }
+
+  async getQuickDashResponses(patientId: number): Promise<QuickDashResponse[]> {
+    return await db
+      .select()
+      .from(quickDashResponses)
+      .where(eq(quickDashResponses.patientId, patientId))
+      .orderBy(asc(quickDashResponses.completedAt), asc(quickDashResponses.id));
+  }
+
+  // Questionnaire methods
+  async getQuestionnaireSchedules(injuryType?: string): Promise<QuestionnaireSchedule[]> {
+    return await db
+      .select()
+      .from(questionnaireSchedules)
+      .where(injuryType ? eq(questionnaireSchedules.injuryType, injuryType) : undefined)
+      .orderBy(asc(questionnaireSchedules.id));
+  }
+
+  async createQuestionnaireSchedule(insertSchedule: InsertQuestionnaireSchedule): Promise<QuestionnaireSchedule> {
+    const [schedule] = await db
+      .insert(questionnaireSchedules)
+      .values(insertSchedule)
+      .returning();
+    return schedule;
+  }
+
+  async updateQuestionnaireSchedule(id: number, updates: Partial<QuestionnaireSchedule>): Promise<QuestionnaireSchedule | undefined> {
+    const [schedule] = await db
+      .update(questionnaireSchedules)
+      .set(updates)
+      .where(eq(questionnaireSchedules.id, id))
+      .returning();
+    return schedule || undefined;
+  }
+
+  async createQuestionnaireResponse(insertResponse: InsertQuestionnaireResponse): Promise<QuestionnaireResponse> {
+    const [response] = await db
+      .insert(questionnaireResponses)
+      .values(insertResponse)
+      .returning();
+    return response;
+  }
+
+  async getQuestionnaireResponses(userId: number, questionnaireId?: string): Promise<QuestionnaireResponse[]> {
+    return await db
+      .select()
+      .from(questionnaireResponses)
+      .where(and(
+        eq(questionnaireResponses.userId, userId),
+        questionnaireId ? eq(questionnaireResponses.questionnaireId, questionnaireId) : undefined
+      ))
+      .orderBy(asc(questionnaireResponses.completedAt), asc(questionnaireResponses.id));
+  }
+
+  // Study visit methods
+  async createStudyVisit(insertVisit: InsertStudyVisit): Promise<StudyVisit> {
+    const [visit] = await db
+      .insert(studyVisits)
+      .values(insertVisit)
+      .returning();
+    return visit;
+  }
+
+  async getStudyVisits(patientId: number): Promise<StudyVisit[]> {
+    return await db
+      .select()
+      .from(studyVisits)
+      .where(eq(studyVisits.patientId, patientId))
+      .orderBy(asc(studyVisits.scheduledWeek));
+  }
+
+  async getOverdueStudyVisits(asOf: Date): Promise<StudyVisit[]> {
+    return await db
+      .select()
+      .from(studyVisits)
+      .where(and(eq(studyVisits.visitStatus, 'scheduled'), lt(studyVisits.windowEnd, asOf)));
+  }
+
+  async updateStudyVisit(id: number, updates: Partial<StudyVisit>): Promise<StudyVisit | undefined> {
+    const [visit] = await db
+      .update(studyVisits)
+      .set(updates)
+      .where(eq(studyVisits.id, id))
+      .returning();
+    return visit || undefined;
+  }
+
+  async queryStudyVisits(filters: StudyDataFilters): Promise<PaginatedResult<StudyVisit>> {
+    const conditions = this.studyPatientConditions(filters);
+    if (filters.dateFrom) conditions.push(gte(studyVisits.scheduledDate, filters.dateFrom));
+    if (filters.dateTo) conditions.push(lte(studyVisits.scheduledDate, filters.dateTo));
+    if (filters.studyWeek !== undefined) conditions.push(eq(studyVisits.scheduledWeek, filters.studyWeek));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(studyVisits)
+      .innerJoin(patients, eq(studyVisits.patientId, patients.id))
+      .where(where);
+
+    const rows = await db
+      .select({ visit: studyVisits })
+      .from(studyVisits)
+      .innerJoin(patients, eq(studyVisits.patientId, patients.id))
+      .where(where)
+      .orderBy(asc(studyVisits.patientId), asc(studyVisits.scheduledWeek))
+      .limit(filters.pageSize)
+      .offset((filters.page - 1) * filters.pageSize);
+
+    return toPaginatedResult(rows.map(row => row.visit), total, filters);
+  }
+
   // Analytics methods
   async getCohortAnalytics(cohortId: number): Promise<CohortAnalytics | null> {
     const result = await db
@@ -589,10 +920,14 @@ export class DatabaseStorage implements IStorage {
         avgKapandjiScore: avg(patientAssessments.kapandjiScore),
         avgWristFlexion: avg(patientAssessments.wristFlexionAngle),
         avgWristExtension: avg(patientAssessments.wristExtensionAngle),
+        avgRadialDeviation: avg(patientAssessments.maxRadialDeviation),
+        avgUlnarDeviation: avg(patientAssessments.maxUlnarDeviation),
         stdDevTamScore: sql`STDDEV(${patientAssessments.tamScore})`,
         stdDevKapandjiScore: sql`STDDEV(${patientAssessments.kapandjiScore})`,
         stdDevWristFlexion: sql`STDDEV(${patientAssessments.wristFlexionAngle})`,
-        stdDevWristExtension: sql`STDDEV(${patientAssessments.wristExtensionAngle})`
+        stdDevWristExtension: sql`STDDEV(${patientAssessments.wristExtensionAngle})`,
+        stdDevRadialDeviation: sql`STDDEV(${patientAssessments.maxRadialDeviation})`,
+        stdDevUlnarDeviation: sql`STDDEV(${patientAssessments.maxUlnarDeviation})`
       })
       .from(patients)
       .innerJoin(cohorts, eq(patients.cohortId, cohorts.id))
@@ -604,17 +939,19 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Outlier Alert methods
-  async getOutlierAlerts(patientId?: number): Promise<OutlierAlert[]> {
+  async getOutlierAlerts(patientId?: number, includeResolved = false): Promise<OutlierAlert[]> {
     try {
-      let query = db.select().from(outlierAlerts);
-      
+      const conditions = [];
+      if (!includeResolved) {
+        conditions.push(eq(outlierAlerts.isResolved, false));
+      }
       if (patientId) {
-        query = query.where(and(eq(outlierAlerts.isResolved, false), eq(outlierAlerts.patientId, patientId)));
-      } else {
-        query = query.where(eq(outlierAlerts.isResolved, false));
+        conditions.push(eq(outlierAlerts.patientId, patientId));
       }
       
-      const results = await query.orderBy(desc(outlierAlerts.createdAt));
+      const results = await db.select().from(outlierAlerts)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(desc(outlierAlerts.createdAt));
       console.log('Outlier alerts query returned:', results.length, 'alerts');
       return results;
     } catch (error) {
@@ -631,6 +968,15 @@ export class DatabaseStorage implements IStorage {
     return alert;
   }
 
+  async updateOutlierAlert(id: number, updates: Partial<OutlierAlert>): Promise<OutlierAlert | undefined> {
+    const [alert] = await db
+      .update(outlierAlerts)
+      .set(updates)
+      .where(eq(outlierAlerts.id, id))
+      .returning();
+    return alert || undefined;
+  }
+
   async resolveOutlierAlert(id: number): Promise<boolean> {
     const result = await db
       .update(outlierAlerts)
@@ -672,6 +1018,11 @@ export class DatabaseStorage implements IStorage {
     return exportRequest || undefined;
   }
 
+  async getDataExportByDownloadUrl(downloadUrl: string): Promise<DataExport | undefined> {
+    const [exportRequest] = await db.select().from(dataExports).where(eq(dataExports.downloadUrl, downloadUrl));
+    return exportRequest || undefined;
+  }
+
   async updateDataExport(id: number, updates: Partial<DataExport>): Promise<DataExport | undefined> {
     const [exportRequest] = await db
       .update(dataExports)
@@ -681,6 +1032,27 @@ export class DatabaseStorage implements IStorage {
     return exportRequest || undefined;
   }
 
+  // Clinical settings methods
+  async getClinicalSettings(): Promise<ClinicalSettings> {
+    const rows = await db.select().from(clinicalSettings);
+    const stored = Object.fromEntries(rows.map(row => [row.key, row.value]));
+    return clinicalSettingsSchema.parse(stored);
+  }
+
+  async updateClinicalSettings(updates: Partial<ClinicalSettings>, updatedBy: number): Promise<ClinicalSettings> {
+    for (const [key, value] of Object.entries(updates)) {
+      if (value === undefined) continue;
+      await db
+        .insert(clinicalSettings)
+        .values({ key, value, updatedBy, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: clinicalSettings.key,
+          set: { value, updatedBy, updatedAt: new Date() }
+        });
+    }
+    return this.getClinicalSettings();
+  }
+
   // Research analytics methods
   async getAllStudyAssessments(): Promise<PatientAssessment[]> {
     return await db
@@ -774,54 +1146,20 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Patient enrollment methods
-  async checkEligibility(patientId: number, cohortId: number): Promise<{ eligible: boolean; reasons: string[] }> {
-    // Basic eligibility criteria - can be expanded based on requirements
-    const patient = await db.select().from(patients).where(eq(patients.id, patientId)).limit(1);
-    const cohort = await db.select().from(cohorts).where(eq(cohorts.id, cohortId)).limit(1);
+  async checkEligibility(patientId: number, cohortId: number): Promise<EligibilityResult> {
+    const [patient] = await db.select().from(patients).where(eq(patients.id, patientId)).limit(1);
+    const [cohort] = await db.select().from(cohorts).where(eq(cohorts.id, cohortId)).limit(1);
     
-    if (!patient.length || !cohort.length) {
-      return { eligible: false, reasons: ['Patient or cohort not found'] };
+    if (!patient || !cohort) {
+      return { eligible: false, reasons: ['Patient or cohort not found'], criteria: [] };
     }
     
-    const reasons: string[] = [];
-    
-    // Check if already enrolled in another study
-    if (patient[0].enrolledInStudy && patient[0].cohortId !== cohortId) {
-      reasons.push('Patient already enrolled in another study');
-    }
-    
-    // Check enrollment status
-    if (patient[0].enrollmentStatus === 'excluded') {
-      reasons.push('Patient previously excluded from studies');
-    }
-    
-    if (patient[0].enrollmentStatus === 'withdrawn') {
-      reasons.push('Patient previously withdrew from studies');
-    }
-    
-    return { eligible: reasons.length === 0, reasons };
+    const criteria = eligibilityCriteriaSchema.safeParse(cohort.eligibilityCriteria);
+    return evaluateEligibility(patient, cohortId, criteria.success ? criteria.data : null);
   }
 
-  async enrollPatient(enrollment: PatientEnrollment): Promise<Patient> {
-    const { eligible } = await this.checkEligibility(enrollment.patientId, enrollment.cohortId);
-    
-    if (!eligible) {
-      throw new Error('Patient is not eligible for enrollment');
-    }
-    
-    const [updatedPatient] = await db
-      .update(patients)
-      .set({
-        enrollmentStatus: enrollment.enrollmentStatus,
-        cohortId: enrollment.cohortId,
-        enrolledInStudy: enrollment.enrollmentStatus === 'enrolled',
-        enrolledDate: enrollment.enrollmentStatus === 'enrolled' ? new Date() : null,
-        eligibilityNotes: enrollment.eligibilityNotes,
-      })
-      .where(eq(patients.id, enrollment.patientId))
-      .returning();
-    
-    return updatedPatient;
+  async enrollPatient(enrollment: PatientEnrollment, performedBy?: number): Promise<Patient> {
+    return transitionEnrollment(this, enrollment, performedBy);
   }
 
   async generateAccessCode(): Promise<string> {
@@ -847,27 +1185,26 @@ export class DatabaseStorage implements IStorage {
       return undefined;
     }
   }
+  async createEnrollmentEvent(insertEvent: InsertEnrollmentEvent): Promise<EnrollmentEvent> {
+    const [event] = await db
+      .insert(enrollmentEvents)
+      .values(insertEvent)
+      .returning();
+    return event;
+  }
+
+  async getEnrollmentEvents(patientId: number): Promise<EnrollmentEvent[]> {
+    return await db
+      .select()
+      .from(enrollmentEvents)
+      .where(eq(enrollmentEvents.patientId, patientId))
+      .orderBy(asc(enrollmentEvents.createdAt), asc(enrollmentEvents.id));
+  }
+
 
   async getAssessmentsForInjury(injuryType: string): Promise<Assessment[]> {
     const allAssessments = await db.select().from(assessments).where(eq(assessments.isActive, true));
-    
-    // Define which assessments are needed for each injury type
-    const injuryAssessmentMap: Record<string, string[]> = {
-      "Trigger Finger": ["TAM (Total Active Motion)"],
-      "Carpal Tunnel": ["TAM (Total Active Motion)", "Kapandji Score", "Wrist Flexion/Extension", "Forearm Pronation/Supination", "Wrist Radial/Ulnar Deviation"],
-      "Distal Radius Fracture": ["TAM (Total Active Motion)", "Kapandji Score", "Wrist Flexion/Extension", "Forearm Pronation/Supination", "Wrist Radial/Ulnar Deviation"],
-      "CMC Arthroplasty": ["TAM (Total Active Motion)", "Kapandji Score", "Wrist Flexion/Extension", "Forearm Pronation/Supination", "Wrist Radial/Ulnar Deviation"],
-      "Metacarpal ORIF": ["TAM (Total Active Motion)"],
-      "Phalanx Fracture": ["TAM (Total Active Motion)"],
-      "Radial Head Replacement": ["TAM (Total Active Motion)", "Kapandji Score", "Wrist Flexion/Extension", "Forearm Pronation/Supination", "Wrist Radial/Ulnar Deviation"],
-      "Terrible Triad Injury": ["TAM (Total Active Motion)", "Kapandji Score", "Wrist Flexion/Extension", "Forearm Pronation/Supination", "Wrist Radial/Ulnar Deviation"],
-      "Dupuytren's Contracture": ["TAM (Total Active Motion)"],
-      "Flexor Tendon Injury": ["TAM (Total Active Motion)"],
-      "Extensor Tendon Injury": ["TAM (Total Active Motion)"]
-    };
-
-    const requiredAssessments = injuryAssessmentMap[injuryType] || ["TAM (Total Active Motion)"];
-    return allAssessments.filter(assessment => requiredAssessments.includes(assessment.name));
+    return filterAssessmentsForInjury(allAssessments, injuryType);
   }
 
   async getAssessment(id: number): Promise<Assessment | undefined> {
@@ -892,6 +1229,11 @@ export class DatabaseStorage implements IStorage {
     return userAssessment || undefined;
   }
 
+  async getUserAssessmentByShareToken(shareToken: string): Promise<UserAssessment | undefined> {
+    const [userAssessment] = await db.select().from(userAssessments).where(eq(userAssessments.shareToken, shareToken));
+    return userAssessment || undefined;
+  }
+
   async getUserAssessment(userId: number, assessmentId: number): Promise<UserAssessment | undefined> {
     const results = await db
       .select()
@@ -900,6 +1242,15 @@ export class DatabaseStorage implements IStorage {
     return results.find(ua => ua.assessmentId === assessmentId) || undefined;
   }
 
+  async getCompletedUserAssessments(filters: UserAssessmentFilters): Promise<UserAssessment[]> {
+    const conditions: SQL[] = [eq(userAssessments.isCompleted, true)];
+    if (filters.ids) conditions.push(filters.ids.length ? inArray(userAssessments.id, filters.ids) : sql`false`);
+    if (filters.userId !== undefined) conditions.push(eq(userAssessments.userId, filters.userId));
+    if (filters.assessmentId !== undefined) conditions.push(eq(userAssessments.assessmentId, filters.assessmentId));
+
+    return await db.select().from(userAssessments).where(and(...conditions)).orderBy(asc(userAssessments.id));
+  }
+
   async createUserAssessment(insertUserAssessment: InsertUserAssessment): Promise<UserAssessment> {
     const [userAssessment] = await db
       .insert(userAssessments)
@@ -917,19 +1268,6 @@ export class DatabaseStorage implements IStorage {
     return userAssessment || undefined;
   }
 
-  async getUserAssessmentByShareToken(shareToken: string): Promise<UserAssessment | undefined> {
-    const [userAssessment] = await db.select().from(userAssessments).where(eq(userAssessments.shareToken, shareToken));
-    return userAssessment || undefined;
-  }
-
-  async generateShareToken(userAssessmentId: number): Promise<string> {
-    const shareToken = Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
-    await db.update(userAssessments)
-      .set({ shareToken })
-      .where(eq(userAssessments.id, userAssessmentId));
-    return shareToken;
-  }
-
   async getInjuryTypes(): Promise<InjuryType[]> {
     return await db.select().from(injuryTypes);
   }
@@ -943,262 +1281,88 @@ export class DatabaseStorage implements IStorage {
   }
 
   async resetUserAssessments(userId: number): Promise<void> {
+    const ids = (await db.select({ id: userAssessments.id }).from(userAssessments).where(eq(userAssessments.userId, userId))).map(row => row.id);
+    if (ids.length > 0) {
+      await db.delete(shareLinks).where(inArray(shareLinks.userAssessmentId, ids));
+      // Synced clinical records are study data and outlive the portal history
+      await db.update(patientAssessments).set({ userAssessmentId: null }).where(inArray(patientAssessments.userAssessmentId, ids));
+    }
     await db.delete(userAssessments).where(eq(userAssessments.userId, userId));
-  }
-}
-
-export class MemStorage implements IStorage {
-  private users: Map<number, User>;
-  private assessments: Map<number, Assessment>;
-  private userAssessments: Map<number, UserAssessment>;
-  private injuryTypes: Map<number, InjuryType>;
-  private currentUserId: number;
-  private currentAssessmentId: number;
-  private currentUserAssessmentId: number;
-  private currentInjuryTypeId: number;
-
-  constructor() {
-    this.users = new Map();
-    this.assessments = new Map();
-    this.userAssessments = new Map();
-    this.injuryTypes = new Map();
-    this.currentUserId = 1;
-    this.currentAssessmentId = 1;
-    this.currentUserAssessmentId = 1;
-    this.currentInjuryTypeId = 1;
-    
-    this.initializeData();
-  }
-
-  private initializeData() {
-    // Initialize default injury types
-    const defaultInjuryTypes = [
-      { name: "Wrist Fracture", description: "Recovery from wrist bone fractures and related mobility issues", icon: "fas fa-hand-paper" },
-      { name: "Carpal Tunnel", description: "Post-surgical recovery from carpal tunnel release procedure", icon: "fas fa-hand-scissors" },
-      { name: "Tendon Injury", description: "Recovery from hand or wrist tendon repair surgery", icon: "fas fa-hand-rock" },
-      { name: "Other Injury", description: "Other hand or wrist conditions requiring assessment", icon: "fas fa-hand-spock" }
-    ];
-
-    defaultInjuryTypes.forEach(injuryType => {
-      this.createInjuryType(injuryType);
-    });
-
-    // Initialize default assessments
-    const defaultAssessments = [
-      {
-        name: "Wrist Flexion",
-        description: "Measure forward bending range of motion",
-        videoUrl: "/videos/wrist-flexion.mp4",
-        duration: 10,
-        repetitions: 3,
-        instructions: "Slowly bend your wrist forward as far as comfortable, then return to neutral position",
-        isActive: true,
-        orderIndex: 1
-      },
-      {
-        name: "Wrist Extension",
-        description: "Measure backward bending range of motion",
-        videoUrl: "/videos/wrist-extension.mp4",
-        duration: 10,
-        repetitions: 3,
-        instructions: "Slowly bend your wrist backward as far as comfortable, then return to neutral position",
-        isActive: true,
-        orderIndex: 2
-      },
-      {
-        name: "Finger Flexion",
-        description: "Measure finger closing range of motion",
-        videoUrl: "/videos/finger-flexion.mp4",
-        duration: 10,
-        repetitions: 3,
-        instructions: "Slowly close your fingers into a fist, then open them completely",
-        isActive: true,
-        orderIndex: 3
-      },
-      {
-        name: "Finger Extension",
-        description: "Measure finger opening range of motion",
-        videoUrl: "/videos/finger-extension.mp4",
-        duration: 10,
-        repetitions: 3,
-        instructions: "Slowly extend your fingers as far as comfortable, spreading them apart",
-        isActive: true,
-        orderIndex: 4
-      },
-      {
-        name: "Thumb Opposition",
-        description: "Measure thumb to finger touch capability",
-        videoUrl: "/videos/thumb-opposition.mp4",
-        duration: 15,
-        repetitions: 3,
-        instructions: "Touch your thumb to each fingertip in sequence",
-        isActive: true,
-        orderIndex: 5
-      },
-      {
-        name: "Shoulder Flexion",
-        description: "Measure forward shoulder movement",
-        videoUrl: "/videos/shoulder-flexion.mp4",
-        duration: 20,
-        repetitions: 3,
-        instructions: "Raise your arm forward as high as comfortable",
-        isActive: true,
-        orderIndex: 6
-      },
-      {
-        name: "Shoulder Abduction",
-        description: "Measure sideways shoulder movement",
-        videoUrl: "/videos/shoulder-abduction.mp4",
-        duration: 20,
-        repetitions: 3,
-        instructions: "Raise your arm to the side as high as comfortable",
-        isActive: true,
-        orderIndex: 7
-      },
-      {
-        name: "Elbow Flexion/Extension",
-        description: "Measure elbow bending and straightening",
-        videoUrl: "/videos/elbow-flexion.mp4",
-        duration: 15,
-        repetitions: 5,
-        instructions: "Bend and straighten your elbow through full range",
-        isActive: true,
-        orderIndex: 8
-      }
-    ];
-
-    defaultAssessments.forEach(assessment => {
-      this.createAssessment(assessment);
-    });
-  }
-
-  // User methods
-  async getUser(id: number): Promise<User | undefined> {
-    return this.users.get(id);
-  }
-
-  async getUserByCode(code: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(user => user.code === code);
+    await db.delete(contralateralBaselines).where(eq(contralateralBaselines.userId, userId));
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = this.currentUserId++;
-    const user: User = { 
-      ...insertUser, 
-      id, 
-      createdAt: new Date(),
-      isFirstTime: true
-    };
-    this.users.set(id, user);
-    return user;
-  }
-
-  async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
-    const user = this.users.get(id);
-    if (!user) return undefined;
-    
-    const updatedUser = { ...user, ...updates };
-    this.users.set(id, updatedUser);
-    return updatedUser;
-  }
-
-  // Assessment methods
-  async getAssessments(): Promise<Assessment[]> {
-    return Array.from(this.assessments.values())
-      .filter(assessment => assessment.isActive)
-      .sort((a, b) => a.orderIndex - b.orderIndex);
-  }
-
-  async getAssessmentsForInjury(injuryType: string): Promise<Assessment[]> {
-    const allAssessments = Array.from(this.assessments.values())
-      .filter(assessment => assessment.isActive)
-      .sort((a, b) => a.orderIndex - b.orderIndex);
-    
-    // Define which assessments are needed for each injury type
-    const injuryAssessmentMap: Record<string, string[]> = {
-      "Trigger Finger": ["TAM (Total Active Motion)"],
-      "Carpal Tunnel": ["TAM (Total Active Motion)", "Kapandji Score", "Wrist Flexion/Extension", "Forearm Pronation/Supination", "Wrist Radial/Ulnar Deviation"],
-      "Distal Radius Fracture": ["TAM (Total Active Motion)", "Kapandji Score", "Wrist Flexion/Extension", "Forearm Pronation/Supination", "Wrist Radial/Ulnar Deviation"],
-      "CMC Arthroplasty": ["TAM (Total Active Motion)", "Kapandji Score", "Wrist Flexion/Extension", "Forearm Pronation/Supination", "Wrist Radial/Ulnar Deviation"],
-      "Metacarpal ORIF": ["TAM (Total Active Motion)"],
-      "Phalanx Fracture": ["TAM (Total Active Motion)"],
-      "Radial Head Replacement": ["TAM (Total Active Motion)", "Kapandji Score", "Wrist Flexion/Extension", "Forearm Pronation/Supination", "Wrist Radial/Ulnar Deviation"],
-      "Terrible Triad Injury": ["TAM (Total Active Motion)", "Kapandji Score", "Wrist Flexion/Extension", "Forearm Pronation/Supination", "Wrist Radial/Ulnar Deviation"],
-      "Dupuytren's Contracture": ["TAM (Total Active Motion)"],
-      "Flexor Tendon Injury": ["TAM (Total Active Motion)"],
-      "Extensor Tendon Injury": ["TAM (Total Active Motion)"]
-    };
-
-    const requiredAssessments = injuryAssessmentMap[injuryType] || ["TAM (Total Active Motion)"];
-    return allAssessments.filter(assessment => requiredAssessments.includes(assessment.name));
-  }
-
-  async getAssessment(id: number): Promise<Assessment | undefined> {
-    return this.assessments.get(id);
-  }
-
-  async createAssessment(insertAssessment: InsertAssessment): Promise<Assessment> {
-    const id = this.currentAssessmentId++;
-    const assessment: Assessment = { ...insertAssessment, id };
-    this.assessments.set(id, assessment);
-    return assessment;
+  // Share link methods
+  async createShareLink(insertLink: InsertShareLink): Promise<ShareLink> {
+    const [link] = await db
+      .insert(shareLinks)
+      .values(insertLink)
+      .returning();
+    return link;
   }
 
-  // User Assessment methods
-  async getUserAssessments(userId: number): Promise<UserAssessment[]> {
-    return Array.from(this.userAssessments.values())
-      .filter(ua => ua.userId === userId);
+  async getShareLink(id: number): Promise<ShareLink | undefined> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.id, id));
+    return link || undefined;
   }
 
-  async getUserAssessment(userId: number, assessmentId: number): Promise<UserAssessment | undefined> {
-    return Array.from(this.userAssessments.values())
-      .find(ua => ua.userId === userId && ua.assessmentId === assessmentId);
+  async getShareLinkByTokenHash(tokenHash: string): Promise<ShareLink | undefined> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.tokenHash, tokenHash));
+    return link || undefined;
   }
 
-  async createUserAssessment(insertUserAssessment: InsertUserAssessment): Promise<UserAssessment> {
-    const id = this.currentUserAssessmentId++;
-    const userAssessment: UserAssessment = { ...insertUserAssessment, id };
-    this.userAssessments.set(id, userAssessment);
-    return userAssessment;
+  async getShareLinks(userAssessmentId: number): Promise<ShareLink[]> {
+    return await db
+      .select()
+      .from(shareLinks)
+      .where(eq(shareLinks.userAssessmentId, userAssessmentId))
+      .orderBy(desc(shareLinks.createdAt), desc(shareLinks.id));
   }
 
-  async updateUserAssessment(id: number, updates: Partial<UserAssessment>): Promise<UserAssessment | undefined> {
-    const userAssessment = this.userAssessments.get(id);
-    if (!userAssessment) return undefined;
-    
-    const updatedUserAssessment = { ...userAssessment, ...updates };
-    this.userAssessments.set(id, updatedUserAssessment);
-    return updatedUserAssessment;
+  async updateShareLink(id: number, updates: Partial<ShareLink>): Promise<ShareLink | undefined> {
+    const [link] = await db
+      .update(shareLinks)
+      .set(updates)
+      .where(eq(shareLinks.id, id))
+      .returning();
+    return link || undefined;
   }
 
-  // Injury Type methods
-  async getInjuryTypes(): Promise<InjuryType[]> {
-    return Array.from(this.injuryTypes.values());
+  async revokeShareLink(id: number): Promise<boolean> {
+    const result = await db
+      .update(shareLinks)
+      .set({ revokedAt: new Date() })
+      .where(eq(shareLinks.id, id));
+    return result.rowCount ? result.rowCount > 0 : false;
   }
 
-  async createInjuryType(insertInjuryType: InsertInjuryType): Promise<InjuryType> {
-    const id = this.currentInjuryTypeId++;
-    const injuryType: InjuryType = { ...insertInjuryType, id };
-    this.injuryTypes.set(id, injuryType);
-    return injuryType;
+  // Incremented in SQL so concurrent views are all counted
+  async recordShareLinkView(id: number): Promise<ShareLink | undefined> {
+    const [link] = await db
+      .update(shareLinks)
+      .set({ viewCount: sql`coalesce(${shareLinks.viewCount}, 0) + 1`, lastViewedAt: new Date() })
+      .where(eq(shareLinks.id, id))
+      .returning();
+    return link || undefined;
   }
 
-  async getUserAssessmentByShareToken(shareToken: string): Promise<UserAssessment | undefined> {
-    for (const userAssessment of this.userAssessments.values()) {
-      if (userAssessment.shareToken === shareToken) {
-        return userAssessment;
-      }
-    }
-    return undefined;
+  // Contralateral baseline methods
+  async createContralateralBaseline(insertBaseline: InsertContralateralBaseline): Promise<ContralateralBaseline> {
+    const [baseline] = await db
+      .insert(contralateralBaselines)
+      .values(insertBaseline)
+      .returning();
+    return baseline;
   }
 
-  async generateShareToken(userAssessmentId: number): Promise<string> {
-    const shareToken = Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
-    const userAssessment = this.userAssessments.get(userAssessmentId);
-    if (userAssessment) {
-      this.userAssessments.set(userAssessmentId, { ...userAssessment, shareToken });
-    }
-    return shareToken;
+  // A new recording replaces the reference, so only the latest one counts
+  async getContralateralBaseline(userId: number, assessmentId: number): Promise<ContralateralBaseline | undefined> {
+    const [baseline] = await db
+      .select()
+      .from(contralateralBaselines)
+      .where(and(eq(contralateralBaselines.userId, userId), eq(contralateralBaselines.assessmentId, assessmentId)))
+      .orderBy(desc(contralateralBaselines.recordedAt), desc(contralateralBaselines.id))
+      .limit(1);
+    return baseline || undefined;
   }
 }
 
@@ -1229,6 +1393,12 @@ async function initializeDatabase() {
       console.log("Initialized injury types");
     }
 
+    const existingSchedules = await db.select().from(questionnaireSchedules);
+    if (existingSchedules.length === 0) {
+      await db.insert(questionnaireSchedules).values(DEFAULT_QUESTIONNAIRE_SCHEDULES);
+      console.log("Initialized questionnaire schedules");
+    }
+
     if (existingAssessments.length === 0) {
       // Initialize clinical assessments based on medical requirements
       const defaultAssessments = [
@@ -1293,7 +1463,7 @@ async function initializeDatabase() {
 }
 
 // Use DatabaseStorage when DATABASE_URL is available (production and development)
-export const storage = process.env.DATABASE_URL ? new DatabaseStorage() : new MemStorage();
+export const storage = process.env.DATABASE_URL ? new DatabaseStorage() : new MemoryStorage();
 
 // Initialize and verify database connection
 (async () => {
@@ -0,0 +1,103 @@
+import type {
+  OutcomeMetrics,
+  PaginatedResult,
+  Patient,
+  PatientAssessment,
+  PatientOutcome,
+  StudyDataFilters
+} from '@shared/schema';
+
+// Helpers behind the study-wide listing endpoints (/api/patient-assessments/all,
+// /api/patient-assessments/outcomes, /api/study-visits/all), shared by the storage backends.
+
+export function toPaginatedResult<T>(data: T[], total: number, filters: StudyDataFilters): PaginatedResult<T> {
+  return {
+    data,
+    total,
+    page: filters.page,
+    pageSize: filters.pageSize,
+    totalPages: Math.ceil(total / filters.pageSize)
+  };
+}
+
+// Page an already filtered and sorted in-memory list
+export function paginate<T>(items: T[], filters: StudyDataFilters): PaginatedResult<T> {
+  const start = (filters.page - 1) * filters.pageSize;
+  return toPaginatedResult(items.slice(start, start + filters.pageSize), items.length, filters);
+}
+
+// Cohort, clinician and patient filters apply to the patient an assessment or visit belongs to
+export function matchesPatientFilters(patient: Pick<Patient, 'id' | 'cohortId' | 'assignedClinicianId'> | undefined, filters: StudyDataFilters): boolean {
+  if (!patient) return false;
+  if (filters.cohortId && patient.cohortId !== filters.cohortId) return false;
+  if (filters.clinicianId && patient.assignedClinicianId !== filters.clinicianId) return false;
+  if (filters.patientId && patient.id !== filters.patientId) return false;
+  return true;
+}
+
+export function withinDateRange(date: Date | string | null | undefined, filters: StudyDataFilters): boolean {
+  if (!filters.dateFrom && !filters.dateTo) return true;
+  if (!date) return false;
+  const time = new Date(date).getTime();
+  if (filters.dateFrom && time < filters.dateFrom.getTime()) return false;
+  if (filters.dateTo && time > filters.dateTo.getTime()) return false;
+  return true;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function outcomeMetrics(assessment: PatientAssessment): OutcomeMetrics {
+  return {
+    assessmentDate: assessment.assessmentDate,
+    studyWeek: assessment.studyWeek,
+    tamScore: toNumber(assessment.tamScore),
+    kapandjiScore: toNumber(assessment.kapandjiScore),
+    wristFlexionAngle: toNumber(assessment.wristFlexionAngle),
+    wristExtensionAngle: toNumber(assessment.wristExtensionAngle),
+    maxRadialDeviation: toNumber(assessment.maxRadialDeviation),
+    maxUlnarDeviation: toNumber(assessment.maxUlnarDeviation),
+    percentOfNormalRom: toNumber(assessment.percentOfNormalRom),
+    vasScore: assessment.vasScore,
+    quickDashScore: toNumber(assessment.quickDashScore)
+  };
+}
+
+// One outcome per patient comparing their first and most recent completed assessment.
+// When a study week is given, "most recent" means the last assessment at or before that week.
+export function buildPatientOutcomes(patients: Patient[], assessments: PatientAssessment[], filters: StudyDataFilters): PatientOutcome[] {
+  const byPatient = new Map<number, PatientAssessment[]>();
+  assessments
+    .filter(a => a.isCompleted && withinDateRange(a.assessmentDate, filters))
+    .filter(a => filters.studyWeek === undefined || (a.studyWeek ?? 0) <= filters.studyWeek)
+    .forEach(a => {
+      const list = byPatient.get(a.patientId) || [];
+      list.push(a);
+      byPatient.set(a.patientId, list);
+    });
+
+  const outcomes: PatientOutcome[] = [];
+  patients.forEach(patient => {
+    const history = (byPatient.get(patient.id) || [])
+      .sort((a, b) => new Date(a.assessmentDate ?? 0).getTime() - new Date(b.assessmentDate ?? 0).getTime());
+    if (history.length === 0) return;
+
+    outcomes.push({
+      patientId: patient.id,
+      cohortId: patient.cohortId,
+      ageGroup: patient.ageGroup,
+      sex: patient.sex,
+      handDominance: patient.handDominance,
+      occupationCategory: patient.occupationCategory,
+      injuryType: patient.injuryType,
+      assessmentCount: history.length,
+      baseline: outcomeMetrics(history[0]),
+      latest: outcomeMetrics(history[history.length - 1])
+    });
+  });
+
+  return outcomes;
+}
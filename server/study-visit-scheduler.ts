@@ -0,0 +1,117 @@
+import {
+  visitProtocolSchema,
+  type Cohort,
+  type InsertStudyVisit,
+  type PatientAssessment,
+  type StudyVisit,
+  type VisitProtocol
+} from '@shared/schema';
+
+// Study visit scheduler: generates a patient's visit windows from their surgery
+// date and the cohort protocol, then reconciles visits as assessments arrive.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weekly visits from week 0 to week 12, two days either side
+export const DEFAULT_VISIT_PROTOCOL: VisitProtocol = {
+  visits: Array.from({ length: 13 }, (_, week) => ({ week, windowDaysBefore: 2, windowDaysAfter: 2 }))
+};
+
+// Storage methods the scheduler reads from and writes to
+export interface StudyVisitDataSource {
+  getStudyVisits(patientId: number): Promise<StudyVisit[]>;
+  updateStudyVisit(id: number, updates: Partial<StudyVisit>): Promise<StudyVisit | undefined>;
+  updatePatientAssessment(id: number, updates: Partial<PatientAssessment>): Promise<PatientAssessment | undefined>;
+}
+
+export function resolveVisitProtocol(cohort?: Pick<Cohort, 'visitProtocol'> | null): VisitProtocol {
+  const parsed = visitProtocolSchema.safeParse(cohort?.visitProtocol);
+  return parsed.success ? parsed.data : DEFAULT_VISIT_PROTOCOL;
+}
+
+export function buildVisitSchedule(patientId: number, surgeryDate: Date, protocol: VisitProtocol): InsertStudyVisit[] {
+  return protocol.visits
+    .slice()
+    .sort((a, b) => a.week - b.week)
+    .map(visit => {
+      const scheduledDate = new Date(surgeryDate.getTime() + visit.week * 7 * DAY_MS);
+
+      // Windows cover whole UTC days, so the schedule is the same whatever the server time zone
+      // and an assessment late on the last day still counts
+      const windowStart = new Date(scheduledDate.getTime() - visit.windowDaysBefore * DAY_MS);
+      windowStart.setUTCHours(0, 0, 0, 0);
+      const windowEnd = new Date(scheduledDate.getTime() + visit.windowDaysAfter * DAY_MS);
+      windowEnd.setUTCHours(23, 59, 59, 999);
+
+      return {
+        patientId,
+        scheduledWeek: visit.week,
+        scheduledDate,
+        windowStart,
+        windowEnd,
+        visitStatus: 'scheduled'
+      };
+    });
+}
+
+// Scheduled visits whose window has closed read as missed. Only recording an
+// assessment saves the status, so listing visits never writes.
+export function withMissedStatus(visit: StudyVisit, asOf: Date = new Date()): StudyVisit {
+  return visit.visitStatus === 'scheduled' && new Date(visit.windowEnd).getTime() < asOf.getTime()
+    ? { ...visit, visitStatus: 'missed' }
+    : visit;
+}
+
+const within = (visit: StudyVisit, time: number) =>
+  new Date(visit.windowStart).getTime() <= time && time <= new Date(visit.windowEnd).getTime();
+
+// Attach a newly written assessment to the patient's visit schedule. An assessment
+// inside an open window completes that visit. One taken after a missed visit, outside
+// every window, makes up the latest missed visit as out-of-window and is flagged
+// missedVisit. Anything else (a second session in a window already used, or one before
+// the next window opens) is an extra session and is left unattached. With inWindowOnly
+// (portal home recordings) only an open window is completed.
+export async function recordVisitAssessment(
+  source: StudyVisitDataSource,
+  assessment: PatientAssessment,
+  { inWindowOnly = false }: { inWindowOnly?: boolean } = {}
+): Promise<StudyVisit | undefined> {
+  const visits = await source.getStudyVisits(assessment.patientId);
+  if (visits.length === 0) return undefined;
+
+  const takenAt = assessment.assessmentDate ? new Date(assessment.assessmentDate) : new Date();
+  const time = takenAt.getTime();
+
+  // Close out anything that expired before this assessment was taken
+  for (const visit of visits) {
+    if (visit.visitStatus === 'scheduled' && new Date(visit.windowEnd).getTime() < time) {
+      await source.updateStudyVisit(visit.id, { visitStatus: 'missed' });
+      visit.visitStatus = 'missed';
+    }
+  }
+
+  const inWindow = visits.find(visit => visit.visitStatus === 'scheduled' && within(visit, time));
+  if (inWindow) {
+    return source.updateStudyVisit(inWindow.id, {
+      visitStatus: 'completed',
+      completedAt: takenAt,
+      assessmentId: assessment.id
+    });
+  }
+
+  // The window this falls in already has its assessment
+  if (inWindowOnly || visits.some(visit => within(visit, time))) return undefined;
+
+  // Visits not yet due are never claimed early
+  const lateFor = visits
+    .filter(visit => visit.visitStatus === 'missed' && new Date(visit.windowEnd).getTime() < time)
+    .sort((a, b) => new Date(b.windowEnd).getTime() - new Date(a.windowEnd).getTime())[0];
+  if (!lateFor) return undefined;
+
+  await source.updatePatientAssessment(assessment.id, { missedVisit: true });
+  return source.updateStudyVisit(lateFor.id, {
+    visitStatus: 'out_of_window',
+    completedAt: takenAt,
+    assessmentId: assessment.id
+  });
+}
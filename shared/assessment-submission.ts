@@ -0,0 +1,141 @@
+import { z } from 'zod';
+
+// Typed request bodies for completing an assessment. Each assessment kind has its own
+// schema, the server picks one from the assessment being completed and rejects fields
+// that belong to another kind, so the client and the scoring dispatcher share one contract.
+
+export const ASSESSMENT_KINDS = [
+  'tam',
+  'kapandji',
+  'wrist-flexion-extension',
+  'forearm-rotation',
+  'wrist-deviation',
+  'dash'
+] as const;
+
+export type AssessmentKind = typeof ASSESSMENT_KINDS[number];
+
+// Seeded assessment names; anything else has no submission contract
+const KIND_BY_ASSESSMENT_NAME: Record<string, AssessmentKind> = {
+  'TAM (Total Active Motion)': 'tam',
+  'Kapandji Score': 'kapandji',
+  'Wrist Flexion/Extension': 'wrist-flexion-extension',
+  'Forearm Pronation/Supination': 'forearm-rotation',
+  'Wrist Radial/Ulnar Deviation': 'wrist-deviation',
+  'DASH Survey': 'dash'
+};
+
+export function assessmentKindFor(assessmentName: string | null | undefined): AssessmentKind | null {
+  return (assessmentName && KIND_BY_ASSESSMENT_NAME[assessmentName]) || null;
+}
+
+const angleSchema = z.number().min(0).max(360);
+
+const landmarkSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  z: z.number(),
+  visibility: z.number().min(0).max(1).optional(),
+});
+
+// Extra tracking fields on a frame (pose landmarks, wrist angles, handedness) are kept as recorded
+const motionFrameSchema = z.object({
+  timestamp: z.number().optional(),
+  landmarks: z.array(landmarkSchema),
+}).passthrough();
+
+const jointAnglesSchema = z.object({
+  mcpAngle: angleSchema,
+  pipAngle: angleSchema,
+  dipAngle: angleSchema,
+  totalActiveRom: z.number().min(0),
+});
+
+const repetitionSchema = z.object({
+  repetition: z.number().int().min(1),
+  duration: z.number().min(0),
+  qualityScore: z.number().min(0).max(100),
+  motionData: z.array(motionFrameSchema),
+  romData: jointAnglesSchema.optional(),
+  wristFlexionAngle: angleSchema.optional(),
+  wristExtensionAngle: angleSchema.optional(),
+  maxWristFlexion: angleSchema.optional(),
+  maxWristExtension: angleSchema.optional(),
+}).passthrough();
+
+// Pain VAS ratings taken just before and after the recording; either may be skipped
+const vasScoreSchema = z.number().int().min(0).max(10).nullable().optional();
+
+const motionSubmissionSchema = z.object({
+  romData: z.object({
+    repetitionsCompleted: z.number().int().min(0),
+    totalDuration: z.number().min(0),
+    averageQuality: z.number().min(0).max(100),
+  }).passthrough(),
+  repetitionData: z.array(repetitionSchema).min(1, "At least one repetition must be recorded"),
+  qualityScore: z.number().min(0).max(100),
+  handType: z.enum(['LEFT', 'RIGHT', 'UNKNOWN']).default('UNKNOWN'),
+  vasScoreBefore: vasScoreSchema,
+  vasScoreAfter: vasScoreSchema,
+  // Retakes the recording quality gate asked for before this recording
+  retakeCount: z.number().int().min(0).max(50).default(0),
+  retakeReasons: z.array(z.string().max(500)).max(200).optional(),
+});
+
+export const ASSESSMENT_SUBMISSION_SCHEMAS = {
+  tam: motionSubmissionSchema.strict(),
+  kapandji: motionSubmissionSchema.strict(),
+  'wrist-flexion-extension': motionSubmissionSchema.extend({
+    wristFlexionAngle: angleSchema.optional(),
+    wristExtensionAngle: angleSchema.optional(),
+    maxWristFlexion: angleSchema.optional(),
+    maxWristExtension: angleSchema.optional(),
+  }).strict(),
+  'forearm-rotation': motionSubmissionSchema.strict(),
+  'wrist-deviation': motionSubmissionSchema.extend({
+    maxRadialDeviation: z.number().min(0).max(90).optional(),
+    maxUlnarDeviation: z.number().min(0).max(90).optional(),
+  }).strict(),
+  // QuickDASH answers keyed by item; null marks a skipped item. The score is always computed
+  // on the server and a client score is only compared against it.
+  dash: z.object({
+    responses: z.record(z.number().int().nullable()),
+    dashScore: z.number().optional(),
+    qualityScore: z.number().min(0).max(100).optional(),
+  }).strict(),
+} satisfies Record<AssessmentKind, z.ZodTypeAny>;
+
+export type AssessmentSubmissionPayload<K extends AssessmentKind> = z.input<typeof ASSESSMENT_SUBMISSION_SCHEMAS[K]>;
+
+export type AssessmentSubmission = {
+  [K in AssessmentKind]: { kind: K } & z.output<typeof ASSESSMENT_SUBMISSION_SCHEMAS[K]>
+}[AssessmentKind];
+
+export type MotionSubmission = Extract<AssessmentSubmission, { kind: Exclude<AssessmentKind, 'dash'> }>;
+
+export type MotionSubmissionPayload = AssessmentSubmissionPayload<Exclude<AssessmentKind, 'dash'>>;
+
+// One problem with a submission, addressed by the path of the offending field
+export interface SubmissionIssue {
+  path: string;
+  message: string;
+}
+
+export type SubmissionParseResult =
+  | { success: true; submission: AssessmentSubmission }
+  | { success: false; issues: SubmissionIssue[] };
+
+export function submissionIssues(error: z.ZodError): SubmissionIssue[] {
+  return error.errors.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+}
+
+// One line per issue for toasts and inline error text
+export function formatSubmissionIssues(issues: SubmissionIssue[]): string {
+  return issues.map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join('\n');
+}
+
+export function parseAssessmentSubmission(kind: AssessmentKind, body: unknown): SubmissionParseResult {
+  const result = ASSESSMENT_SUBMISSION_SCHEMAS[kind].safeParse(body);
+  if (!result.success) return { success: false, issues: submissionIssues(result.error) };
+  return { success: true, submission: { kind, ...result.data } as AssessmentSubmission };
+}
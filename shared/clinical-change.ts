@@ -0,0 +1,134 @@
+import type { AssessmentKind } from './assessment-submission';
+import type { ClinicalChangeThresholds } from './schema';
+
+// Clinically important change: each new assessment is compared, metric by metric, with the
+// patient's first (baseline) and most recent earlier result of the same assessment. A change
+// only counts as improved or worsened when it is larger than both the minimal detectable
+// change (MDC, measurement error) and the minimal clinically important difference (MCID);
+// anything smaller is reported as no change. Thresholds are clinic settings over the defaults
+// below.
+
+export const CLINICAL_CHANGE_METRICS = [
+  'indexFingerTam', 'middleFingerTam', 'ringFingerTam', 'pinkyFingerTam',
+  'kapandjiScore', 'wristFlexionExtensionArc', 'wristDeviationArc',
+  'quickDashScore', 'vasScore'
+] as const;
+
+export type ClinicalChangeMetric = typeof CLINICAL_CHANGE_METRICS[number];
+
+export type ChangeClassification = 'improved' | 'no_change' | 'worsened';
+
+export interface ChangeThreshold {
+  mcid: number;
+  mdc: number;
+}
+
+interface ClinicalChangeMetricSpec {
+  label: string;
+  unit: string;
+  // Pain and disability scores improve as they fall
+  higherIsBetter: boolean;
+  defaults: ChangeThreshold;
+}
+
+// Defaults from published goniometry reliability and outcome-measure studies; studies with
+// their own thresholds set them under clinical settings
+export const CLINICAL_CHANGE_METRIC_SPECS: Record<ClinicalChangeMetric, ClinicalChangeMetricSpec> = {
+  indexFingerTam: { label: 'Index finger TAM', unit: '°', higherIsBetter: true, defaults: { mcid: 20, mdc: 13 } },
+  middleFingerTam: { label: 'Middle finger TAM', unit: '°', higherIsBetter: true, defaults: { mcid: 20, mdc: 13 } },
+  ringFingerTam: { label: 'Ring finger TAM', unit: '°', higherIsBetter: true, defaults: { mcid: 20, mdc: 13 } },
+  pinkyFingerTam: { label: 'Pinky finger TAM', unit: '°', higherIsBetter: true, defaults: { mcid: 20, mdc: 13 } },
+  kapandjiScore: { label: 'Kapandji score', unit: '', higherIsBetter: true, defaults: { mcid: 1, mdc: 1 } },
+  wristFlexionExtensionArc: { label: 'Wrist flexion/extension arc', unit: '°', higherIsBetter: true, defaults: { mcid: 15, mdc: 10 } },
+  wristDeviationArc: { label: 'Wrist radial/ulnar arc', unit: '°', higherIsBetter: true, defaults: { mcid: 10, mdc: 7 } },
+  quickDashScore: { label: 'QuickDASH', unit: '', higherIsBetter: false, defaults: { mcid: 16, mdc: 11 } },
+  vasScore: { label: 'Pain (VAS)', unit: '', higherIsBetter: false, defaults: { mcid: 2, mdc: 1 } }
+};
+
+// Metrics each assessment kind measures; pain is rated around every motion recording. Kapandji
+// recordings reuse the finger columns for landmark levels, so they are not finger TAM.
+const METRICS_BY_KIND: Record<AssessmentKind, ClinicalChangeMetric[]> = {
+  tam: ['indexFingerTam', 'middleFingerTam', 'ringFingerTam', 'pinkyFingerTam', 'vasScore'],
+  kapandji: ['kapandjiScore', 'vasScore'],
+  'wrist-flexion-extension': ['wristFlexionExtensionArc', 'vasScore'],
+  'forearm-rotation': ['vasScore'],
+  'wrist-deviation': ['wristDeviationArc', 'vasScore'],
+  dash: ['quickDashScore']
+};
+
+// Clinic-defined assessment types without a kind are tracked on every metric they record
+export function clinicalChangeMetricsFor(kind: AssessmentKind | null): readonly ClinicalChangeMetric[] {
+  return kind ? METRICS_BY_KIND[kind] : CLINICAL_CHANGE_METRICS;
+}
+
+export type ResolvedChangeThresholds = Record<ClinicalChangeMetric, ChangeThreshold>;
+
+export function resolveChangeThresholds(overrides?: ClinicalChangeThresholds | null): ResolvedChangeThresholds {
+  return Object.fromEntries(CLINICAL_CHANGE_METRICS.map(metric => [
+    metric,
+    { ...CLINICAL_CHANGE_METRIC_SPECS[metric].defaults, ...overrides?.[metric] }
+  ])) as ResolvedChangeThresholds;
+}
+
+// Measured values of one assessment, keyed by metric; null or missing when not measured
+export type ClinicalChangeValues = Partial<Record<ClinicalChangeMetric, number | null>>;
+
+export interface MetricChange {
+  metric: ClinicalChangeMetric;
+  value: number;
+  baselineValue: number | null;
+  previousValue: number | null;
+  changeFromBaseline: number | null;
+  changeFromPrevious: number | null;
+  vsBaseline: ChangeClassification | null;
+  vsPrevious: ChangeClassification | null;
+}
+
+// Stored with each assessment (userAssessments and patientAssessments clinicalChange)
+export type ClinicalChange = MetricChange[];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function classifyChange(metric: ClinicalChangeMetric, change: number, threshold: ChangeThreshold): ChangeClassification {
+  const towardsBetter = CLINICAL_CHANGE_METRIC_SPECS[metric].higherIsBetter ? change : -change;
+  const important = Math.max(threshold.mcid, threshold.mdc);
+  if (towardsBetter >= important) return 'improved';
+  if (towardsBetter <= -important) return 'worsened';
+  return 'no_change';
+}
+
+// earlier holds the same assessment's previous results, oldest first. Each metric's baseline
+// is the first earlier result that measured it, and its previous value the latest one.
+export function computeClinicalChange(
+  current: ClinicalChangeValues,
+  earlier: ClinicalChangeValues[],
+  thresholds: ResolvedChangeThresholds
+): ClinicalChange {
+  return CLINICAL_CHANGE_METRICS.flatMap(metric => {
+    const value = current[metric];
+    if (value === null || value === undefined) return [];
+    const measured = earlier
+      .map(values => values[metric])
+      .filter((earlierValue): earlierValue is number => earlierValue !== null && earlierValue !== undefined);
+    const baselineValue = measured.length > 0 ? measured[0] : null;
+    const previousValue = measured.length > 0 ? measured[measured.length - 1] : null;
+    const changeFromBaseline = baselineValue === null ? null : round(value - baselineValue);
+    const changeFromPrevious = previousValue === null ? null : round(value - previousValue);
+    return [{
+      metric,
+      value,
+      baselineValue,
+      previousValue,
+      changeFromBaseline,
+      changeFromPrevious,
+      vsBaseline: changeFromBaseline === null ? null : classifyChange(metric, changeFromBaseline, thresholds[metric]),
+      vsPrevious: changeFromPrevious === null ? null : classifyChange(metric, changeFromPrevious, thresholds[metric])
+    }];
+  });
+}
+
+export const CHANGE_CLASSIFICATION_LABELS: Record<ChangeClassification, string> = {
+  improved: 'Improved',
+  no_change: 'No change',
+  worsened: 'Worsened'
+};
@@ -0,0 +1,105 @@
+import type { AssessmentKind } from './assessment-submission';
+
+// Bilateral comparison: results on the injured hand expressed as a percentage of the same
+// measurement on the patient's own uninjured hand, instead of population norms. The server
+// builds the comparison from the latest contralateral baseline and the results pages show
+// both sides next to each other.
+
+export type HandSide = 'LEFT' | 'RIGHT';
+
+export type ContralateralMetric =
+  | 'totalActiveRom'
+  | 'kapandjiScore'
+  | 'maxWristFlexion'
+  | 'maxWristExtension'
+  | 'maxRadialDeviation'
+  | 'maxUlnarDeviation';
+
+interface ContralateralMetricSpec {
+  metric: ContralateralMetric;
+  label: string;
+  unit: string;
+  // Column read when the metric itself was not stored (recordings scored before it had a column)
+  fallback?: ContralateralMetric;
+}
+
+// Assessment kinds a baseline can be recorded for, and what each one compares
+export const CONTRALATERAL_METRICS: Partial<Record<AssessmentKind, ContralateralMetricSpec[]>> = {
+  tam: [{ metric: 'totalActiveRom', label: 'Total active motion', unit: '°' }],
+  kapandji: [{ metric: 'kapandjiScore', label: 'Kapandji score', unit: '/10', fallback: 'totalActiveRom' }],
+  'wrist-flexion-extension': [
+    { metric: 'maxWristFlexion', label: 'Wrist flexion', unit: '°' },
+    { metric: 'maxWristExtension', label: 'Wrist extension', unit: '°' }
+  ],
+  'wrist-deviation': [
+    { metric: 'maxRadialDeviation', label: 'Radial deviation', unit: '°' },
+    { metric: 'maxUlnarDeviation', label: 'Ulnar deviation', unit: '°' }
+  ]
+};
+
+export interface ContralateralComparison {
+  metric: ContralateralMetric;
+  label: string;
+  unit: string;
+  injured: number;
+  contralateral: number;
+  // null when the uninjured hand measured 0, so there is nothing to divide by
+  percentOfContralateral: number | null;
+}
+
+export interface ContralateralComparisonResult {
+  injuredHand: HandSide | null;
+  baseline: { id: number; handType: string; recordedAt: Date | string | null } | null;
+  comparisons: ContralateralComparison[];
+  // False when the assessment has no compared metrics or both hands are affected
+  canRecordBaseline: boolean;
+  // Why there is nothing to compare, shown in place of the comparison
+  unavailableReason?: string;
+}
+
+// Numeric columns (and their string form from Postgres) on either a recording or a baseline
+export type ContralateralValues = Partial<Record<ContralateralMetric, string | number | null>>;
+
+export function supportsContralateralBaseline(kind: AssessmentKind | null): boolean {
+  return !!kind && !!CONTRALATERAL_METRICS[kind];
+}
+
+// patients.laterality is the injured side; "Bilateral" leaves no uninjured hand to compare with
+export function injuredHandFor(laterality: string | null | undefined): HandSide | null {
+  if (laterality === 'Left') return 'LEFT';
+  if (laterality === 'Right') return 'RIGHT';
+  return null;
+}
+
+export function oppositeHand(hand: HandSide): HandSide {
+  return hand === 'LEFT' ? 'RIGHT' : 'LEFT';
+}
+
+function readMetric(values: ContralateralValues, spec: ContralateralMetricSpec): number | null {
+  const value = values[spec.metric] ?? (spec.fallback ? values[spec.fallback] : null);
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+// Metrics measured on both hands; percentages are rounded to one decimal
+export function compareWithContralateral(
+  kind: AssessmentKind | null,
+  injured: ContralateralValues,
+  contralateral: ContralateralValues
+): ContralateralComparison[] {
+  const specs = (kind && CONTRALATERAL_METRICS[kind]) || [];
+  return specs.flatMap(spec => {
+    const injuredValue = readMetric(injured, spec);
+    const contralateralValue = readMetric(contralateral, spec);
+    if (injuredValue === null || contralateralValue === null) return [];
+    return [{
+      metric: spec.metric,
+      label: spec.label,
+      unit: spec.unit,
+      injured: injuredValue,
+      contralateral: contralateralValue,
+      percentOfContralateral: contralateralValue > 0 ? Math.round(injuredValue / contralateralValue * 1000) / 10 : null
+    }];
+  });
+}
@@ -0,0 +1,122 @@
+import type { EligibilityCriteria, EligibilityRule, Patient } from './schema';
+import { calculatePostOpDay } from './recovery-timeline';
+
+// Eligibility rules engine: evaluates a cohort's inclusion/exclusion criteria against a
+// patient (or unsaved screening data) and reports every criterion with its reason, so
+// the screening screens can show exactly why a patient does or does not qualify.
+
+// Patient fields a categorical rule can match against
+export const ELIGIBILITY_VALUE_FIELDS = ['ageGroup', 'injuryType', 'laterality', 'handDominance', 'procedureCode'] as const;
+
+export type EligibilityValueField = typeof ELIGIBILITY_VALUE_FIELDS[number];
+
+export const ELIGIBILITY_FIELD_LABELS: Record<EligibilityValueField | 'daysSinceSurgery', string> = {
+  ageGroup: 'Age group',
+  injuryType: 'Injury type',
+  laterality: 'Laterality',
+  handDominance: 'Hand dominance',
+  procedureCode: 'Procedure code',
+  daysSinceSurgery: 'Days since surgery'
+};
+
+export interface EligibilityCriterionResult {
+  criterion: string;
+  type: 'status' | 'inclusion' | 'exclusion';
+  passed: boolean;
+  reason: string;
+}
+
+export interface EligibilityResult {
+  eligible: boolean;
+  reasons: string[]; // Reasons of the failed criteria
+  criteria: EligibilityCriterionResult[];
+}
+
+// A saved patient or the details entered on a screening form
+export type EligibilityCandidate = Partial<Pick<Patient,
+  EligibilityValueField | 'enrolledInStudy' | 'cohortId' | 'enrollmentStatus'
+>> & { surgeryDate?: Date | string | null };
+
+// Codes ending in "*" match by prefix, so "CPT-647*" covers a procedure family
+function matchesValue(actual: string, expected: string): boolean {
+  const value = actual.trim().toLowerCase();
+  const pattern = expected.trim().toLowerCase();
+  return pattern.endsWith('*') ? value.startsWith(pattern.slice(0, -1)) : value === pattern;
+}
+
+function describeRule(rule: EligibilityRule): string {
+  const label = ELIGIBILITY_FIELD_LABELS[rule.field];
+  if (rule.field === 'daysSinceSurgery') {
+    if (rule.min !== undefined && rule.max !== undefined) return `${label} between ${rule.min} and ${rule.max}`;
+    return rule.min !== undefined ? `${label} at least ${rule.min}` : `${label} at most ${rule.max}`;
+  }
+  return `${label} ${rule.type === 'inclusion' ? 'is' : 'is not'} ${rule.values.join(' or ')}`;
+}
+
+// Rules on data the patient does not have yet fail, since they cannot be confirmed
+function evaluateRule(rule: EligibilityRule, candidate: EligibilityCandidate, asOf: Date): EligibilityCriterionResult {
+  const criterion = describeRule(rule);
+  const label = ELIGIBILITY_FIELD_LABELS[rule.field];
+  const result = (passed: boolean, reason: string): EligibilityCriterionResult =>
+    ({ criterion, type: rule.type, passed, reason });
+
+  if (rule.field === 'daysSinceSurgery') {
+    const surgeryDate = candidate.surgeryDate ? new Date(candidate.surgeryDate) : null;
+    if (!surgeryDate || isNaN(surgeryDate.getTime())) {
+      return result(false, 'Surgery date not recorded');
+    }
+    const days = calculatePostOpDay(surgeryDate, asOf);
+    const inRange = (rule.min === undefined || days >= rule.min) && (rule.max === undefined || days <= rule.max);
+    const passed = rule.type === 'inclusion' ? inRange : !inRange;
+    return result(passed, `${days} days since surgery${passed ? '' : rule.type === 'inclusion' ? ' is outside the allowed range' : ' is within the excluded range'}`);
+  }
+
+  const actual = candidate[rule.field];
+  if (!actual) {
+    return result(false, `${label} not recorded`);
+  }
+  const matched = rule.values.some(value => matchesValue(actual, value));
+  if (rule.type === 'inclusion') {
+    return result(matched, matched ? `${label} ${actual} is included` : `${label} ${actual} is not included in this cohort`);
+  }
+  return result(!matched, matched ? `${label} ${actual} is excluded from this cohort` : `${label} ${actual} is not excluded`);
+}
+
+// Enrollment history checks apply to every cohort, ahead of its own criteria
+function evaluateStatus(candidate: EligibilityCandidate, cohortId: number): EligibilityCriterionResult[] {
+  const enrolledElsewhere = !!candidate.enrolledInStudy && !!candidate.cohortId && candidate.cohortId !== cohortId;
+  return [
+    {
+      criterion: 'Not enrolled in another study',
+      type: 'status',
+      passed: !enrolledElsewhere,
+      reason: enrolledElsewhere ? 'Patient already enrolled in another study' : 'No other active study enrollment'
+    },
+    {
+      criterion: 'Not previously excluded or withdrawn',
+      type: 'status',
+      passed: candidate.enrollmentStatus !== 'excluded' && candidate.enrollmentStatus !== 'withdrawn',
+      reason: candidate.enrollmentStatus === 'excluded' ? 'Patient previously excluded from studies'
+        : candidate.enrollmentStatus === 'withdrawn' ? 'Patient previously withdrew from studies'
+        : 'No previous exclusion or withdrawal'
+    }
+  ];
+}
+
+export function evaluateEligibility(
+  candidate: EligibilityCandidate,
+  cohortId: number,
+  criteria: EligibilityCriteria | null | undefined,
+  asOf: Date = new Date()
+): EligibilityResult {
+  const results = [
+    ...evaluateStatus(candidate, cohortId),
+    ...(criteria?.rules ?? []).map(rule => evaluateRule(rule, candidate, asOf))
+  ];
+  const failed = results.filter(result => !result.passed);
+  return {
+    eligible: failed.length === 0,
+    reasons: failed.map(result => result.reason),
+    criteria: results
+  };
+}
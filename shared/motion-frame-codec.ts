@@ -0,0 +1,321 @@
+// Compact storage form for recorded motion frames. A session stores every frame as JSON
+// objects of 21 hand and 33 pose landmarks plus wrist angles and handedness, which dominates
+// storage.json and the repetition_data column. Encoded sessions keep landmarks as quantised
+// int16 columns, timestamps as deltas from the first frame, fields that never change within
+// the session once, and the remaining per-frame fields as columns.
+//
+// Landmark coordinates are rounded to 1e-4 of the image (under a tenth of a pixel at 1080p),
+// visibility to 1/250 and other per-frame numbers to float32; everything else round-trips
+// exactly. Binary columns are little-endian and base64 encoded so they still fit in JSON
+// and jsonb.
+
+export const MOTION_FRAME_ENCODING = 'motion-frames/v1';
+
+const LANDMARK_SCALE = 10000;
+const MAX_QUANTISED = 32767;
+const VISIBILITY_SCALE = 250;
+const NO_VISIBILITY = 255;
+const NO_LANDMARKS = 0xffff;
+// Larger numbers (epoch timestamps, ids) lose precision in float32 and are kept as JSON
+const MAX_FLOAT_COLUMN_VALUE = 1e6;
+
+const LANDMARK_KEYS = new Set(['x', 'y', 'z', 'visibility']);
+
+type FramePath = string[];
+
+type BinaryFormat = 'uint8' | 'uint16' | 'int16' | 'int32' | 'float32';
+
+const FORMAT_BYTES: Record<BinaryFormat, number> = { uint8: 1, uint16: 2, int16: 2, int32: 4, float32: 4 };
+
+export interface EncodedLandmarkColumn {
+  key: string;
+  // Landmarks per frame (uint16), NO_LANDMARKS where the frame has no list
+  counts: string;
+  // x, y, z of every landmark (int16, LANDMARK_SCALE per unit)
+  coordinates: string;
+  // One per landmark (uint8, VISIBILITY_SCALE per unit), NO_VISIBILITY where absent
+  visibility: string;
+}
+
+export interface EncodedMotionFrames {
+  encoding: typeof MOTION_FRAME_ENCODING;
+  frameCount: number;
+  // Epoch ms of the first frame and int32 deltas to each following frame
+  timestamps?: { start: number; deltas: string };
+  landmarks: EncodedLandmarkColumn[];
+  // Fields with the same value in every frame
+  shared: Array<{ path: FramePath; value: unknown }>;
+  // Numeric fields as float32, NaN where a frame lacks the field
+  numeric: Array<{ path: FramePath; values: string }>;
+  // Any other field: one value per frame, with the frames that lack it listed
+  values: Array<{ path: FramePath; values: unknown[]; missing?: number[] }>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function pack(values: number[], format: BinaryFormat): string {
+  const size = FORMAT_BYTES[format];
+  const view = new DataView(new ArrayBuffer(values.length * size));
+  values.forEach((value, index) => {
+    const offset = index * size;
+    switch (format) {
+      case 'uint8': view.setUint8(offset, value); break;
+      case 'uint16': view.setUint16(offset, value, true); break;
+      case 'int16': view.setInt16(offset, value, true); break;
+      case 'int32': view.setInt32(offset, value, true); break;
+      case 'float32': view.setFloat32(offset, value, true); break;
+    }
+  });
+  return toBase64(new Uint8Array(view.buffer));
+}
+
+function unpack(text: string, format: BinaryFormat): number[] {
+  const bytes = fromBase64(text);
+  const size = FORMAT_BYTES[format];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return Array.from({ length: Math.floor(bytes.length / size) }, (_, index) => {
+    const offset = index * size;
+    switch (format) {
+      case 'uint8': return view.getUint8(offset);
+      case 'uint16': return view.getUint16(offset, true);
+      case 'int16': return view.getInt16(offset, true);
+      case 'int32': return view.getInt32(offset, true);
+      case 'float32': return view.getFloat32(offset, true);
+    }
+  });
+}
+
+// Only plain { x, y, z, visibility? } points inside the int16 range are quantised
+function isLandmark(value: unknown): boolean {
+  if (!isPlainObject(value) || !Object.keys(value).every(key => LANDMARK_KEYS.has(key))) return false;
+  const inRange = (axis: unknown) => typeof axis === 'number' && Math.abs(axis) * LANDMARK_SCALE <= MAX_QUANTISED;
+  const visibility = value.visibility;
+  return inRange(value.x) && inRange(value.y) && inRange(value.z)
+    && (visibility === undefined || (typeof visibility === 'number' && visibility >= 0 && visibility <= 1));
+}
+
+function isLandmarkKey(frames: Record<string, unknown>[], key: string): boolean {
+  return frames.every(frame => {
+    const list = frame[key];
+    return list === undefined || (Array.isArray(list) && list.length < NO_LANDMARKS && list.every(isLandmark));
+  }) && frames.some(frame => Array.isArray(frame[key]) && (frame[key] as unknown[]).length > 0);
+}
+
+function encodeLandmarks(frames: Record<string, unknown>[], key: string): EncodedLandmarkColumn {
+  const counts: number[] = [];
+  const coordinates: number[] = [];
+  const visibility: number[] = [];
+  frames.forEach(frame => {
+    const list = frame[key] as Array<{ x: number; y: number; z: number; visibility?: number }> | undefined;
+    counts.push(list ? list.length : NO_LANDMARKS);
+    list?.forEach(landmark => {
+      coordinates.push(
+        Math.round(landmark.x * LANDMARK_SCALE),
+        Math.round(landmark.y * LANDMARK_SCALE),
+        Math.round(landmark.z * LANDMARK_SCALE)
+      );
+      visibility.push(landmark.visibility === undefined ? NO_VISIBILITY : Math.round(landmark.visibility * VISIBILITY_SCALE));
+    });
+  });
+  return {
+    key,
+    counts: pack(counts, 'uint16'),
+    coordinates: pack(coordinates, 'int16'),
+    visibility: pack(visibility, 'uint8')
+  };
+}
+
+function decodeLandmarks(column: EncodedLandmarkColumn, frames: Record<string, unknown>[]) {
+  const counts = unpack(column.counts, 'uint16');
+  const coordinates = unpack(column.coordinates, 'int16');
+  const visibility = unpack(column.visibility, 'uint8');
+  let next = 0;
+  counts.forEach((count, frameIndex) => {
+    if (count === NO_LANDMARKS) return;
+    frames[frameIndex][column.key] = Array.from({ length: count }, () => {
+      const landmark: Record<string, number> = {
+        x: coordinates[next * 3] / LANDMARK_SCALE,
+        y: coordinates[next * 3 + 1] / LANDMARK_SCALE,
+        z: coordinates[next * 3 + 2] / LANDMARK_SCALE
+      };
+      if (visibility[next] !== NO_VISIBILITY) landmark.visibility = visibility[next] / VISIBILITY_SCALE;
+      next++;
+      return landmark;
+    });
+  });
+}
+
+// Whole-millisecond timestamps whose gaps fit in int32; anything else stays a plain field
+function hasDeltaTimestamps(frames: Record<string, unknown>[]): boolean {
+  return frames.every((frame, index) => {
+    const timestamp = frame.timestamp;
+    if (typeof timestamp !== 'number' || !Number.isSafeInteger(timestamp)) return false;
+    if (index === 0) return true;
+    const delta = timestamp - (frames[index - 1].timestamp as number);
+    return Math.abs(delta) <= 0x7fffffff;
+  });
+}
+
+// Leaf values by path; non-empty plain objects are descended, arrays and primitives are leaves
+function collectLeaves(value: Record<string, unknown>, path: FramePath, frameIndex: number, leaves: Map<string, { path: FramePath; values: Map<number, unknown> }>) {
+  Object.entries(value).forEach(([key, child]) => {
+    if (child === undefined) return;
+    const childPath = [...path, key];
+    if (isPlainObject(child) && Object.keys(child).length > 0) {
+      collectLeaves(child, childPath, frameIndex, leaves);
+      return;
+    }
+    const id = JSON.stringify(childPath);
+    if (!leaves.has(id)) leaves.set(id, { path: childPath, values: new Map() });
+    leaves.get(id)!.values.set(frameIndex, child);
+  });
+}
+
+function setPath(target: Record<string, unknown>, path: FramePath, value: unknown) {
+  let node = target;
+  path.slice(0, -1).forEach(key => {
+    if (!isPlainObject(node[key])) node[key] = {};
+    node = node[key] as Record<string, unknown>;
+  });
+  node[path[path.length - 1]] = value;
+}
+
+function isFloatColumn(values: unknown[]): boolean {
+  return values.every(value => typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= MAX_FLOAT_COLUMN_VALUE);
+}
+
+// Null when the frames are not objects (older sessions stored bare landmark arrays)
+export function encodeMotionFrames(frames: unknown[]): EncodedMotionFrames | null {
+  if (frames.length === 0 || !frames.every(isPlainObject)) return null;
+  const objects = frames as Record<string, unknown>[];
+
+  const encoded: EncodedMotionFrames = {
+    encoding: MOTION_FRAME_ENCODING,
+    frameCount: objects.length,
+    landmarks: [],
+    shared: [],
+    numeric: [],
+    values: []
+  };
+
+  const handled = new Set<string>();
+  if (hasDeltaTimestamps(objects)) {
+    const timestamps = objects.map(frame => frame.timestamp as number);
+    encoded.timestamps = {
+      start: timestamps[0],
+      deltas: pack(timestamps.slice(1).map((timestamp, index) => timestamp - timestamps[index]), 'int32')
+    };
+    handled.add('timestamp');
+  }
+
+  const keys = Array.from(new Set(objects.flatMap(frame => Object.keys(frame))));
+  keys.filter(key => !handled.has(key) && isLandmarkKey(objects, key)).forEach(key => {
+    encoded.landmarks.push(encodeLandmarks(objects, key));
+    handled.add(key);
+  });
+
+  const leaves = new Map<string, { path: FramePath; values: Map<number, unknown> }>();
+  objects.forEach((frame, frameIndex) => {
+    const rest = Object.fromEntries(Object.entries(frame).filter(([key]) => !handled.has(key)));
+    collectLeaves(rest, [], frameIndex, leaves);
+  });
+
+  leaves.forEach(({ path, values }) => {
+    const present = Array.from(values.values());
+    const first = JSON.stringify(present[0]);
+    if (values.size === objects.length && present.every(value => JSON.stringify(value) === first)) {
+      encoded.shared.push({ path, value: present[0] });
+    } else if (isFloatColumn(present)) {
+      encoded.numeric.push({
+        path,
+        values: pack(objects.map((_, frameIndex) => values.has(frameIndex) ? values.get(frameIndex) as number : NaN), 'float32')
+      });
+    } else {
+      const missing = objects.map((_, frameIndex) => frameIndex).filter(frameIndex => !values.has(frameIndex));
+      encoded.values.push({
+        path,
+        values: objects.map((_, frameIndex) => values.has(frameIndex) ? values.get(frameIndex) : null),
+        ...(missing.length > 0 ? { missing } : {})
+      });
+    }
+  });
+
+  return encoded;
+}
+
+export function isEncodedMotionFrames(value: unknown): value is EncodedMotionFrames {
+  return isPlainObject(value) && value.encoding === MOTION_FRAME_ENCODING;
+}
+
+// Accepts encoded sessions and plain frame arrays alike, so callers need not know how a row was stored
+export function decodeMotionFrames(motionData: unknown): any[] {
+  if (Array.isArray(motionData)) return motionData;
+  if (!isEncodedMotionFrames(motionData)) return [];
+
+  const frames: Record<string, unknown>[] = Array.from({ length: motionData.frameCount }, () => ({}));
+
+  if (motionData.timestamps) {
+    let timestamp = motionData.timestamps.start;
+    frames[0].timestamp = timestamp;
+    unpack(motionData.timestamps.deltas, 'int32').forEach((delta, index) => {
+      timestamp += delta;
+      frames[index + 1].timestamp = timestamp;
+    });
+  }
+
+  motionData.landmarks.forEach(column => decodeLandmarks(column, frames));
+
+  motionData.shared.forEach(({ path, value }) => {
+    frames.forEach(frame => setPath(frame, path, typeof value === 'object' && value !== null ? structuredClone(value) : value));
+  });
+
+  motionData.numeric.forEach(({ path, values }) => {
+    unpack(values, 'float32').forEach((value, frameIndex) => {
+      // Trim float32 noise back to the precision it holds
+      if (!Number.isNaN(value)) setPath(frames[frameIndex], path, Number(value.toPrecision(7)));
+    });
+  });
+
+  motionData.values.forEach(({ path, values, missing }) => {
+    const skipped = new Set(missing ?? []);
+    values.forEach((value, frameIndex) => {
+      if (!skipped.has(frameIndex)) setPath(frames[frameIndex], path, value);
+    });
+  });
+
+  return frames;
+}
+
+// Repetitions keep their summary fields; only the motionData frame list is encoded
+export function encodeRepetitionData(repetitionData: unknown): any {
+  if (!Array.isArray(repetitionData)) return repetitionData;
+  return repetitionData.map(rep => {
+    if (!isPlainObject(rep) || !Array.isArray(rep.motionData)) return rep;
+    const encoded = encodeMotionFrames(rep.motionData);
+    return encoded ? { ...rep, motionData: encoded } : rep;
+  });
+}
+
+export function decodeRepetitionData(repetitionData: unknown): any {
+  if (!Array.isArray(repetitionData)) return repetitionData;
+  return repetitionData.map(rep =>
+    isPlainObject(rep) && isEncodedMotionFrames(rep.motionData) ? { ...rep, motionData: decodeMotionFrames(rep.motionData) } : rep
+  );
+}
@@ -0,0 +1,132 @@
+import type { AssessmentKind } from './assessment-submission';
+import type { NormalRomRanges, Patient } from './schema';
+
+// Normative reference: the normal range of motion each result is interpreted against. The
+// built-in population values can be replaced per cohort (cohorts.normalRomRanges), and a
+// cohort range may apply only to one age group, one sex or both. Result pages, wrist status
+// assessment and the stored percentOfNormalRom all read the same resolved reference.
+
+export const NORMATIVE_JOINTS = [
+  'mcp', 'pip', 'dip', 'tam', 'kapandji',
+  'wristFlexion', 'wristExtension', 'wristTotal',
+  'radialDeviation', 'ulnarDeviation', 'deviationTotal'
+] as const;
+
+export type NormativeJoint = typeof NORMATIVE_JOINTS[number];
+
+// normal is the population reference (100% of normal); a value at or above functional is
+// adequate for daily activities, one below minimum is severely limited
+export interface NormalRange {
+  normal: number;
+  functional: number;
+  minimum: number;
+}
+
+export type NormativeReference = Record<NormativeJoint, NormalRange>;
+
+export type RomStatus = 'normal' | 'functional' | 'limited' | 'severely limited';
+
+export const NORMATIVE_JOINT_LABELS: Record<NormativeJoint, string> = {
+  mcp: 'MCP joint',
+  pip: 'PIP joint',
+  dip: 'DIP joint',
+  tam: 'Finger total active motion',
+  kapandji: 'Kapandji score',
+  wristFlexion: 'Wrist flexion',
+  wristExtension: 'Wrist extension',
+  wristTotal: 'Wrist flexion/extension arc',
+  radialDeviation: 'Radial deviation',
+  ulnarDeviation: 'Ulnar deviation',
+  deviationTotal: 'Radial/ulnar deviation arc'
+};
+
+// Adult population values (AAOS/AMA for the wrist, ASSH for finger TAM)
+export const DEFAULT_NORMATIVE_REFERENCE: NormativeReference = {
+  mcp: { normal: 90, functional: 70, minimum: 45 },
+  pip: { normal: 110, functional: 90, minimum: 60 },
+  dip: { normal: 90, functional: 70, minimum: 40 },
+  tam: { normal: 260, functional: 195, minimum: 130 },
+  kapandji: { normal: 10, functional: 8, minimum: 5 },
+  wristFlexion: { normal: 80, functional: 60, minimum: 30 },
+  wristExtension: { normal: 70, functional: 50, minimum: 20 },
+  wristTotal: { normal: 150, functional: 110, minimum: 50 },
+  radialDeviation: { normal: 20, functional: 18, minimum: 12 },
+  ulnarDeviation: { normal: 30, functional: 25, minimum: 18 },
+  deviationTotal: { normal: 50, functional: 45, minimum: 30 }
+};
+
+type Demographics = Partial<Pick<Patient, 'ageGroup' | 'sex'>> | null | undefined;
+
+// A range for both the patient's age group and sex beats one for either, which beats a
+// cohort-wide range; among equally specific ranges the last listed wins
+export function resolveNormativeReference(
+  ranges: NormalRomRanges | null | undefined,
+  demographics?: Demographics
+): NormativeReference {
+  const reference = { ...DEFAULT_NORMATIVE_REFERENCE };
+  const specificity = new Map<NormativeJoint, number>();
+
+  (ranges?.ranges ?? []).forEach(range => {
+    if (range.ageGroup && range.ageGroup !== demographics?.ageGroup) return;
+    if (range.sex && range.sex !== demographics?.sex) return;
+    const score = (range.ageGroup ? 1 : 0) + (range.sex ? 1 : 0);
+    if (score < (specificity.get(range.joint) ?? -1)) return;
+    specificity.set(range.joint, score);
+    reference[range.joint] = { normal: range.normal, functional: range.functional, minimum: range.minimum };
+  });
+
+  return reference;
+}
+
+export function romStatus(value: number, range: NormalRange): RomStatus {
+  if (value >= range.normal) return 'normal';
+  if (value >= range.functional) return 'functional';
+  if (value >= range.minimum) return 'limited';
+  return 'severely limited';
+}
+
+// Rounded to one decimal
+export function percentOfNormal(value: number, range: NormalRange): number {
+  return Math.round(value / range.normal * 1000) / 10;
+}
+
+// Numeric result columns (and their string form from Postgres) on a portal or clinic recording
+export type NormativeValues = Partial<Record<
+  'totalActiveRom' | 'kapandjiScore' | 'maxWristFlexion' | 'maxWristExtension' | 'maxRadialDeviation' | 'maxUlnarDeviation',
+  string | number | null
+>>;
+
+function readValue(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+// The headline measurement of each assessment kind as a percentage of its normal: finger TAM,
+// the Kapandji score, or the whole wrist arc. Null when the kind has no norm or nothing was
+// measured.
+export function percentOfNormalRom(kind: AssessmentKind | null, values: NormativeValues, reference: NormativeReference): number | null {
+  const arc = (first: number | null, second: number | null) =>
+    first === null && second === null ? null : (first ?? 0) + (second ?? 0);
+
+  switch (kind) {
+    case 'tam': {
+      const tam = readValue(values.totalActiveRom);
+      return tam === null ? null : percentOfNormal(tam, reference.tam);
+    }
+    case 'kapandji': {
+      const score = readValue(values.kapandjiScore);
+      return score === null ? null : percentOfNormal(score, reference.kapandji);
+    }
+    case 'wrist-flexion-extension': {
+      const total = arc(readValue(values.maxWristFlexion), readValue(values.maxWristExtension));
+      return total === null ? null : percentOfNormal(total, reference.wristTotal);
+    }
+    case 'wrist-deviation': {
+      const total = arc(readValue(values.maxRadialDeviation), readValue(values.maxUlnarDeviation));
+      return total === null ? null : percentOfNormal(total, reference.deviationTotal);
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,255 @@
+// Patient-reported outcome questionnaires beyond QuickDASH. Each instrument is described
+// as data (sections, items, response options and scoring rule) so one form renders them
+// all and the server scores every submission with the same definitions.
+
+export const QUESTIONNAIRE_IDS = ['prwe', 'bctq'] as const;
+
+export type QuestionnaireId = typeof QUESTIONNAIRE_IDS[number];
+
+export const QUESTIONNAIRE_FREQUENCIES = ['daily', 'weekly', 'biweekly'] as const;
+
+export type QuestionnaireFrequency = typeof QUESTIONNAIRE_FREQUENCIES[number];
+
+export const QUESTIONNAIRE_FREQUENCY_DAYS: Record<QuestionnaireFrequency, number> = {
+  daily: 1,
+  weekly: 7,
+  biweekly: 14
+};
+
+export interface QuestionnaireOption {
+  value: number;
+  label: string;
+}
+
+export interface QuestionnaireItem {
+  key: string;
+  text: string;
+  // Items whose answers are worded differently from the rest of their section
+  options?: QuestionnaireOption[];
+}
+
+export interface QuestionnaireSection {
+  key: string;
+  label: string;
+  prompt: string;
+  items: QuestionnaireItem[];
+  options: QuestionnaireOption[];
+  // sum: missing items take the mean of the answered ones; mean: average of the answered items
+  scoring: 'sum' | 'mean';
+  divisor?: number;
+  maxMissing: number;
+  range: [number, number];
+}
+
+export interface QuestionnaireDefinition {
+  id: QuestionnaireId;
+  name: string;
+  shortName: string;
+  description: string;
+  sections: QuestionnaireSection[];
+  // Sum of the section scores, for instruments that report one
+  total?: { label: string; range: [number, number] };
+}
+
+export interface QuestionnaireScoreResult {
+  valid: boolean;
+  answers: Record<string, number>;
+  scores: Record<string, number>;
+  totalScore: number | null;
+  errors: string[];
+}
+
+function numericScale(min: number, max: number, minLabel: string, maxLabel: string): QuestionnaireOption[] {
+  return Array.from({ length: max - min + 1 }, (_, index) => {
+    const value = min + index;
+    return { value, label: value === min ? `${value} - ${minLabel}` : value === max ? `${value} - ${maxLabel}` : String(value) };
+  });
+}
+
+function severityScale(none: string, suffix = ''): QuestionnaireOption[] {
+  return [none, 'Mild', 'Moderate', 'Severe', 'Very severe'].map((label, index) => ({
+    value: index + 1,
+    label: index === 0 ? label : `${label}${suffix}`
+  }));
+}
+
+const NIGHT_WAKING: QuestionnaireOption[] = ['Never', 'Once', 'Two or three times', 'Four or five times', 'More than five times']
+  .map((label, index) => ({ value: index + 1, label }));
+
+const PRWE: QuestionnaireDefinition = {
+  id: 'prwe',
+  name: 'Patient-Rated Wrist Evaluation',
+  shortName: 'PRWE',
+  description: 'Wrist pain and function over the past week',
+  sections: [
+    {
+      key: 'pain',
+      label: 'Pain',
+      prompt: 'Rate the average amount of pain in your wrist over the past week (0 = no pain, 10 = worst pain ever)',
+      items: [
+        { key: 'pain1_at_rest', text: 'At rest' },
+        { key: 'pain2_repeated_movement', text: 'When doing a task with a repeated wrist movement' },
+        { key: 'pain3_lifting_heavy', text: 'When lifting a heavy object' },
+        { key: 'pain4_at_worst', text: 'When it is at its worst' },
+        { key: 'pain5_how_often', text: 'How often do you have pain? (0 = never, 10 = always)' }
+      ],
+      options: numericScale(0, 10, 'No pain', 'Worst ever'),
+      scoring: 'sum',
+      maxMissing: 1,
+      range: [0, 50]
+    },
+    {
+      key: 'function',
+      label: 'Function',
+      prompt: 'Rate the amount of difficulty you experienced over the past week (0 = no difficulty, 10 = unable to do)',
+      items: [
+        { key: 'func1_door_knob', text: 'Turn a door knob using my affected hand' },
+        { key: 'func2_cut_meat', text: 'Cut meat using a knife in my affected hand' },
+        { key: 'func3_fasten_buttons', text: 'Fasten buttons on my shirt' },
+        { key: 'func4_push_up_chair', text: 'Use my affected hand to push up from a chair' },
+        { key: 'func5_carry_object', text: 'Carry a 10 lb object in my affected hand' },
+        { key: 'func6_bathroom_tissue', text: 'Use bathroom tissue with my affected hand' },
+        { key: 'func7_personal_care', text: 'Personal care activities (dressing, washing)' },
+        { key: 'func8_household_work', text: 'Household work (cleaning, maintenance)' },
+        { key: 'func9_work', text: 'Work (your job or usual everyday work)' },
+        { key: 'func10_recreation', text: 'Recreational activities' }
+      ],
+      options: numericScale(0, 10, 'No difficulty', 'Unable to do'),
+      scoring: 'sum',
+      divisor: 2,
+      maxMissing: 1,
+      range: [0, 50]
+    }
+  ],
+  total: { label: 'PRWE Total', range: [0, 100] }
+};
+
+const BCTQ: QuestionnaireDefinition = {
+  id: 'bctq',
+  name: 'Boston Carpal Tunnel Questionnaire',
+  shortName: 'BCTQ',
+  description: 'Carpal tunnel symptom severity and functional status over the past two weeks',
+  sections: [
+    {
+      key: 'symptomSeverity',
+      label: 'Symptom Severity',
+      prompt: 'Answer for a typical 24-hour period during the past two weeks',
+      items: [
+        { key: 'sss1_night_pain', text: 'How severe is the hand or wrist pain that you have at night?', options: severityScale('I do not have hand or wrist pain at night') },
+        { key: 'sss2_night_pain_waking', text: 'How often did hand or wrist pain wake you up during a typical night in the past two weeks?', options: NIGHT_WAKING },
+        { key: 'sss3_day_pain', text: 'Do you typically have pain in your hand or wrist during the daytime?', options: severityScale('I never have pain during the day', ' pain') },
+        {
+          key: 'sss4_day_pain_frequency',
+          text: 'How often do you have hand or wrist pain during the daytime?',
+          options: ['Never', 'Once or twice a day', 'Three to five times a day', 'More than five times a day', 'The pain is constant']
+            .map((label, index) => ({ value: index + 1, label }))
+        },
+        {
+          key: 'sss5_day_pain_duration',
+          text: 'How long, on average, does an episode of pain last during the daytime?',
+          options: ['I never get pain during the day', 'Less than 10 minutes', '10 to 60 minutes', 'Greater than 60 minutes', 'The pain is constant throughout the day']
+            .map((label, index) => ({ value: index + 1, label }))
+        },
+        { key: 'sss6_numbness', text: 'Do you have numbness (loss of sensation) in your hand?', options: severityScale('No', ' numbness') },
+        { key: 'sss7_weakness', text: 'Do you have weakness in your hand or wrist?', options: severityScale('No weakness', ' weakness') },
+        { key: 'sss8_tingling', text: 'Do you have tingling sensations in your hand?', options: severityScale('No tingling', ' tingling') },
+        { key: 'sss9_night_numbness', text: 'How severe is numbness (loss of sensation) or tingling at night?', options: severityScale('I have no numbness or tingling at night') },
+        { key: 'sss10_night_numbness_waking', text: 'How often did hand numbness or tingling wake you up during a typical night during the past two weeks?', options: NIGHT_WAKING },
+        { key: 'sss11_grasping', text: 'Do you have difficulty with the grasping and use of small objects such as keys or pens?', options: severityScale('No difficulty', ' difficulty') }
+      ],
+      options: severityScale('None'),
+      scoring: 'mean',
+      maxMissing: 1,
+      range: [1, 5]
+    },
+    {
+      key: 'functionalStatus',
+      label: 'Functional Status',
+      prompt: 'How much difficulty have your hand or wrist symptoms given you with these activities in the past two weeks?',
+      items: [
+        { key: 'fss1_writing', text: 'Writing' },
+        { key: 'fss2_buttoning', text: 'Buttoning of clothes' },
+        { key: 'fss3_holding_book', text: 'Holding a book while reading' },
+        { key: 'fss4_gripping_phone', text: 'Gripping of a telephone handle' },
+        { key: 'fss5_opening_jars', text: 'Opening of jars' },
+        { key: 'fss6_household_chores', text: 'Household chores' },
+        { key: 'fss7_carrying_groceries', text: 'Carrying of grocery bags' },
+        { key: 'fss8_bathing_dressing', text: 'Bathing and dressing' }
+      ],
+      options: ['No difficulty', 'Little difficulty', 'Moderate difficulty', 'Intense difficulty', 'Cannot do at all due to hand or wrist symptoms']
+        .map((label, index) => ({ value: index + 1, label })),
+      scoring: 'mean',
+      maxMissing: 1,
+      range: [1, 5]
+    }
+  ]
+};
+
+export const QUESTIONNAIRES: Record<QuestionnaireId, QuestionnaireDefinition> = {
+  prwe: PRWE,
+  bctq: BCTQ
+};
+
+export function isQuestionnaireId(id: string): id is QuestionnaireId {
+  return (QUESTIONNAIRE_IDS as readonly string[]).includes(id);
+}
+
+export function itemOptions(section: QuestionnaireSection, item: QuestionnaireItem): QuestionnaireOption[] {
+  return item.options ?? section.options;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function scoreSection(section: QuestionnaireSection, answers: Record<string, number>): number | null {
+  const values = section.items.map(item => answers[item.key]).filter((value): value is number => value !== undefined);
+  if (section.items.length - values.length > section.maxMissing || values.length === 0) return null;
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const raw = section.scoring === 'sum' ? mean * section.items.length : mean;
+  return round(raw / (section.divisor ?? 1));
+}
+
+// Accepts answers keyed by item; null marks an item the patient skipped
+export function scoreQuestionnaire(definition: QuestionnaireDefinition, input: unknown): QuestionnaireScoreResult {
+  const answers: Record<string, number> = {};
+  const scores: Record<string, number> = {};
+  const errors: string[] = [];
+
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { valid: false, answers, scores, totalScore: null, errors: [`Answers must be an object keyed by ${definition.shortName} item`] };
+  }
+
+  const items = new Map(definition.sections.flatMap(section =>
+    section.items.map(item => [item.key, itemOptions(section, item)] as [string, QuestionnaireOption[]])
+  ));
+
+  Object.entries(input).forEach(([key, value]) => {
+    const options = items.get(key);
+    if (!options) {
+      errors.push(`Unknown ${definition.shortName} item: ${key}`);
+    } else if (value === null || value === undefined) {
+      // Skipped item
+    } else if (typeof value !== 'number' || !options.some(option => option.value === value)) {
+      errors.push(`${key} must be one of ${options[0].value}-${options[options.length - 1].value}`);
+    } else {
+      answers[key] = value;
+    }
+  });
+
+  definition.sections.forEach(section => {
+    const score = scoreSection(section, answers);
+    if (score === null) {
+      errors.push(`${section.label}: at most ${section.maxMissing} item may be left unanswered`);
+    } else {
+      scores[section.key] = score;
+    }
+  });
+
+  const valid = errors.length === 0;
+  const totalScore = valid && definition.total
+    ? round(Object.values(scores).reduce((sum, score) => sum + score, 0))
+    : null;
+  return { valid, answers, scores: valid ? scores : {}, totalScore, errors };
+}
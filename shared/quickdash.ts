@@ -0,0 +1,156 @@
+// QuickDASH questionnaire: the 11 items, their response scales and the official scoring
+// rule. The client renders the items from here and the server scores submissions with
+// the same code, so a score is never taken from the browser.
+
+export type QuickDashScale = 'difficulty' | 'severity';
+
+// Keys match the quickDashResponses columns
+export const QUICKDASH_ITEMS = [
+  { key: 'q1_difficulty_opening_jar', text: 'Open a tight or new jar', scale: 'difficulty' },
+  { key: 'q2_difficulty_writing', text: 'Write', scale: 'difficulty' },
+  { key: 'q3_difficulty_turning_key', text: 'Turn a key', scale: 'difficulty' },
+  { key: 'q4_difficulty_preparing_meal', text: 'Prepare a meal', scale: 'difficulty' },
+  { key: 'q5_difficulty_pushing_door', text: 'Push open a heavy door', scale: 'difficulty' },
+  { key: 'q6_difficulty_placing_object', text: 'Place an object on a shelf above your head', scale: 'difficulty' },
+  { key: 'q7_arm_shoulder_hand_pain', text: 'Arm, shoulder or hand pain', scale: 'severity' },
+  { key: 'q8_arm_shoulder_hand_pain_activity', text: 'Arm, shoulder or hand pain when you performed any specific activity', scale: 'severity' },
+  { key: 'q9_tingling_arm_shoulder_hand', text: 'Tingling (pins and needles) in your arm, shoulder or hand', scale: 'severity' },
+  { key: 'q10_weakness_arm_shoulder_hand', text: 'Weakness in your arm, shoulder or hand', scale: 'severity' },
+  { key: 'q11_stiffness_arm_shoulder_hand', text: 'Stiffness in your arm, shoulder or hand', scale: 'severity' }
+] as const;
+
+export type QuickDashItemKey = typeof QUICKDASH_ITEMS[number]['key'];
+
+// Optional modules, scored separately from the core items and never mixed into the core score
+export const QUICKDASH_MODULES = {
+  work: {
+    label: 'Work Module',
+    prompt: 'Did you have any difficulty in the last week:',
+    items: [
+      { key: 'work1_usual_technique', text: 'Using your usual technique for your work' },
+      { key: 'work2_pain_usual_work', text: 'Doing your usual work because of arm, shoulder or hand pain' },
+      { key: 'work3_as_well_as_like', text: 'Doing your work as well as you would like' },
+      { key: 'work4_usual_time', text: 'Spending your usual amount of time doing your work' }
+    ]
+  },
+  sportsArts: {
+    label: 'Sports/Performing Arts Module',
+    prompt: 'Did you have any difficulty in the last week:',
+    items: [
+      { key: 'sports1_usual_technique', text: 'Using your usual technique for playing your instrument or sport' },
+      { key: 'sports2_pain_playing', text: 'Playing your musical instrument or sport because of arm, shoulder or hand pain' },
+      { key: 'sports3_as_well_as_like', text: 'Playing your musical instrument or sport as well as you would like' },
+      { key: 'sports4_usual_time', text: 'Spending your usual amount of time practising or playing your instrument or sport' }
+    ]
+  }
+} as const;
+
+export type QuickDashModule = keyof typeof QUICKDASH_MODULES;
+
+export type QuickDashModuleItemKey = typeof QUICKDASH_MODULES[QuickDashModule]['items'][number]['key'];
+
+export type QuickDashAnswers = Partial<Record<QuickDashItemKey | QuickDashModuleItemKey, number>>;
+
+export type QuickDashModuleScores = Partial<Record<QuickDashModule, number>>;
+
+// Occupations whose patients are given an optional module; everyone else answers the core items only
+export const QUICKDASH_MODULES_BY_OCCUPATION: Record<string, QuickDashModule[]> = {
+  'Manual Labor': ['work'],
+  'Performing Arts': ['sportsArts'],
+  'Sports': ['sportsArts']
+};
+
+export function quickDashModulesFor(occupationCategory: string | null | undefined): QuickDashModule[] {
+  return (occupationCategory && QUICKDASH_MODULES_BY_OCCUPATION[occupationCategory]) || [];
+}
+
+export const QUICKDASH_SCALE_LABELS: Record<QuickDashScale, string[]> = {
+  difficulty: ['No difficulty', 'Mild difficulty', 'Moderate difficulty', 'Severe difficulty', 'Unable'],
+  severity: ['None', 'Mild', 'Moderate', 'Severe', 'Extreme']
+};
+
+// Official rule: a score cannot be calculated if more than one item is missing
+export const QUICKDASH_MAX_MISSING_ITEMS = 1;
+
+// A client-reported score further than this from the server's is treated as tampered
+export const QUICKDASH_SCORE_TOLERANCE = 0.1;
+
+export interface QuickDashScoreResult {
+  valid: boolean;
+  score: number | null;
+  moduleScores: QuickDashModuleScores;
+  answers: QuickDashAnswers;
+  missing: QuickDashItemKey[];
+  errors: string[];
+}
+
+const ITEM_KEYS = new Set<string>(QUICKDASH_ITEMS.map(item => item.key));
+
+const MODULE_ITEM_KEYS = new Map<string, QuickDashModule>(
+  (Object.keys(QUICKDASH_MODULES) as QuickDashModule[]).flatMap(module =>
+    QUICKDASH_MODULES[module].items.map(item => [item.key, module] as [string, QuickDashModule])
+  )
+);
+
+function scaleScore(values: number[]): number {
+  const score = (values.reduce((sum, value) => sum + value, 0) / values.length - 1) * 25;
+  return Math.round(score * 10) / 10;
+}
+
+// ((sum of answers / number answered) - 1) x 25, on a 0 (no disability) to 100 scale
+export function calculateQuickDashScore(answers: QuickDashAnswers): number | null {
+  const values = QUICKDASH_ITEMS.map(item => answers[item.key]).filter((value): value is number => value !== undefined);
+  if (QUICKDASH_ITEMS.length - values.length > QUICKDASH_MAX_MISSING_ITEMS) return null;
+  return scaleScore(values);
+}
+
+// Module items allow no missing answers: a module is scored only when all four are answered
+export function calculateQuickDashModuleScore(module: QuickDashModule, answers: QuickDashAnswers): number | null {
+  const values = QUICKDASH_MODULES[module].items.map(item => answers[item.key]);
+  return values.every(value => value !== undefined) ? scaleScore(values as number[]) : null;
+}
+
+// Accepts answers keyed by item; null marks an item the patient skipped. Module items are
+// accepted only for the modules the patient was given, and a module may be left out entirely.
+export function scoreQuickDash(input: unknown, modules: QuickDashModule[] = []): QuickDashScoreResult {
+  const answers: QuickDashAnswers = {};
+  const errors: string[] = [];
+
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { valid: false, score: null, moduleScores: {}, answers, missing: [], errors: ['Responses must be an object keyed by QuickDASH item'] };
+  }
+
+  Object.entries(input).forEach(([key, value]) => {
+    const module = MODULE_ITEM_KEYS.get(key);
+    if (!ITEM_KEYS.has(key) && !module) {
+      errors.push(`Unknown QuickDASH item: ${key}`);
+    } else if (module && !modules.includes(module)) {
+      errors.push(`${QUICKDASH_MODULES[module].label} was not assigned to this patient: ${key}`);
+    } else if (value === null || value === undefined) {
+      // Skipped item
+    } else if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 5) {
+      errors.push(`${key} must be a whole number from 1 to 5`);
+    } else {
+      answers[key as keyof QuickDashAnswers] = value;
+    }
+  });
+
+  const missing = QUICKDASH_ITEMS.map(item => item.key).filter(key => answers[key] === undefined);
+  if (missing.length > QUICKDASH_MAX_MISSING_ITEMS) {
+    errors.push(`${missing.length} items unanswered; QuickDASH allows at most ${QUICKDASH_MAX_MISSING_ITEMS}`);
+  }
+
+  const moduleScores: QuickDashModuleScores = {};
+  modules.forEach(module => {
+    const answered = QUICKDASH_MODULES[module].items.filter(item => answers[item.key] !== undefined).length;
+    const moduleScore = calculateQuickDashModuleScore(module, answers);
+    if (moduleScore !== null) {
+      moduleScores[module] = moduleScore;
+    } else if (answered > 0) {
+      errors.push(`${QUICKDASH_MODULES[module].label} needs all ${QUICKDASH_MODULES[module].items.length} items answered or none`);
+    }
+  });
+
+  const valid = errors.length === 0;
+  return { valid, score: valid ? calculateQuickDashScore(answers) : null, moduleScores: valid ? moduleScores : {}, answers, missing, errors };
+}
@@ -0,0 +1,123 @@
+import {
+  assessFingerVisibility,
+  calculateAllFingersMaxROM,
+  calculateFingerROM,
+  type HandLandmark,
+  type ValidationProfile
+} from './rom-calculator';
+
+// Pre-submission check of a recording, run with the same calculators and validation
+// profile the server scores it with. A finger whose temporal quality falls under the
+// profile threshold has its ROM discarded on save, so the patient is offered a retake.
+
+export type RecordingQualityReason = 'too_few_frames' | 'visibility' | 'temporal_consistency';
+
+export type QualityFinger = 'index' | 'middle' | 'ring' | 'pinky';
+
+export type QualityJoint = 'MCP' | 'PIP' | 'DIP';
+
+export interface RecordingQualityIssue {
+  reason: RecordingQualityReason;
+  finger?: QualityFinger;
+  joints?: QualityJoint[];
+  message: string;
+}
+
+export interface RecordingQualityReport {
+  passed: boolean;
+  handFrameCount: number;
+  issues: RecordingQualityIssue[];
+}
+
+// Only TAM stores per-finger ROM; other assessments just need enough hand frames
+const FINGER_ROM_ASSESSMENT = 'TAM (Total Active Motion)';
+
+const FINGERS: QualityFinger[] = ['index', 'middle', 'ring', 'pinky'];
+
+const JOINT_ANGLES: Record<QualityJoint, 'mcpAngle' | 'pipAngle' | 'dipAngle'> = {
+  MCP: 'mcpAngle',
+  PIP: 'pipAngle',
+  DIP: 'dipAngle'
+};
+
+function fingerLabel(finger: QualityFinger): string {
+  return `${finger.charAt(0).toUpperCase()}${finger.slice(1)} finger`;
+}
+
+// The calculators name fingers in upper case
+function landmarkFinger(finger: QualityFinger): Uppercase<QualityFinger> {
+  return finger.toUpperCase() as Uppercase<QualityFinger>;
+}
+
+function percent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
+
+// Frames are recorded either as { landmarks } or as the bare landmark array
+function handFrames(frames: any[]): Array<{ landmarks: HandLandmark[] }> {
+  return frames
+    .map(frame => ({ landmarks: frame?.landmarks || frame }))
+    .filter(frame => Array.isArray(frame.landmarks) && frame.landmarks.length >= 21);
+}
+
+// Joints whose angle jumps further between consecutive frames than the profile allows
+function jumpingJoints(frames: Array<{ landmarks: HandLandmark[] }>, finger: QualityFinger, profile: ValidationProfile): QualityJoint[] {
+  const angles = frames.map(frame => calculateFingerROM(frame.landmarks, landmarkFinger(finger), profile.anatomicalLimits));
+  return (Object.keys(JOINT_ANGLES) as QualityJoint[]).filter(joint =>
+    angles.some((angle, index) =>
+      index > 0 && Math.abs(angle[JOINT_ANGLES[joint]] - angles[index - 1][JOINT_ANGLES[joint]]) > profile.temporal.maxROMChangePerFrame
+    )
+  );
+}
+
+export function evaluateRecordingQuality(
+  assessmentName: string | undefined,
+  frames: any[],
+  profile: ValidationProfile
+): RecordingQualityReport {
+  const usable = handFrames(frames);
+  const issues: RecordingQualityIssue[] = [];
+
+  if (usable.length < profile.temporal.minValidFrames) {
+    issues.push({
+      reason: 'too_few_frames',
+      message: `Your hand was tracked in ${usable.length} frames; at least ${profile.temporal.minValidFrames} are needed`
+    });
+    return { passed: false, handFrameCount: usable.length, issues };
+  }
+
+  if (assessmentName !== FINGER_ROM_ASSESSMENT) {
+    return { passed: true, handFrameCount: usable.length, issues };
+  }
+
+  const { temporalQuality } = calculateAllFingersMaxROM(usable, profile);
+  FINGERS.forEach(finger => {
+    const quality = temporalQuality[finger] ?? 0;
+    if (quality >= profile.temporal.temporalQualityThreshold) return;
+
+    const visibleRatio = usable
+      .filter(frame => assessFingerVisibility(frame.landmarks, landmarkFinger(finger), profile.visibility).isVisible)
+      .length / usable.length;
+    if (visibleRatio < profile.visibility.minVisibleFrameRatio) {
+      issues.push({
+        reason: 'visibility',
+        finger,
+        message: `${fingerLabel(finger)} was clearly visible in ${percent(visibleRatio)} of frames; ${percent(profile.visibility.minVisibleFrameRatio)} is needed`
+      });
+    }
+
+    const joints = jumpingJoints(usable, finger, profile);
+    if (joints.length > 0 || visibleRatio >= profile.visibility.minVisibleFrameRatio) {
+      issues.push({
+        reason: 'temporal_consistency',
+        finger,
+        joints,
+        message: joints.length > 0
+          ? `${fingerLabel(finger)} ${joints.join(', ')} angles jumped between frames (consistency ${percent(quality)}, ${percent(profile.temporal.temporalQualityThreshold)} needed)`
+          : `${fingerLabel(finger)} movement was not consistent enough (${percent(quality)}, ${percent(profile.temporal.temporalQualityThreshold)} needed)`
+      });
+    }
+  });
+
+  return { passed: issues.length === 0, handFrameCount: usable.length, issues };
+}
@@ -0,0 +1,87 @@
+// Recovery timeline: post-op day, study week and rehabilitation phase derived from
+// a patient's surgery date (falling back to enrollment dates). The server stamps
+// assessments with these values and the client timeline views render them.
+
+export type RehabPhase =
+  | 'Pre-surgery'
+  | 'Acute phase'
+  | 'Early recovery'
+  | 'Intermediate recovery'
+  | 'Late recovery'
+  | 'Long-term follow-up';
+
+// Phase boundaries by post-op day (inclusive upper bound)
+export const REHAB_PHASES: { phase: RehabPhase; milestone: string; throughDay: number }[] = [
+  { phase: 'Pre-surgery', milestone: 'Surgery scheduled', throughDay: -1 },
+  { phase: 'Acute phase', milestone: 'Initial healing', throughDay: 7 },
+  { phase: 'Early recovery', milestone: 'Wound healing', throughDay: 21 },
+  { phase: 'Intermediate recovery', milestone: 'Active rehabilitation', throughDay: 42 },
+  { phase: 'Late recovery', milestone: 'Return to activity', throughDay: 84 },
+  { phase: 'Long-term follow-up', milestone: 'Maintenance phase', throughDay: Infinity }
+];
+
+export interface RecoveryTimeline {
+  startDate: Date;
+  postOpDay: number; // 0 on the day of surgery, negative before it
+  studyWeek: number; // completed weeks since surgery, 0 during the first week
+  phase: RehabPhase;
+  milestone: string;
+}
+
+type DateInput = Date | string | null | undefined;
+
+// Any record carrying the dates a recovery start can be taken from (patients, legacy users)
+export interface TimelineAnchors {
+  surgeryDate?: DateInput;
+  studyEnrollmentDate?: DateInput;
+  enrolledDate?: DateInput;
+  createdAt?: DateInput;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDate(value: DateInput): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Calendar day index so time of day never shifts the post-op day
+function dayNumber(date: Date): number {
+  return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS;
+}
+
+export function resolveRecoveryStartDate(anchors: TimelineAnchors): Date | null {
+  return toDate(anchors.surgeryDate)
+    ?? toDate(anchors.studyEnrollmentDate)
+    ?? toDate(anchors.enrolledDate)
+    ?? toDate(anchors.createdAt);
+}
+
+export function calculatePostOpDay(startDate: Date, asOf: Date = new Date()): number {
+  return dayNumber(asOf) - dayNumber(startDate);
+}
+
+export function calculateStudyWeek(postOpDay: number): number {
+  return Math.floor(Math.max(0, postOpDay) / 7);
+}
+
+export function getRehabPhase(postOpDay: number): { phase: RehabPhase; milestone: string } {
+  const { phase, milestone } = REHAB_PHASES.find(entry => postOpDay <= entry.throughDay)!;
+  return { phase, milestone };
+}
+
+export function calculateRecoveryTimeline(startDate: Date, asOf: Date = new Date()): RecoveryTimeline {
+  const postOpDay = calculatePostOpDay(startDate, asOf);
+  return {
+    startDate,
+    postOpDay,
+    studyWeek: calculateStudyWeek(postOpDay),
+    ...getRehabPhase(postOpDay)
+  };
+}
+
+export function getRecoveryTimeline(anchors: TimelineAnchors, asOf: Date = new Date()): RecoveryTimeline | null {
+  const startDate = resolveRecoveryStartDate(anchors);
+  return startDate ? calculateRecoveryTimeline(startDate, asOf) : null;
+}
@@ -30,29 +30,114 @@ export interface TemporalValidationConfig {
   temporalQualityThreshold: number;
 }
 
-// Temporal validation configuration
-const TEMPORAL_CONFIG: TemporalValidationConfig = {
-  maxROMChangePerFrame: 30,     // degrees
-  consistencyFrameCount: 3,     // frames
-  smoothingWindowSize: 5,       // frames
-  minValidFrames: 10,           // minimum frames for assessment
-  temporalQualityThreshold: 0.8 // quality score threshold
-};
+export interface VisibilityValidationConfig {
+  minLandmarkVisibility: number;    // MediaPipe visibility threshold
+  minFingerVisibility: number;      // Average finger visibility required
+  minVisibleLandmarkRatio: number;  // Share of a finger's landmarks that must be visible
+  minVisibleFrameRatio: number;     // Share of frames a finger must be clearly visible in
+  bypassTemporalIfVisible: boolean; // Skip temporal validation for clearly visible fingers
+}
 
-// Visibility-based validation configuration
-const VISIBILITY_CONFIG = {
-  minLandmarkVisibility: 0.7,   // MediaPipe visibility threshold
-  minFingerVisibility: 0.8,     // Average finger visibility required
-  bypassTemporalIfVisible: true // Skip temporal validation for clearly visible fingers
-};
+export interface AnatomicalLimits {
+  MCP: { min: number; max: number };
+  PIP: { min: number; max: number };
+  DIP: { min: number; max: number };
+}
+
+export const VALIDATION_PROFILE_NAMES = ['strict-research', 'standard-clinical', 'lenient-home'] as const;
+
+export type ValidationProfileName = typeof VALIDATION_PROFILE_NAMES[number];
+
+// The rules a ROM result was produced under; temporal.temporalQualityThreshold is the
+// minimum quality for a finger's ROM to be stored
+export interface ValidationProfile {
+  name: ValidationProfileName;
+  label: string;
+  description: string;
+  temporal: TemporalValidationConfig;
+  visibility: VisibilityValidationConfig;
+  anatomicalLimits: AnatomicalLimits;
+}
 
 // Anatomical limits for joint angles (based on clinical studies)
-const ANATOMICAL_LIMITS = {
+const ANATOMICAL_LIMITS: AnatomicalLimits = {
   MCP: { min: 0, max: 95 },   // Metacarpophalangeal joint: 0-95 degrees
   PIP: { min: 0, max: 115 },  // Proximal interphalangeal joint: 0-115 degrees
   DIP: { min: 0, max: 90 }    // Distal interphalangeal joint: 0-90 degrees
 };
 
+export const VALIDATION_PROFILES: Record<ValidationProfileName, ValidationProfile> = {
+  'strict-research': {
+    name: 'strict-research',
+    label: 'Strict research',
+    description: 'Controlled capture for study endpoints: smaller frame-to-frame changes, more frames and always temporally validated',
+    temporal: {
+      maxROMChangePerFrame: 20,
+      consistencyFrameCount: 5,
+      smoothingWindowSize: 5,
+      minValidFrames: 20,
+      temporalQualityThreshold: 0.85
+    },
+    visibility: {
+      minLandmarkVisibility: 0.8,
+      minFingerVisibility: 0.9,
+      minVisibleLandmarkRatio: 0.9,
+      minVisibleFrameRatio: 0.9,
+      bypassTemporalIfVisible: false
+    },
+    anatomicalLimits: ANATOMICAL_LIMITS
+  },
+  'standard-clinical': {
+    name: 'standard-clinical',
+    label: 'Standard clinical',
+    description: 'In-clinic recordings; the rules every result was scored with before profiles existed',
+    temporal: {
+      maxROMChangePerFrame: 30,     // degrees
+      consistencyFrameCount: 3,     // frames
+      smoothingWindowSize: 5,       // frames
+      minValidFrames: 10,           // minimum frames for assessment
+      temporalQualityThreshold: 0.7
+    },
+    visibility: {
+      minLandmarkVisibility: 0.7,
+      minFingerVisibility: 0.8,
+      minVisibleLandmarkRatio: 0.8,
+      minVisibleFrameRatio: 0.8,
+      bypassTemporalIfVisible: true
+    },
+    anatomicalLimits: ANATOMICAL_LIMITS
+  },
+  'lenient-home': {
+    name: 'lenient-home',
+    label: 'Lenient home use',
+    description: 'Unsupervised home recordings with variable lighting and framing',
+    temporal: {
+      maxROMChangePerFrame: 45,
+      consistencyFrameCount: 3,
+      smoothingWindowSize: 5,
+      minValidFrames: 5,
+      temporalQualityThreshold: 0.5
+    },
+    visibility: {
+      minLandmarkVisibility: 0.5,
+      minFingerVisibility: 0.6,
+      minVisibleLandmarkRatio: 0.7,
+      minVisibleFrameRatio: 0.7,
+      bypassTemporalIfVisible: true
+    },
+    anatomicalLimits: ANATOMICAL_LIMITS
+  }
+};
+
+export const DEFAULT_VALIDATION_PROFILE: ValidationProfileName = 'standard-clinical';
+
+const DEFAULT_PROFILE = VALIDATION_PROFILES[DEFAULT_VALIDATION_PROFILE];
+
+// Unknown or missing names fall back to the standard clinical profile
+export function getValidationProfile(name?: string | null): ValidationProfile {
+  return (name && VALIDATION_PROFILES[name as ValidationProfileName]) || DEFAULT_PROFILE;
+}
+
 // MediaPipe hand landmark indices for each finger
 const FINGER_LANDMARKS = {
   INDEX: {
@@ -124,28 +209,29 @@ function calculateFlexionAngle(p1: HandLandmark, p2: HandLandmark, p3: HandLandm
 // Temporal consistency validation
 export function validateTemporalConsistency(
   currentROM: number, 
-  previousROMs: number[]
+  previousROMs: number[],
+  config: TemporalValidationConfig = DEFAULT_PROFILE.temporal
 ): boolean {
   if (previousROMs.length === 0) return true;
   
   const lastROM = previousROMs[previousROMs.length - 1];
   const change = Math.abs(currentROM - lastROM);
   
-  return change <= TEMPORAL_CONFIG.maxROMChangePerFrame;
+  return change <= config.maxROMChangePerFrame;
 }
 
 // Apply smoothing filter to ROM values
-export function applySmoothingFilter(romHistory: number[]): number {
+export function applySmoothingFilter(romHistory: number[], config: TemporalValidationConfig = DEFAULT_PROFILE.temporal): number {
   if (romHistory.length === 0) return 0;
   
-  const windowSize = Math.min(TEMPORAL_CONFIG.smoothingWindowSize, romHistory.length);
+  const windowSize = Math.min(config.smoothingWindowSize, romHistory.length);
   const recentValues = romHistory.slice(-windowSize);
   
   return recentValues.reduce((sum, val) => sum + val, 0) / recentValues.length;
 }
 
 // Validate joint angles against anatomical limits
-export function validateAnatomicalLimits(angles: JointAngles): { 
+export function validateAnatomicalLimits(angles: JointAngles, limits: AnatomicalLimits = DEFAULT_PROFILE.anatomicalLimits): { 
   isValid: boolean; 
   correctedAngles: JointAngles; 
   violations: string[] 
@@ -154,27 +240,27 @@ export function validateAnatomicalLimits(angles: JointAngles): {
   let correctedAngles = { ...angles };
   
   // Check and correct MCP angle
-  if (angles.mcpAngle > ANATOMICAL_LIMITS.MCP.max) {
-    violations.push(`MCP: ${angles.mcpAngle.toFixed(1)}° > ${ANATOMICAL_LIMITS.MCP.max}°`);
-    correctedAngles.mcpAngle = ANATOMICAL_LIMITS.MCP.max;
-  } else if (angles.mcpAngle < ANATOMICAL_LIMITS.MCP.min) {
-    correctedAngles.mcpAngle = ANATOMICAL_LIMITS.MCP.min;
+  if (angles.mcpAngle > limits.MCP.max) {
+    violations.push(`MCP: ${angles.mcpAngle.toFixed(1)}° > ${limits.MCP.max}°`);
+    correctedAngles.mcpAngle = limits.MCP.max;
+  } else if (angles.mcpAngle < limits.MCP.min) {
+    correctedAngles.mcpAngle = limits.MCP.min;
   }
   
   // Check and correct PIP angle
-  if (angles.pipAngle > ANATOMICAL_LIMITS.PIP.max) {
-    violations.push(`PIP: ${angles.pipAngle.toFixed(1)}° > ${ANATOMICAL_LIMITS.PIP.max}°`);
-    correctedAngles.pipAngle = ANATOMICAL_LIMITS.PIP.max;
-  } else if (angles.pipAngle < ANATOMICAL_LIMITS.PIP.min) {
-    correctedAngles.pipAngle = ANATOMICAL_LIMITS.PIP.min;
+  if (angles.pipAngle > limits.PIP.max) {
+    violations.push(`PIP: ${angles.pipAngle.toFixed(1)}° > ${limits.PIP.max}°`);
+    correctedAngles.pipAngle = limits.PIP.max;
+  } else if (angles.pipAngle < limits.PIP.min) {
+    correctedAngles.pipAngle = limits.PIP.min;
   }
   
   // Check and correct DIP angle
-  if (angles.dipAngle > ANATOMICAL_LIMITS.DIP.max) {
-    violations.push(`DIP: ${angles.dipAngle.toFixed(1)}° > ${ANATOMICAL_LIMITS.DIP.max}°`);
-    correctedAngles.dipAngle = ANATOMICAL_LIMITS.DIP.max;
-  } else if (angles.dipAngle < ANATOMICAL_LIMITS.DIP.min) {
-    correctedAngles.dipAngle = ANATOMICAL_LIMITS.DIP.min;
+  if (angles.dipAngle > limits.DIP.max) {
+    violations.push(`DIP: ${angles.dipAngle.toFixed(1)}° > ${limits.DIP.max}°`);
+    correctedAngles.dipAngle = limits.DIP.max;
+  } else if (angles.dipAngle < limits.DIP.min) {
+    correctedAngles.dipAngle = limits.DIP.min;
   }
   
   // Recalculate total ROM with corrected values
@@ -190,25 +276,30 @@ export function validateAnatomicalLimits(angles: JointAngles): {
 // Validate ROM over multiple frames for consistency
 export function requireConsistentFrames(
   currentROM: number,
-  romHistory: number[]
+  romHistory: number[],
+  config: TemporalValidationConfig = DEFAULT_PROFILE.temporal
 ): { isValid: boolean; quality: number } {
-  if (romHistory.length < TEMPORAL_CONFIG.consistencyFrameCount) {
+  if (romHistory.length < config.consistencyFrameCount) {
     return { isValid: true, quality: 0.5 }; // Insufficient data, allow but low quality
   }
   
-  const recentROMs = romHistory.slice(-TEMPORAL_CONFIG.consistencyFrameCount);
+  const recentROMs = romHistory.slice(-config.consistencyFrameCount);
   const variations = recentROMs.map(rom => Math.abs(rom - currentROM));
   const maxVariation = Math.max(...variations);
   const avgVariation = variations.reduce((sum, val) => sum + val, 0) / variations.length;
   
-  const isValid = maxVariation <= TEMPORAL_CONFIG.maxROMChangePerFrame;
-  const quality = Math.max(0, 1 - (avgVariation / TEMPORAL_CONFIG.maxROMChangePerFrame));
+  const isValid = maxVariation <= config.maxROMChangePerFrame;
+  const quality = Math.max(0, 1 - (avgVariation / config.maxROMChangePerFrame));
   
   return { isValid, quality };
 }
 
 // Check if finger is clearly visible based on landmark visibility
-export function assessFingerVisibility(landmarks: HandLandmark[], fingerType: 'INDEX' | 'MIDDLE' | 'RING' | 'PINKY'): {
+export function assessFingerVisibility(
+  landmarks: HandLandmark[],
+  fingerType: 'INDEX' | 'MIDDLE' | 'RING' | 'PINKY',
+  config: VisibilityValidationConfig = DEFAULT_PROFILE.visibility
+): {
   isVisible: boolean;
   avgVisibility: number;
   reason: string;
@@ -231,7 +322,7 @@ export function assessFingerVisibility(landmarks: HandLandmark[], fingerType: 'I
     const landmark = landmarks[idx];
     if (landmark && landmark.visibility !== undefined) {
       totalVisibility += landmark.visibility;
-      if (landmark.visibility >= VISIBILITY_CONFIG.minLandmarkVisibility) {
+      if (landmark.visibility >= config.minLandmarkVisibility) {
         visibleLandmarks++;
       }
     } else {
@@ -244,7 +335,7 @@ export function assessFingerVisibility(landmarks: HandLandmark[], fingerType: 'I
   const avgVisibility = totalVisibility / uniqueIndices.length;
   const visibilityRatio = visibleLandmarks / uniqueIndices.length;
   
-  const isVisible = avgVisibility >= VISIBILITY_CONFIG.minFingerVisibility && visibilityRatio >= 0.8;
+  const isVisible = avgVisibility >= config.minFingerVisibility && visibilityRatio >= config.minVisibleLandmarkRatio;
   
   const reason = isVisible 
     ? `Clearly visible (${(avgVisibility * 100).toFixed(1)}% avg visibility)`
@@ -254,7 +345,7 @@ export function assessFingerVisibility(landmarks: HandLandmark[], fingerType: 'I
 }
 
 // Calculate temporal quality score
-export function calculateTemporalQuality(romHistory: number[]): number {
+export function calculateTemporalQuality(romHistory: number[], config: TemporalValidationConfig = DEFAULT_PROFILE.temporal): number {
   if (romHistory.length < 2) return 0.5;
   
   let totalVariation = 0;
@@ -263,20 +354,24 @@ export function calculateTemporalQuality(romHistory: number[]): number {
   for (let i = 1; i < romHistory.length; i++) {
     const change = Math.abs(romHistory[i] - romHistory[i-1]);
     totalVariation += change;
-    if (change <= TEMPORAL_CONFIG.maxROMChangePerFrame) {
+    if (change <= config.maxROMChangePerFrame) {
       validTransitions++;
     }
   }
   
   const avgVariation = totalVariation / (romHistory.length - 1);
   const transitionQuality = validTransitions / (romHistory.length - 1);
-  const smoothnessQuality = Math.max(0, 1 - (avgVariation / TEMPORAL_CONFIG.maxROMChangePerFrame));
+  const smoothnessQuality = Math.max(0, 1 - (avgVariation / config.maxROMChangePerFrame));
   
   return (transitionQuality + smoothnessQuality) / 2;
 }
 
 // Calculate joint angles for a specific finger with temporal validation
-export function calculateFingerROM(landmarks: HandLandmark[], fingerType: 'INDEX' | 'MIDDLE' | 'RING' | 'PINKY'): JointAngles {
+export function calculateFingerROM(
+  landmarks: HandLandmark[],
+  fingerType: 'INDEX' | 'MIDDLE' | 'RING' | 'PINKY',
+  limits: AnatomicalLimits = DEFAULT_PROFILE.anatomicalLimits
+): JointAngles {
   const finger = FINGER_LANDMARKS[fingerType];
   
   // Check if landmarks have confidence data attached
@@ -326,7 +421,7 @@ export function calculateFingerROM(landmarks: HandLandmark[], fingerType: 'INDEX
   };
   
   // Apply anatomical validation and correction
-  const validation = validateAnatomicalLimits(initialROM);
+  const validation = validateAnatomicalLimits(initialROM, limits);
   
   if (!validation.isValid) {
     console.log(`${fingerType} anatomical limits exceeded: ${validation.violations.join(', ')} - applying corrections`);
@@ -339,14 +434,19 @@ export function calculateFingerROM(landmarks: HandLandmark[], fingerType: 'INDEX
   return validation.correctedAngles;
 }
 
-// Calculate max ROM for all fingers with temporal validation
-export function calculateAllFingersMaxROM(motionFrames: Array<{landmarks: HandLandmark[]}>): {
+// Calculate max ROM for all fingers with temporal validation under the given profile
+export function calculateAllFingersMaxROM(
+  motionFrames: Array<{landmarks: HandLandmark[]}>,
+  profile: ValidationProfile = DEFAULT_PROFILE
+): {
   index: JointAngles;
   middle: JointAngles;
   ring: JointAngles;
   pinky: JointAngles;
   temporalQuality: {[key: string]: number};
+  validationProfile: ValidationProfileName;
 } {
+  const { temporal, visibility, anatomicalLimits } = profile;
   const fingers: ('INDEX' | 'MIDDLE' | 'RING' | 'PINKY')[] = ['INDEX', 'MIDDLE', 'RING', 'PINKY'];
   const maxROMByFinger: any = {};
   const temporalQuality: {[key: string]: number} = {};
@@ -361,7 +461,7 @@ export function calculateAllFingersMaxROM(motionFrames: Array<{landmarks: HandLa
     // Assess overall finger visibility across all frames
     const visibilityAssessments = motionFrames.map(frame => 
       frame.landmarks && frame.landmarks.length >= 21 
-        ? assessFingerVisibility(frame.landmarks, finger)
+        ? assessFingerVisibility(frame.landmarks, finger, visibility)
         : { isVisible: false, avgVisibility: 0, reason: 'No landmarks' }
     );
     
@@ -370,20 +470,20 @@ export function calculateAllFingersMaxROM(motionFrames: Array<{landmarks: HandLa
     const overallVisibilityRatio = visibleFrames / totalFrames;
     
     // Determine if finger is consistently well-visible (bypass temporal validation)
-    const isClearlyVisible = overallVisibilityRatio >= 0.8; // 80% of frames must be clearly visible
+    const isClearlyVisible = overallVisibilityRatio >= visibility.minVisibleFrameRatio;
     
     console.log(`${finger} finger visibility assessment: ${visibleFrames}/${totalFrames} frames clearly visible (${(overallVisibilityRatio * 100).toFixed(1)}%) - ${isClearlyVisible ? 'BYPASSING temporal validation' : 'APPLYING temporal validation'}`);
     
     // Process each frame and build ROM history
     motionFrames.forEach((frame, frameIndex) => {
       if (frame.landmarks && frame.landmarks.length >= 21) {
-        const rom = calculateFingerROM(frame.landmarks, finger);
+        const rom = calculateFingerROM(frame.landmarks, finger, anatomicalLimits);
         const frameVisibility = visibilityAssessments[frameIndex];
         
         // Determine if we should apply temporal validation for this frame
         let shouldApplyTemporal = true;
         
-        if (isClearlyVisible && VISIBILITY_CONFIG.bypassTemporalIfVisible) {
+        if (isClearlyVisible && visibility.bypassTemporalIfVisible) {
           // Bypass temporal validation for clearly visible fingers
           shouldApplyTemporal = false;
         }
@@ -392,10 +492,10 @@ export function calculateAllFingersMaxROM(motionFrames: Array<{landmarks: HandLa
         
         if (shouldApplyTemporal) {
           // Apply temporal consistency validation
-          const totalROMValid = validateTemporalConsistency(rom.totalActiveRom, romHistory);
-          const mcpValid = validateTemporalConsistency(rom.mcpAngle, mcpHistory);
-          const pipValid = validateTemporalConsistency(rom.pipAngle, pipHistory);
-          const dipValid = validateTemporalConsistency(rom.dipAngle, dipHistory);
+          const totalROMValid = validateTemporalConsistency(rom.totalActiveRom, romHistory, temporal);
+          const mcpValid = validateTemporalConsistency(rom.mcpAngle, mcpHistory, temporal);
+          const pipValid = validateTemporalConsistency(rom.pipAngle, pipHistory, temporal);
+          const dipValid = validateTemporalConsistency(rom.dipAngle, dipHistory, temporal);
           
           acceptFrame = totalROMValid && mcpValid && pipValid && dipValid;
           
@@ -407,7 +507,7 @@ export function calculateAllFingersMaxROM(motionFrames: Array<{landmarks: HandLa
             if (!pipValid) rejectionReasons.push(`PIP change: ${pipHistory.length > 0 ? Math.abs(rom.pipAngle - pipHistory[pipHistory.length - 1]).toFixed(1) : 'N/A'}°`);
             if (!dipValid) rejectionReasons.push(`DIP change: ${dipHistory.length > 0 ? Math.abs(rom.dipAngle - dipHistory[dipHistory.length - 1]).toFixed(1) : 'N/A'}°`);
             
-            console.log(`${finger} finger ROM REJECTED due to temporal inconsistency: TAM=${rom.totalActiveRom.toFixed(1)}° (${rejectionReasons.join(', ')}) - threshold: ${TEMPORAL_CONFIG.maxROMChangePerFrame}°`);
+            console.log(`${finger} finger ROM REJECTED due to temporal inconsistency: TAM=${rom.totalActiveRom.toFixed(1)}° (${rejectionReasons.join(', ')}) - threshold: ${temporal.maxROMChangePerFrame}°`);
           }
         }
         
@@ -426,11 +526,11 @@ export function calculateAllFingersMaxROM(motionFrames: Array<{landmarks: HandLa
     });
 
     // Apply smoothing to final ROM values if we have enough data AND temporal validation was applied
-    if (romHistory.length >= TEMPORAL_CONFIG.minValidFrames && !isClearlyVisible) {
-      const smoothedMaxTotal = applySmoothingFilter([...romHistory].sort((a, b) => b - a).slice(0, 3));
-      const smoothedMaxMcp = applySmoothingFilter([...mcpHistory].sort((a, b) => b - a).slice(0, 3));
-      const smoothedMaxPip = applySmoothingFilter([...pipHistory].sort((a, b) => b - a).slice(0, 3));
-      const smoothedMaxDip = applySmoothingFilter([...dipHistory].sort((a, b) => b - a).slice(0, 3));
+    if (romHistory.length >= temporal.minValidFrames && !isClearlyVisible) {
+      const smoothedMaxTotal = applySmoothingFilter([...romHistory].sort((a, b) => b - a).slice(0, 3), temporal);
+      const smoothedMaxMcp = applySmoothingFilter([...mcpHistory].sort((a, b) => b - a).slice(0, 3), temporal);
+      const smoothedMaxPip = applySmoothingFilter([...pipHistory].sort((a, b) => b - a).slice(0, 3), temporal);
+      const smoothedMaxDip = applySmoothingFilter([...dipHistory].sort((a, b) => b - a).slice(0, 3), temporal);
       
       maxROMByFinger[finger.toLowerCase()] = {
         mcpAngle: Math.round(smoothedMaxMcp * 100) / 100,
@@ -439,7 +539,7 @@ export function calculateAllFingersMaxROM(motionFrames: Array<{landmarks: HandLa
         totalActiveRom: Math.round(smoothedMaxTotal * 100) / 100
       };
       
-      temporalQuality[finger.toLowerCase()] = calculateTemporalQuality(romHistory);
+      temporalQuality[finger.toLowerCase()] = calculateTemporalQuality(romHistory, temporal);
       console.log(`${finger} finger temporal validation: ${romHistory.length} valid frames, quality: ${Math.round(temporalQuality[finger.toLowerCase()] * 100)}%, final ROM: ${Math.round(smoothedMaxTotal * 100) / 100}°`);
     } else {
       // Use raw values for clearly visible fingers or insufficient data
@@ -460,7 +560,7 @@ export function calculateAllFingersMaxROM(motionFrames: Array<{landmarks: HandLa
     }
   });
 
-  return { ...maxROMByFinger, temporalQuality };
+  return { ...maxROMByFinger, temporalQuality, validationProfile: profile.name };
 }
 
 // Wrist Radial/Ulnar Deviation Assessment
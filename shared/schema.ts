@@ -1,6 +1,11 @@
 import { pgTable, text, serial, integer, boolean, timestamp, jsonb, numeric, varchar, date } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { VALIDATION_PROFILE_NAMES } from "./rom-calculator";
+import { ELIGIBILITY_VALUE_FIELDS } from "./eligibility-criteria";
+import { QUESTIONNAIRE_IDS, QUESTIONNAIRE_FREQUENCIES } from "./questionnaires";
+import { NORMATIVE_JOINTS } from "./normative-ranges";
+import { CLINICAL_CHANGE_METRICS } from "./clinical-change";
 
 // Clinical users (clinicians, researchers, admins)
 export const clinicalUsers = pgTable("clinical_users", {
@@ -16,12 +21,28 @@ export const clinicalUsers = pgTable("clinical_users", {
   lastLoginAt: timestamp("last_login_at"),
 });
 
+// Clinical login sessions (refresh token store for signed access tokens)
+export const clinicalSessions = pgTable("clinical_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => clinicalUsers.id).notNull(),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(), // SHA-256 of the opaque refresh token
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastUsedAt: timestamp("last_used_at"),
+});
+
 // Cohort definitions for injury types
 export const cohorts = pgTable("cohorts", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
   description: text("description").notNull(),
-  normalRomRanges: jsonb("normal_rom_ranges"), // Population normal ROM values
+  normalRomRanges: jsonb("normal_rom_ranges"), // Normal ROM per joint, age group and sex; unset joints use the defaults (see normalRomRangesSchema)
+  visitProtocol: jsonb("visit_protocol"), // Study visit weeks and windows (see visitProtocolSchema)
+  validationProfile: text("validation_profile"), // ROM validation profile for the cohort's recordings (see VALIDATION_PROFILES)
+  eligibilityCriteria: jsonb("eligibility_criteria"), // Inclusion/exclusion rules checked at screening (see eligibilityCriteriaSchema)
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -39,7 +60,7 @@ export const patients = pgTable("patients", {
   ageGroup: text("age_group"), // "18-25", "26-35", "36-45", "46-55", "56-65", "66-75"
   sex: text("sex"), // "M", "F", "Other"
   handDominance: text("hand_dominance"), // "Left", "Right", "Ambidextrous"
-  occupationCategory: text("occupation_category"), // "Office Work", "Manual Labor", "Healthcare", "Education", "Retail", "Other"
+  occupationCategory: text("occupation_category"), // "Office Work", "Manual Labor", "Healthcare", "Education", "Retail", "Performing Arts", "Sports", "Other"
   
   // Surgery details (for study tracking)
   surgeryDate: timestamp("surgery_date"), // For post-op day calculations only
@@ -52,6 +73,7 @@ export const patients = pgTable("patients", {
   enrollmentStatus: text("enrollment_status").default("screening"), // screening, enrolled, excluded, withdrawn
   enrolledDate: timestamp("enrolled_date"),
   accessCode: text("access_code").unique(), // 6-digit code for patient access
+  accessCodeDeactivatedAt: timestamp("access_code_deactivated_at"), // Set on withdrawal; the patient portal rejects the code
   phone: text("phone"),
   dateOfBirth: date("date_of_birth"),
   gender: text("gender"),
@@ -118,9 +140,14 @@ export const patientAssessments = pgTable("patient_assessments", {
   maxWristFlexion: numeric("max_wrist_flexion", { precision: 5, scale: 2 }),
   maxWristExtension: numeric("max_wrist_extension", { precision: 5, scale: 2 }),
   
+  // Wrist radial/ulnar deviation
+  maxRadialDeviation: numeric("max_radial_deviation", { precision: 5, scale: 2 }),
+  maxUlnarDeviation: numeric("max_ulnar_deviation", { precision: 5, scale: 2 }),
+  
   // Overall progress metrics
   percentOfNormalRom: numeric("percent_of_normal_rom", { precision: 5, scale: 2 }),
-  changeFromBaseline: numeric("change_from_baseline", { precision: 5, scale: 2 }),
+  changeFromBaseline: numeric("change_from_baseline", { precision: 5, scale: 2 }), // Percent of normal ROM gained since the first assessment of this type
+  clinicalChange: jsonb("clinical_change"), // Per-metric change against baseline and the previous session, classified by MCID/MDC (see ClinicalChange)
   
   // Raw data storage
   rawData: jsonb("raw_data"),
@@ -133,6 +160,7 @@ export const patientAssessments = pgTable("patient_assessments", {
   quickDashScore: numeric("quick_dash_score", { precision: 5, scale: 2 }), // QuickDASH score
   missedVisit: boolean("missed_visit").default(false),
   retakeFlag: boolean("retake_flag").default(false), // If retaken due to low confidence
+  userAssessmentId: integer("user_assessment_id").references(() => userAssessments.id).unique(), // Patient portal recording this row was synced from; null for clinic-entered assessments
   
   isCompleted: boolean("is_completed").default(false),
   completedAt: timestamp("completed_at"),
@@ -143,7 +171,7 @@ export const outlierAlerts = pgTable("outlier_alerts", {
   id: serial("id").primaryKey(),
   patientId: integer("patient_id").references(() => patients.id).notNull(),
   cohortId: integer("cohort_id").references(() => cohorts.id).notNull(),
-  alertType: text("alert_type").notNull(), // "deviation_below_mean"
+  alertType: text("alert_type").notNull(), // "deviation_below_mean", "pain_spike"
   severity: text("severity").notNull(), // "warning", "critical"
   metric: text("metric").notNull(), // Which metric triggered the alert
   deviationValue: numeric("deviation_value", { precision: 5, scale: 2 }),
@@ -156,7 +184,7 @@ export const outlierAlerts = pgTable("outlier_alerts", {
 // Audit log for compliance
 export const auditLogs = pgTable("audit_logs", {
   id: serial("id").primaryKey(),
-  userId: integer("user_id").references(() => clinicalUsers.id).notNull(),
+  userId: integer("user_id").references(() => clinicalUsers.id), // null for patient and public actions (share links)
   action: text("action").notNull(), // "data_export", "permission_change", "patient_access"
   targetEntity: text("target_entity"), // "patient_id:123", "cohort_id:456"
   details: jsonb("details"),
@@ -177,6 +205,14 @@ export const dataExports = pgTable("data_exports", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Clinic-wide settings managed from the clinical settings page (one row per key)
+export const clinicalSettings = pgTable("clinical_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedBy: integer("updated_by").references(() => clinicalUsers.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Legacy tables for backward compatibility
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -200,6 +236,7 @@ export const assessments = pgTable("assessments", {
   instructions: text("instructions"),
   isActive: boolean("is_active").default(true),
   orderIndex: integer("order_index").notNull(),
+  validationProfile: text("validation_profile"), // Used when the patient's cohort does not set one
 });
 
 export const userAssessments = pgTable("user_assessments", {
@@ -234,8 +271,57 @@ export const userAssessments = pgTable("user_assessments", {
   wristExtensionAngle: numeric("wrist_extension_angle", { precision: 5, scale: 2 }),
   maxWristFlexion: numeric("max_wrist_flexion", { precision: 5, scale: 2 }),
   maxWristExtension: numeric("max_wrist_extension", { precision: 5, scale: 2 }),
+  maxRadialDeviation: numeric("max_radial_deviation", { precision: 5, scale: 2 }),
+  maxUlnarDeviation: numeric("max_ulnar_deviation", { precision: 5, scale: 2 }),
+  kapandjiScore: numeric("kapandji_score", { precision: 5, scale: 2 }), // Kapandji opposition score 0-10; also mirrored in totalActiveRom for older displays
   dashScore: numeric("dash_score", { precision: 5, scale: 2 }),
+  workModuleScore: numeric("work_module_score", { precision: 5, scale: 2 }), // QuickDASH optional modules
+  sportsArtsModuleScore: numeric("sports_arts_module_score", { precision: 5, scale: 2 }),
+  responses: jsonb("responses"), // Questionnaire answers keyed by item (see QUICKDASH_ITEMS)
+  vasScoreBefore: integer("vas_score_before"), // Pain VAS 0-10 reported before the motion recording
+  vasScoreAfter: integer("vas_score_after"), // Pain VAS 0-10 reported after the motion recording
+  retakeCount: integer("retake_count").default(0), // Recordings discarded by the quality gate before this one was saved
+  retakeReasons: jsonb("retake_reasons"), // Quality gate messages for each discarded recording
   shareToken: text("share_token").unique(),
+  algorithmVersion: text("algorithm_version"), // Scoring algorithm that produced the stored metrics; null = before versioning
+  validationProfile: text("validation_profile"), // ROM validation profile the metrics were scored under
+  clinicalChange: jsonb("clinical_change"), // Per-metric change against the first and previous session, classified by MCID/MDC (see ClinicalChange)
+});
+
+// Share links for a user assessment result; the token itself is only returned once at creation
+export const shareLinks = pgTable("share_links", {
+  id: serial("id").primaryKey(),
+  userAssessmentId: integer("user_assessment_id").references(() => userAssessments.id).notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the opaque share token
+  scope: text("scope").notNull().default("summary"), // "summary" (metrics only) or "replay" (adds motion frames)
+  pinHash: text("pin_hash"), // scrypt hash of the optional viewer PIN
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  maxViews: integer("max_views"),
+  viewCount: integer("view_count").default(0),
+  failedPinAttempts: integer("failed_pin_attempts").default(0),
+  lastViewedAt: timestamp("last_viewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Reference recordings of the patient's uninjured hand, scored like a user assessment. The
+// latest one per assessment is the "normal" that results on the injured side are compared to.
+export const contralateralBaselines = pgTable("contralateral_baselines", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  assessmentId: integer("assessment_id").notNull(),
+  handType: text("hand_type").notNull(), // "LEFT", "RIGHT" or "UNKNOWN" - the hand that was recorded
+  totalActiveRom: numeric("total_active_rom", { precision: 5, scale: 2 }),
+  kapandjiScore: numeric("kapandji_score", { precision: 5, scale: 2 }),
+  maxWristFlexion: numeric("max_wrist_flexion", { precision: 5, scale: 2 }),
+  maxWristExtension: numeric("max_wrist_extension", { precision: 5, scale: 2 }),
+  maxRadialDeviation: numeric("max_radial_deviation", { precision: 5, scale: 2 }),
+  maxUlnarDeviation: numeric("max_ulnar_deviation", { precision: 5, scale: 2 }),
+  qualityScore: integer("quality_score"),
+  repetitionData: jsonb("repetition_data"),
+  algorithmVersion: text("algorithm_version"),
+  validationProfile: text("validation_profile"),
+  recordedAt: timestamp("recorded_at").defaultNow(),
 });
 
 export const injuryTypes = pgTable("injury_types", {
@@ -286,6 +372,15 @@ export const insertClinicalUserSchema = createInsertSchema(clinicalUsers).omit({
   lastLoginAt: true,
 });
 
+export const insertClinicalSessionSchema = createInsertSchema(clinicalSessions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
 export const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
   password: z.string().min(1, "Password is required"),
@@ -309,6 +404,7 @@ export const insertPatientAssessmentSchema = createInsertSchema(patientAssessmen
   id: true,
   assessmentDate: true,
   completedAt: true,
+  userAssessmentId: true,
 });
 
 export const insertOutlierAlertSchema = createInsertSchema(outlierAlerts).omit({
@@ -327,6 +423,79 @@ export const insertDataExportSchema = createInsertSchema(dataExports).omit({
   createdAt: true,
 });
 
+export const exportFormatSchema = z.enum(['csv', 'ndjson']);
+
+// Per-metric overrides of the default MCID/MDC thresholds (see CLINICAL_CHANGE_METRIC_SPECS)
+export const clinicalChangeThresholdsSchema = z.record(
+  z.enum(CLINICAL_CHANGE_METRICS),
+  z.object({
+    mcid: z.number().min(0).optional(),
+    mdc: z.number().min(0).optional(),
+  })
+);
+
+export type ClinicalChangeThresholds = z.infer<typeof clinicalChangeThresholdsSchema>;
+
+export const clinicalSettingsSchema = z.object({
+  // System Settings
+  sessionTimeout: z.string().default('120'),
+  autoLogout: z.boolean().default(true),
+  dataRetention: z.string().default('7'),
+  backupFrequency: z.string().default('daily'),
+  
+  // Study Settings
+  assessmentReminders: z.boolean().default(true),
+  completionNotifications: z.boolean().default(true),
+  outlierAlerts: z.boolean().default(true),
+  criticalThreshold: z.string().default('15'),
+  clinicalChangeThresholds: clinicalChangeThresholdsSchema.default({}),
+  
+  // Export Settings
+  exportFormat: exportFormatSchema.default('csv'),
+  includeRawData: z.boolean().default(false),
+  deidentifyExports: z.boolean().default(true),
+  
+  // Notification Settings
+  emailNotifications: z.boolean().default(true),
+  smsAlerts: z.boolean().default(false),
+  alertFrequency: z.string().default('immediate'),
+});
+
+export const dataExportFiltersSchema = z.object({
+  cohortId: z.coerce.number().nullable().optional(),
+  patientId: z.coerce.number().nullable().optional(),
+  dateFrom: z.coerce.date().nullable().optional(),
+  dateTo: z.coerce.date().nullable().optional(),
+  format: exportFormatSchema.optional(),
+  deidentify: z.boolean().optional(),
+  includeRawData: z.boolean().optional(),
+});
+
+// Query string filters shared by the study-wide listing endpoints
+export const studyDataFiltersSchema = z.object({
+  cohortId: z.coerce.number().int().optional(),
+  clinicianId: z.coerce.number().int().optional(),
+  patientId: z.coerce.number().int().optional(),
+  dateFrom: z.coerce.date().optional(),
+  dateTo: z.coerce.date().optional(),
+  studyWeek: z.coerce.number().int().min(0).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+export const validationProfileSchema = z.object({
+  validationProfile: z.enum(VALIDATION_PROFILE_NAMES).nullable(),
+});
+
+// Admin re-scoring of stored recordings; without apply the run only reports the differences
+export const rescoreRequestSchema = z.object({
+  userAssessmentIds: z.array(z.number().int()).optional(),
+  userId: z.number().int().optional(),
+  assessmentId: z.number().int().optional(),
+  onlyOutdated: z.boolean().default(true),
+  apply: z.boolean().default(false),
+});
+
 export const insertDailyCompletionSchema = createInsertSchema(dailyCompletions).omit({
   id: true,
   createdAt: true,
@@ -362,7 +531,55 @@ export const quickDashResponses = pgTable("quick_dash_responses", {
   q10_weakness_arm_shoulder_hand: integer("q10_weakness_arm_shoulder_hand"),
   q11_stiffness_arm_shoulder_hand: integer("q11_stiffness_arm_shoulder_hand"),
   
+  // Optional Work module (scored 1-5), given by occupation category
+  work1_usual_technique: integer("work1_usual_technique"),
+  work2_pain_usual_work: integer("work2_pain_usual_work"),
+  work3_as_well_as_like: integer("work3_as_well_as_like"),
+  work4_usual_time: integer("work4_usual_time"),
+  
+  // Optional Sports/Performing Arts module (scored 1-5)
+  sports1_usual_technique: integer("sports1_usual_technique"),
+  sports2_pain_playing: integer("sports2_pain_playing"),
+  sports3_as_well_as_like: integer("sports3_as_well_as_like"),
+  sports4_usual_time: integer("sports4_usual_time"),
+  
   totalScore: numeric("total_score", { precision: 5, scale: 2 }),
+  workModuleScore: numeric("work_module_score", { precision: 5, scale: 2 }),
+  sportsArtsModuleScore: numeric("sports_arts_module_score", { precision: 5, scale: 2 }),
+  completedAt: timestamp("completed_at").defaultNow(),
+});
+
+// Enrollment status history, one row per lifecycle transition
+export const enrollmentEvents = pgTable("enrollment_events", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").references(() => patients.id).notNull(),
+  cohortId: integer("cohort_id").references(() => cohorts.id),
+  fromStatus: text("from_status"), // null for the event recorded when the patient is created
+  toStatus: text("to_status").notNull(), // "screening", "enrolled", "excluded", "withdrawn"
+  reason: text("reason"), // Required for exclusion and withdrawal
+  performedBy: integer("performed_by").references(() => clinicalUsers.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Questionnaires (PRWE, BCTQ) assigned by injury type, like assessmentSchedules for motion assessments
+export const questionnaireSchedules = pgTable("questionnaire_schedules", {
+  id: serial("id").primaryKey(),
+  injuryType: text("injury_type").notNull(),
+  questionnaireId: text("questionnaire_id").notNull(), // "prwe", "bctq"
+  frequency: text("frequency").notNull().default("weekly"), // "daily", "weekly", "biweekly"
+  isActive: boolean("is_active").default(true),
+});
+
+// Scored questionnaire submissions; answers are keyed by item, scores by section
+export const questionnaireResponses = pgTable("questionnaire_responses", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  patientId: integer("patient_id").references(() => patients.id), // Linked study patient, when there is one
+  questionnaireId: text("questionnaire_id").notNull(),
+  answers: jsonb("answers").notNull(),
+  scores: jsonb("scores").notNull(),
+  totalScore: numeric("total_score", { precision: 5, scale: 2 }),
+  postOpDay: integer("post_op_day"),
   completedAt: timestamp("completed_at").defaultNow(),
 });
 
@@ -374,7 +591,7 @@ export const studyVisits = pgTable("study_visits", {
   scheduledDate: timestamp("scheduled_date").notNull(),
   windowStart: timestamp("window_start").notNull(),
   windowEnd: timestamp("window_end").notNull(),
-  visitStatus: text("visit_status").notNull().default("scheduled"),
+  visitStatus: text("visit_status").notNull().default("scheduled"), // "scheduled", "completed", "missed", "out_of_window"
   completedAt: timestamp("completed_at"),
   assessmentId: integer("assessment_id").references(() => patientAssessments.id),
   reminderSent: boolean("reminder_sent").default(false),
@@ -386,11 +603,98 @@ export const insertQuickDashResponseSchema = createInsertSchema(quickDashRespons
   completedAt: true,
 });
 
+export const insertEnrollmentEventSchema = createInsertSchema(enrollmentEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertQuestionnaireScheduleSchema = createInsertSchema(questionnaireSchedules, {
+  questionnaireId: z.enum(QUESTIONNAIRE_IDS),
+  frequency: z.enum(QUESTIONNAIRE_FREQUENCIES),
+}).omit({
+  id: true,
+});
+
+export const insertQuestionnaireResponseSchema = createInsertSchema(questionnaireResponses).omit({
+  id: true,
+  completedAt: true,
+});
+
 export const insertStudyVisitSchema = createInsertSchema(studyVisits).omit({
   id: true,
   createdAt: true,
 });
 
+// Per-cohort study visit protocol: post-op weeks to schedule and the days either side counted as in-window
+export const visitProtocolSchema = z.object({
+  visits: z.array(z.object({
+    week: z.number().int().min(0),
+    windowDaysBefore: z.number().int().min(0).default(2),
+    windowDaysAfter: z.number().int().min(0).default(2),
+  })).min(1),
+});
+
+export type VisitProtocol = z.infer<typeof visitProtocolSchema>;
+
+// Per-cohort screening rules: categorical rules list patient values to include or exclude,
+// the days-since-surgery rule a range of whole days
+const eligibilityRuleTypeSchema = z.enum(['inclusion', 'exclusion']);
+
+export const eligibilityRuleSchema = z.union([
+  z.object({
+    type: eligibilityRuleTypeSchema,
+    field: z.enum(ELIGIBILITY_VALUE_FIELDS),
+    values: z.array(z.string().trim().min(1)).min(1),
+  }),
+  z.object({
+    type: eligibilityRuleTypeSchema,
+    field: z.literal('daysSinceSurgery'),
+    min: z.number().int().min(0).optional(),
+    max: z.number().int().min(0).optional(),
+  }).refine(rule => rule.min !== undefined || rule.max !== undefined, "A days since surgery rule needs a min or max")
+    .refine(rule => rule.min === undefined || rule.max === undefined || rule.min <= rule.max, "min must not exceed max"),
+]);
+
+export const eligibilityCriteriaSchema = z.object({
+  rules: z.array(eligibilityRuleSchema),
+});
+
+export type EligibilityRule = z.infer<typeof eligibilityRuleSchema>;
+export type EligibilityCriteria = z.infer<typeof eligibilityCriteriaSchema>;
+
+// Per-cohort normal ROM: each range replaces the default for one joint, optionally only for
+// patients of one age group and/or sex (see resolveNormativeReference)
+export const normalRomRangeSchema = z.object({
+  joint: z.enum(NORMATIVE_JOINTS),
+  ageGroup: z.string().trim().min(1).optional(),
+  sex: z.string().trim().min(1).optional(),
+  normal: z.number().positive(),
+  functional: z.number().min(0),
+  minimum: z.number().min(0),
+}).refine(range => range.minimum <= range.functional && range.functional <= range.normal, "Ranges need minimum <= functional <= normal");
+
+export const normalRomRangesSchema = z.object({
+  ranges: z.array(normalRomRangeSchema),
+});
+
+export type NormalRomRange = z.infer<typeof normalRomRangeSchema>;
+export type NormalRomRanges = z.infer<typeof normalRomRangesSchema>;
+
+export type InsertQuickDashResponse = z.infer<typeof insertQuickDashResponseSchema>;
+export type QuickDashResponse = typeof quickDashResponses.$inferSelect;
+
+export type InsertStudyVisit = z.infer<typeof insertStudyVisitSchema>;
+export type StudyVisit = typeof studyVisits.$inferSelect;
+
+export type InsertEnrollmentEvent = z.infer<typeof insertEnrollmentEventSchema>;
+export type EnrollmentEvent = typeof enrollmentEvents.$inferSelect;
+
+export type InsertQuestionnaireSchedule = z.infer<typeof insertQuestionnaireScheduleSchema>;
+export type QuestionnaireSchedule = typeof questionnaireSchedules.$inferSelect;
+
+export type InsertQuestionnaireResponse = z.infer<typeof insertQuestionnaireResponseSchema>;
+export type QuestionnaireResponse = typeof questionnaireResponses.$inferSelect;
+
 // Legacy schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   code: true,
@@ -405,6 +709,25 @@ export const insertUserAssessmentSchema = createInsertSchema(userAssessments).om
   id: true,
 });
 
+export const insertShareLinkSchema = createInsertSchema(shareLinks).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertContralateralBaselineSchema = createInsertSchema(contralateralBaselines).omit({
+  id: true,
+  recordedAt: true,
+});
+
+export const shareScopeSchema = z.enum(['summary', 'replay']);
+
+export const createShareLinkSchema = z.object({
+  scope: shareScopeSchema.default('summary'),
+  expiresInDays: z.number().int().min(1).max(90).default(7),
+  pin: z.string().regex(/^\d{4,8}$/, "PIN must be 4-8 digits").optional(),
+  maxViews: z.number().int().min(1).max(1000).optional(),
+});
+
 export const insertInjuryTypeSchema = createInsertSchema(injuryTypes).omit({
   id: true,
 });
@@ -414,6 +737,9 @@ export type InsertClinicalUser = z.infer<typeof insertClinicalUserSchema>;
 export type ClinicalUser = typeof clinicalUsers.$inferSelect;
 export type LoginRequest = z.infer<typeof loginSchema>;
 
+export type InsertClinicalSession = z.infer<typeof insertClinicalSessionSchema>;
+export type ClinicalSession = typeof clinicalSessions.$inferSelect;
+
 export type InsertCohort = z.infer<typeof insertCohortSchema>;
 export type Cohort = typeof cohorts.$inferSelect;
 
@@ -434,6 +760,13 @@ export type AuditLog = typeof auditLogs.$inferSelect;
 
 export type InsertDataExport = z.infer<typeof insertDataExportSchema>;
 export type DataExport = typeof dataExports.$inferSelect;
+export type DataExportFilters = z.infer<typeof dataExportFiltersSchema>;
+export type ExportFormat = z.infer<typeof exportFormatSchema>;
+
+export type ClinicalSettings = z.infer<typeof clinicalSettingsSchema>;
+export type ClinicalSettingRow = typeof clinicalSettings.$inferSelect;
+export type StudyDataFilters = z.infer<typeof studyDataFiltersSchema>;
+export type RescoreRequest = z.infer<typeof rescoreRequestSchema>;
 
 // Enrollment specific schemas
 export const enrollmentEligibilitySchema = z.object({
@@ -442,15 +775,30 @@ export const enrollmentEligibilitySchema = z.object({
   eligibilityNotes: z.string().optional(),
 });
 
+export const enrollmentStatusSchema = z.enum(['screening', 'enrolled', 'excluded', 'withdrawn']);
+
 export const patientEnrollmentSchema = z.object({
   patientId: z.number(),
   cohortId: z.number(),
-  enrollmentStatus: z.enum(['screening', 'enrolled', 'excluded', 'withdrawn']),
+  enrollmentStatus: enrollmentStatusSchema,
+  reason: z.string().trim().min(1).optional(), // Required when excluding or withdrawing
   eligibilityNotes: z.string().optional(),
 });
 
+// Screening details checked against a cohort's criteria before the patient record exists
+export const eligibilityScreeningSchema = z.object({
+  ageGroup: z.string().nullish(),
+  injuryType: z.string().nullish(),
+  laterality: z.string().nullish(),
+  handDominance: z.string().nullish(),
+  procedureCode: z.string().nullish(),
+  surgeryDate: z.coerce.date().nullish(),
+});
+
 export type EnrollmentEligibility = z.infer<typeof enrollmentEligibilitySchema>;
 export type PatientEnrollment = z.infer<typeof patientEnrollmentSchema>;
+export type EnrollmentStatus = z.infer<typeof enrollmentStatusSchema>;
+export type EligibilityScreening = z.infer<typeof eligibilityScreeningSchema>;
 
 // Legacy types
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -462,6 +810,14 @@ export type Assessment = typeof assessments.$inferSelect;
 export type InsertUserAssessment = z.infer<typeof insertUserAssessmentSchema>;
 export type UserAssessment = typeof userAssessments.$inferSelect;
 
+export type InsertShareLink = z.infer<typeof insertShareLinkSchema>;
+export type ShareLink = typeof shareLinks.$inferSelect;
+export type InsertContralateralBaseline = z.infer<typeof insertContralateralBaselineSchema>;
+export type ContralateralBaseline = typeof contralateralBaselines.$inferSelect;
+export type ShareScope = z.infer<typeof shareScopeSchema>;
+export type CreateShareLinkRequest = z.infer<typeof createShareLinkSchema>;
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked' | 'exhausted';
+
 export type InsertInjuryType = z.infer<typeof insertInjuryTypeSchema>;
 export type InjuryType = typeof injuryTypes.$inferSelect;
 
@@ -481,8 +837,95 @@ export type CohortAnalytics = {
   avgKapandjiScore: number;
   avgWristFlexion: number;
   avgWristExtension: number;
+  avgRadialDeviation: number;
+  avgUlnarDeviation: number;
   stdDevTamScore: number;
   stdDevKapandjiScore: number;
   stdDevWristFlexion: number;
   stdDevWristExtension: number;
+  stdDevRadialDeviation: number;
+  stdDevUlnarDeviation: number;
+};
+
+export type RescoreMetricChange = {
+  metric: string;
+  previous: number | null;
+  current: number | null;
+};
+
+export type RescoreResult = {
+  userAssessmentId: number;
+  userId: number;
+  assessmentName: string;
+  previousVersion: string | null;
+  changes: RescoreMetricChange[];
+  applied: boolean;
+  skippedReason?: string;
+};
+
+export type PaginatedResult<T> = {
+  data: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+};
+
+export type OutcomeMetrics = {
+  assessmentDate: Date | null;
+  studyWeek: number | null;
+  tamScore: number | null;
+  kapandjiScore: number | null;
+  wristFlexionAngle: number | null;
+  wristExtensionAngle: number | null;
+  maxRadialDeviation: number | null;
+  maxUlnarDeviation: number | null;
+  percentOfNormalRom: number | null;
+  vasScore: number | null;
+  quickDashScore: number | null;
+};
+
+// Baseline vs most recent assessment for one study patient
+export type PatientOutcome = {
+  patientId: number;
+  cohortId: number | null;
+  ageGroup: string | null;
+  sex: string | null;
+  handDominance: string | null;
+  occupationCategory: string | null;
+  injuryType: string | null;
+  assessmentCount: number;
+  baseline: OutcomeMetrics;
+  latest: OutcomeMetrics;
+};
+
+// Patient dashboard rows; progress comes from the legacy user linked by access code
+export type PatientDashboardEntry = {
+  id: number;
+  patientId: string;
+  alias: string;
+  injuryType: string | null;
+  enrolledDate: Date | null;
+  accessCode: string | null;
+  daysSinceEnrollment: number;
+  assessmentsCompleted: number;
+  totalAssessments: number;
+  lastAssessmentDate: Date | null;
+  lastAssessmentType: string | null;
+  status: 'New' | 'Active' | 'Complete' | 'Overdue';
+};
+
+export type DashboardMetrics = {
+  totalPatients: number;
+  activePatients: number;
+  completedPatients: number;
+  overduePatients: number;
+};
+
+export type PatientAssessmentHistoryEntry = {
+  id: number;
+  name: string;
+  completedAt: Date | null;
+  score: number | null;
+  notes: string | null;
 };
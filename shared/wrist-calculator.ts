@@ -1,3 +1,5 @@
+import { DEFAULT_NORMATIVE_REFERENCE, romStatus, type NormativeReference, type RomStatus } from './normative-ranges';
+
 export interface WristAngles {
   flexionAngle: number;
   extensionAngle: number;
@@ -208,46 +210,23 @@ export function calculateMaxWristROM(motionFrames: Array<{
   };
 }
 
-// Clinical reference values for wrist ROM
+// Population reference values for wrist ROM; cohorts can override them (see normative-ranges)
 export const WRIST_ROM_NORMS = {
-  flexion: {
-    normal: 80,
-    functional: 60,
-    minimum: 30
-  },
-  extension: {
-    normal: 70,
-    functional: 50,
-    minimum: 20
-  },
-  total: {
-    normal: 150,
-    functional: 110,
-    minimum: 50
-  }
+  flexion: DEFAULT_NORMATIVE_REFERENCE.wristFlexion,
+  extension: DEFAULT_NORMATIVE_REFERENCE.wristExtension,
+  total: DEFAULT_NORMATIVE_REFERENCE.wristTotal
 };
 
-// Assess wrist ROM against clinical norms
-export function assessWristROM(angles: WristAngles): {
-  flexionStatus: 'normal' | 'functional' | 'limited' | 'severely limited';
-  extensionStatus: 'normal' | 'functional' | 'limited' | 'severely limited';
-  overallStatus: 'normal' | 'functional' | 'limited' | 'severely limited';
+// Assess wrist ROM against the patient's normative reference
+export function assessWristROM(angles: WristAngles, reference: NormativeReference = DEFAULT_NORMATIVE_REFERENCE): {
+  flexionStatus: RomStatus;
+  extensionStatus: RomStatus;
+  overallStatus: RomStatus;
   recommendations: string[];
 } {
-  const flexionStatus = 
-    angles.maxFlexion >= WRIST_ROM_NORMS.flexion.normal ? 'normal' :
-    angles.maxFlexion >= WRIST_ROM_NORMS.flexion.functional ? 'functional' :
-    angles.maxFlexion >= WRIST_ROM_NORMS.flexion.minimum ? 'limited' : 'severely limited';
-  
-  const extensionStatus =
-    angles.maxExtension >= WRIST_ROM_NORMS.extension.normal ? 'normal' :
-    angles.maxExtension >= WRIST_ROM_NORMS.extension.functional ? 'functional' :
-    angles.maxExtension >= WRIST_ROM_NORMS.extension.minimum ? 'limited' : 'severely limited';
-  
-  const overallStatus =
-    angles.totalWristRom >= WRIST_ROM_NORMS.total.normal ? 'normal' :
-    angles.totalWristRom >= WRIST_ROM_NORMS.total.functional ? 'functional' :
-    angles.totalWristRom >= WRIST_ROM_NORMS.total.minimum ? 'limited' : 'severely limited';
+  const flexionStatus = romStatus(angles.maxFlexion, reference.wristFlexion);
+  const extensionStatus = romStatus(angles.maxExtension, reference.wristExtension);
+  const overallStatus = romStatus(angles.totalWristRom, reference.wristTotal);
   
   const recommendations: string[] = [];
   
@@ -6,6 +6,7 @@
  */
 
 import { calculateWristDeviation } from './rom-calculator';
+import { DEFAULT_NORMATIVE_REFERENCE, percentOfNormal, romStatus, type NormativeReference } from './normative-ranges';
 
 export interface WristDeviationResultsData {
   maxRadialDeviation: number;
@@ -150,18 +151,23 @@ export function calculateWristDeviationResults(userAssessment: any): WristDeviat
 
 /**
  * Get clinical interpretation based on deviation results
+ * Normal when every direction reaches its functional range, moderate when every one reaches its minimum
  */
-export function getDeviationClinicalInterpretation(results: WristDeviationResultsData) {
+export function getDeviationClinicalInterpretation(results: WristDeviationResultsData, reference: NormativeReference = DEFAULT_NORMATIVE_REFERENCE) {
   const { maxRadialDeviation, maxUlnarDeviation, totalDeviationROM } = results;
+  const statuses = [
+    romStatus(maxRadialDeviation, reference.radialDeviation),
+    romStatus(maxUlnarDeviation, reference.ulnarDeviation),
+    romStatus(totalDeviationROM, reference.deviationTotal)
+  ];
   
-  // AMA normal ranges: Radial 20°, Ulnar 30°, Total ~50°
-  if (maxRadialDeviation >= 18 && maxUlnarDeviation >= 25 && totalDeviationROM >= 45) {
+  if (statuses.every(status => status === 'normal' || status === 'functional')) {
     return { 
       status: "Normal", 
       color: "text-green-600", 
       description: "Excellent wrist deviation mobility" 
     };
-  } else if (maxRadialDeviation >= 12 && maxUlnarDeviation >= 18 && totalDeviationROM >= 30) {
+  } else if (statuses.every(status => status !== 'severely limited')) {
     return { 
       status: "Moderate", 
       color: "text-yellow-600", 
@@ -179,15 +185,14 @@ export function getDeviationClinicalInterpretation(results: WristDeviationResult
 /**
  * Calculate percentage of normal range for each deviation direction
  */
-export function getDeviationPercentages(results: WristDeviationResultsData) {
+export function getDeviationPercentages(results: WristDeviationResultsData, reference: NormativeReference = DEFAULT_NORMATIVE_REFERENCE) {
   const { maxRadialDeviation, maxUlnarDeviation } = results;
   
-  // Normal ranges based on AMA standards
-  const normalRadial = 20; // degrees
-  const normalUlnar = 30; // degrees
+  const normalRadial = reference.radialDeviation.normal; // degrees
+  const normalUlnar = reference.ulnarDeviation.normal; // degrees
   
-  const radialPercentage = (maxRadialDeviation / normalRadial) * 100;
-  const ulnarPercentage = (maxUlnarDeviation / normalUlnar) * 100;
+  const radialPercentage = percentOfNormal(maxRadialDeviation, reference.radialDeviation);
+  const ulnarPercentage = percentOfNormal(maxUlnarDeviation, reference.ulnarDeviation);
   
   return {
     radialPercentage: Math.min(radialPercentage, 150), // Cap at 150% for display
@@ -2,6 +2,8 @@
 // This module ensures consistent wrist angle calculations across all pages
 
 import { calculateWristAngleByHandType } from './elbow-wrist-calculator';
+import { assessWristROM } from './wrist-calculator';
+import { DEFAULT_NORMATIVE_REFERENCE, percentOfNormal, type NormativeReference } from './normative-ranges';
 
 export interface WristResultsData {
   maxFlexion: number;
@@ -113,13 +115,19 @@ export function calculateWristResults(userAssessment: any): WristResultsData {
 
 /**
  * Get clinical interpretation based on calculated results
+ * Normal when both directions reach the functional range, limited when neither reaches the minimum
  */
-export function getWristClinicalInterpretation(results: WristResultsData) {
-  const { maxFlexion, maxExtension } = results;
+export function getWristClinicalInterpretation(results: WristResultsData, reference: NormativeReference = DEFAULT_NORMATIVE_REFERENCE) {
+  const { maxFlexion, maxExtension, totalROM } = results;
+  const { flexionStatus, extensionStatus } = assessWristROM(
+    { flexionAngle: 0, extensionAngle: 0, maxFlexion, maxExtension, totalWristRom: totalROM },
+    reference
+  );
+  const withinFunctional = (status: string) => status === 'normal' || status === 'functional';
   
-  if (maxFlexion >= 60 && maxExtension >= 50) {
+  if (withinFunctional(flexionStatus) && withinFunctional(extensionStatus)) {
     return { status: "Normal", color: "text-green-600", description: "Excellent wrist mobility" };
-  } else if (maxFlexion >= 40 || maxExtension >= 30) {
+  } else if (flexionStatus !== 'severely limited' || extensionStatus !== 'severely limited') {
     return { status: "Moderate", color: "text-yellow-600", description: "Some limitation present" };
   } else {
     return { status: "Limited", color: "text-red-600", description: "Significant mobility restriction" };
@@ -127,11 +135,11 @@ export function getWristClinicalInterpretation(results: WristResultsData) {
 }
 
 /**
- * Get percentage values for progress bars
+ * Get percentage of normal values for progress bars
  */
-export function getWristPercentages(results: WristResultsData) {
-  const flexionPercentage = Math.min((results.maxFlexion / 80) * 100, 100);
-  const extensionPercentage = Math.min((results.maxExtension / 70) * 100, 100);
+export function getWristPercentages(results: WristResultsData, reference: NormativeReference = DEFAULT_NORMATIVE_REFERENCE) {
+  const flexionPercentage = Math.min(percentOfNormal(results.maxFlexion, reference.wristFlexion), 100);
+  const extensionPercentage = Math.min(percentOfNormal(results.maxExtension, reference.wristExtension), 100);
   
   return { flexionPercentage, extensionPercentage };
 }
\ No newline at end of file